@@ -0,0 +1,241 @@
+#!/usr/bin/env node
+
+/**
+ * Generates the JSON Schemas for SecurityConfig and SchedulingConfig from
+ * src/types.ts. Run after changing either interface:
+ *
+ *   node scripts/generate-config-schemas.js          # write the schemas
+ *   node scripts/generate-config-schemas.js --check  # fail if out of date
+ */
+
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+const TYPES_PATH = path.join(__dirname, "../src/types.ts");
+const SCHEMAS_DIR = path.join(__dirname, "../src/schemas");
+
+const CONFIG_SCHEMAS = [
+  {
+    typeName: "SecurityConfig",
+    fileName: "security-config.schema.json",
+    id: "urn:eai-security-check:security-config",
+    title: "EAI Security Check Security Configuration",
+    description:
+      "Security policy checked by the CLI, daemon and desktop app. Generated from SecurityConfig in src/types.ts",
+  },
+  {
+    typeName: "SchedulingConfig",
+    fileName: "scheduling-config.schema.json",
+    id: "urn:eai-security-check:scheduling-config",
+    title: "EAI Security Check Scheduling Configuration",
+    description:
+      "Daemon schedule and report delivery settings. Generated from SchedulingConfig in src/types.ts",
+  },
+];
+
+/**
+ * Build every config schema from the TypeScript source
+ */
+function generateConfigSchemas(typesPath = TYPES_PATH) {
+  const source = ts.createSourceFile(
+    typesPath,
+    fs.readFileSync(typesPath, "utf8"),
+    ts.ScriptTarget.ES2020,
+    true,
+  );
+  const declarations = new Map();
+  for (const statement of source.statements) {
+    if (
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement)
+    ) {
+      declarations.set(statement.name.text, statement);
+    }
+  }
+
+  const schemas = {};
+  for (const { typeName, fileName, id, title, description } of CONFIG_SCHEMAS) {
+    const declaration = declarations.get(typeName);
+    if (!declaration) {
+      throw new Error(`${typeName} not found in ${typesPath}`);
+    }
+
+    const body = membersToSchema(declaration.members, source, declarations);
+    schemas[fileName] = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      $id: id,
+      title,
+      description,
+      ...body,
+      // Lets editors pick up the schema from the file itself
+      properties: { $schema: { type: "string" }, ...body.properties },
+    };
+  }
+
+  return schemas;
+}
+
+function membersToSchema(members, source, declarations) {
+  const properties = {};
+  const required = [];
+
+  for (const member of members) {
+    if (!ts.isPropertySignature(member) || !member.type) {
+      continue;
+    }
+
+    const name = member.name.getText(source).replace(/^["']|["']$/g, "");
+    const schema = typeToSchema(member.type, source, declarations);
+    const description = getDescription(member, source);
+    properties[name] = description ? { description, ...schema } : schema;
+    if (!member.questionToken) {
+      required.push(name);
+    }
+  }
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false,
+  };
+}
+
+function typeToSchema(node, source, declarations) {
+  switch (node.kind) {
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: "boolean" };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: "number" };
+    case ts.SyntaxKind.StringKeyword:
+      return { type: "string" };
+    case ts.SyntaxKind.AnyKeyword:
+    case ts.SyntaxKind.UnknownKeyword:
+      return {};
+  }
+
+  if (ts.isArrayTypeNode(node)) {
+    return {
+      type: "array",
+      items: typeToSchema(node.elementType, source, declarations),
+    };
+  }
+  if (ts.isTypeLiteralNode(node)) {
+    return membersToSchema(node.members, source, declarations);
+  }
+  if (ts.isLiteralTypeNode(node) && ts.isStringLiteral(node.literal)) {
+    return { type: "string", enum: [node.literal.text] };
+  }
+  if (ts.isParenthesizedTypeNode(node)) {
+    return typeToSchema(node.type, source, declarations);
+  }
+  if (ts.isUnionTypeNode(node)) {
+    const literals = node.types.map((type) =>
+      ts.isLiteralTypeNode(type) && ts.isStringLiteral(type.literal)
+        ? type.literal.text
+        : undefined,
+    );
+    if (literals.every((literal) => literal !== undefined)) {
+      return { type: "string", enum: literals };
+    }
+    return {
+      anyOf: node.types.map((type) => typeToSchema(type, source, declarations)),
+    };
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText(source);
+    if (name === "Record" && node.typeArguments?.length === 2) {
+      return {
+        type: "object",
+        additionalProperties: typeToSchema(
+          node.typeArguments[1],
+          source,
+          declarations,
+        ),
+      };
+    }
+    if (name === "Array" && node.typeArguments?.length === 1) {
+      return {
+        type: "array",
+        items: typeToSchema(node.typeArguments[0], source, declarations),
+      };
+    }
+
+    const declaration = declarations.get(name);
+    if (declaration && ts.isInterfaceDeclaration(declaration)) {
+      return membersToSchema(declaration.members, source, declarations);
+    }
+    if (declaration && ts.isTypeAliasDeclaration(declaration)) {
+      return typeToSchema(declaration.type, source, declarations);
+    }
+  }
+
+  throw new Error(
+    `Unsupported type in config schema: ${node.getText(source)} (${ts.SyntaxKind[node.kind]})`,
+  );
+}
+
+/**
+ * Use the `//` comment after a property, or the ones directly above it
+ */
+function getDescription(member, source) {
+  const text = source.getFullText();
+  const lineEnd = text.indexOf("\n", member.end);
+  const trailing = (ts.getTrailingCommentRanges(text, member.end) ?? []).filter(
+    (range) => lineEnd === -1 || range.pos < lineEnd,
+  );
+  // Skip the trailing comment of the previous property on the same line
+  const leading = (ts.getLeadingCommentRanges(text, member.pos) ?? []).filter(
+    (range) => text.slice(member.pos, range.pos).includes("\n"),
+  );
+  const ranges = trailing.length > 0 ? trailing : leading;
+
+  const comment = ranges
+    .map((range) =>
+      text
+        .slice(range.pos, range.end)
+        .replace(/^\/\/\s?|^\/\*+\s?|\s*\*\/$/g, "")
+        .replace(/^\s*\*\s?/gm, "")
+        .trim(),
+    )
+    .join(" ")
+    .trim();
+
+  return comment || undefined;
+}
+
+function main() {
+  const checkOnly = process.argv.includes("--check");
+  const schemas = generateConfigSchemas();
+  let outdated = false;
+
+  for (const [fileName, schema] of Object.entries(schemas)) {
+    const filePath = path.join(SCHEMAS_DIR, fileName);
+    const content = `${JSON.stringify(schema, null, 2)}\n`;
+    const current = fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, "utf8")
+      : "";
+
+    if (current === content) {
+      console.log(`✅ ${fileName} is up to date`);
+    } else if (checkOnly) {
+      console.error(`❌ ${fileName} is out of date`);
+      outdated = true;
+    } else {
+      fs.writeFileSync(filePath, content);
+      console.log(`📝 Wrote ${fileName}`);
+    }
+  }
+
+  if (outdated) {
+    console.error("Run: node scripts/generate-config-schemas.js");
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { generateConfigSchemas, CONFIG_SCHEMAS };
@@ -699,6 +699,9 @@ class EAISecurityCheckMCPServer {
       );
       const scriptContent = `
         const { SecurityAuditor } = require('./dist/services/auditor');
+        const { JsonReportUtils } = require('./dist/utils/json-report');
+        const { WaiverUtils } = require('./dist/utils/waiver-utils');
+        const { loadSecurityConfigFile } = require('./dist/config/config-resolver');
         const fs = require('fs');
         const path = require('path');
         
@@ -706,15 +709,24 @@ class EAISecurityCheckMCPServer {
           try {
             // Load config from file
             const configPath = '${configPath}';
-            const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+            const config = loadSecurityConfigFile(configPath);
             
             // Create auditor and run check
-            const auditor = new SecurityAuditor();
+            const auditor = new SecurityAuditor().useWaivers(
+              WaiverUtils.loadWaivers(WaiverUtils.getWaiversPath()),
+            );
             const result = await auditor.auditSecurity(config);
+            const versionInfo = await auditor.checkVersionCompatibility();
+            const report = JsonReportUtils.buildReport(result, {
+              platform: versionInfo.platform,
+              platformVersion: versionInfo.currentVersion,
+              distribution: versionInfo.distribution,
+              profile: '${profile}',
+            });
             
             // Save to reports directory
             const reportPath = '${reportPath}';
-            fs.writeFileSync(reportPath, JSON.stringify(result, null, 2));
+            fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
             
             console.log(JSON.stringify({ 
               success: true, 
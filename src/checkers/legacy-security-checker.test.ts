@@ -53,6 +53,11 @@ describe("LegacyMacOSSecurityChecker", () => {
       expect(result).toBe(false);
     });
 
+    it("should report no products for checkEndpointProtection", async () => {
+      const result = await checker.checkEndpointProtection();
+      expect(result).toEqual([]);
+    });
+
     it("should return false for checkRemoteLogin", async () => {
       const result = await checker.checkRemoteLogin();
       expect(result).toBe(false);
@@ -38,6 +38,17 @@ export class LegacyMacOSSecurityChecker extends MacOSSecurityChecker {
     return false;
   }
 
+  async checkEndpointProtection(): Promise<
+    {
+      name: string;
+      running: boolean;
+      signatureVersion?: string;
+      signaturesUpdated?: string | null;
+    }[]
+  > {
+    return [];
+  }
+
   async checkRemoteLogin(): Promise<boolean> {
     return false;
   }
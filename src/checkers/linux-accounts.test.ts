@@ -0,0 +1,102 @@
+import {
+  findPasswordlessSudoRules,
+  groupMembers,
+  parseGroup,
+  parsePasswd,
+} from "./linux-accounts";
+
+const PASSWD = `root:x:0:0:root:/root:/bin/bash
+daemon:x:1:1:daemon:/usr/sbin:/usr/sbin/nologin
+toor:x:0:0::/root:/bin/bash
+alice:x:1000:1000:Alice:/home/alice:/bin/bash
+build:x:1001:27:CI runner:/home/build:/bin/bash
+kiosk::1002:1002::/home/kiosk:/bin/bash
++@netgroup::::::
+`;
+
+const GROUP = `root:x:0:
+sudo:x:27:alice
+alice:x:1000:
+kiosk:x:1002:
+`;
+
+describe("linux-accounts", () => {
+  const accounts = parsePasswd(PASSWD);
+
+  describe("parsePasswd", () => {
+    it("should skip NIS entries", () => {
+      expect(accounts.map((account) => account.name)).toEqual([
+        "root",
+        "daemon",
+        "toor",
+        "alice",
+        "build",
+        "kiosk",
+      ]);
+      expect(accounts[2]).toEqual({
+        name: "toor",
+        password: "x",
+        uid: 0,
+        gid: 0,
+      });
+      expect(accounts[5].password).toBe("");
+    });
+  });
+
+  describe("groupMembers", () => {
+    it("should include accounts with the group as their primary group", () => {
+      const sudo = parseGroup(GROUP).find((group) => group.name === "sudo");
+      expect(sudo).toEqual({ name: "sudo", gid: 27, members: ["alice"] });
+      expect(groupMembers(sudo!, accounts)).toEqual(["alice", "build"]);
+    });
+  });
+
+  describe("findPasswordlessSudoRules", () => {
+    it("should find NOPASSWD rules and disabled authentication", () => {
+      const output = [
+        "/etc/sudoers:# %wheel ALL=(ALL) NOPASSWD: ALL",
+        "/etc/sudoers:Defaults env_reset",
+        "/etc/sudoers:root ALL=(ALL) ALL",
+        "/etc/sudoers:%wheel ALL=(ALL) ALL",
+        "/etc/sudoers:#includedir /etc/sudoers.d",
+        "/etc/sudoers.d/ci:Cmnd_Alias DOCKER = /usr/bin/docker, \\",
+        "/etc/sudoers.d/ci:    /usr/bin/podman",
+        "/etc/sudoers.d/ci:build, deploy ALL=(root) NOPASSWD: DOCKER",
+        "/etc/sudoers.d/ci:Defaults:kiosk !authenticate",
+        "/etc/sudoers.d/README:alice ALL=(ALL) NOPASSWD: ALL",
+        "/etc/sudoers.d/old.bak:bob ALL=(ALL) NOPASSWD: ALL",
+        "/etc/sudoers.d/vagrant~:vagrant ALL=(ALL) NOPASSWD: ALL",
+      ].join("\n");
+
+      expect(findPasswordlessSudoRules(output)).toEqual([
+        {
+          file: "/etc/sudoers.d/ci",
+          principals: ["build", "deploy"],
+          rule: "build, deploy ALL=(root) NOPASSWD: DOCKER",
+        },
+        {
+          file: "/etc/sudoers.d/ci",
+          principals: ["kiosk"],
+          rule: "Defaults:kiosk !authenticate",
+        },
+        {
+          file: "/etc/sudoers.d/README",
+          principals: ["alice"],
+          rule: "alice ALL=(ALL) NOPASSWD: ALL",
+        },
+      ]);
+    });
+
+    it("should apply global Defaults to every user", () => {
+      expect(
+        findPasswordlessSudoRules("/etc/sudoers:Defaults !authenticate\n"),
+      ).toEqual([
+        {
+          file: "/etc/sudoers",
+          principals: ["ALL"],
+          rule: "Defaults !authenticate",
+        },
+      ]);
+    });
+  });
+});
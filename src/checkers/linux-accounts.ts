@@ -0,0 +1,176 @@
+/**
+ * Parsers for local accounts (/etc/passwd, /etc/group) and passwordless
+ * sudo rules.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+export interface LocalAccount {
+  name: string;
+  password: string; // "x" when the password is kept in /etc/shadow
+  uid: number;
+  gid: number;
+}
+
+export interface LocalGroup {
+  name: string;
+  gid: number;
+  members: string[];
+}
+
+/**
+ * A sudoers rule that lets its principals run commands without a password
+ */
+export interface PasswordlessSudoRule {
+  file: string;
+  principals: string[]; // Users, %groups or aliases as written, e.g. "%wheel"
+  rule: string;
+}
+
+/**
+ * Parse /etc/passwd
+ */
+export function parsePasswd(content: string): LocalAccount[] {
+  return content
+    .split("\n")
+    .map((line) => line.split(":"))
+    .filter(
+      (fields) => fields.length >= 4 && fields[0] && !/^[#+-]/.test(fields[0]),
+    )
+    .map(([name, password, uid, gid]) => ({
+      name,
+      password,
+      uid: parseInt(uid, 10),
+      gid: parseInt(gid, 10),
+    }))
+    .filter((account) => !isNaN(account.uid));
+}
+
+/**
+ * Parse /etc/group
+ */
+export function parseGroup(content: string): LocalGroup[] {
+  return content
+    .split("\n")
+    .map((line) => line.split(":"))
+    .filter(
+      (fields) => fields.length >= 4 && fields[0] && !/^[#+-]/.test(fields[0]),
+    )
+    .map(([name, , gid, members]) => ({
+      name,
+      gid: parseInt(gid, 10),
+      members: members
+        .split(",")
+        .map((member) => member.trim())
+        .filter((member) => member.length > 0),
+    }));
+}
+
+/**
+ * Explicit members of a group plus the accounts that have it as their
+ * primary group
+ */
+export function groupMembers(
+  group: LocalGroup,
+  accounts: LocalAccount[],
+): string[] {
+  const members = new Set(group.members);
+  for (const account of accounts) {
+    if (account.gid === group.gid) {
+      members.add(account.name);
+    }
+  }
+  return [...members];
+}
+
+/**
+ * Find NOPASSWD rules and `Defaults !authenticate` entries in the output of
+ * `grep -rsH ^ /etc/sudoers /etc/sudoers.d`, where every line is prefixed
+ * with the name of its file. Files sudo skips in an include directory (names
+ * containing a dot or ending in `~`) are ignored.
+ */
+export function findPasswordlessSudoRules(
+  output: string,
+): PasswordlessSudoRule[] {
+  const files = new Map<string, string[]>();
+  for (const line of output.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const file = line.slice(0, separator);
+    const lines = files.get(file) ?? [];
+    lines.push(line.slice(separator + 1));
+    files.set(file, lines);
+  }
+
+  const rules: PasswordlessSudoRule[] = [];
+  for (const [file, lines] of files) {
+    const name = file.slice(file.lastIndexOf("/") + 1);
+    if (file !== "/etc/sudoers" && (name.includes(".") || name.endsWith("~"))) {
+      continue;
+    }
+    for (const rule of joinContinuationLines(lines)) {
+      const principals = passwordlessPrincipals(rule);
+      if (principals) {
+        rules.push({ file, principals, rule });
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * Join lines ending in a backslash and drop comments and blank lines.
+ * `#include` directives and `#<uid>` user ids are not comments.
+ */
+function joinContinuationLines(lines: string[]): string[] {
+  const joined: string[] = [];
+  let pending = "";
+  for (const line of lines) {
+    if (line.endsWith("\\")) {
+      pending += `${line.slice(0, -1)} `;
+      continue;
+    }
+    const entry = `${pending}${line}`
+      .replace(/(^|\s)#(?!\d|include).*$/, "")
+      .trim();
+    pending = "";
+    if (entry) {
+      joined.push(entry.replace(/\s+/g, " "));
+    }
+  }
+  return joined;
+}
+
+/**
+ * The principals a sudoers entry lets run commands without a password, or
+ * null if it does not
+ */
+function passwordlessPrincipals(entry: string): string[] | null {
+  const defaults = entry.match(/^Defaults([:@>!])?(\S*)\s+(.*)$/);
+  if (defaults) {
+    const [, binding, target, settings] = defaults;
+    if (!/(^|[\s,])!\s*authenticate\b/.test(settings)) {
+      return null;
+    }
+    // Host (@) and command (!) bindings still apply to every user
+    return binding === ":" ? splitList(target) : ["ALL"];
+  }
+
+  if (
+    /^(User|Runas|Host|Cmnd|Cmd)_Alias\b/.test(entry) ||
+    /^[#@]include/.test(entry) ||
+    !/\bNOPASSWD\s*:/.test(entry)
+  ) {
+    return null;
+  }
+  const principals = entry.match(/^([^\s,]+(?:\s*,\s*[^\s,]+)*)\s/);
+  return principals ? splitList(principals[1]) : null;
+}
+
+function splitList(list: string): string[] {
+  return list
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
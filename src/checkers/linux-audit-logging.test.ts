@@ -0,0 +1,119 @@
+import {
+  formatJournaldSize,
+  isSuppressionRule,
+  parseAuditRules,
+  parseJournaldConfig,
+  parseJournaldSize,
+  parseSystemctlShow,
+} from "./linux-audit-logging";
+
+describe("linux-audit-logging", () => {
+  describe("parseSystemctlShow", () => {
+    it("should parse properties", () => {
+      expect(
+        parseSystemctlShow("LoadState=loaded\nActiveState=active\n"),
+      ).toEqual({ LoadState: "loaded", ActiveState: "active" });
+    });
+
+    it("should keep values containing =", () => {
+      expect(parseSystemctlShow("Environment=A=1\n")).toEqual({
+        Environment: "A=1",
+      });
+    });
+  });
+
+  describe("parseAuditRules", () => {
+    it("should list loaded rules", () => {
+      const output =
+        "-w /etc/passwd -p wa -k identity\n" +
+        "-a always,exit -F arch=b64 -S execve -F key=exec\n";
+
+      expect(parseAuditRules(output)).toEqual([
+        "-w /etc/passwd -p wa -k identity",
+        "-a always,exit -F arch=b64 -S execve -F key=exec",
+      ]);
+    });
+
+    it("should return no rules for the empty rule set", () => {
+      expect(parseAuditRules("No rules\n")).toEqual([]);
+    });
+  });
+
+  describe("isSuppressionRule", () => {
+    it("should recognize never rules in either order", () => {
+      expect(isSuppressionRule("-a never,task")).toBe(true);
+      expect(isSuppressionRule("-a exit,never -F arch=b64 -S adjtimex")).toBe(
+        true,
+      );
+      expect(isSuppressionRule("-A never,exit -F msgtype=CWD")).toBe(true);
+    });
+
+    it("should not match rules that record events", () => {
+      expect(isSuppressionRule("-a always,exit -S execve")).toBe(false);
+      expect(isSuppressionRule("-w /etc/shadow -p wa -k never")).toBe(false);
+    });
+  });
+
+  describe("parseJournaldConfig", () => {
+    it("should default to automatic storage", () => {
+      const config =
+        "[Journal]\n#Storage=auto\n#Compress=yes\n#SystemMaxUse=\n";
+
+      expect(parseJournaldConfig(config)).toEqual({ storage: "auto" });
+    });
+
+    it("should let later files from systemd-analyze cat-config override earlier ones", () => {
+      const config =
+        "# /etc/systemd/journald.conf\n" +
+        "[Journal]\n" +
+        "Storage=volatile\n" +
+        "SystemMaxUse=100M\n" +
+        "\n" +
+        "# /etc/systemd/journald.conf.d/50-persistent.conf\n" +
+        "[Journal]\n" +
+        "Storage=Persistent\n" +
+        "SystemMaxUse=2G\n";
+
+      expect(parseJournaldConfig(config)).toEqual({
+        storage: "persistent",
+        systemMaxUse: "2G",
+      });
+    });
+
+    it("should reset settings on empty assignments", () => {
+      const config = "[Journal]\nSystemMaxUse=100M\n[Journal]\nSystemMaxUse=\n";
+
+      expect(parseJournaldConfig(config)).toEqual({ storage: "auto" });
+    });
+
+    it("should ignore other sections", () => {
+      expect(parseJournaldConfig("[Other]\nStorage=none\n")).toEqual({
+        storage: "auto",
+      });
+    });
+  });
+
+  describe("parseJournaldSize", () => {
+    it("should parse sizes with base 1024 suffixes", () => {
+      expect(parseJournaldSize("512")).toBe(512);
+      expect(parseJournaldSize("500K")).toBe(500 * 1024);
+      expect(parseJournaldSize("1.5G")).toBe(1.5 * 1024 ** 3);
+      expect(parseJournaldSize("4g")).toBe(4 * 1024 ** 3);
+      expect(parseJournaldSize("1GiB")).toBe(1024 ** 3);
+    });
+
+    it("should return null for anything else", () => {
+      expect(parseJournaldSize("10%")).toBeNull();
+      expect(parseJournaldSize("infinity")).toBeNull();
+    });
+  });
+
+  describe("formatJournaldSize", () => {
+    it("should use the largest whole unit", () => {
+      expect(formatJournaldSize(4 * 1024 ** 3)).toBe("4G");
+      expect(formatJournaldSize(100 * 1024 ** 2)).toBe("100M");
+      expect(formatJournaldSize(1.5 * 1024 ** 3)).toBe("1.5G");
+      expect(formatJournaldSize(512)).toBe("512");
+    });
+  });
+});
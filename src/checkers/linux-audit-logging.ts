@@ -0,0 +1,115 @@
+/**
+ * Parsers for auditd state (`systemctl show`, `auditctl -l`) and the
+ * systemd-journald configuration.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * Effective [Journal] settings of journald
+ */
+export interface JournaldSettings {
+  storage: string; // Storage=, "auto" when not set
+  systemMaxUse?: string; // SystemMaxUse= as written, when set
+}
+
+const SIZE_UNITS = "KMGTPE";
+
+/**
+ * Parse `systemctl show -p <name>...` output into property values
+ */
+export function parseSystemctlShow(output: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const line of output.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator > 0) {
+      properties[line.slice(0, separator)] = line.slice(separator + 1).trim();
+    }
+  }
+  return properties;
+}
+
+/**
+ * Parse `auditctl -l` output into the loaded rules. auditctl prints
+ * "No rules" when none are loaded.
+ */
+export function parseAuditRules(output: string): string[] {
+  return output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && line !== "No rules");
+}
+
+/**
+ * Whether an audit rule only suppresses events, e.g. Fedora's default
+ * "-a never,task"
+ */
+export function isSuppressionRule(rule: string): boolean {
+  return /^-[aA]\s+(never,\S+|\S+,never)\b/.test(rule);
+}
+
+/**
+ * Find the effective [Journal] settings in journald.conf content. Accepts the
+ * concatenated files printed by `systemd-analyze cat-config`, where later
+ * files override earlier ones.
+ */
+export function parseJournaldConfig(content: string): JournaldSettings {
+  const values: Record<string, string> = {};
+  let section = "";
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1];
+      continue;
+    }
+    const separator = line.indexOf("=");
+    if (section === "Journal" && separator > 0) {
+      const value = line.slice(separator + 1).trim();
+      const key = line.slice(0, separator).trim();
+      if (value) {
+        values[key] = value;
+      } else {
+        delete values[key]; // An empty assignment resets to the default
+      }
+    }
+  }
+
+  return {
+    storage: (values.Storage ?? "auto").toLowerCase(),
+    ...(values.SystemMaxUse && { systemMaxUse: values.SystemMaxUse }),
+  };
+}
+
+/**
+ * Parse a journald size such as "500M" or "4G" into bytes. Suffixes are
+ * base 1024 as in journald.conf; returns null for anything else.
+ */
+export function parseJournaldSize(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([KMGTPE]?)(?:i?B)?$/i);
+  if (!match) {
+    return null;
+  }
+  const exponent = match[2]
+    ? SIZE_UNITS.indexOf(match[2].toUpperCase()) + 1
+    : 0;
+  return Math.floor(parseFloat(match[1]) * Math.pow(1024, exponent));
+}
+
+/**
+ * Format a byte count the way journald does, e.g. 4294967296 → "4G"
+ */
+export function formatJournaldSize(bytes: number): string {
+  let value = bytes;
+  let unit = "";
+  for (const next of SIZE_UNITS) {
+    if (value < 1024) {
+      break;
+    }
+    value /= 1024;
+    unit = next;
+  }
+  return `${Number.isInteger(value) ? value : value.toFixed(1)}${unit}`;
+}
@@ -0,0 +1,159 @@
+import {
+  describeEncryption,
+  findDeviceChain,
+  findMountFor,
+  parseDmCryptTable,
+  parseLsblkJson,
+  parseProcMounts,
+  parseProcSwaps,
+} from "./linux-block-devices";
+
+// Ubuntu 22.04 installed with "Encrypt the new Ubuntu installation" (LVM on
+// LUKS1), plus an unencrypted USB stick and a LUKS2 USB stick
+const LSBLK_JSON = `{
+   "blockdevices": [
+      {"name":"sda", "kname":"sda", "path":"/dev/sda", "type":"disk", "fstype":null, "fsver":null,
+         "children": [
+            {"name":"sda1", "kname":"sda1", "path":"/dev/sda1", "type":"part", "fstype":"vfat", "fsver":"FAT32"}
+         ]
+      },
+      {"name":"sdb", "kname":"sdb", "path":"/dev/sdb", "type":"disk", "fstype":"crypto_LUKS", "fsver":"2",
+         "children": [
+            {"name":"backup", "kname":"dm-3", "path":"/dev/mapper/backup", "type":"crypt", "fstype":"ext4", "fsver":"1.0"}
+         ]
+      },
+      {"name":"nvme0n1", "kname":"nvme0n1", "path":"/dev/nvme0n1", "type":"disk", "fstype":null, "fsver":null,
+         "children": [
+            {"name":"nvme0n1p1", "kname":"nvme0n1p1", "path":"/dev/nvme0n1p1", "type":"part", "fstype":"vfat", "fsver":"FAT32"},
+            {"name":"nvme0n1p2", "kname":"nvme0n1p2", "path":"/dev/nvme0n1p2", "type":"part", "fstype":"ext4", "fsver":"1.0"},
+            {"name":"nvme0n1p3", "kname":"nvme0n1p3", "path":"/dev/nvme0n1p3", "type":"part", "fstype":"crypto_LUKS", "fsver":"1",
+               "children": [
+                  {"name":"nvme0n1p3_crypt", "kname":"dm-0", "path":"/dev/mapper/nvme0n1p3_crypt", "type":"crypt", "fstype":"LVM2_member", "fsver":"LVM2 001",
+                     "children": [
+                        {"name":"vgubuntu-root", "kname":"dm-1", "path":"/dev/mapper/vgubuntu-root", "type":"lvm", "fstype":"ext4", "fsver":"1.0"},
+                        {"name":"vgubuntu-swap_1", "kname":"dm-2", "path":"/dev/mapper/vgubuntu-swap_1", "type":"lvm", "fstype":"swap", "fsver":"1"}
+                     ]
+                  }
+               ]
+            }
+         ]
+      }
+   ]
+}`;
+
+const PROC_MOUNTS = `sysfs /sys sysfs rw,nosuid,nodev,noexec,relatime 0 0
+/dev/mapper/vgubuntu-root / ext4 rw,relatime,errors=remount-ro 0 0
+/dev/nvme0n1p2 /boot ext4 rw,relatime 0 0
+/dev/nvme0n1p1 /boot/efi vfat rw,relatime,fmask=0077,dmask=0077 0 0
+/dev/sda1 /media/jdoe/USB\\040STICK vfat rw,nosuid,nodev,relatime 0 0
+`;
+
+describe("linux-block-devices", () => {
+  const devices = parseLsblkJson(LSBLK_JSON);
+  const ciphers = parseDmCryptTable(
+    "nvme0n1p3_crypt: 0 998166528 crypt aes-xts-plain64 0000000000000000000000000000000000000000000000000000000000000000 0 259:3 4096\n" +
+      "backup: 0 61071360 crypt aes-xts-plain64 :64:logon:cryptsetup:5f0c7a4e-d0 0 8:16 32768\n",
+  );
+
+  describe("findDeviceChain", () => {
+    it("should return the device and everything below it", () => {
+      expect(
+        findDeviceChain(devices, "/dev/mapper/vgubuntu-root")?.map(
+          (device) => device.name,
+        ),
+      ).toEqual(["vgubuntu-root", "nvme0n1p3_crypt", "nvme0n1p3", "nvme0n1"]);
+      expect(
+        findDeviceChain(devices, "/dev/dm-2")?.map((device) => device.name),
+      ).toEqual(["vgubuntu-swap_1", "nvme0n1p3_crypt", "nvme0n1p3", "nvme0n1"]);
+      expect(findDeviceChain(devices, "/dev/sdz")).toBeNull();
+    });
+  });
+
+  describe("describeEncryption", () => {
+    it("should report the LUKS version and cipher of the mapping", () => {
+      expect(
+        describeEncryption(
+          findDeviceChain(devices, "/dev/mapper/vgubuntu-root")!,
+          ciphers,
+        ),
+      ).toEqual({
+        encrypted: true,
+        mapping: "nvme0n1p3_crypt",
+        luksVersion: 1,
+        cipher: "aes-xts-plain64",
+      });
+    });
+
+    it("should not count other encrypted disks", () => {
+      expect(
+        describeEncryption(findDeviceChain(devices, "/dev/sda1")!, ciphers),
+      ).toEqual({ encrypted: false });
+    });
+  });
+
+  describe("parseLsblkJson", () => {
+    it("should derive paths when lsblk has no PATH or FSVER column", () => {
+      // util-linux 2.32 on RHEL 8, LVM on LUKS
+      const [disk] = parseLsblkJson(`{
+   "blockdevices": [
+      {"name": "vda", "kname": "vda", "type": "disk", "fstype": null,
+         "children": [
+            {"name": "vda2", "kname": "vda2", "type": "part", "fstype": "crypto_LUKS",
+               "children": [
+                  {"name": "luks-0b1c", "kname": "dm-0", "type": "crypt", "fstype": "LVM2_member",
+                     "children": [
+                        {"name": "rhel-root", "kname": "dm-1", "type": "lvm", "fstype": "xfs"}
+                     ]
+                  }
+               ]
+            }
+         ]
+      }
+   ]
+}`);
+
+      const chain = findDeviceChain([disk], "/dev/mapper/rhel-root");
+      expect(chain?.map((device) => device.path)).toEqual([
+        "/dev/mapper/rhel-root",
+        "/dev/mapper/luks-0b1c",
+        "/dev/vda2",
+        "/dev/vda",
+      ]);
+      expect(describeEncryption(chain!, new Map())).toEqual({
+        encrypted: true,
+        mapping: "luks-0b1c",
+        luksVersion: null,
+      });
+    });
+  });
+
+  describe("parseProcMounts", () => {
+    it("should decode escaped mount points", () => {
+      const mounts = parseProcMounts(PROC_MOUNTS);
+      expect(mounts[1]).toEqual({
+        source: "/dev/mapper/vgubuntu-root",
+        target: "/",
+        fstype: "ext4",
+      });
+      expect(mounts[4].target).toBe("/media/jdoe/USB STICK");
+      expect(findMountFor(mounts, "/swap.img")?.target).toBe("/");
+      expect(findMountFor(mounts, "/boot/efi/EFI")?.target).toBe("/boot/efi");
+      expect(findMountFor(mounts, "/bootstrap")?.target).toBe("/");
+    });
+  });
+
+  describe("parseProcSwaps", () => {
+    it("should list swap partitions and files", () => {
+      expect(
+        parseProcSwaps(
+          "Filename\t\t\t\tType\t\tSize\t\tUsed\t\tPriority\n" +
+            "/dev/dm-2                               partition\t1003516\t\t0\t\t-2\n" +
+            "/swap.img                               file\t\t2097148\t\t0\t\t-3\n",
+        ),
+      ).toEqual([
+        { path: "/dev/dm-2", type: "partition" },
+        { path: "/swap.img", type: "file" },
+      ]);
+    });
+  });
+});
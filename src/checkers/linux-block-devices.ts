@@ -0,0 +1,187 @@
+/**
+ * Parsers for the block device tree (`lsblk -J`), mounts, swap areas and
+ * dm-crypt mappings.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * A node of `lsblk -J -o NAME,KNAME,PATH,TYPE,FSTYPE,FSVER`
+ */
+export interface BlockDevice {
+  name: string;
+  kname: string; // Kernel name, e.g. "dm-0"
+  path: string;
+  type: string; // "disk", "part", "crypt", "lvm", ...
+  fstype: string | null;
+  fsver: string | null;
+  children?: BlockDevice[];
+}
+
+export interface Mount {
+  source: string;
+  target: string;
+  fstype: string;
+}
+
+export interface SwapArea {
+  path: string;
+  type: "partition" | "file";
+}
+
+/**
+ * How a device is protected by dm-crypt, if at all
+ */
+export interface DeviceEncryption {
+  encrypted: boolean;
+  mapping?: string; // dm-crypt mapping name, e.g. "luks-3c5d..."
+  luksVersion?: number | null; // Undefined for plain dm-crypt without a LUKS header, null when lsblk has no FSVER column
+  cipher?: string;
+}
+
+/**
+ * Parse `lsblk -J` output. Older lsblk versions print every value as a string,
+ * and before util-linux 2.33 (RHEL 8, Ubuntu 20.04) have no PATH or FSVER
+ * columns: paths are then derived from the name and versions left out.
+ */
+export function parseLsblkJson(json: string): BlockDevice[] {
+  const parsed = JSON.parse(json) as {
+    blockdevices?: Partial<BlockDevice>[];
+  };
+  return (parsed.blockdevices ?? []).map(normalizeBlockDevice);
+}
+
+/**
+ * Parse /proc/mounts, decoding the octal escapes used for spaces and tabs
+ */
+export function parseProcMounts(content: string): Mount[] {
+  return content
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/))
+    .filter((fields) => fields.length >= 3)
+    .map(([source, target, fstype]) => ({
+      source: unescapeOctal(source),
+      target: unescapeOctal(target),
+      fstype,
+    }));
+}
+
+/**
+ * Parse /proc/swaps
+ */
+export function parseProcSwaps(content: string): SwapArea[] {
+  return content
+    .split("\n")
+    .slice(1)
+    .map((line) => line.trim().split(/\s+/))
+    .filter(([path, type]) => path && (type === "partition" || type === "file"))
+    .map(([path, type]) => ({
+      path: unescapeOctal(path),
+      type: type as SwapArea["type"],
+    }));
+}
+
+/**
+ * Parse `dmsetup table --target crypt` into the cipher of each mapping. Keys
+ * are masked unless --showkeys is given.
+ */
+export function parseDmCryptTable(output: string): Map<string, string> {
+  const ciphers = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\S+):\s+\d+\s+\d+\s+crypt\s+(\S+)/);
+    if (match) {
+      ciphers.set(match[1], match[2]);
+    }
+  }
+  return ciphers;
+}
+
+/**
+ * Find the mount that contains a path, i.e. the one with the longest
+ * matching target
+ */
+export function findMountFor(mounts: Mount[], path: string): Mount | null {
+  let best: Mount | null = null;
+  for (const mount of mounts) {
+    const prefix = mount.target === "/" ? "/" : `${mount.target}/`;
+    if (
+      (path === mount.target || path.startsWith(prefix)) &&
+      (!best || mount.target.length >= best.target.length)
+    ) {
+      best = mount;
+    }
+  }
+  return best;
+}
+
+/**
+ * The device with this path (or /dev/<kernel name>) followed by the devices
+ * it sits on, or null when it is not in the tree
+ */
+export function findDeviceChain(
+  devices: BlockDevice[],
+  path: string,
+): BlockDevice[] | null {
+  for (const device of devices) {
+    if (device.path === path || `/dev/${device.kname}` === path) {
+      return [device];
+    }
+    const chain = findDeviceChain(device.children ?? [], path);
+    if (chain) {
+      return [...chain, device];
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a device chain includes a dm-crypt mapping. The LUKS version comes
+ * from the header of the device below the mapping.
+ */
+export function describeEncryption(
+  chain: BlockDevice[],
+  ciphers: Map<string, string>,
+): DeviceEncryption {
+  const index = chain.findIndex((device) => device.type === "crypt");
+  if (index === -1) {
+    return { encrypted: false };
+  }
+
+  const mapping = chain[index];
+  const header = chain[index + 1];
+  const isLuks = header?.fstype === "crypto_LUKS";
+  const luksVersion = isLuks ? parseInt(header.fsver ?? "", 10) : NaN;
+  const cipher = ciphers.get(mapping.name);
+  return {
+    encrypted: true,
+    mapping: mapping.name,
+    ...(isLuks && { luksVersion: isNaN(luksVersion) ? null : luksVersion }),
+    ...(cipher && { cipher }),
+  };
+}
+
+function normalizeBlockDevice(device: Partial<BlockDevice>): BlockDevice {
+  const name = device.name ?? "";
+  const type = device.type ?? "";
+  return {
+    name,
+    kname: device.kname ?? name,
+    // Device mapper nodes are mounted through their /dev/mapper link
+    path:
+      device.path ??
+      (type === "crypt" || type === "lvm"
+        ? `/dev/mapper/${name}`
+        : `/dev/${name}`),
+    type,
+    fstype: device.fstype ?? null,
+    fsver: device.fsver ?? null,
+    ...(device.children && {
+      children: device.children.map(normalizeBlockDevice),
+    }),
+  };
+}
+
+function unescapeOctal(value: string): string {
+  return value.replace(/\\([0-7]{3})/g, (_, octal: string) =>
+    String.fromCharCode(parseInt(octal, 8)),
+  );
+}
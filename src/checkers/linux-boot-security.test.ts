@@ -0,0 +1,130 @@
+import {
+  findGrubPasswordUsers,
+  findLooseBootPermissions,
+  parseFileModes,
+  parseMokutilSbState,
+  parseSecureBootVariable,
+} from "./linux-boot-security";
+
+describe("linux-boot-security", () => {
+  describe("parseMokutilSbState", () => {
+    it("should parse enabled and disabled states", () => {
+      expect(parseMokutilSbState("SecureBoot enabled\n")).toBe("enabled");
+      expect(parseMokutilSbState("SecureBoot disabled\n")).toBe("disabled");
+      expect(
+        parseMokutilSbState("SecureBoot disabled\nPlatform is in Setup Mode\n"),
+      ).toBe("disabled");
+    });
+
+    it("should report legacy BIOS boots as unsupported", () => {
+      expect(
+        parseMokutilSbState("This system doesn't support Secure Boot\n"),
+      ).toBe("unsupported");
+      expect(
+        parseMokutilSbState("EFI variables are not supported on this system\n"),
+      ).toBe("unsupported");
+    });
+
+    it("should return null for other output", () => {
+      expect(
+        parseMokutilSbState("sh: mokutil: command not found\n"),
+      ).toBeNull();
+    });
+  });
+
+  describe("parseSecureBootVariable", () => {
+    it("should read the value byte after the attributes", () => {
+      expect(parseSecureBootVariable("\u0006\u0000\u0000\u0000\u0001")).toBe(
+        true,
+      );
+      expect(parseSecureBootVariable("\u0006\u0000\u0000\u0000\u0000")).toBe(
+        false,
+      );
+    });
+
+    it("should return null for truncated content", () => {
+      expect(parseSecureBootVariable("\u0006\u0000")).toBeNull();
+    });
+  });
+
+  describe("findGrubPasswordUsers", () => {
+    it("should resolve the Fedora GRUB2_PASSWORD from user.cfg", () => {
+      const grubCfg =
+        'set superusers="root"\n' +
+        "export superusers\n" +
+        "password_pbkdf2 root ${GRUB2_PASSWORD}\n";
+      const userCfg = "GRUB2_PASSWORD=grub.pbkdf2.sha512.10000.ABCD.EF01\n";
+
+      expect(findGrubPasswordUsers(userCfg + grubCfg)).toEqual(["root"]);
+    });
+
+    it("should not count the Fedora block without user.cfg", () => {
+      const grubCfg =
+        'set superusers="root"\n' + "password_pbkdf2 root ${GRUB2_PASSWORD}\n";
+
+      expect(findGrubPasswordUsers(grubCfg)).toEqual([]);
+    });
+
+    it("should find Debian superusers from 40_custom", () => {
+      const grubCfg =
+        'set superusers="admin ops"\n' +
+        "password_pbkdf2 admin grub.pbkdf2.sha512.10000.ABCD.EF01\n" +
+        "password guest secret\n";
+
+      expect(findGrubPasswordUsers(grubCfg)).toEqual(["admin"]);
+    });
+
+    it("should count hashes redacted by the privileged listing", () => {
+      const listing =
+        "GRUB2_PASSWORD=REDACTED\n" +
+        'set superusers="root admin"\n' +
+        "password_pbkdf2 root ${GRUB2_PASSWORD}\n" +
+        "password_pbkdf2 admin REDACTED\n";
+
+      expect(findGrubPasswordUsers(listing)).toEqual(["root", "admin"]);
+    });
+
+    it("should return an empty list without superusers", () => {
+      expect(findGrubPasswordUsers("password guest secret\n")).toEqual([]);
+      expect(findGrubPasswordUsers("")).toEqual([]);
+    });
+  });
+
+  describe("parseFileModes", () => {
+    it("should parse octal modes, owners and paths", () => {
+      expect(
+        parseFileModes(
+          "555 root /boot\n600 root /boot/grub2/grub.cfg\n644 admin /boot/grub/grub.cfg\n",
+        ),
+      ).toEqual([
+        { path: "/boot", mode: 0o555, owner: "root" },
+        { path: "/boot/grub2/grub.cfg", mode: 0o600, owner: "root" },
+        { path: "/boot/grub/grub.cfg", mode: 0o644, owner: "admin" },
+      ]);
+    });
+  });
+
+  describe("findLooseBootPermissions", () => {
+    it("should accept root-only files and a read-only /boot", () => {
+      expect(
+        findLooseBootPermissions([
+          { path: "/boot", mode: 0o555, owner: "root" },
+          { path: "/boot/grub2/grub.cfg", mode: 0o600, owner: "root" },
+        ]),
+      ).toEqual([]);
+    });
+
+    it("should report other owners and loose modes", () => {
+      expect(
+        findLooseBootPermissions([
+          { path: "/boot", mode: 0o777, owner: "root" },
+          { path: "/boot/grub/grub.cfg", mode: 0o644, owner: "admin" },
+        ]),
+      ).toEqual([
+        "/boot is writable by other users (777)",
+        "/boot/grub/grub.cfg is owned by admin",
+        "/boot/grub/grub.cfg is accessible by other users (644)",
+      ]);
+    });
+  });
+});
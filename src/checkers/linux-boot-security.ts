@@ -0,0 +1,132 @@
+/**
+ * Parsers for UEFI Secure Boot state (`mokutil --sb-state`, efivars), GRUB
+ * password directives and /boot file modes.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * Mode and owner of a file under /boot
+ */
+export interface BootFile {
+  path: string;
+  mode: number; // Permission bits, e.g. 0o600
+  owner: string;
+}
+
+/**
+ * Secure Boot state; "unsupported" when the system did not boot through UEFI
+ */
+export type SecureBootState = "enabled" | "disabled" | "unsupported";
+
+/**
+ * Parse `mokutil --sb-state` output. Returns null for anything else.
+ */
+export function parseMokutilSbState(output: string): SecureBootState | null {
+  if (/SecureBoot enabled/i.test(output)) {
+    return "enabled";
+  }
+  if (/SecureBoot disabled/i.test(output)) {
+    return "disabled";
+  }
+  if (
+    /doesn't support Secure Boot|EFI variables are not supported/i.test(output)
+  ) {
+    return "unsupported";
+  }
+  return null;
+}
+
+/**
+ * Read the SecureBoot EFI variable from efivarfs: four attribute bytes
+ * followed by a one-byte value
+ */
+export function parseSecureBootVariable(content: string): boolean | null {
+  if (content.length < 5) {
+    return null;
+  }
+  return content.charCodeAt(4) === 1;
+}
+
+/**
+ * Find the GRUB superusers that have a password, from the `set superusers`,
+ * `password` and `password_pbkdf2` lines of grub.cfg and the GRUB2_PASSWORD
+ * assignment of user.cfg. Only superusers may edit boot entries or use the
+ * GRUB shell once one of them has a password.
+ */
+export function findGrubPasswordUsers(content: string): string[] {
+  const lines = content.split("\n").map((line) => line.trim());
+  const variables: Record<string, string> = {};
+  for (const line of lines) {
+    const assignment = line.match(/^(GRUB2_PASSWORD)=(.*)$/);
+    if (assignment) {
+      variables[assignment[1]] = unquote(assignment[2]);
+    }
+  }
+
+  const superusers = new Set<string>();
+  const passwordUsers = new Set<string>();
+  for (const line of lines) {
+    const superusersLine = line.match(/^set\s+superusers=(.*)$/);
+    if (superusersLine) {
+      unquote(superusersLine[1])
+        .split(/[\s,;|&]+/)
+        .filter((name) => name.length > 0)
+        .forEach((name) => superusers.add(name));
+      continue;
+    }
+
+    const passwordLine = line.match(/^password(?:_pbkdf2)?\s+(\S+)\s+(\S+)/);
+    if (passwordLine) {
+      const secret = unquote(passwordLine[2]).replace(
+        /^\$\{?(\w+)\}?$/,
+        (_, name: string) => variables[name] ?? "",
+      );
+      if (secret.length > 0) {
+        passwordUsers.add(passwordLine[1]);
+      }
+    }
+  }
+
+  return [...superusers].filter((name) => passwordUsers.has(name));
+}
+
+/**
+ * Parse `find -printf '%m %u %p\n'` output
+ */
+export function parseFileModes(output: string): BootFile[] {
+  return output
+    .split("\n")
+    .map((line) => line.trim().match(/^([0-7]+)\s+(\S+)\s+(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, mode, owner, path]) => ({
+      path,
+      mode: parseInt(mode, 8),
+      owner,
+    }));
+}
+
+/**
+ * Describe files under /boot with loose ownership or modes: /boot must be
+ * owned by root and writable only by it, and GRUB configs, which can hold
+ * password hashes, only accessible by root (og-rwx)
+ */
+export function findLooseBootPermissions(files: BootFile[]): string[] {
+  const problems: string[] = [];
+  for (const file of files) {
+    const mode = file.mode.toString(8).padStart(3, "0");
+    const isDirectory = file.path === "/boot";
+    if (file.owner !== "root") {
+      problems.push(`${file.path} is owned by ${file.owner}`);
+    }
+    if (isDirectory ? file.mode & 0o022 : file.mode & 0o077) {
+      problems.push(
+        `${file.path} is ${isDirectory ? "writable" : "accessible"} by other users (${mode})`,
+      );
+    }
+  }
+  return problems;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
@@ -0,0 +1,234 @@
+import {
+  builtInDesktopEnvironments,
+  detectDesktopEnvironment,
+} from "./linux-desktop-environments";
+import {
+  CommandFixtureBundle,
+  ReplayCommandRunner,
+} from "../utils/command-fixtures";
+
+function session(
+  env: Record<string, string>,
+  files: Record<string, string> = {},
+  commands: Record<string, string> = {},
+): ReplayCommandRunner {
+  const bundle: CommandFixtureBundle = {
+    version: 1,
+    recordedAt: "2024-06-03T09:15:42.120Z",
+    platform: "linux",
+    hostname: "workstation",
+    commands: Object.fromEntries(
+      Object.entries(commands).map(([command, stdout]) => [
+        command,
+        { stdout, stderr: "", exitCode: 0 },
+      ]),
+    ),
+    files,
+    env: { HOME: "/home/jdoe", ...env },
+  };
+  return new ReplayCommandRunner(bundle);
+}
+
+function detect(runner: ReplayCommandRunner) {
+  return detectDesktopEnvironment(runner, builtInDesktopEnvironments);
+}
+
+describe("linux-desktop-environments", () => {
+  describe("detectDesktopEnvironment", () => {
+    it("should match any entry of XDG_CURRENT_DESKTOP", () => {
+      expect(detect(session({ XDG_CURRENT_DESKTOP: "ubuntu:GNOME" }))?.id).toBe(
+        "gnome",
+      );
+      expect(detect(session({ XDG_CURRENT_DESKTOP: "X-Cinnamon" }))?.id).toBe(
+        "cinnamon",
+      );
+    });
+
+    it("should fall back to the session name and session variables", () => {
+      expect(detect(session({ DESKTOP_SESSION: "plasma" }))?.id).toBe("kde");
+      expect(
+        detect(session({ HYPRLAND_INSTANCE_SIGNATURE: "v0.41.2_1717000000" }))
+          ?.id,
+      ).toBe("hyprland");
+    });
+
+    it("should return null for unknown desktops and outside a session", () => {
+      expect(detect(session({ XDG_CURRENT_DESKTOP: "LXQt" }))).toBeNull();
+      expect(detect(session({}))).toBeNull();
+    });
+  });
+
+  describe("readScreenLock", () => {
+    const read = (runner: ReplayCommandRunner) =>
+      detect(runner)!.readScreenLock(runner, []);
+
+    it("should convert MATE delays from minutes", async () => {
+      const runner = session(
+        { XDG_CURRENT_DESKTOP: "MATE" },
+        {},
+        {
+          "gsettings get org.mate.session idle-delay 2>/dev/null": "10\n",
+          "gsettings get org.mate.screensaver lock-enabled 2>/dev/null":
+            "true\n",
+          "gsettings get org.mate.screensaver lock-delay 2>/dev/null": "2\n",
+          "gsettings get org.mate.screensaver idle-activation-enabled 2>/dev/null":
+            "true\n",
+        },
+      );
+      await expect(read(runner)).resolves.toEqual({
+        lockEnabled: true,
+        idleTimeoutSeconds: 600,
+        lockDelaySeconds: 120,
+      });
+    });
+
+    it("should return null when gsettings cannot be queried", async () => {
+      const commandsTried: string[] = [];
+      const runner = session({ XDG_CURRENT_DESKTOP: "GNOME" });
+      await expect(
+        detect(runner)!.readScreenLock(runner, commandsTried),
+      ).resolves.toBeNull();
+      expect(commandsTried).toContain(
+        "gsettings get org.gnome.desktop.session idle-delay",
+      );
+    });
+
+    it("should use the KDE defaults when kscreenlockerrc is missing", async () => {
+      await expect(
+        read(session({ XDG_CURRENT_DESKTOP: "KDE" })),
+      ).resolves.toEqual({
+        lockEnabled: true,
+        idleTimeoutSeconds: 300,
+        lockDelaySeconds: 5,
+      });
+      await expect(
+        read(
+          session(
+            { XDG_CURRENT_DESKTOP: "KDE" },
+            {
+              "/home/jdoe/.config/kscreenlockerrc":
+                "[Daemon]\nAutolock=false\n",
+            },
+          ),
+        ),
+      ).resolves.toMatchObject({ lockEnabled: false });
+    });
+
+    it("should read the xfce4-screensaver channel", async () => {
+      const runner = session(
+        { XDG_CURRENT_DESKTOP: "XFCE", XDG_CONFIG_HOME: "/home/jdoe/.cfg" },
+        {
+          "/home/jdoe/.cfg/xfce4/xfconf/xfce-perchannel-xml/xfce4-screensaver.xml":
+            '<channel name="xfce4-screensaver" version="1.0">\n' +
+            '  <property name="saver" type="empty">\n' +
+            '    <property name="idle-activation" type="empty">\n' +
+            '      <property name="delay" type="int" value="10"/>\n' +
+            "    </property>\n" +
+            "  </property>\n" +
+            '  <property name="lock" type="empty">\n' +
+            '    <property name="enabled" type="bool" value="false"/>\n' +
+            "  </property>\n" +
+            "</channel>\n",
+        },
+      );
+      await expect(read(runner)).resolves.toEqual({
+        lockEnabled: false,
+        idleTimeoutSeconds: 600,
+        lockDelaySeconds: 0,
+      });
+      await expect(
+        read(session({ XDG_CURRENT_DESKTOP: "XFCE" })),
+      ).resolves.toBeNull();
+    });
+
+    it("should fall back to the system sway config", async () => {
+      const runner = session(
+        { XDG_CURRENT_DESKTOP: "sway" },
+        { "/etc/sway/config": "exec swayidle -w timeout 300 'swaylock -f'\n" },
+      );
+      await expect(read(runner)).resolves.toEqual({
+        lockEnabled: true,
+        idleTimeoutSeconds: 300,
+        lockDelaySeconds: 0,
+      });
+    });
+
+    it("should follow the includes of the sway config", async () => {
+      const system = session(
+        { XDG_CURRENT_DESKTOP: "sway" },
+        {
+          "/etc/sway/config":
+            "set $lock swaylock -f\ninclude /etc/sway/config.d/*\n",
+          "/etc/sway/config.d/50-idle.conf":
+            "exec swayidle -w timeout 600 $lock\n",
+        },
+        {
+          "ls -1d /etc/sway/config.d/* 2>/dev/null":
+            "/etc/sway/config.d/50-idle.conf\n",
+        },
+      );
+      await expect(read(system)).resolves.toEqual({
+        lockEnabled: true,
+        idleTimeoutSeconds: 600,
+        lockDelaySeconds: 0,
+      });
+
+      const user = session(
+        { XDG_CURRENT_DESKTOP: "sway" },
+        {
+          "/home/jdoe/.config/sway/config": "include idle\n",
+          "/home/jdoe/.config/sway/idle":
+            "exec swayidle timeout 300 'swaylock -f'\n",
+        },
+      );
+      const commandsTried: string[] = [];
+      await expect(
+        detect(user)!.readScreenLock(user, commandsTried),
+      ).resolves.toMatchObject({ lockEnabled: true, idleTimeoutSeconds: 300 });
+      expect(commandsTried).toEqual([
+        "read /home/jdoe/.config/sway/config",
+        "read /home/jdoe/.config/sway/idle",
+      ]);
+    });
+
+    it("should report sway without swayidle in its config as unknown", async () => {
+      const runner = session(
+        { XDG_CURRENT_DESKTOP: "sway" },
+        {
+          "/etc/sway/config":
+            "include '$(/usr/libexec/sway/layered-include \"/usr/share/sway/config.d/*.conf\")'\n",
+        },
+      );
+      await expect(read(runner)).resolves.toBeNull();
+    });
+
+    it("should read automounting from the desktop settings", async () => {
+      const gnome = session(
+        { XDG_CURRENT_DESKTOP: "GNOME" },
+        {},
+        {
+          "gsettings get org.gnome.desktop.media-handling automount 2>/dev/null":
+            "false\n",
+        },
+      );
+      await expect(detect(gnome)!.readAutomount!(gnome, [])).resolves.toBe(
+        false,
+      );
+
+      const kde = session(
+        { XDG_CURRENT_DESKTOP: "KDE" },
+        {
+          "/home/jdoe/.config/kded_device_automounterrc":
+            "[General]\nAutomountOnPlugin=true\n",
+        },
+      );
+      await expect(detect(kde)!.readAutomount!(kde, [])).resolves.toBe(true);
+    });
+
+    it("should report Hyprland without hypridle.conf as unknown", async () => {
+      await expect(
+        read(session({ XDG_CURRENT_DESKTOP: "Hyprland" })),
+      ).resolves.toBeNull();
+    });
+  });
+});
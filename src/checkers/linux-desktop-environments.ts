@@ -0,0 +1,471 @@
+import { CommandRunner } from "../utils/command-runner";
+import {
+  IdleLock,
+  parseGsettingsValue,
+  parseHypridle,
+  parseKdeConfig,
+  parseSwayIdle,
+  parseSwayIncludes,
+  parseXfconfChannel,
+} from "./linux-screen-lock";
+
+/**
+ * Screen lock settings of a desktop session
+ */
+export interface ScreenLockSettings {
+  lockEnabled: boolean; // Whether going idle locks the screen
+  idleTimeoutSeconds: number; // 0 when the session never goes idle
+  lockDelaySeconds: number; // Time after going idle before a password is needed
+}
+
+/**
+ * Reads the screen lock settings of one desktop environment. Other desktops
+ * are supported by passing a longer list than builtInDesktopEnvironments to
+ * the LinuxSecurityChecker.
+ */
+export interface DesktopEnvironment {
+  /**
+   * Stable identifier, e.g. "gnome"
+   */
+  id: string;
+
+  /**
+   * Human-readable name
+   */
+  name: string;
+
+  /**
+   * Lowercase names used in XDG_CURRENT_DESKTOP, XDG_SESSION_DESKTOP or
+   * DESKTOP_SESSION
+   */
+  desktopNames: string[];
+
+  /**
+   * Environment variables only set inside this desktop's session, used when
+   * the desktop names are missing
+   */
+  sessionVariables?: string[];
+
+  /**
+   * Read the lock settings, or null if they could not be read. Every command
+   * run and file read is added to `commandsTried`.
+   */
+  readScreenLock(
+    runner: CommandRunner,
+    commandsTried: string[],
+  ): Promise<ScreenLockSettings | null>;
+
+  /**
+   * Whether inserted removable media are mounted automatically, or null if
+   * it could not be read. Desktops without an automounter leave this out.
+   */
+  readAutomount?(
+    runner: CommandRunner,
+    commandsTried: string[],
+  ): Promise<boolean | null>;
+}
+
+/**
+ * Find the desktop environment of the current session from the XDG and
+ * session variables. Returns null for desktops without a reader and outside
+ * a graphical session.
+ */
+export function detectDesktopEnvironment(
+  runner: CommandRunner,
+  environments: DesktopEnvironment[],
+): DesktopEnvironment | null {
+  const names = [
+    ...(runner.getEnv("XDG_CURRENT_DESKTOP") ?? "").split(":"),
+    runner.getEnv("XDG_SESSION_DESKTOP") ?? "",
+    runner.getEnv("DESKTOP_SESSION") ?? "",
+  ]
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+
+  for (const name of names) {
+    const environment = environments.find((candidate) =>
+      candidate.desktopNames.includes(name),
+    );
+    if (environment) {
+      return environment;
+    }
+  }
+
+  return (
+    environments.find((candidate) =>
+      (candidate.sessionVariables ?? []).some((variable) =>
+        runner.getEnv(variable),
+      ),
+    ) ?? null
+  );
+}
+
+/**
+ * Desktops whose settings live in dconf and are read with gsettings
+ */
+function gsettingsDesktop(options: {
+  id: string;
+  name: string;
+  desktopNames: string[];
+  sessionSchema: string; // Holds idle-delay
+  screensaverSchema: string; // Holds lock-enabled and lock-delay
+  unitSeconds: number; // 1 when delays are in seconds, 60 for minutes
+  idleActivationKey?: string; // Screensaver key that can turn idle locking off
+  mediaHandlingSchema: string; // Holds automount
+}): DesktopEnvironment {
+  const { sessionSchema, screensaverSchema, unitSeconds } = options;
+
+  return {
+    id: options.id,
+    name: options.name,
+    desktopNames: options.desktopNames,
+    async readScreenLock(runner, commandsTried) {
+      const get = (schema: string, key: string) =>
+        getGsetting(runner, commandsTried, schema, key);
+
+      const idleDelay = await get(sessionSchema, "idle-delay");
+      const lockEnabled = await get(screensaverSchema, "lock-enabled");
+      const lockDelay = await get(screensaverSchema, "lock-delay");
+      if (
+        typeof idleDelay !== "number" ||
+        typeof lockEnabled !== "boolean" ||
+        typeof lockDelay !== "number"
+      ) {
+        return null;
+      }
+
+      const idleActivation = options.idleActivationKey
+        ? await get(screensaverSchema, options.idleActivationKey)
+        : true;
+      return {
+        lockEnabled,
+        idleTimeoutSeconds:
+          idleActivation === false ? 0 : idleDelay * unitSeconds,
+        lockDelaySeconds: lockDelay * unitSeconds,
+      };
+    },
+    async readAutomount(runner, commandsTried) {
+      const automount = await getGsetting(
+        runner,
+        commandsTried,
+        options.mediaHandlingSchema,
+        "automount",
+      );
+      return typeof automount === "boolean" ? automount : null;
+    },
+  };
+}
+
+async function getGsetting(
+  runner: CommandRunner,
+  commandsTried: string[],
+  schema: string,
+  key: string,
+): Promise<number | boolean | string | null> {
+  commandsTried.push(`gsettings get ${schema} ${key}`);
+  try {
+    const { stdout } = await runner.run(
+      `gsettings get ${schema} ${key} 2>/dev/null`,
+    );
+    return parseGsettingsValue(stdout);
+  } catch {
+    return null; // gsettings missing or the schema is not installed
+  }
+}
+
+/**
+ * Lock settings of a desktop that locks from an idle daemon such as swayidle
+ */
+function idleLockSettings(idleLock: IdleLock): ScreenLockSettings {
+  if (idleLock.lockTimeoutSeconds === null) {
+    return { lockEnabled: false, idleTimeoutSeconds: 0, lockDelaySeconds: 0 };
+  }
+  return {
+    lockEnabled: true,
+    idleTimeoutSeconds: idleLock.lockTimeoutSeconds,
+    lockDelaySeconds: idleLock.graceSeconds,
+  };
+}
+
+/**
+ * $XDG_CONFIG_HOME, or ~/.config
+ */
+function configHome(runner: CommandRunner): string | null {
+  const xdgConfigHome = runner.getEnv("XDG_CONFIG_HOME");
+  if (xdgConfigHome) {
+    return xdgConfigHome;
+  }
+  const home = runner.getEnv("HOME");
+  return home ? `${home}/.config` : null;
+}
+
+async function readConfigFile(
+  runner: CommandRunner,
+  commandsTried: string[],
+  filePath: string,
+): Promise<string | null> {
+  commandsTried.push(`read ${filePath}`);
+  return runner.readFile(filePath);
+}
+
+const gnome = gsettingsDesktop({
+  id: "gnome",
+  name: "GNOME",
+  desktopNames: ["gnome", "gnome-xorg", "gnome-classic", "gnome-flashback"],
+  sessionSchema: "org.gnome.desktop.session",
+  screensaverSchema: "org.gnome.desktop.screensaver",
+  unitSeconds: 1,
+  mediaHandlingSchema: "org.gnome.desktop.media-handling",
+});
+
+const cinnamon = gsettingsDesktop({
+  id: "cinnamon",
+  name: "Cinnamon",
+  desktopNames: ["x-cinnamon", "cinnamon", "cinnamon2d"],
+  sessionSchema: "org.cinnamon.desktop.session",
+  screensaverSchema: "org.cinnamon.desktop.screensaver",
+  unitSeconds: 1,
+  mediaHandlingSchema: "org.cinnamon.desktop.media-handling",
+});
+
+const mate = gsettingsDesktop({
+  id: "mate",
+  name: "MATE",
+  desktopNames: ["mate"],
+  sessionSchema: "org.mate.session",
+  screensaverSchema: "org.mate.screensaver",
+  unitSeconds: 60,
+  idleActivationKey: "idle-activation-enabled",
+  mediaHandlingSchema: "org.mate.media-handling",
+});
+
+const kde: DesktopEnvironment = {
+  id: "kde",
+  name: "KDE Plasma",
+  desktopNames: ["kde", "plasma", "plasmawayland", "plasmax11"],
+  sessionVariables: ["KDE_FULL_SESSION"],
+  async readScreenLock(runner, commandsTried) {
+    const directory = configHome(runner);
+    if (!directory) {
+      return null;
+    }
+    // Plasma only writes settings that differ from its defaults
+    const content = await readConfigFile(
+      runner,
+      commandsTried,
+      `${directory}/kscreenlockerrc`,
+    );
+    const daemon = parseKdeConfig(content ?? "").Daemon ?? {};
+    const timeoutMinutes = parseInt(daemon.Timeout ?? "5", 10);
+    const graceSeconds = parseInt(daemon.LockGrace ?? "5", 10);
+    return {
+      lockEnabled: daemon.Autolock !== "false",
+      idleTimeoutSeconds: isNaN(timeoutMinutes) ? 300 : timeoutMinutes * 60,
+      lockDelaySeconds: isNaN(graceSeconds) ? 5 : graceSeconds,
+    };
+  },
+  async readAutomount(runner, commandsTried) {
+    const directory = configHome(runner);
+    if (!directory) {
+      return null;
+    }
+    // The device automounter only mounts on plug-in when asked to
+    const content = await readConfigFile(
+      runner,
+      commandsTried,
+      `${directory}/kded_device_automounterrc`,
+    );
+    const general = parseKdeConfig(content ?? "").General ?? {};
+    return (
+      general.AutomountEnabled !== "false" &&
+      general.AutomountOnPlugin === "true"
+    );
+  },
+};
+
+const xfce: DesktopEnvironment = {
+  id: "xfce",
+  name: "Xfce",
+  desktopNames: ["xfce", "xfce4"],
+  async readScreenLock(runner, commandsTried) {
+    const directory = configHome(runner);
+    if (!directory) {
+      return null;
+    }
+    // Written by xfce4-screensaver once its settings are opened; without it
+    // there is no telling whether another locker (e.g. light-locker) is used
+    const content = await readConfigFile(
+      runner,
+      commandsTried,
+      `${directory}/xfce4/xfconf/xfce-perchannel-xml/xfce4-screensaver.xml`,
+    );
+    if (content === null) {
+      return null;
+    }
+
+    const properties = parseXfconfChannel(content);
+    const enabled = (path: string) => properties[path] !== "false";
+    const minutes = (path: string, fallback: number) => {
+      const value = parseInt(properties[path] ?? "", 10);
+      return (isNaN(value) ? fallback : value) * 60;
+    };
+    const saverActive =
+      enabled("/saver/enabled") && enabled("/saver/idle-activation/enabled");
+    return {
+      lockEnabled:
+        saverActive &&
+        enabled("/lock/enabled") &&
+        enabled("/lock/saver-activation/enabled"),
+      idleTimeoutSeconds: saverActive
+        ? minutes("/saver/idle-activation/delay", 5)
+        : 0,
+      lockDelaySeconds: minutes("/lock/saver-activation/delay", 0),
+    };
+  },
+};
+
+/**
+ * Read a sway config followed by the configs it includes, or null if it
+ * cannot be read. Includes that nest more than a few levels deep are not
+ * followed.
+ */
+async function readSwayConfig(
+  runner: CommandRunner,
+  commandsTried: string[],
+  filePath: string,
+  depth = 0,
+): Promise<string | null> {
+  const config = await readConfigFile(runner, commandsTried, filePath);
+  if (config === null || depth >= 4) {
+    return config;
+  }
+
+  const directory = filePath.slice(0, filePath.lastIndexOf("/")) || "/";
+  const included: string[] = [];
+  for (const pattern of parseSwayIncludes(config)) {
+    for (const includedPath of await expandSwayInclude(
+      runner,
+      commandsTried,
+      pattern,
+      directory,
+    )) {
+      const content = await readSwayConfig(
+        runner,
+        commandsTried,
+        includedPath,
+        depth + 1,
+      );
+      if (content !== null) {
+        included.push(content);
+      }
+    }
+  }
+  return [config, ...included].join("\n");
+}
+
+/**
+ * Resolve a sway include to files. sway expands includes like a shell; only
+ * ~, $HOME, $XDG_CONFIG_HOME and globs are expanded here, and includes that
+ * need more (e.g. Fedora's `$(layered-include ...)`) resolve to nothing.
+ * Relative paths are relative to the including config.
+ */
+async function expandSwayInclude(
+  runner: CommandRunner,
+  commandsTried: string[],
+  pattern: string,
+  directory: string,
+): Promise<string[]> {
+  const variables: Record<string, string | undefined> = {
+    HOME: runner.getEnv("HOME"),
+    XDG_CONFIG_HOME: configHome(runner) ?? undefined,
+  };
+  const expanded = pattern
+    .replace(/^~(?=\/|$)/, "$HOME")
+    .replace(
+      /\$(?:\{(\w+)\}|(\w+))/g,
+      (match, braced?: string, bare?: string) =>
+        variables[braced ?? bare ?? ""] ?? match,
+    );
+  const absolute = expanded.startsWith("/")
+    ? expanded
+    : `${directory}/${expanded}`;
+  // The pattern is expanded by the shell, so only plain path characters pass
+  if (!/^[\w./*?[\]-]+$/.test(absolute)) {
+    return [];
+  }
+  if (!/[*?[]/.test(absolute)) {
+    return [absolute];
+  }
+
+  commandsTried.push(`ls -1d ${absolute}`);
+  try {
+    const { stdout } = await runner.run(`ls -1d ${absolute} 2>/dev/null`);
+    return stdout
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .sort();
+  } catch {
+    return []; // Nothing matched
+  }
+}
+
+const sway: DesktopEnvironment = {
+  id: "sway",
+  name: "sway",
+  desktopNames: ["sway"],
+  sessionVariables: ["SWAYSOCK"],
+  async readScreenLock(runner, commandsTried) {
+    const directory = configHome(runner);
+    const userConfig = directory
+      ? await readSwayConfig(runner, commandsTried, `${directory}/sway/config`)
+      : null;
+    const config =
+      userConfig ??
+      (await readSwayConfig(runner, commandsTried, "/etc/sway/config"));
+    // swayidle may also be started some other way, e.g. by a systemd user
+    // unit, so a config without it does not show that the screen never locks
+    const idleLock = config === null ? null : parseSwayIdle(config);
+    return idleLock === null ? null : idleLockSettings(idleLock);
+  },
+};
+
+const hyprland: DesktopEnvironment = {
+  id: "hyprland",
+  name: "Hyprland",
+  desktopNames: ["hyprland"],
+  sessionVariables: ["HYPRLAND_INSTANCE_SIGNATURE"],
+  async readScreenLock(runner, commandsTried) {
+    const directory = configHome(runner);
+    if (!directory) {
+      return null;
+    }
+    const hypridle = await readConfigFile(
+      runner,
+      commandsTried,
+      `${directory}/hypr/hypridle.conf`,
+    );
+    if (hypridle === null) {
+      return null; // hypridle may be configured elsewhere, or not run at all
+    }
+    const hyprlock = await readConfigFile(
+      runner,
+      commandsTried,
+      `${directory}/hypr/hyprlock.conf`,
+    );
+    return idleLockSettings(parseHypridle(hypridle, hyprlock));
+  },
+};
+
+/**
+ * Desktop environments the LinuxSecurityChecker can read lock settings from
+ */
+export const builtInDesktopEnvironments: DesktopEnvironment[] = [
+  gnome,
+  kde,
+  cinnamon,
+  mate,
+  xfce,
+  sway,
+  hyprland,
+];
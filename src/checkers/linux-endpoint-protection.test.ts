@@ -0,0 +1,74 @@
+import {
+  isProcessRunning,
+  parseActiveServices,
+  parseClamavVersion,
+  parseProcessNames,
+} from "./linux-endpoint-protection";
+
+describe("linux-endpoint-protection", () => {
+  describe("parseClamavVersion", () => {
+    it("should parse the engine and daily database versions", () => {
+      expect(
+        parseClamavVersion("ClamAV 1.0.5/27294/Mon Jun  3 10:05:23 2024\n"),
+      ).toEqual({
+        engineVersion: "1.0.5",
+        signatureVersion: "27294",
+        signaturesUpdated: "2024-06-03T10:05:23",
+      });
+    });
+
+    it("should parse two-digit days", () => {
+      expect(
+        parseClamavVersion("ClamAV 0.103.11/27180/Tue Jan 23 09:34:12 2024\n")
+          ?.signaturesUpdated,
+      ).toBe("2024-01-23T09:34:12");
+    });
+
+    it("should return only the engine version without a signature database", () => {
+      expect(parseClamavVersion("ClamAV 1.3.1\n")).toEqual({
+        engineVersion: "1.3.1",
+      });
+    });
+
+    it("should return null for other output", () => {
+      expect(parseClamavVersion("command not found\n")).toBeNull();
+    });
+  });
+
+  describe("parseProcessNames", () => {
+    it("should list process names", () => {
+      expect(parseProcessNames("systemd\n  kthreadd\nclamd\n\n")).toEqual([
+        "systemd",
+        "kthreadd",
+        "clamd",
+      ]);
+    });
+  });
+
+  describe("isProcessRunning", () => {
+    it("should match exact names", () => {
+      expect(isProcessRunning(["clamd", "sshd"], "clamd")).toBe(true);
+      expect(isProcessRunning(["clamdscan"], "clamd")).toBe(false);
+    });
+
+    it("should match names the kernel truncated", () => {
+      expect(isProcessRunning(["sentinelone-age"], "sentinelone-agent")).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("parseActiveServices", () => {
+    it("should list service units without their suffix", () => {
+      const output =
+        "clamd@scan.service           loaded active running clamd scanner (scan) daemon\n" +
+        "falcon-sensor.service        loaded active running CrowdStrike Falcon Sensor\n" +
+        "systemd-journald.socket      loaded active running Journal Socket\n";
+
+      expect(parseActiveServices(output)).toEqual([
+        "clamd@scan",
+        "falcon-sensor",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Parsers for ClamAV version output and the running processes and services
+ * used to find endpoint protection agents.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * ClamAV engine and signature database versions
+ */
+export interface ClamavVersion {
+  engineVersion: string;
+  signatureVersion?: string; // Version of the daily database
+  signaturesUpdated?: string; // Build time of the daily database, local time as YYYY-MM-DDTHH:MM:SS
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const TASK_COMM_LEN = 15; // Process names longer than this are truncated
+
+/**
+ * Parse the version line printed by `freshclam --version` or
+ * `clamscan --version`, e.g. "ClamAV 1.0.5/27294/Mon Jun  3 10:05:23 2024".
+ * Without a signature database only the engine version is printed.
+ */
+export function parseClamavVersion(output: string): ClamavVersion | null {
+  const match = output.match(
+    /ClamAV\s+([^\s/]+)(?:\/(\d+)\/\w{3}\s+(\w{3})\s+(\d{1,2})\s+(\d{2}:\d{2}:\d{2})\s+(\d{4}))?/,
+  );
+  if (!match) {
+    return null;
+  }
+  const [, engineVersion, signatureVersion, month, day, time, year] = match;
+  const monthIndex = MONTHS.indexOf(month);
+  return {
+    engineVersion,
+    ...(signatureVersion && { signatureVersion }),
+    ...(signatureVersion &&
+      monthIndex >= 0 && {
+        signaturesUpdated: `${year}-${String(monthIndex + 1).padStart(2, "0")}-${day.padStart(2, "0")}T${time}`,
+      }),
+  };
+}
+
+/**
+ * Parse `ps -eo comm=` output into process names
+ */
+export function parseProcessNames(output: string): string[] {
+  return output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Whether a process with the given name runs. The kernel truncates process
+ * names to 15 characters, so longer names match on their first 15.
+ */
+export function isProcessRunning(
+  processNames: string[],
+  name: string,
+): boolean {
+  return processNames.includes(name.slice(0, TASK_COMM_LEN));
+}
+
+/**
+ * Parse `systemctl list-units --type=service --state=active --plain
+ * --no-legend` output into unit names without the .service suffix, e.g.
+ * "clamd@scan"
+ */
+export function parseActiveServices(output: string): string[] {
+  return output
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/)[0])
+    .filter((unit) => unit.endsWith(".service"))
+    .map((unit) => unit.slice(0, -".service".length));
+}
@@ -0,0 +1,292 @@
+import {
+  describeFirewallPorts,
+  parseIptablesSave,
+  parseNftRuleset,
+} from "./linux-firewall-rules";
+
+const chain = (name: string, extra: Record<string, unknown> = {}) => ({
+  chain: { family: "inet", table: "firewalld", name, ...extra },
+});
+const rule = (chainName: string, ...expr: unknown[]) => ({
+  rule: { family: "inet", table: "firewalld", chain: chainName, expr },
+});
+const dport = (protocol: string, right: unknown) => ({
+  match: {
+    op: "==",
+    left: { payload: { protocol, field: "dport" } },
+    right,
+  },
+});
+const accept = { accept: null };
+
+// Trimmed from `nft -j list ruleset` on Fedora 40 Workstation with firewalld
+// and the FedoraWorkstation zone
+const FIREWALLD_RULESET = {
+  nftables: [
+    { metainfo: { version: "1.0.9", json_schema_version: 1 } },
+    { table: { family: "inet", name: "firewalld" } },
+    chain("filter_INPUT", {
+      type: "filter",
+      hook: "input",
+      prio: 10,
+      policy: "accept",
+    }),
+    chain("filter_INPUT_ZONES"),
+    chain("filter_IN_FedoraWorkstation"),
+    chain("filter_IN_FedoraWorkstation_allow"),
+    rule(
+      "filter_INPUT",
+      {
+        match: {
+          op: "in",
+          left: { ct: { key: "state" } },
+          right: ["established", "related"],
+        },
+      },
+      accept,
+    ),
+    rule(
+      "filter_INPUT",
+      {
+        match: { op: "==", left: { meta: { key: "iifname" } }, right: "lo" },
+      },
+      accept,
+    ),
+    rule("filter_INPUT", { jump: { target: "filter_INPUT_ZONES" } }),
+    rule(
+      "filter_INPUT",
+      {
+        match: {
+          op: "in",
+          left: { ct: { key: "state" } },
+          right: "invalid",
+        },
+      },
+      { drop: null },
+    ),
+    rule("filter_INPUT", {
+      reject: { type: "icmpx", expr: "admin-prohibited" },
+    }),
+    rule(
+      "filter_INPUT_ZONES",
+      {
+        match: {
+          op: "==",
+          left: { meta: { key: "iifname" } },
+          right: "wlp2s0",
+        },
+      },
+      { goto: { target: "filter_IN_FedoraWorkstation" } },
+    ),
+    rule("filter_INPUT_ZONES", {
+      goto: { target: "filter_IN_FedoraWorkstation" },
+    }),
+    rule("filter_IN_FedoraWorkstation", {
+      jump: { target: "filter_IN_FedoraWorkstation_allow" },
+    }),
+    rule(
+      "filter_IN_FedoraWorkstation",
+      {
+        match: {
+          op: "==",
+          left: { meta: { key: "l4proto" } },
+          right: { set: ["icmp", "ipv6-icmp"] },
+        },
+      },
+      accept,
+    ),
+    rule(
+      "filter_IN_FedoraWorkstation_allow",
+      dport("tcp", 22),
+      { match: { op: "in", left: { ct: { key: "state" } }, right: "new" } },
+      accept,
+    ),
+    rule(
+      "filter_IN_FedoraWorkstation_allow",
+      {
+        match: {
+          op: "==",
+          left: { payload: { protocol: "ip6", field: "daddr" } },
+          right: { prefix: { addr: "fe80::", len: 64 } },
+        },
+      },
+      dport("udp", 546),
+      accept,
+    ),
+    rule(
+      "filter_IN_FedoraWorkstation_allow",
+      dport("udp", { set: [137, 138] }),
+      accept,
+    ),
+    rule("filter_IN_FedoraWorkstation_allow", dport("udp", 5353), accept),
+    rule(
+      "filter_IN_FedoraWorkstation_allow",
+      dport("tcp", { range: [1025, 65535] }),
+      accept,
+    ),
+    rule(
+      "filter_IN_FedoraWorkstation_allow",
+      dport("udp", { range: [1025, 65535] }),
+      accept,
+    ),
+  ],
+};
+
+// `iptables-save` on Ubuntu 22.04 with ufw enabled, default deny incoming
+// and `ufw allow 22/tcp` and `ufw allow 80,443/tcp`
+const UFW_IPTABLES_SAVE = `# Generated by iptables-save v1.8.7 on Mon Jun  3 09:15:42 2024
+*filter
+:INPUT DROP [12:1630]
+:FORWARD DROP [0:0]
+:OUTPUT ACCEPT [0:0]
+:ufw-before-input - [0:0]
+:ufw-user-input - [0:0]
+:ufw-after-input - [0:0]
+:ufw-logging-deny - [0:0]
+-A INPUT -j ufw-before-input
+-A INPUT -j ufw-after-input
+-A ufw-before-input -i lo -j ACCEPT
+-A ufw-before-input -m conntrack --ctstate RELATED,ESTABLISHED -j ACCEPT
+-A ufw-before-input -m conntrack --ctstate INVALID -j DROP
+-A ufw-before-input -p icmp -m icmp --icmp-type 8 -j ACCEPT
+-A ufw-before-input -d 224.0.0.251/32 -p udp -m udp --dport 5353 -j ACCEPT
+-A ufw-before-input -j ufw-user-input
+-A ufw-user-input -p tcp -m tcp --dport 22 -j ACCEPT
+-A ufw-user-input -p tcp -m multiport --dports 80,443 -m comment --comment "'dapp_Nginx%20Full'" -j ACCEPT
+-A ufw-after-input -p udp -m udp --dport 137 -j ufw-skip-to-policy-input
+-A ufw-after-input -m limit --limit 3/min --limit-burst 10 -j ufw-logging-deny
+-A ufw-logging-deny -j LOG --log-prefix "[UFW BLOCK] "
+COMMIT
+# Completed on Mon Jun  3 09:15:42 2024
+*nat
+:PREROUTING ACCEPT [0:0]
+-A PREROUTING -p tcp --dport 8080 -j ACCEPT
+COMMIT
+`;
+
+describe("linux-firewall-rules", () => {
+  describe("parseNftRuleset", () => {
+    it("should follow firewalld zone chains to the final reject", () => {
+      const ruleset = parseNftRuleset(JSON.stringify(FIREWALLD_RULESET));
+
+      const expected = {
+        policy: "reject",
+        openPorts: [
+          { protocol: "tcp", from: 22, to: 22 },
+          { protocol: "tcp", from: 1025, to: 65535 },
+          { protocol: "udp", from: 137, to: 138 },
+          { protocol: "udp", from: 1025, to: 65535 },
+        ],
+      };
+      expect(ruleset).toEqual({
+        backend: "nftables",
+        ipv4: expected,
+        ipv6: expected,
+      });
+      expect(describeFirewallPorts(ruleset!.ipv4.openPorts)).toBe(
+        "tcp 22, tcp 1025-65535, udp 137-138, udp 1025-65535",
+      );
+    });
+
+    it("should report IPv6 as unfiltered when only the ip family has rules", () => {
+      const ruleset = parseNftRuleset(
+        JSON.stringify({
+          nftables: [
+            {
+              chain: {
+                family: "ip",
+                table: "filter",
+                name: "input",
+                type: "filter",
+                hook: "input",
+                prio: 0,
+                policy: "drop",
+              },
+            },
+            {
+              rule: {
+                family: "ip",
+                table: "filter",
+                chain: "input",
+                expr: [
+                  {
+                    match: {
+                      op: "==",
+                      left: { meta: { key: "l4proto" } },
+                      right: "tcp",
+                    },
+                  },
+                  {
+                    match: {
+                      op: "==",
+                      left: { payload: { protocol: "th", field: "dport" } },
+                      right: "@allowed",
+                    },
+                  },
+                  { counter: { packets: 0, bytes: 0 } },
+                  { accept: null },
+                ],
+              },
+            },
+            {
+              set: {
+                family: "ip",
+                table: "filter",
+                name: "allowed",
+                type: "inet_service",
+                elem: [22, { elem: { val: 443, counter: {} } }],
+              },
+            },
+          ],
+        }),
+      );
+
+      expect(ruleset).toEqual({
+        backend: "nftables",
+        ipv4: {
+          policy: "drop",
+          openPorts: [
+            { protocol: "tcp", from: 22, to: 22 },
+            { protocol: "tcp", from: 443, to: 443 },
+          ],
+        },
+        ipv6: { policy: "accept", openPorts: [] },
+      });
+    });
+
+    it("should return null without inbound filter chains", () => {
+      expect(
+        parseNftRuleset(
+          JSON.stringify({
+            nftables: [{ metainfo: { json_schema_version: 1 } }],
+          }),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("parseIptablesSave", () => {
+    it("should read the INPUT policy and ports opened by ufw", () => {
+      expect(parseIptablesSave(UFW_IPTABLES_SAVE)).toEqual({
+        policy: "drop",
+        openPorts: [
+          { protocol: "tcp", from: 22, to: 22 },
+          { protocol: "tcp", from: 80, to: 80 },
+          { protocol: "tcp", from: 443, to: 443 },
+        ],
+      });
+    });
+
+    it("should treat an unconditional ACCEPT as an open firewall", () => {
+      expect(
+        parseIptablesSave(
+          "*filter\n:INPUT DROP [0:0]\n-A INPUT -p tcp --dport 22 -j ACCEPT\n-A INPUT -j ACCEPT\nCOMMIT\n",
+        ),
+      ).toEqual({ policy: "accept", openPorts: [] });
+    });
+
+    it("should return null without a filter table", () => {
+      expect(parseIptablesSave("")).toBeNull();
+    });
+  });
+});
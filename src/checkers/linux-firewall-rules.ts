@@ -0,0 +1,584 @@
+/**
+ * Firewall model built from nftables (`nft -j list ruleset`) and iptables
+ * (`iptables-save`) rulesets.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * What happens to a new inbound connection that no rule accepts
+ */
+export type InboundPolicy = "accept" | "drop" | "reject";
+
+/**
+ * A port range accepted from any address
+ */
+export interface FirewallPort {
+  protocol: "tcp" | "udp";
+  from: number;
+  to: number; // Same as from for a single port
+}
+
+/**
+ * Effective inbound filtering of one address family
+ */
+export interface InboundFilter {
+  policy: InboundPolicy;
+  openPorts: FirewallPort[]; // Empty when the policy is accept
+}
+
+export interface FirewallRuleset {
+  backend: "nftables" | "iptables";
+  ipv4: InboundFilter;
+  ipv6?: InboundFilter; // Undefined when the IPv6 rules could not be read
+}
+
+type Verdict =
+  | { kind: "accept" | "drop" | "reject" | "return" }
+  | { kind: "jump" | "goto"; target: string };
+
+/**
+ * A rule reduced to what matters for inbound filtering. Rules that also
+ * match on addresses, interfaces or anything else are "restricted" and do
+ * not open or close anything for every client.
+ */
+interface Rule {
+  verdict: Verdict;
+  match: "any" | "ports" | "established" | "loopback" | "restricted";
+  ports: FirewallPort[];
+}
+
+interface Chain {
+  policy: InboundPolicy; // Only used for base chains
+  rules: Rule[];
+}
+
+const ALL_PORTS = { from: 1, to: 65535 };
+
+/**
+ * Parse `nft -j list ruleset`. Returns null when no table filters inbound
+ * traffic, e.g. on systems still using legacy iptables.
+ */
+export function parseNftRuleset(json: string): FirewallRuleset | null {
+  const parsed: unknown = JSON.parse(json);
+  const objects =
+    isRecord(parsed) && Array.isArray(parsed.nftables) ? parsed.nftables : [];
+
+  const sets = new Map<string, unknown[]>();
+  for (const object of objects) {
+    const set = isRecord(object) && isRecord(object.set) ? object.set : null;
+    if (set && Array.isArray(set.elem)) {
+      sets.set(`${set.family} ${set.table} ${set.name}`, set.elem);
+    }
+  }
+
+  const chains = new Map<string, Chain>();
+  const baseChains: { key: string; family: string; priority: number }[] = [];
+  for (const object of objects) {
+    if (!isRecord(object)) {
+      continue;
+    }
+
+    if (isRecord(object.chain)) {
+      const { family, table, name, hook, type, prio, policy } = object.chain;
+      const key = `${family} ${table} ${name}`;
+      chains.set(key, {
+        policy: policy === "drop" ? "drop" : "accept",
+        rules: [],
+      });
+      if (hook === "input" && type === "filter") {
+        baseChains.push({
+          key,
+          family: String(family),
+          priority: typeof prio === "number" ? prio : 0,
+        });
+      }
+    }
+
+    if (isRecord(object.rule) && Array.isArray(object.rule.expr)) {
+      const { family, table, chain } = object.rule;
+      const rule = parseNftRule(
+        object.rule.expr,
+        (name) => sets.get(`${family} ${table} ${name}`),
+        (target) => `${family} ${table} ${target}`,
+      );
+      if (rule) {
+        chains.get(`${family} ${table} ${chain}`)?.rules.push(rule);
+      }
+    }
+  }
+
+  const forFamily = (families: string[]): InboundFilter =>
+    combineBaseChains(
+      baseChains
+        .filter((base) => families.includes(base.family))
+        .sort((a, b) => a.priority - b.priority)
+        .map((base) => evaluateBaseChain(chains, base.key)),
+    );
+
+  const ipv4Chains = baseChains.filter((base) =>
+    ["ip", "inet"].includes(base.family),
+  );
+  const ipv6Chains = baseChains.filter((base) =>
+    ["ip6", "inet"].includes(base.family),
+  );
+  if (ipv4Chains.length === 0 && ipv6Chains.length === 0) {
+    return null;
+  }
+
+  return {
+    backend: "nftables",
+    ipv4: forFamily(["ip", "inet"]),
+    ipv6: forFamily(["ip6", "inet"]),
+  };
+}
+
+/**
+ * Parse the filter table of `iptables-save` or `ip6tables-save`. Returns
+ * null when the output has no filter table.
+ */
+export function parseIptablesSave(output: string): InboundFilter | null {
+  const chains = new Map<string, Chain>();
+  const ruleLines: string[][] = [];
+  let inFilterTable = false;
+
+  for (const rawLine of output.split("\n")) {
+    const line = rawLine.trim();
+    if (line.startsWith("*")) {
+      inFilterTable = line === "*filter";
+      continue;
+    }
+    if (!inFilterTable) {
+      continue;
+    }
+
+    if (line.startsWith(":")) {
+      const [name, policy] = line.slice(1).split(/\s+/);
+      chains.set(name, {
+        policy:
+          policy === "DROP"
+            ? "drop"
+            : policy === "REJECT"
+              ? "reject"
+              : "accept",
+        rules: [],
+      });
+    } else if (line.startsWith("-A ") || line.startsWith("[")) {
+      ruleLines.push(line.match(/"(?:[^"\\]|\\.)*"|\S+/g) ?? []);
+    }
+  }
+
+  if (!chains.has("INPUT")) {
+    return null;
+  }
+
+  // Parsed once every chain is declared so jumps can be told from targets
+  // such as LOG
+  for (const tokens of ruleLines) {
+    const chainIndex = tokens.indexOf("-A");
+    const chain = chains.get(tokens[chainIndex + 1]);
+    const rule = parseIptablesRule(tokens.slice(chainIndex + 2), chains);
+    if (chain && rule) {
+      chain.rules.push(rule);
+    }
+  }
+
+  return evaluateBaseChain(chains, "INPUT");
+}
+
+/**
+ * Describe ports for reports, e.g. "tcp 22, udp 5353, tcp 1025-65535"
+ */
+export function describeFirewallPorts(ports: FirewallPort[]): string {
+  return ports
+    .map(
+      ({ protocol, from, to }) =>
+        `${protocol} ${from === to ? from : `${from}-${to}`}`,
+    )
+    .join(", ");
+}
+
+function parseNftRule(
+  expressions: unknown[],
+  lookupSet: (name: string) => unknown[] | undefined,
+  chainKey: (target: string) => string,
+): Rule | null {
+  let verdict: Verdict | undefined;
+  let protocols: ("tcp" | "udp")[] | undefined;
+  let ranges: { from: number; to: number }[] | undefined;
+  let established = false;
+  let loopback = false;
+  let restricted = false;
+
+  for (const expression of expressions) {
+    if (!isRecord(expression)) {
+      continue;
+    }
+
+    for (const kind of ["accept", "drop", "reject", "return"] as const) {
+      if (kind in expression) {
+        verdict = { kind };
+      }
+    }
+    for (const kind of ["jump", "goto"] as const) {
+      const jump = expression[kind];
+      if (isRecord(jump) && typeof jump.target === "string") {
+        verdict = { kind, target: chainKey(jump.target) };
+      }
+    }
+
+    const match = isRecord(expression.match) ? expression.match : null;
+    if (!match) {
+      continue; // counter, log, limit and other statements
+    }
+
+    const { left, right, op } = match;
+    const values = nftValues(right, lookupSet);
+    const payload =
+      isRecord(left) && isRecord(left.payload) ? left.payload : {};
+    const meta = isRecord(left) && isRecord(left.meta) ? left.meta.key : null;
+    const ct = isRecord(left) && isRecord(left.ct) ? left.ct.key : null;
+
+    if ((op !== "==" && op !== "in") || values === null) {
+      restricted = true;
+    } else if (payload.field === "dport") {
+      const portRanges = values.map(toPortRange);
+      if (portRanges.some((range) => range === null)) {
+        restricted = true;
+      } else {
+        ranges = portRanges as { from: number; to: number }[];
+      }
+      if (payload.protocol === "tcp" || payload.protocol === "udp") {
+        protocols = [payload.protocol];
+      } else if (payload.protocol !== "th") {
+        restricted = true;
+      }
+    } else if (
+      meta === "l4proto" ||
+      payload.field === "nexthdr" ||
+      (payload.protocol === "ip" && payload.field === "protocol")
+    ) {
+      protocols = values.filter(
+        (value): value is "tcp" | "udp" => value === "tcp" || value === "udp",
+      );
+      restricted ||= protocols.length < values.length;
+    } else if (ct === "state") {
+      established ||= !values.some(
+        (value) => value === "new" || value === "untracked",
+      );
+    } else if (meta === "iifname" || meta === "iif") {
+      if (values.length === 1 && values[0] === "lo") {
+        loopback = true;
+      } else {
+        restricted = true;
+      }
+    } else {
+      restricted = true;
+    }
+  }
+
+  return verdict
+    ? toRule(verdict, { protocols, ranges, established, loopback, restricted })
+    : null;
+}
+
+function parseIptablesRule(
+  tokens: string[],
+  chains: Map<string, Chain>,
+): Rule | null {
+  let verdict: Verdict | undefined;
+  let protocols: ("tcp" | "udp")[] | undefined;
+  let ranges: { from: number; to: number }[] | undefined;
+  let established = false;
+  let loopback = false;
+  let restricted = false;
+
+  for (let index = 0; index < tokens.length; index++) {
+    const option = tokens[index];
+    const next = (): string => tokens[++index] ?? "";
+
+    switch (option) {
+      case "-m":
+      case "--match":
+      case "--comment":
+      case "--reject-with":
+      case "--log-prefix":
+      case "--log-level":
+        next();
+        break;
+      case "-p":
+      case "--protocol": {
+        const protocol = next();
+        if (protocol === "tcp" || protocol === "udp") {
+          protocols = [protocol];
+        } else if (protocol !== "all") {
+          restricted = true;
+        }
+        break;
+      }
+      case "--dport":
+      case "--dports":
+      case "--destination-port":
+      case "--destination-ports": {
+        const portRanges = next()
+          .split(",")
+          .map((port) => toPortRange(port.replace(":", "-")));
+        if (portRanges.some((range) => range === null)) {
+          restricted = true;
+        } else {
+          ranges = portRanges as { from: number; to: number }[];
+        }
+        break;
+      }
+      case "--state":
+      case "--ctstate": {
+        const states = next().split(",");
+        established ||= !states.some(
+          (state) => state === "NEW" || state === "UNTRACKED",
+        );
+        break;
+      }
+      case "-i":
+      case "--in-interface":
+        if (next() === "lo") {
+          loopback = true;
+        } else {
+          restricted = true;
+        }
+        break;
+      case "-s":
+      case "--source":
+      case "-d":
+      case "--destination": {
+        const address = next();
+        restricted ||= address !== "0.0.0.0/0" && address !== "::/0";
+        break;
+      }
+      case "-j":
+      case "--jump":
+      case "-g":
+      case "--goto": {
+        const target = next();
+        if (["ACCEPT", "DROP", "REJECT", "RETURN"].includes(target)) {
+          verdict = {
+            kind: target.toLowerCase() as
+              "accept" | "drop" | "reject" | "return",
+          };
+        } else if (chains.has(target)) {
+          verdict = {
+            kind: option === "-g" || option === "--goto" ? "goto" : "jump",
+            target,
+          };
+        }
+        break;
+      }
+      default:
+        if (option.startsWith("[")) {
+          break; // Packet counters from iptables-save -c
+        }
+        restricted = true;
+        if (tokens[index + 1] && !tokens[index + 1].startsWith("-")) {
+          next();
+        }
+    }
+  }
+
+  return verdict
+    ? toRule(verdict, { protocols, ranges, established, loopback, restricted })
+    : null;
+}
+
+function toRule(
+  verdict: Verdict,
+  conditions: {
+    protocols?: ("tcp" | "udp")[];
+    ranges?: { from: number; to: number }[];
+    established: boolean;
+    loopback: boolean;
+    restricted: boolean;
+  },
+): Rule {
+  const { protocols, ranges, established, loopback, restricted } = conditions;
+  if (restricted) {
+    return { verdict, match: "restricted", ports: [] };
+  }
+  if (loopback) {
+    return { verdict, match: "loopback", ports: [] };
+  }
+  if (established) {
+    return { verdict, match: "established", ports: [] };
+  }
+  if (!protocols && !ranges) {
+    return { verdict, match: "any", ports: [] };
+  }
+
+  // A port match without a protocol (nft `th dport`) covers both
+  const ports = (protocols ?? ["tcp", "udp"]).flatMap((protocol) =>
+    (ranges ?? [ALL_PORTS]).map((range) => ({ protocol, ...range })),
+  );
+  return { verdict, match: "ports", ports };
+}
+
+/**
+ * Follow a base chain and the chains it jumps to, collecting ports accepted
+ * for every client. The policy is the first unconditional verdict reached, or
+ * the chain policy when the rules fall through.
+ */
+function evaluateBaseChain(
+  chains: Map<string, Chain>,
+  name: string,
+): InboundFilter {
+  const openPorts: FirewallPort[] = [];
+  const outcome = walkChain(chains, name, openPorts, []);
+  const policy = outcome === "return" ? chains.get(name)!.policy : outcome;
+  return {
+    policy,
+    openPorts: policy === "accept" ? [] : mergePorts(openPorts),
+  };
+}
+
+function walkChain(
+  chains: Map<string, Chain>,
+  name: string,
+  openPorts: FirewallPort[],
+  callers: string[],
+): InboundPolicy | "return" {
+  const chain = chains.get(name);
+  if (!chain || callers.includes(name)) {
+    return "return";
+  }
+
+  for (const { verdict, match, ports } of chain.rules) {
+    if (match === "established" || match === "loopback") {
+      continue;
+    }
+
+    if (verdict.kind === "jump" || verdict.kind === "goto") {
+      // Chains behind a restricted jump (such as firewalld zones selected by
+      // interface) still count: their ports are open on some interface
+      const outcome = walkChain(chains, verdict.target, openPorts, [
+        ...callers,
+        name,
+      ]);
+      if (
+        match === "any" &&
+        (outcome !== "return" || verdict.kind === "goto")
+      ) {
+        return outcome;
+      }
+      if (match === "ports" && outcome === "accept") {
+        openPorts.push(...ports);
+      }
+      continue;
+    }
+
+    if (match === "any") {
+      return verdict.kind;
+    }
+    if (match === "ports" && verdict.kind === "accept") {
+      openPorts.push(...ports);
+    }
+  }
+
+  return "return";
+}
+
+/**
+ * A new connection has to pass every base chain on the input hook, in
+ * priority order
+ */
+function combineBaseChains(filters: InboundFilter[]): InboundFilter {
+  const filtering = filters.filter((filter) => filter.policy !== "accept");
+  if (filtering.length === 0) {
+    return { policy: "accept", openPorts: [] };
+  }
+
+  return {
+    policy: filtering[0].policy,
+    openPorts: filtering
+      .map((filter) => filter.openPorts)
+      .reduce(intersectPorts),
+  };
+}
+
+function mergePorts(ports: FirewallPort[]): FirewallPort[] {
+  const sorted = [...ports].sort(
+    (a, b) => a.protocol.localeCompare(b.protocol) || a.from - b.from,
+  );
+  const merged: FirewallPort[] = [];
+  for (const port of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.protocol === port.protocol && port.from <= last.to + 1) {
+      last.to = Math.max(last.to, port.to);
+    } else {
+      merged.push({ ...port });
+    }
+  }
+  return merged;
+}
+
+function intersectPorts(a: FirewallPort[], b: FirewallPort[]): FirewallPort[] {
+  const overlaps: FirewallPort[] = [];
+  for (const left of a) {
+    for (const right of b) {
+      const from = Math.max(left.from, right.from);
+      const to = Math.min(left.to, right.to);
+      if (left.protocol === right.protocol && from <= to) {
+        overlaps.push({ protocol: left.protocol, from, to });
+      }
+    }
+  }
+  return mergePorts(overlaps);
+}
+
+/**
+ * Flatten the right-hand side of an nft match into plain values, resolving
+ * named sets. Returns null for anything that is not a literal, set or range.
+ */
+function nftValues(
+  value: unknown,
+  lookupSet: (name: string) => unknown[] | undefined,
+): unknown[] | null {
+  if (typeof value === "string" && value.startsWith("@")) {
+    const elements = lookupSet(value.slice(1));
+    return elements ? nftValues({ set: elements }, lookupSet) : null;
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    return [value];
+  }
+  if (isRecord(value) && Array.isArray(value.range)) {
+    return [`${value.range[0]}-${value.range[1]}`];
+  }
+  if (isRecord(value) && isRecord(value.elem)) {
+    return nftValues(value.elem.val, lookupSet); // Set element with counters
+  }
+  const elements = Array.isArray(value)
+    ? value // Flag lists such as `ct state established,related`
+    : isRecord(value) && Array.isArray(value.set)
+      ? value.set
+      : null;
+  if (elements) {
+    const values: unknown[] = [];
+    for (const element of elements) {
+      const flattened = nftValues(element, lookupSet);
+      if (flattened === null) {
+        return null;
+      }
+      values.push(...flattened);
+    }
+    return values;
+  }
+  return null;
+}
+
+function toPortRange(value: unknown): { from: number; to: number } | null {
+  const match = String(value).match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  const from = parseInt(match[1], 10);
+  return { from, to: match[2] ? parseInt(match[2], 10) : from };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,101 @@
+import {
+  isLoopbackAddress,
+  parseProcNetSockets,
+  parseSsListening,
+} from "./linux-listening-ports";
+
+// Captured from a Fedora 40 workstation, run as root
+const SS_OUTPUT = `Netid State  Recv-Q Send-Q      Local Address:Port  Peer Address:PortProcess
+udp   UNCONN 0      0                 0.0.0.0:5353       0.0.0.0:*    users:(("avahi-daemon",pid=912,fd=12))
+udp   UNCONN 0      0           127.0.0.53%lo:53         0.0.0.0:*    users:(("systemd-resolve",pid=845,fd=20))
+udp   UNCONN 0      0                    [::]:5353          [::]:*    users:(("avahi-daemon",pid=912,fd=13))
+tcp   LISTEN 0      4096            127.0.0.1:631        0.0.0.0:*    users:(("cupsd",pid=1230,fd=7))
+tcp   LISTEN 0      511                     *:3000             *:*    users:(("node",pid=40211,fd=21),("node",pid=40212,fd=21))
+tcp   LISTEN 0      4096                [::1]:631           [::]:*    users:(("cupsd",pid=1230,fd=6))
+tcp   LISTEN 0      128                  [::]:22            [::]:*
+`;
+
+// /proc/net/tcp and /proc/net/tcp6 with one listening and one established socket each
+const PROC_NET_TCP = `  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 0100007F:0277 00000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 31412 1 0000000000000000 100 0 0 10 0
+   1: 0F02000A:A4C2 2211A8C0:01BB 01 00000000:00000000 02:000A7D3A 00000000  1000        0 98213 2 0000000000000000 20 4 30 10 -1
+`;
+const PROC_NET_TCP6 = `  sl  local_address                         remote_address                        st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 00000000000000000000000000000000:0016 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 24511 1 0000000000000000 100 0 0 10 0
+   1: 00000000000000000000000001000000:0277 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000     0        0 31411 1 0000000000000000 100 0 0 10 0
+`;
+
+describe("linux-listening-ports", () => {
+  describe("parseSsListening", () => {
+    it("should read protocol, address, port and owning process", () => {
+      expect(parseSsListening(SS_OUTPUT)).toEqual([
+        {
+          protocol: "udp",
+          address: "0.0.0.0",
+          port: 5353,
+          process: "avahi-daemon",
+          pid: 912,
+        },
+        {
+          protocol: "udp",
+          address: "127.0.0.53",
+          port: 53,
+          process: "systemd-resolve",
+          pid: 845,
+        },
+        {
+          protocol: "udp",
+          address: "::",
+          port: 5353,
+          process: "avahi-daemon",
+          pid: 912,
+        },
+        {
+          protocol: "tcp",
+          address: "127.0.0.1",
+          port: 631,
+          process: "cupsd",
+          pid: 1230,
+        },
+        {
+          protocol: "tcp",
+          address: "0.0.0.0",
+          port: 3000,
+          process: "node",
+          pid: 40211,
+        },
+        {
+          protocol: "tcp",
+          address: "::1",
+          port: 631,
+          process: "cupsd",
+          pid: 1230,
+        },
+        { protocol: "tcp", address: "::", port: 22 },
+      ]);
+    });
+  });
+
+  describe("parseProcNetSockets", () => {
+    it("should decode listening IPv4 and IPv6 sockets", () => {
+      expect(parseProcNetSockets(PROC_NET_TCP, "tcp")).toEqual([
+        { protocol: "tcp", address: "127.0.0.1", port: 631 },
+      ]);
+      expect(parseProcNetSockets(PROC_NET_TCP6, "tcp")).toEqual([
+        { protocol: "tcp", address: "::", port: 22 },
+        { protocol: "tcp", address: "::1", port: 631 },
+      ]);
+    });
+  });
+
+  describe("isLoopbackAddress", () => {
+    it("should only accept loopback addresses", () => {
+      expect(isLoopbackAddress("127.0.0.53")).toBe(true);
+      expect(isLoopbackAddress("::1")).toBe(true);
+      expect(isLoopbackAddress("::ffff:127.0.0.1")).toBe(true);
+      expect(isLoopbackAddress("0.0.0.0")).toBe(false);
+      expect(isLoopbackAddress("::")).toBe(false);
+      expect(isLoopbackAddress("192.168.1.20")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Parsers for listening socket tables (`ss -tulpn` and /proc/net).
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * A TCP socket in LISTEN state or an unconnected UDP socket
+ */
+export interface ListeningSocket {
+  protocol: "tcp" | "udp";
+  address: string; // Local address without brackets, e.g. "0.0.0.0" or "::1"
+  port: number;
+  process?: string; // Owning process, when visible to the current user
+  pid?: number;
+}
+
+const TCP_LISTEN_STATE = "0A";
+const UDP_UNCONNECTED_STATE = "07";
+
+/**
+ * Parse `ss -tulpn` output. Sockets of other users only carry a process when
+ * ss runs as root.
+ */
+export function parseSsListening(output: string): ListeningSocket[] {
+  const sockets: ListeningSocket[] = [];
+
+  for (const line of output.split("\n")) {
+    const columns = line.trim().split(/\s+/);
+    const [netid, , , , local, , ...rest] = columns;
+    if ((netid !== "tcp" && netid !== "udp") || !local) {
+      continue;
+    }
+
+    const separator = local.lastIndexOf(":");
+    const port = parseInt(local.slice(separator + 1), 10);
+    if (separator === -1 || isNaN(port)) {
+      continue;
+    }
+
+    const processMatch = rest.join(" ").match(/\(\("([^"]+)",pid=(\d+)/);
+    sockets.push({
+      protocol: netid,
+      address: normalizeAddress(local.slice(0, separator)),
+      port,
+      ...(processMatch && {
+        process: processMatch[1],
+        pid: parseInt(processMatch[2], 10),
+      }),
+    });
+  }
+
+  return unique(sockets);
+}
+
+/**
+ * Parse /proc/net/{tcp,tcp6,udp,udp6}. The tables carry no process names.
+ */
+export function parseProcNetSockets(
+  content: string,
+  protocol: "tcp" | "udp",
+): ListeningSocket[] {
+  const listeningState =
+    protocol === "tcp" ? TCP_LISTEN_STATE : UDP_UNCONNECTED_STATE;
+  const sockets: ListeningSocket[] = [];
+
+  for (const line of content.split("\n").slice(1)) {
+    const [, local, , state] = line.trim().split(/\s+/);
+    if (!local || state !== listeningState) {
+      continue;
+    }
+
+    const [hexAddress, hexPort] = local.split(":");
+    sockets.push({
+      protocol,
+      address: decodeProcAddress(hexAddress),
+      port: parseInt(hexPort, 16),
+    });
+  }
+
+  return unique(sockets);
+}
+
+/**
+ * Whether a socket only accepts connections from this machine
+ */
+export function isLoopbackAddress(address: string): boolean {
+  return (
+    address.startsWith("127.") ||
+    address === "::1" ||
+    address.startsWith("::ffff:127.")
+  );
+}
+
+/**
+ * Strip brackets and interface suffixes (`%lo`) and spell wildcards the same
+ * way for IPv4 and IPv6
+ */
+function normalizeAddress(address: string): string {
+  const bare = address.replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  return bare === "*" ? "0.0.0.0" : bare;
+}
+
+/**
+ * /proc/net addresses are hex words in host (little-endian) byte order
+ */
+function decodeProcAddress(hex: string): string {
+  const bytes: number[] = [];
+  for (let word = 0; word < hex.length; word += 8) {
+    const wordBytes = hex
+      .slice(word, word + 8)
+      .match(/../g)!
+      .map((byte) => parseInt(byte, 16));
+    bytes.push(...wordBytes.reverse());
+  }
+
+  if (bytes.length === 4) {
+    return bytes.join(".");
+  }
+
+  if (bytes.slice(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff) {
+    return `::ffff:${bytes.slice(12).join(".")}`; // IPv4-mapped
+  }
+
+  const groups: string[] = [];
+  for (let index = 0; index < 16; index += 2) {
+    groups.push(((bytes[index] << 8) | bytes[index + 1]).toString(16));
+  }
+  return compressIpv6(groups);
+}
+
+/**
+ * Replace the longest run of zero groups with "::"
+ */
+function compressIpv6(groups: string[]): string {
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let start = 0; start < groups.length; start++) {
+    let length = 0;
+    while (groups[start + length] === "0") {
+      length++;
+    }
+    if (length > bestLength && length > 1) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  if (bestStart === -1) {
+    return groups.join(":");
+  }
+  return `${groups.slice(0, bestStart).join(":")}::${groups
+    .slice(bestStart + bestLength)
+    .join(":")}`;
+}
+
+function unique(sockets: ListeningSocket[]): ListeningSocket[] {
+  const seen = new Set<string>();
+  return sockets.filter((socket) => {
+    const key = `${socket.protocol} ${socket.address} ${socket.port}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
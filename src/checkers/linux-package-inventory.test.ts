@@ -0,0 +1,135 @@
+import {
+  combineLinuxSources,
+  parseDpkgPackages,
+  parseFlatpakApps,
+  parseNpmGlobalPackages,
+  parsePipPackages,
+  parseRpmPackages,
+  parseSnapApps,
+} from "./linux-package-inventory";
+
+// Captured output from Ubuntu 22.04 and Fedora 40 workstations
+const DPKG_OUTPUT = [
+  "adduser\tinstall ok installed",
+  "firefox\tinstall ok installed",
+  "libc6:amd64\tinstall ok installed",
+  "teamviewer\tdeinstall ok config-files",
+  "zoom\tinstall ok installed",
+  "",
+].join("\n");
+
+const RPM_OUTPUT = [
+  "bash",
+  "gpg-pubkey",
+  "kernel-core",
+  "kernel-core",
+  "anydesk",
+  "",
+].join("\n");
+
+const FLATPAK_OUTPUT = [
+  "com.discordapp.Discord\tDiscord",
+  "org.mozilla.Thunderbird\tThunderbird",
+  "org.example.NoName\t",
+  "",
+].join("\n");
+
+const SNAP_OUTPUT = `Name               Version          Rev    Tracking         Publisher      Notes
+bare               1.0              5      latest/stable    canonical✓     base
+core22             20240111         1122   latest/stable    canonical✓     base
+slack              4.36.140         134    latest/stable    slack✓         -
+snapd              2.61.2           21184  latest/stable    canonical✓     snapd
+spotify            1.2.31.1205      75     latest/stable    spotify✓       -
+`;
+
+const NPM_OUTPUT = [
+  "/usr/lib",
+  "/usr/lib/node_modules/@angular/cli",
+  "/usr/lib/node_modules/npm",
+  "/usr/lib/node_modules/ngrok",
+  "",
+].join("\n");
+
+const PIP_OUTPUT = [
+  "certifi==2024.2.2",
+  "requests==2.31.0",
+  "localtool @ file:///home/user/localtool",
+  "",
+].join("\n");
+
+describe("linux-package-inventory", () => {
+  describe("parseDpkgPackages", () => {
+    it("should return installed packages without architecture suffixes", () => {
+      expect(parseDpkgPackages(DPKG_OUTPUT)).toEqual([
+        "adduser",
+        "firefox",
+        "libc6",
+        "zoom",
+      ]);
+    });
+
+    it("should return empty list for empty output", () => {
+      expect(parseDpkgPackages("")).toEqual([]);
+    });
+  });
+
+  describe("parseRpmPackages", () => {
+    it("should de-duplicate packages and skip gpg keys", () => {
+      expect(parseRpmPackages(RPM_OUTPUT)).toEqual([
+        "bash",
+        "kernel-core",
+        "anydesk",
+      ]);
+    });
+  });
+
+  describe("parseFlatpakApps", () => {
+    it("should prefer display names and fall back to application ids", () => {
+      expect(parseFlatpakApps(FLATPAK_OUTPUT)).toEqual([
+        "Discord",
+        "Thunderbird",
+        "org.example.NoName",
+      ]);
+    });
+  });
+
+  describe("parseSnapApps", () => {
+    it("should skip the header and runtime snaps", () => {
+      expect(parseSnapApps(SNAP_OUTPUT)).toEqual(["slack", "spotify"]);
+    });
+  });
+
+  describe("parseNpmGlobalPackages", () => {
+    it("should keep scoped package names", () => {
+      expect(parseNpmGlobalPackages(NPM_OUTPUT)).toEqual([
+        "@angular/cli",
+        "npm",
+        "ngrok",
+      ]);
+    });
+  });
+
+  describe("parsePipPackages", () => {
+    it("should strip versions and direct references", () => {
+      expect(parsePipPackages(PIP_OUTPUT)).toEqual([
+        "certifi",
+        "requests",
+        "localtool",
+      ]);
+    });
+  });
+
+  describe("combineLinuxSources", () => {
+    it("should merge all sources without duplicates", () => {
+      expect(
+        combineLinuxSources({
+          packages: ["firefox", "zoom"],
+          flatpak: ["Discord"],
+          snap: ["zoom"],
+          npm: ["ngrok"],
+          pip: [],
+        }),
+      ).toEqual(["firefox", "zoom", "Discord", "ngrok"]);
+    });
+  });
+});
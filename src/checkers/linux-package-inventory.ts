@@ -0,0 +1,118 @@
+/**
+ * Parsers for Linux package manager output.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+export interface LinuxPackageSources {
+  [source: string]: string[];
+  packages: string[];
+  flatpak: string[];
+  snap: string[];
+  npm: string[];
+  pip: string[];
+}
+
+/**
+ * Snap types that belong to the snap runtime rather than installed applications
+ */
+const SNAP_RUNTIME_NOTES = ["base", "core", "snapd"];
+
+function splitLines(output: string): string[] {
+  return output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index, array) => array.indexOf(value) === index);
+}
+
+/**
+ * Parse `dpkg-query -W -f='${Package}\t${Status}\n'` output.
+ * Only packages whose status is "install ok installed" are returned.
+ */
+export function parseDpkgPackages(output: string): string[] {
+  return unique(
+    splitLines(output)
+      .map((line) => line.split("\t"))
+      .filter(
+        ([name, status]) =>
+          name && (status === undefined || status.endsWith(" installed")),
+      )
+      .map(([name]) => name.split(":")[0]),
+  );
+}
+
+/**
+ * Parse `rpm -qa --qf '%{NAME}\n'` output
+ */
+export function parseRpmPackages(output: string): string[] {
+  return unique(
+    splitLines(output).filter((line) => !line.startsWith("gpg-pubkey")),
+  );
+}
+
+/**
+ * Parse `flatpak list --app --columns=application,name` output.
+ * The display name is preferred, falling back to the application id.
+ */
+export function parseFlatpakApps(output: string): string[] {
+  return unique(
+    splitLines(output)
+      .map((line) => line.split("\t").map((column) => column.trim()))
+      .filter(([applicationId]) => applicationId !== "Application ID")
+      .map(([applicationId, name]) => name || applicationId),
+  );
+}
+
+/**
+ * Parse `snap list` output, skipping the header and runtime snaps (bases, snapd)
+ */
+export function parseSnapApps(output: string): string[] {
+  return splitLines(output)
+    .filter((line) => !line.startsWith("Name "))
+    .map((line) => line.split(/\s+/))
+    .filter(([, , , , , notes]) => {
+      const noteList = (notes || "").split(",");
+      return !noteList.some((note) => SNAP_RUNTIME_NOTES.includes(note));
+    })
+    .map(([name]) => name);
+}
+
+/**
+ * Parse `npm list -g --depth=0 --parseable` output, keeping scoped package names intact
+ */
+export function parseNpmGlobalPackages(output: string): string[] {
+  return unique(
+    splitLines(output)
+      .filter((line) => line.includes("node_modules/"))
+      .map((line) => line.substring(line.lastIndexOf("node_modules/") + 13))
+      .filter((name) => name.length > 0),
+  );
+}
+
+/**
+ * Parse `pip3 list --format=freeze` output ("name==version" or "name @ url")
+ */
+export function parsePipPackages(output: string): string[] {
+  return unique(
+    splitLines(output)
+      .filter((line) => !line.startsWith("#"))
+      .map((line) => line.split(/==|\s@\s/)[0].trim())
+      .filter((name) => name.length > 0),
+  );
+}
+
+/**
+ * Combine every source into a de-duplicated list of installed applications
+ */
+export function combineLinuxSources(sources: LinuxPackageSources): string[] {
+  return unique([
+    ...sources.packages,
+    ...sources.flatpak,
+    ...sources.snap,
+    ...sources.npm,
+    ...sources.pip,
+  ]);
+}
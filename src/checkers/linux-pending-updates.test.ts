@@ -0,0 +1,90 @@
+import {
+  parseAptSecurityUpdates,
+  parseDnfSecurityUpdates,
+  parseZypperSecurityPatches,
+} from "./linux-pending-updates";
+
+describe("linux-pending-updates", () => {
+  describe("parseDnfSecurityUpdates", () => {
+    it("should parse dnf 4 output", () => {
+      const output =
+        "FEDORA-2024-2c8b1a6f3e Important/Sec. openssl-libs-1:3.2.2-3.fc40.x86_64\n" +
+        "FEDORA-2024-2c8b1a6f3e Important/Sec. openssl-1:3.2.2-3.fc40.x86_64\n" +
+        "FEDORA-2024-9d0e4c7b21 None/Sec.      curl-8.6.0-10.fc40.x86_64\n";
+
+      expect(parseDnfSecurityUpdates(output)).toEqual([
+        {
+          package: "openssl-libs",
+          advisory: "FEDORA-2024-2c8b1a6f3e",
+          severity: "Important",
+        },
+        {
+          package: "openssl",
+          advisory: "FEDORA-2024-2c8b1a6f3e",
+          severity: "Important",
+        },
+        { package: "curl", advisory: "FEDORA-2024-9d0e4c7b21" },
+      ]);
+    });
+
+    it("should parse dnf 5 output with issue dates", () => {
+      const output =
+        "Name                   Type     Severity  Package                           Issued\n" +
+        "FEDORA-2024-6f1b2e3a4c security Moderate  glibc-2.39-17.fc41.x86_64         2024-07-12 01:23:45\n" +
+        "FEDORA-2024-0a9b8c7d6e security Important glibc-2.39-22.fc41.x86_64         2024-09-03 02:10:11\n";
+
+      expect(parseDnfSecurityUpdates(output)).toEqual([
+        {
+          package: "glibc",
+          advisory: "FEDORA-2024-6f1b2e3a4c",
+          severity: "Moderate",
+          issued: "2024-07-12",
+        },
+      ]);
+    });
+
+    it("should return nothing when no updates are pending", () => {
+      expect(parseDnfSecurityUpdates("")).toEqual([]);
+    });
+  });
+
+  describe("parseAptSecurityUpdates", () => {
+    it("should only count packages from a security suite", () => {
+      const output =
+        "NOTE: This is only a simulation!\n" +
+        "Inst libssl3 [3.0.2-0ubuntu1.15] (3.0.2-0ubuntu1.16 Ubuntu:22.04/jammy-updates, Ubuntu:22.04/jammy-security [amd64])\n" +
+        "Inst tzdata [2024a-0ubuntu0.22.04] (2024a-0ubuntu0.22.04.1 Ubuntu:22.04/jammy-updates [all])\n" +
+        "Inst linux-image-6.5.0-45-generic (6.5.0-45.45~22.04.1 Ubuntu:22.04/jammy-security [amd64])\n" +
+        "Conf libssl3 (3.0.2-0ubuntu1.16 Ubuntu:22.04/jammy-updates, Ubuntu:22.04/jammy-security [amd64])\n";
+
+      expect(parseAptSecurityUpdates(output)).toEqual([
+        { package: "libssl3" },
+        { package: "linux-image-6.5.0-45-generic" },
+      ]);
+    });
+  });
+
+  describe("parseZypperSecurityPatches", () => {
+    it("should keep needed patches", () => {
+      const output =
+        "Repository                  | Name                     | Category | Severity  | Interactive | Status     | Since      | Summary\n" +
+        "----------------------------+--------------------------+----------+-----------+-------------+------------+------------+--------\n" +
+        "repo-oss-update             | openSUSE-SLE-15.6-2024-1 | security | important | ---         | needed     | 2024-08-01 | Security update for openssl-3\n" +
+        "repo-oss-update             | openSUSE-SLE-15.6-2024-2 | security | moderate  | ---         | applied    | 2024-08-02 | Security update for curl\n" +
+        "repo-oss-update             | openSUSE-SLE-15.6-2024-3 | security | unspecified | ---       | needed     | -          | Security update for vim\n";
+
+      expect(parseZypperSecurityPatches(output)).toEqual([
+        {
+          package: "openSUSE-SLE-15.6-2024-1",
+          severity: "important",
+          issued: "2024-08-01",
+        },
+        { package: "openSUSE-SLE-15.6-2024-3" },
+      ]);
+    });
+
+    it("should return nothing when no patches are listed", () => {
+      expect(parseZypperSecurityPatches("No updates found.\n")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Parsers for pending security updates reported by dnf, apt and zypper.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * A security update that is available but not installed
+ */
+export interface PendingUpdate {
+  package: string; // Package name, or the patch name for zypper
+  advisory?: string; // e.g. "FEDORA-2024-1a2b3c4d5e"
+  severity?: string; // As reported by the repository, e.g. "Important"
+  issued?: string; // YYYY-MM-DD, when the package manager reports it
+}
+
+/**
+ * Parse `dnf updateinfo list --security`. dnf 4 prints
+ * `<advisory> <severity>/Sec. <nevra>`; dnf 5 prints
+ * `<advisory> security <severity> <nevra> <issued date> <issued time>`.
+ */
+export function parseDnfSecurityUpdates(output: string): PendingUpdate[] {
+  const updates: PendingUpdate[] = [];
+
+  for (const line of output.split("\n")) {
+    const [advisory, type, ...rest] = line.trim().split(/\s+/);
+    if (!advisory || !type) {
+      continue;
+    }
+
+    if (/(^|\/)Sec\.$/.test(type) && rest[0]) {
+      const severity = type.includes("/") ? type.split("/")[0] : undefined;
+      updates.push({
+        package: packageName(rest[0]),
+        advisory,
+        ...(severity && severity !== "None" && { severity }),
+      });
+    } else if (type === "security" && rest[1]) {
+      const [severity, nevra, issued] = rest;
+      updates.push({
+        package: packageName(nevra),
+        advisory,
+        ...(severity !== "None" && { severity }),
+        ...(/^\d{4}-\d{2}-\d{2}$/.test(issued ?? "") && { issued }),
+      });
+    }
+  }
+
+  return uniqueByPackage(updates);
+}
+
+/**
+ * Parse `apt-get -s dist-upgrade`. Packages count as security updates when
+ * the new version comes from a `-security` suite.
+ */
+export function parseAptSecurityUpdates(output: string): PendingUpdate[] {
+  const updates: PendingUpdate[] = [];
+
+  for (const line of output.split("\n")) {
+    const match = line.match(/^Inst (\S+) (?:\[[^\]]*\] )?\(\S+ ([^)]*)\)/);
+    if (match && /-security\b/.test(match[2])) {
+      updates.push({ package: match[1] });
+    }
+  }
+
+  return uniqueByPackage(updates);
+}
+
+/**
+ * Parse `zypper list-patches --category security`, a table whose columns
+ * vary between zypper versions
+ */
+export function parseZypperSecurityPatches(output: string): PendingUpdate[] {
+  const rows = output
+    .split("\n")
+    .filter((line) => line.includes("|"))
+    .map((line) => line.split("|").map((cell) => cell.trim()));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const columns = rows[0].map((header) => header.toLowerCase());
+  const column = (row: string[], name: string): string | undefined => {
+    const index = columns.indexOf(name);
+    return index === -1 ? undefined : row[index];
+  };
+
+  const updates: PendingUpdate[] = [];
+  for (const row of rows.slice(1)) {
+    const name = column(row, "name");
+    const status = column(row, "status");
+    if (!name || (status && status !== "needed")) {
+      continue;
+    }
+    const severity = column(row, "severity");
+    const issued = column(row, "since");
+    updates.push({
+      package: name,
+      ...(severity && severity !== "unspecified" && { severity }),
+      ...(issued &&
+        /^\d{4}-\d{2}-\d{2}$/.test(issued) && {
+          issued,
+        }),
+    });
+  }
+
+  return uniqueByPackage(updates);
+}
+
+/**
+ * Strip `-[epoch:]version-release.arch` from an RPM NEVRA
+ */
+function packageName(nevra: string): string {
+  return nevra.replace(/-[^-]+-[^-]+$/, "");
+}
+
+/**
+ * One entry per package, keeping the oldest issue date
+ */
+function uniqueByPackage(updates: PendingUpdate[]): PendingUpdate[] {
+  const byPackage = new Map<string, PendingUpdate>();
+  for (const update of updates) {
+    const existing = byPackage.get(update.package);
+    if (
+      !existing ||
+      (update.issued && (!existing.issued || update.issued < existing.issued))
+    ) {
+      byPackage.set(update.package, update);
+    }
+  }
+  return [...byPackage.values()];
+}
@@ -0,0 +1,120 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  LinuxReleaseTable,
+  findRelease,
+  getLatestRelease,
+  isPastEndOfLife,
+  loadLinuxReleaseTable,
+} from "./linux-release-support";
+
+const TABLE: LinuxReleaseTable = {
+  updated: "2026-01-01",
+  distributions: {
+    fedora: {
+      name: "Fedora",
+      releases: { "39": "2024-11-26", "40": "2025-05-13", "41": "2025-12-15" },
+    },
+    rhel: {
+      name: "Red Hat Enterprise Linux",
+      releases: { "8": "2029-05-31", "9": "2032-05-31" },
+    },
+    ubuntu: {
+      name: "Ubuntu",
+      releases: { "22.04": "2027-06-01", "24.04": "2029-05-31" },
+    },
+  },
+};
+
+describe("linux-release-support", () => {
+  describe("findRelease", () => {
+    it("should match exact releases", () => {
+      expect(findRelease(TABLE, "ubuntu", "22.04")).toEqual({
+        release: "22.04",
+        endOfLife: "2027-06-01",
+      });
+    });
+
+    it("should match minor versions to their major release", () => {
+      expect(findRelease(TABLE, "rhel", "9.4")?.release).toBe("9");
+    });
+
+    it("should return null for unknown distributions or releases", () => {
+      expect(findRelease(TABLE, "gentoo", "2.15")).toBeNull();
+      expect(findRelease(TABLE, "fedora", "38")).toBeNull();
+    });
+  });
+
+  describe("getLatestRelease", () => {
+    it("should compare releases numerically", () => {
+      expect(getLatestRelease(TABLE, "fedora")).toBe("41");
+      expect(getLatestRelease(TABLE, "ubuntu")).toBe("24.04");
+    });
+
+    it("should return null for unknown distributions", () => {
+      expect(getLatestRelease(TABLE, "gentoo")).toBeNull();
+    });
+  });
+
+  describe("isPastEndOfLife", () => {
+    it("should treat the end-of-life day itself as supported", () => {
+      const now = new Date("2025-05-13T12:00:00Z");
+      expect(isPastEndOfLife("2025-05-13", now)).toBe(false);
+      expect(isPastEndOfLife("2025-05-12", now)).toBe(true);
+    });
+  });
+
+  describe("loadLinuxReleaseTable", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "eai-releases-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should return the bundled table when no override exists", () => {
+      const table = loadLinuxReleaseTable(path.join(tempDir, "missing.json"));
+
+      expect(table.distributions.fedora.name).toBe("Fedora");
+      expect(table.distributions.ubuntu.releases["22.04"]).toBeDefined();
+    });
+
+    it("should merge override releases into the bundled table", () => {
+      const overridePath = path.join(tempDir, "linux-releases.json");
+      fs.writeFileSync(
+        overridePath,
+        JSON.stringify({
+          updated: "2030-01-01",
+          distributions: {
+            fedora: { releases: { "99": "2031-01-01" } },
+            gentoo: { name: "Gentoo", rolling: true, releases: {} },
+          },
+        }),
+      );
+
+      const table = loadLinuxReleaseTable(overridePath);
+
+      expect(table.updated).toBe("2030-01-01");
+      expect(table.distributions.fedora.name).toBe("Fedora");
+      expect(table.distributions.fedora.releases["99"]).toBe("2031-01-01");
+      expect(table.distributions.fedora.releases["40"]).toBeDefined();
+      expect(table.distributions.gentoo.rolling).toBe(true);
+    });
+
+    it("should fall back to the bundled table when the override is invalid", () => {
+      const overridePath = path.join(tempDir, "linux-releases.json");
+      fs.writeFileSync(overridePath, "{ not json");
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+
+      const table = loadLinuxReleaseTable(overridePath);
+
+      expect(table.distributions.fedora).toBeDefined();
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import * as fs from "fs";
+import * as path from "path";
+import bundledReleaseTable from "../data/linux-releases.json";
+import { ConfigManager } from "../config/config-manager";
+import { VersionUtils } from "../utils/version-utils";
+
+/**
+ * Release and end-of-life data for one distribution
+ */
+export interface LinuxDistributionReleases {
+  name: string;
+  rolling?: boolean;
+  releases: Record<string, string>; // Release version -> end-of-life date (YYYY-MM-DD)
+}
+
+export interface LinuxReleaseTable {
+  updated: string;
+  distributions: Record<string, LinuxDistributionReleases>;
+}
+
+/**
+ * File name of the offline override table in the config directory
+ */
+export const RELEASE_TABLE_FILENAME = "linux-releases.json";
+
+/**
+ * Load the bundled release table, merged with an override table if one exists.
+ * The override is read from `overridePath` or from the config directory, so the
+ * table can be updated offline without a new build.
+ */
+export function loadLinuxReleaseTable(
+  overridePath?: string,
+): LinuxReleaseTable {
+  const table: LinuxReleaseTable = {
+    updated: bundledReleaseTable.updated,
+    distributions: { ...bundledReleaseTable.distributions },
+  };
+
+  const candidatePath =
+    overridePath ??
+    path.join(
+      ConfigManager.getCentralizedConfigDirectory(),
+      RELEASE_TABLE_FILENAME,
+    );
+
+  try {
+    if (!fs.existsSync(candidatePath)) {
+      return table;
+    }
+
+    const override = JSON.parse(
+      fs.readFileSync(candidatePath, "utf-8"),
+    ) as Partial<LinuxReleaseTable>;
+
+    for (const [id, distribution] of Object.entries(
+      override.distributions ?? {},
+    )) {
+      const existing = table.distributions[id];
+      table.distributions[id] = {
+        ...existing,
+        ...distribution,
+        releases: { ...existing?.releases, ...distribution.releases },
+      };
+    }
+    if (override.updated) {
+      table.updated = override.updated;
+    }
+  } catch (error) {
+    console.warn(
+      `Warning: Could not load Linux release table from ${candidatePath}:`,
+      error,
+    );
+  }
+
+  return table;
+}
+
+/**
+ * Find the release entry matching a VERSION_ID, e.g. "9.4" matches release "9"
+ */
+export function findRelease(
+  table: LinuxReleaseTable,
+  distribution: string,
+  version: string,
+): { release: string; endOfLife: string } | null {
+  const releases = table.distributions[distribution]?.releases ?? {};
+  const match = Object.keys(releases)
+    .filter(
+      (release) => version === release || version.startsWith(`${release}.`),
+    )
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? { release: match, endOfLife: releases[match] } : null;
+}
+
+/**
+ * Newest release of a distribution known to the table
+ */
+export function getLatestRelease(
+  table: LinuxReleaseTable,
+  distribution: string,
+): string | null {
+  const releases = Object.keys(
+    table.distributions[distribution]?.releases ?? {},
+  );
+  if (releases.length === 0) {
+    return null;
+  }
+
+  return releases.sort((a, b) => VersionUtils.compareVersions(b, a))[0];
+}
+
+/**
+ * Whether an end-of-life date has passed
+ */
+export function isPastEndOfLife(endOfLife: string, now = new Date()): boolean {
+  return new Date(`${endOfLife}T23:59:59Z`).getTime() < now.getTime();
+}
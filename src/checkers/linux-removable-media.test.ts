@@ -0,0 +1,66 @@
+import {
+  findModuleBlocking,
+  isModuleLoaded,
+  parseUsbGuardRules,
+} from "./linux-removable-media";
+
+describe("linux-removable-media", () => {
+  describe("findModuleBlocking", () => {
+    const modprobeConfig = `blacklist floppy
+install usb_storage /bin/false
+options snd_hda_intel power_save=1
+alias usb:v*p*d*dc*dsc*dp*ic08isc06ip50in* usb_storage
+`;
+
+    it("should match module names with dashes or underscores", () => {
+      expect(findModuleBlocking(modprobeConfig, "", "usb-storage")).toEqual({
+        blacklisted: false,
+        installCommand: "/bin/false",
+        disabled: true,
+      });
+    });
+
+    it("should not count install commands that still load modules", () => {
+      expect(
+        findModuleBlocking(
+          "install usb_storage /sbin/modprobe --ignore-install usb_storage && logger usb\n",
+          "",
+          "usb-storage",
+        ).disabled,
+      ).toBe(false);
+    });
+
+    it("should read blacklists from the kernel command line", () => {
+      expect(
+        findModuleBlocking(
+          "",
+          "BOOT_IMAGE=(hd0,gpt2)/vmlinuz-6.8.11 root=UUID=1234 ro modprobe.blacklist=nouveau,usb-storage rhgb quiet\n",
+          "usb-storage",
+        ),
+      ).toEqual({ blacklisted: true, disabled: false });
+    });
+  });
+
+  describe("isModuleLoaded", () => {
+    it("should look for the module name in the first column", () => {
+      const procModules =
+        "uas 32768 0 - Live 0x0000000000000000\n" +
+        "usb_storage 86016 1 uas, Live 0x0000000000000000\n";
+      expect(isModuleLoaded(procModules, "usb-storage")).toBe(true);
+      expect(isModuleLoaded(procModules, "usbhid")).toBe(false);
+    });
+  });
+
+  describe("parseUsbGuardRules", () => {
+    it("should detect a rule that allows every device", () => {
+      expect(
+        parseUsbGuardRules(
+          '1: allow id 1d6b:0002 serial "0000:00:14.0" name "xHCI Host Controller"\n2: allow\n',
+        ),
+      ).toEqual({ rules: 2, allowsAll: true });
+      expect(
+        parseUsbGuardRules('1: allow id 046d:c52b name "USB Receiver"\n'),
+      ).toEqual({ rules: 1, allowsAll: false });
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Parsers for kernel module blocking (`modprobe -c`, /proc/cmdline,
+ * /proc/modules) and USBGuard policies.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * How a kernel module is kept from loading
+ */
+export interface ModuleBlocking {
+  blacklisted: boolean; // Not loaded automatically for matching devices
+  installCommand?: string; // `install <module> <command>` replacing modprobe
+  disabled: boolean; // The install command loads nothing, e.g. /bin/false
+}
+
+/**
+ * A USBGuard rule set
+ */
+export interface UsbGuardRules {
+  rules: number;
+  allowsAll: boolean; // A bare `allow` rule authorizes every device
+}
+
+const NOOP_COMMAND = /^(\/usr)?\/bin\/(false|true)$/;
+
+/**
+ * Kernel module names treat `-` and `_` alike
+ */
+export function normalizeModuleName(name: string): string {
+  return name.replace(/-/g, "_");
+}
+
+/**
+ * Find how a module is blocked in the effective modprobe configuration
+ * printed by `modprobe -c` and on the kernel command line
+ * (`modprobe.blacklist=`)
+ */
+export function findModuleBlocking(
+  modprobeConfig: string,
+  cmdline: string,
+  module: string,
+): ModuleBlocking {
+  const name = normalizeModuleName(module);
+  let blacklisted = false;
+  let installCommand: string | undefined;
+
+  for (const line of modprobeConfig.split("\n")) {
+    const [directive, target, ...command] = line.trim().split(/\s+/);
+    if (!target || normalizeModuleName(target) !== name) {
+      continue;
+    }
+    if (directive === "blacklist") {
+      blacklisted = true;
+    } else if (directive === "install" && command.length > 0) {
+      installCommand = command.join(" ");
+    }
+  }
+
+  const cmdlineBlacklist = cmdline.match(/(?:^|\s)modprobe\.blacklist=(\S+)/);
+  if (
+    cmdlineBlacklist &&
+    cmdlineBlacklist[1].split(",").map(normalizeModuleName).includes(name)
+  ) {
+    blacklisted = true;
+  }
+
+  return {
+    blacklisted,
+    ...(installCommand && { installCommand }),
+    disabled: installCommand !== undefined && NOOP_COMMAND.test(installCommand),
+  };
+}
+
+/**
+ * Whether a module is listed in /proc/modules
+ */
+export function isModuleLoaded(procModules: string, module: string): boolean {
+  const name = normalizeModuleName(module);
+  return procModules.split("\n").some((line) => line.split(" ")[0] === name);
+}
+
+/**
+ * Parse `usbguard list-rules` output (`<id>: <rule>`)
+ */
+export function parseUsbGuardRules(output: string): UsbGuardRules {
+  const rules = output
+    .split("\n")
+    .map((line) => line.replace(/^\s*\d+:\s*/, "").trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+  return {
+    rules: rules.length,
+    allowsAll: rules.some((rule) => rule === "allow"),
+  };
+}
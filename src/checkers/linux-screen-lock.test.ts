@@ -0,0 +1,137 @@
+import {
+  parseGsettingsValue,
+  parseHypridle,
+  parseKdeConfig,
+  parseSwayIdle,
+  parseSwayIncludes,
+  parseXfconfChannel,
+} from "./linux-screen-lock";
+
+describe("linux-screen-lock", () => {
+  describe("parseGsettingsValue", () => {
+    it("should parse integers, booleans and strings", () => {
+      expect(parseGsettingsValue("uint32 300\n")).toBe(300);
+      expect(parseGsettingsValue("5\n")).toBe(5);
+      expect(parseGsettingsValue("false\n")).toBe(false);
+      expect(parseGsettingsValue("'blank-only'\n")).toBe("blank-only");
+      expect(parseGsettingsValue("No such key “lock-delay”\n")).toBeNull();
+    });
+  });
+
+  describe("parseKdeConfig", () => {
+    it("should group keys and drop immutability markers", () => {
+      expect(
+        parseKdeConfig(
+          "[Daemon]\nAutolock[$i]=false\nTimeout=10\n\n[Greeter]\nWallpaperPlugin=org.kde.image\n",
+        ),
+      ).toEqual({
+        Daemon: { Autolock: "false", Timeout: "10" },
+        Greeter: { WallpaperPlugin: "org.kde.image" },
+      });
+    });
+  });
+
+  describe("parseXfconfChannel", () => {
+    it("should flatten nested properties into paths", () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+
+<channel name="xfce4-screensaver" version="1.0">
+  <property name="saver" type="empty">
+    <property name="mode" type="int" value="0"/>
+    <property name="idle-activation" type="empty">
+      <property name="delay" type="int" value="10"/>
+    </property>
+  </property>
+  <property name="lock" type="empty">
+    <property name="saver-activation" type="empty">
+      <property name="delay" type="int" value="1"/>
+    </property>
+  </property>
+</channel>
+`;
+      expect(parseXfconfChannel(xml)).toEqual({
+        "/saver/mode": "0",
+        "/saver/idle-activation/delay": "10",
+        "/lock/saver-activation/delay": "1",
+      });
+    });
+  });
+
+  describe("parseSwayIncludes", () => {
+    it("should list include paths without quotes", () => {
+      expect(
+        parseSwayIncludes(
+          "include /etc/sway/config.d/*\n# include ignored\n  include '~/.config/sway/local'\n",
+        ),
+      ).toEqual(["/etc/sway/config.d/*", "~/.config/sway/local"]);
+    });
+  });
+
+  describe("parseSwayIdle", () => {
+    it("should find the first timeout that runs a locker", () => {
+      const config = `set $mod Mod4
+set $lock swaylock -f -c 000000
+# exec swayidle -w timeout 60 'swaylock -f'
+exec swayidle -w \\
+         timeout 600 'swaymsg "output * power off"' resume 'swaymsg "output * power on"' \\
+         timeout 300 '$lock' \\
+         before-sleep '$lock'
+`;
+      expect(parseSwayIdle(config)).toEqual({
+        lockTimeoutSeconds: 300,
+        graceSeconds: 0,
+      });
+    });
+
+    it("should read the grace period of swaylock-effects", () => {
+      expect(
+        parseSwayIdle(
+          "exec_always swayidle -w timeout 120 'swaylock --screenshots --grace 10'\n",
+        ),
+      ).toEqual({ lockTimeoutSeconds: 120, graceSeconds: 10 });
+    });
+
+    it("should tell a missing swayidle from one that never locks", () => {
+      expect(parseSwayIdle("# exec swayidle -w\n")).toBeNull();
+      expect(
+        parseSwayIdle(
+          "exec swayidle -w timeout 600 'swaymsg \"output * dpms off\"'\n",
+        ),
+      ).toEqual({ lockTimeoutSeconds: null, graceSeconds: 0 });
+    });
+  });
+
+  describe("parseHypridle", () => {
+    const hypridle = `general {
+    lock_cmd = pidof hyprlock || hyprlock       # avoid starting multiple hyprlock instances
+    before_sleep_cmd = loginctl lock-session
+}
+
+listener {
+    timeout = 150
+    on-timeout = brightnessctl -s set 10
+}
+
+listener {
+    timeout = 300
+    on-timeout = loginctl lock-session
+}
+`;
+
+    it("should find the listener that locks the session", () => {
+      expect(parseHypridle(hypridle, "general {\n  grace = 2.5\n}\n")).toEqual({
+        lockTimeoutSeconds: 300,
+        graceSeconds: 3,
+      });
+    });
+
+    it("should ignore lock-session without a lock command", () => {
+      expect(
+        parseHypridle(
+          "listener {\n  timeout = 300\n  on-timeout = loginctl lock-session\n}\n",
+          null,
+        ),
+      ).toEqual({ lockTimeoutSeconds: null, graceSeconds: 0 });
+    });
+  });
+});
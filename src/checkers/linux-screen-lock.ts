@@ -0,0 +1,244 @@
+/**
+ * Parsers for the screen lock settings of Linux desktop environments: dconf
+ * values from gsettings, KDE config files, xfconf channels, sway's swayidle
+ * command and Hyprland's hypridle/hyprlock configs.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * How an idle daemon locks the screen
+ */
+export interface IdleLock {
+  lockTimeoutSeconds: number | null; // Null when no idle timeout runs a locker
+  graceSeconds: number; // Time after locking during which input unlocks without a password
+}
+
+const LOCK_COMMAND =
+  /\b(swaylock|hyprlock|gtklock|waylock|i3lock|loginctl\s+lock-session)\b/;
+
+/**
+ * Parse a value printed by `gsettings get`, e.g. "uint32 300", "true" or
+ * "'blank'". Returns null for anything else.
+ */
+export function parseGsettingsValue(
+  output: string,
+): number | boolean | string | null {
+  const value = output.trim().replace(/^u?int(16|32|64)\s+/, "");
+  if (/^-?\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  const quoted = value.match(/^'(.*)'$/);
+  return quoted ? quoted[1] : null;
+}
+
+/**
+ * Parse a KDE config file (e.g. kscreenlockerrc) into its groups. Keys lose
+ * their `[$i]` and `[$e]` markers.
+ */
+export function parseKdeConfig(
+  content: string,
+): Record<string, Record<string, string>> {
+  const groups: Record<string, Record<string, string>> = {};
+  let group = "";
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      group = header[1];
+      continue;
+    }
+    const separator = line.indexOf("=");
+    if (separator > 0) {
+      const key = line
+        .slice(0, separator)
+        .replace(/\[\$[a-z]+\]$/, "")
+        .trim();
+      groups[group] = groups[group] ?? {};
+      groups[group][key] = line.slice(separator + 1).trim();
+    }
+  }
+  return groups;
+}
+
+/**
+ * Parse an xfconf channel file into property paths and values, e.g.
+ * "/lock/saver-activation/delay" → "0"
+ */
+export function parseXfconfChannel(xml: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  const path: string[] = [];
+  const tags = /<property\b([^>]*?)(\/?)>|<\/property>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(xml)) !== null) {
+    if (match[0] === "</property>") {
+      path.pop();
+      continue;
+    }
+    const name = match[1].match(/\bname="([^"]*)"/)?.[1] ?? "";
+    const value = match[1].match(/\bvalue="([^"]*)"/)?.[1];
+    const propertyPath = [...path, name].join("/");
+    if (value !== undefined) {
+      properties[`/${propertyPath}`] = value;
+    }
+    if (!match[2]) {
+      path.push(name);
+    }
+  }
+  return properties;
+}
+
+/**
+ * Paths of the `include` directives of a sway config, in order. Paths are
+ * unquoted but not expanded.
+ */
+export function parseSwayIncludes(config: string): string[] {
+  return config
+    .replace(/\\\n/g, " ")
+    .split("\n")
+    .map((entry) => entry.trim().match(/^include\s+(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => splitShellWords(match[1]).join(" "));
+}
+
+/**
+ * Find the swayidle command started by a sway config and the first idle
+ * timeout that runs a screen locker, or null if swayidle is not started
+ */
+export function parseSwayIdle(config: string): IdleLock | null {
+  const lines = config
+    .replace(/\\\n/g, " ")
+    .split("\n")
+    .map((entry) => entry.trim());
+  const line = lines.find((entry) =>
+    /^exec(_always)?\s+(.*\s)?swayidle\b/.test(entry),
+  );
+  if (!line) {
+    return null;
+  }
+
+  // Expand `set $lock swaylock -f` style variables, longest names first
+  const variables = lines
+    .map((entry) => entry.match(/^set\s+(\$\w+)\s+(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .sort((a, b) => b[1].length - a[1].length);
+  let swayidle = line.slice(line.indexOf("swayidle"));
+  for (const [, name, value] of variables) {
+    swayidle = swayidle.split(name).join(value);
+  }
+
+  const words = splitShellWords(swayidle);
+  const lockTimeouts: { seconds: number; command: string }[] = [];
+  for (let index = 1; index < words.length; index++) {
+    if (words[index] === "timeout" && index + 2 < words.length) {
+      const seconds = parseInt(words[index + 1], 10);
+      const command = words[index + 2];
+      if (!isNaN(seconds) && LOCK_COMMAND.test(command)) {
+        lockTimeouts.push({ seconds, command });
+      }
+      index += 2;
+    }
+  }
+
+  const first = lockTimeouts.sort((a, b) => a.seconds - b.seconds)[0];
+  if (!first) {
+    return { lockTimeoutSeconds: null, graceSeconds: 0 };
+  }
+  // --grace only exists in swaylock-effects; plain swaylock locks at once
+  const grace = first.command.match(/--grace[=\s]+(\d+(\.\d+)?)/);
+  return {
+    lockTimeoutSeconds: first.seconds,
+    graceSeconds: grace ? Math.ceil(parseFloat(grace[1])) : 0,
+  };
+}
+
+/**
+ * Parse a hyprlang config (hypridle.conf, hyprlock.conf) into its
+ * categories, e.g. one "listener" entry per listener block. Top-level values
+ * are in the category named "".
+ */
+export function parseHyprConfig(
+  content: string,
+): { category: string; values: Record<string, string> }[] {
+  const root = { category: "", values: {} as Record<string, string> };
+  const categories = [root];
+  const stack = [root];
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/(^|[^#])#(?!#).*$/, "$1").trim();
+    const opening = line.match(/^([\w-]+)\s*\{$/);
+    if (opening) {
+      const category = { category: opening[1], values: {} };
+      categories.push(category);
+      stack.push(category);
+    } else if (line === "}") {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+    } else {
+      const separator = line.indexOf("=");
+      if (separator > 0) {
+        stack[stack.length - 1].values[line.slice(0, separator).trim()] = line
+          .slice(separator + 1)
+          .trim();
+      }
+    }
+  }
+  return categories;
+}
+
+/**
+ * The first hypridle listener that locks the screen, either by running a
+ * locker or by asking logind to lock the session for `lock_cmd`
+ */
+export function parseHypridle(
+  hypridleConf: string,
+  hyprlockConf: string | null,
+): IdleLock {
+  const categories = parseHyprConfig(hypridleConf);
+  const lockCmd =
+    categories.find((category) => category.category === "general")?.values
+      .lock_cmd ?? "";
+
+  const timeouts = categories
+    .filter((category) => category.category === "listener")
+    .filter(({ values }) => {
+      const command = values["on-timeout"] ?? "";
+      return /lock-session/.test(command)
+        ? LOCK_COMMAND.test(lockCmd)
+        : LOCK_COMMAND.test(command);
+    })
+    .map(({ values }) => parseInt(values.timeout, 10))
+    .filter((seconds) => !isNaN(seconds))
+    .sort((a, b) => a - b);
+
+  const grace = hyprlockConf
+    ? parseFloat(
+        parseHyprConfig(hyprlockConf).find(
+          (category) => category.category === "general",
+        )?.values.grace ?? "0",
+      )
+    : 0;
+
+  return {
+    lockTimeoutSeconds: timeouts.length > 0 ? timeouts[0] : null,
+    graceSeconds: isNaN(grace) ? 0 : Math.ceil(grace),
+  };
+}
+
+/**
+ * Split a command line into words, honouring single and double quotes
+ */
+function splitShellWords(line: string): string[] {
+  const words: string[] = [];
+  const pattern = /'([^']*)'|"((?:\\.|[^"\\])*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    words.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return words;
+}
@@ -14,6 +14,8 @@ jest.mock("util", () => ({
 jest.mock("fs");
 
 import { LinuxSecurityChecker } from "./linux-security-checker";
+import { UndeterminedCheckError } from "./undetermined-check-error";
+import { defaultCommandRunner } from "../utils/command-runner";
 import * as fs from "fs";
 
 const mockReadFileSync = fs.readFileSync as jest.MockedFunction<
@@ -44,119 +46,443 @@ describe("LinuxSecurityChecker", () => {
   });
 
   describe("checkDiskEncryption", () => {
-    it("should return true when LUKS encryption is detected", async () => {
+    const lsblk = (rootType: string) =>
+      JSON.stringify({
+        blockdevices: [
+          {
+            name: "sda",
+            kname: "sda",
+            path: "/dev/sda",
+            type: "disk",
+            fstype: "crypto_LUKS",
+            fsver: "2",
+            children: [
+              {
+                name: "usb",
+                kname: "dm-1",
+                path: "/dev/mapper/usb",
+                type: "crypt",
+                fstype: "ext4",
+                fsver: "1.0",
+              },
+            ],
+          },
+          {
+            name: "nvme0n1",
+            kname: "nvme0n1",
+            path: "/dev/nvme0n1",
+            type: "disk",
+            fstype: rootType === "crypt" ? "crypto_LUKS" : null,
+            fsver: rootType === "crypt" ? "2" : null,
+            children: [
+              {
+                name: "root",
+                kname: "dm-0",
+                path: "/dev/mapper/root",
+                type: rootType,
+                fstype: "ext4",
+                fsver: "1.0",
+              },
+            ],
+          },
+        ],
+      });
+    let runWithSudo: jest.SpyInstance;
+
+    beforeEach(() => {
+      runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValue(new Error("sudo: a password is required"));
+      const files: Record<string, string> = {
+        "/proc/mounts":
+          "/dev/mapper/root / ext4 rw,relatime 0 0\n/dev/mapper/usb /media/usb ext4 rw 0 0\n",
+        "/proc/swaps":
+          "Filename\tType\tSize\tUsed\tPriority\n/dev/zram0 partition 8388604 0 100\n",
+      };
+      mockExistsSync.mockImplementation(
+        (filePath) => String(filePath) in files,
+      );
+      mockReadFileSync.mockImplementation(
+        (filePath) => files[String(filePath)],
+      );
+    });
+
+    afterEach(() => {
+      runWithSudo.mockRestore();
+    });
+
+    it("should return true when the root file system sits on LUKS", async () => {
       (mockExecAsync as jest.Mock).mockResolvedValue({
-        stdout: "NAME FSTYPE\nsda1 crypto_LUKS\n",
+        stdout: lsblk("crypt"),
         stderr: "",
       });
 
-      const result = await checker.checkDiskEncryption();
-      expect(result).toBe(true);
+      await expect(checker.checkDiskEncryption()).resolves.toBe(true);
+      await expect(checker.checkDiskEncryptionCoverage()).resolves.toEqual({
+        volumes: [
+          {
+            role: "root",
+            mountPoint: "/",
+            device: "/dev/mapper/root",
+            encrypted: true,
+            mapping: "root",
+            luksVersion: 2,
+          },
+          {
+            role: "swap",
+            mountPoint: "/dev/zram0",
+            device: "/dev/zram0",
+            encrypted: false,
+            inMemory: true,
+          },
+        ],
+        commandsTried: [
+          "lsblk -J -o NAME,KNAME,PATH,TYPE,FSTYPE,FSVER",
+          "read /proc/mounts",
+          "read /proc/swaps",
+          "sudo dmsetup table --target crypt",
+        ],
+      });
     });
 
-    it("should return true when dmsetup shows encrypted devices", async () => {
-      (mockExecAsync as jest.Mock)
-        .mockResolvedValueOnce({
-          stdout: "NAME FSTYPE\nsda1 ext4\n",
-          stderr: "",
-        })
-        .mockResolvedValueOnce({
-          stdout: "luks-device: /dev/mapper/luks-device\n",
-          stderr: "",
-        });
+    it("should not count an encrypted USB stick", async () => {
+      (mockExecAsync as jest.Mock).mockResolvedValue({
+        stdout: lsblk("lvm"),
+        stderr: "",
+      });
 
-      const result = await checker.checkDiskEncryption();
-      expect(result).toBe(true);
+      await expect(checker.checkDiskEncryption()).resolves.toBe(false);
     });
 
-    it("should return false when no encryption is found", async () => {
-      (mockExecAsync as jest.Mock)
-        .mockResolvedValueOnce({
-          stdout: "NAME FSTYPE\nsda1 ext4\n",
-          stderr: "",
-        })
-        .mockResolvedValueOnce({ stdout: "", stderr: "" });
+    it("should read the cipher with sudo", async () => {
+      (mockExecAsync as jest.Mock).mockResolvedValue({
+        stdout: lsblk("crypt"),
+        stderr: "",
+      });
+      runWithSudo.mockResolvedValueOnce({
+        stdout:
+          "root: 0 1000 crypt aes-xts-plain64 :64:logon:x 0 259:2 32768\n",
+        stderr: "",
+      });
 
-      const result = await checker.checkDiskEncryption();
-      expect(result).toBe(false);
+      const { volumes } = await checker.checkDiskEncryptionCoverage();
+      expect(runWithSudo).toHaveBeenCalledWith(
+        ["dmsetup", "table", "--target", "crypt"],
+        undefined,
+      );
+      expect(volumes[0].cipher).toBe("aes-xts-plain64");
     });
 
-    it("should handle errors gracefully", async () => {
+    it("should fall back to the columns of older lsblk versions", async () => {
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (command.includes("PATH")) {
+          throw new Error("lsblk: unknown column: PATH");
+        }
+        return { stdout: lsblk("crypt"), stderr: "" };
+      });
+
+      const { volumes, commandsTried } =
+        await checker.checkDiskEncryptionCoverage();
+      expect(volumes[0].encrypted).toBe(true);
+      expect(commandsTried.slice(0, 2)).toEqual([
+        "lsblk -J -o NAME,KNAME,PATH,TYPE,FSTYPE,FSVER",
+        "lsblk -J -o NAME,KNAME,TYPE,FSTYPE",
+      ]);
+    });
+
+    it("should use the last mount of the root file system", async () => {
+      const files: Record<string, string> = {
+        "/proc/mounts":
+          "/dev/mapper/root / ext4 rw,relatime 0 0\n/dev/nvme0n1 / ext4 rw 0 0\n",
+        "/proc/swaps": "Filename\tType\tSize\tUsed\tPriority\n",
+      };
+      mockExistsSync.mockImplementation(
+        (filePath) => String(filePath) in files,
+      );
+      mockReadFileSync.mockImplementation(
+        (filePath) => files[String(filePath)],
+      );
+      (mockExecAsync as jest.Mock).mockResolvedValue({
+        stdout: lsblk("crypt"),
+        stderr: "",
+      });
+
+      await expect(checker.checkDiskEncryption()).resolves.toBe(false);
+    });
+
+    it("should be undetermined when lsblk fails", async () => {
       (mockExecAsync as jest.Mock).mockRejectedValue(
         new Error("Command failed"),
       );
 
-      const result = await checker.checkDiskEncryption();
-      expect(result).toBe(false);
+      await expect(checker.checkDiskEncryption()).rejects.toBeInstanceOf(
+        UndeterminedCheckError,
+      );
     });
   });
 
   describe("checkPasswordProtection", () => {
-    it("should detect password protection enabled", async () => {
-      (mockExecAsync as jest.Mock).mockResolvedValue({
-        stdout: "user-session\nrequire-password=true\n",
+    const originalDesktop = process.env.XDG_CURRENT_DESKTOP;
+
+    afterEach(() => {
+      (mockExecAsync as jest.Mock).mockReset();
+      if (originalDesktop === undefined) {
+        delete process.env.XDG_CURRENT_DESKTOP;
+      } else {
+        process.env.XDG_CURRENT_DESKTOP = originalDesktop;
+      }
+    });
+
+    it("should read the GNOME lock settings", async () => {
+      process.env.XDG_CURRENT_DESKTOP = "ubuntu:GNOME";
+      const settings: Record<string, string> = {
+        "org.gnome.desktop.session idle-delay": "uint32 300\n",
+        "org.gnome.desktop.screensaver lock-enabled": "true\n",
+        "org.gnome.desktop.screensaver lock-delay": "uint32 0\n",
+      };
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => ({
+        stdout:
+          Object.entries(settings).find(([key]) =>
+            command.includes(key),
+          )?.[1] ??
+          "jdoe PS 2024-05-02 0 99999 7 -1 (Password set, SHA512 crypt.)\n",
         stderr: "",
-      });
+      }));
 
       const result = await checker.checkPasswordProtection();
-      expect(result.enabled).toBe(true);
+      expect(result).toEqual({
+        enabled: true,
+        requirePasswordImmediately: true,
+        passwordRequiredAfterLock: true,
+      });
     });
 
-    it("should handle errors gracefully", async () => {
-      // Force the outer try-catch to fail by making execAsync throw during password check
-      const originalProcess = process.env;
-      process.env = { ...originalProcess };
-      delete process.env.HOME; // This will cause fs.existsSync to fail in the KDE check
+    it("should be undetermined on desktops without a reader", async () => {
+      process.env.XDG_CURRENT_DESKTOP = "LXQt";
 
-      (mockExecAsync as jest.Mock).mockResolvedValue({
-        stdout: "unknown\n",
-        stderr: "",
-      });
-      mockExistsSync.mockImplementation(() => {
-        throw new Error("File system error");
-      });
+      await expect(checker.checkPasswordProtection()).rejects.toThrow(
+        "Screen lock settings of the LXQt desktop cannot be read",
+      );
+    });
+  });
 
-      const result = await checker.checkPasswordProtection();
-      expect(result.enabled).toBe(false);
-      expect(result.requirePasswordImmediately).toBe(false);
-      expect(result.passwordRequiredAfterLock).toBe(true); // Default when error occurs
+  describe("checkUserAccounts", () => {
+    const files: Record<string, string> = {
+      "/etc/passwd":
+        "root:x:0:0:root:/root:/bin/bash\n" +
+        "toor:x:0:0::/root:/bin/bash\n" +
+        "alice:x:1000:1000::/home/alice:/bin/bash\n",
+      "/etc/group": "wheel:x:10:alice\nalice:x:1000:\n",
+    };
+
+    beforeEach(() => {
+      mockExistsSync.mockImplementation(
+        (filePath) => String(filePath) in files,
+      );
+      mockReadFileSync.mockImplementation(
+        (filePath) => files[String(filePath)],
+      );
+    });
+
+    it("should read shadow and sudoers with sudo", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockResolvedValueOnce({
+          stdout: "alice\n",
+          stderr: "",
+        })
+        .mockResolvedValueOnce({
+          stdout: "/etc/sudoers.d/alice:alice ALL=(ALL) NOPASSWD: ALL\n",
+          stderr: "",
+        });
+
+      const result = await checker.checkUserAccounts();
+      expect(runWithSudo).toHaveBeenCalledWith(
+        ["awk", "-F:", '$2==""{print $1}', "/etc/shadow"],
+        undefined,
+      );
+      expect(result).toEqual({
+        uidZero: ["toor"],
+        emptyPasswords: ["alice"],
+        adminGroups: { wheel: ["alice"] },
+        passwordlessSudo: [
+          {
+            file: "/etc/sudoers.d/alice",
+            principals: ["alice"],
+            rule: "alice ALL=(ALL) NOPASSWD: ALL",
+          },
+        ],
+      });
+      runWithSudo.mockRestore();
+    });
 
-      process.env = originalProcess;
+    it("should leave root-only parts null without sudo", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValue(
+          Object.assign(new Error("sudo: a password is required"), {
+            code: 1,
+            stdout: "",
+          }),
+        );
+
+      const result = await checker.checkUserAccounts();
+      expect(result.emptyPasswords).toBeNull();
+      expect(result.passwordlessSudo).toBeNull();
+      runWithSudo.mockRestore();
     });
   });
 
   describe("checkAutoLockTimeout", () => {
-    it("should return GNOME screen timeout in minutes", async () => {
-      (mockExecAsync as jest.Mock).mockResolvedValue({
-        stdout: "uint32 600\n",
-        stderr: "",
-      });
+    const originalDesktop = process.env.XDG_CURRENT_DESKTOP;
+
+    afterEach(() => {
+      if (originalDesktop === undefined) {
+        delete process.env.XDG_CURRENT_DESKTOP;
+      } else {
+        process.env.XDG_CURRENT_DESKTOP = originalDesktop;
+      }
+    });
+
+    it("should add the Cinnamon lock delay to the idle delay", async () => {
+      process.env.XDG_CURRENT_DESKTOP = "X-Cinnamon";
+      (mockExecAsync as jest.Mock)
+        .mockResolvedValueOnce({ stdout: "uint32 600\n", stderr: "" })
+        .mockResolvedValueOnce({ stdout: "true\n", stderr: "" })
+        .mockResolvedValueOnce({ stdout: "uint32 30\n", stderr: "" });
 
       const result = await checker.checkAutoLockTimeout();
-      expect(result).toBe(10);
+      expect(result).toBe(11);
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        "gsettings get org.cinnamon.desktop.session idle-delay 2>/dev/null",
+      );
     });
 
-    it("should handle errors gracefully", async () => {
-      (mockExecAsync as jest.Mock).mockRejectedValue(
-        new Error("Command failed"),
-      );
-      mockExistsSync.mockReturnValue(false);
+    it("should return 0 when the screen never locks", async () => {
+      process.env.XDG_CURRENT_DESKTOP = "GNOME";
+      (mockExecAsync as jest.Mock)
+        .mockResolvedValueOnce({ stdout: "uint32 300\n", stderr: "" })
+        .mockResolvedValueOnce({ stdout: "false\n", stderr: "" })
+        .mockResolvedValueOnce({ stdout: "uint32 0\n", stderr: "" });
 
       const result = await checker.checkAutoLockTimeout();
-      expect(result).toBe(15);
+      expect(result).toBe(0);
+    });
+
+    it("should be undetermined outside a desktop session", async () => {
+      delete process.env.XDG_CURRENT_DESKTOP;
+
+      await expect(checker.checkAutoLockTimeout()).rejects.toBeInstanceOf(
+        UndeterminedCheckError,
+      );
     });
   });
 
   describe("checkFirewall", () => {
+    let runWithSudo: jest.SpyInstance;
+
+    beforeEach(() => {
+      runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValue(new Error("sudo: a password is required"));
+    });
+
+    afterEach(() => {
+      runWithSudo.mockRestore();
+    });
+
+    it("should build the firewall model from the nftables ruleset", async () => {
+      runWithSudo.mockResolvedValueOnce({
+        stdout: JSON.stringify({
+          nftables: [
+            {
+              chain: {
+                family: "inet",
+                table: "filter",
+                name: "input",
+                type: "filter",
+                hook: "input",
+                prio: 0,
+                policy: "drop",
+              },
+            },
+          ],
+        }),
+        stderr: "",
+      });
+
+      const result = await new LinuxSecurityChecker(
+        'pa$$"word',
+      ).checkFirewall();
+      expect(runWithSudo).toHaveBeenCalledWith(
+        ["nft", "-j", "list", "ruleset"],
+        'pa$$"word',
+      );
+      expect(result).toEqual({
+        enabled: true,
+        stealthMode: true,
+        ruleset: {
+          backend: "nftables",
+          ipv4: { policy: "drop", openPorts: [] },
+          ipv6: { policy: "drop", openPorts: [] },
+        },
+      });
+      expect(mockExecAsync).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to iptables-save when nftables has no rules", async () => {
+      runWithSudo
+        .mockResolvedValueOnce({ stdout: '{"nftables": []}', stderr: "" })
+        .mockResolvedValueOnce({
+          stdout:
+            "*filter\n:INPUT ACCEPT [0:0]\n-A INPUT -p tcp --dport 22 -j ACCEPT\n-A INPUT -j REJECT\nCOMMIT\n",
+          stderr: "",
+        })
+        .mockResolvedValueOnce({
+          stdout: "*filter\n:INPUT ACCEPT [0:0]\nCOMMIT\n",
+          stderr: "",
+        });
+
+      const result = await checker.checkFirewall();
+      expect(runWithSudo).toHaveBeenCalledWith(["iptables-save"], undefined);
+      expect(result).toEqual({
+        enabled: true,
+        stealthMode: false,
+        ruleset: {
+          backend: "iptables",
+          ipv4: {
+            policy: "reject",
+            openPorts: [{ protocol: "tcp", from: 22, to: 22 }],
+          },
+          ipv6: { policy: "accept", openPorts: [] },
+        },
+      });
+    });
+
     it("should detect enabled UFW firewall", async () => {
       (mockExecAsync as jest.Mock).mockResolvedValue({
-        stdout: "Status: active\n",
+        stdout:
+          "Status: active\nLogging: on (low)\nDefault: reject (incoming), allow (outgoing), disabled (routed)\n\nTo                         Action      From\n--                         ------      ----\n22/tcp                     DENY IN     Anywhere\n",
         stderr: "",
       });
 
       const result = await checker.checkFirewall();
       expect(result.enabled).toBe(true);
       expect(result.stealthMode).toBe(false);
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        "ufw status verbose 2>/dev/null",
+      );
+    });
+
+    it("should detect UFW denying incoming traffic as stealth mode", async () => {
+      (mockExecAsync as jest.Mock).mockResolvedValue({
+        stdout:
+          "Status: active\nLogging: on (low)\nDefault: deny (incoming), allow (outgoing), disabled (routed)\n",
+        stderr: "",
+      });
+
+      const result = await checker.checkFirewall();
+      expect(result).toEqual({ enabled: true, stealthMode: true });
     });
 
     it("should detect disabled UFW firewall", async () => {
@@ -178,27 +504,19 @@ describe("LinuxSecurityChecker", () => {
       expect(result.enabled).toBe(true);
     });
 
-    it("should fallback to iptables check", async () => {
-      (mockExecAsync as jest.Mock)
-        .mockRejectedValueOnce(new Error("UFW not found"))
-        .mockRejectedValueOnce(new Error("firewalld not found"))
-        .mockResolvedValueOnce({
-          stdout:
-            "Chain INPUT (policy ACCEPT)\ntarget     prot opt source\nDROP       all  --  anywhere\n",
-          stderr: "",
-        });
-
-      const result = await checker.checkFirewall();
-      expect(result.enabled).toBe(true);
-    });
-
-    it("should handle errors gracefully", async () => {
+    it("should report undetermined when no firewall tool can be queried", async () => {
       (mockExecAsync as jest.Mock).mockRejectedValue(
         new Error("Command failed"),
       );
 
-      const result = await checker.checkFirewall();
-      expect(result.enabled).toBe(false);
+      const error = await checker.checkFirewall().catch((e) => e);
+      expect(error).toBeInstanceOf(UndeterminedCheckError);
+      expect(error.commandsTried).toEqual([
+        "sudo nft -j list ruleset",
+        "sudo iptables-save",
+        "ufw status verbose",
+        "firewall-cmd --state",
+      ]);
     });
   });
 
@@ -225,14 +543,28 @@ describe("LinuxSecurityChecker", () => {
       expect(result).toBe(true);
     });
 
-    it("should handle errors gracefully", async () => {
+    it("should check APT when DNF reports nothing", async () => {
+      (mockExecAsync as jest.Mock)
+        .mockResolvedValueOnce({ stdout: "not-found\n", stderr: "" })
+        .mockResolvedValueOnce({
+          stdout: 'APT::Key::gpgvcommand "/usr/bin/gpgv";\n',
+          stderr: "",
+        });
+
+      const result = await checker.checkPackageVerification();
+      expect(result).toBe(true);
+      expect(mockExecAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report undetermined instead of assuming a secure default", async () => {
       (mockExecAsync as jest.Mock)
         .mockRejectedValueOnce(new Error("DNF not found"))
         .mockRejectedValueOnce(new Error("APT not found"));
       mockExistsSync.mockReturnValue(false); // No yum.conf file
 
-      const result = await checker.checkPackageVerification();
-      expect(result).toBe(true); // Default to true for security
+      await expect(checker.checkPackageVerification()).rejects.toThrow(
+        UndeterminedCheckError,
+      );
     });
   });
 
@@ -269,6 +601,171 @@ describe("LinuxSecurityChecker", () => {
     });
   });
 
+  describe("checkBootSecurity", () => {
+    let runWithSudo: jest.SpyInstance;
+    let files: Record<string, string>;
+
+    beforeEach(() => {
+      runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValue(new Error("sudo: a password is required"));
+      files = {};
+      mockExistsSync.mockImplementation(
+        (filePath) => String(filePath) in files,
+      );
+      mockReadFileSync.mockImplementation(
+        (filePath) => files[String(filePath)],
+      );
+    });
+
+    afterEach(() => {
+      runWithSudo.mockRestore();
+      (mockExecAsync as jest.Mock).mockReset();
+    });
+
+    it("should read the GRUB configs and /boot modes with sudo", async () => {
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (command === "mokutil --sb-state 2>&1") {
+          return { stdout: "SecureBoot enabled\n", stderr: "" };
+        }
+        throw new Error(`Command failed: ${command}`);
+      });
+      runWithSudo.mockImplementation(async (args: string[]) =>
+        args.includes("-printf")
+          ? {
+              stdout:
+                "555 root /boot\n600 root /boot/grub2/grub.cfg\n600 root /boot/grub2/user.cfg\n",
+              stderr: "",
+            }
+          : {
+              stdout:
+                "GRUB2_PASSWORD=grub.pbkdf2.sha512.10000.ABCD.EF01\n" +
+                'set superusers="root"\n' +
+                "password_pbkdf2 root ${GRUB2_PASSWORD}\n",
+              stderr: "",
+            },
+      );
+
+      await expect(checker.checkBootSecurity()).resolves.toEqual({
+        secureBoot: "enabled",
+        bootloaderPasswordUsers: ["root"],
+        bootFiles: [
+          { path: "/boot", mode: 0o555, owner: "root" },
+          { path: "/boot/grub2/grub.cfg", mode: 0o600, owner: "root" },
+          { path: "/boot/grub2/user.cfg", mode: 0o600, owner: "root" },
+        ],
+        bootFilesComplete: true,
+      });
+    });
+
+    it("should fall back to efivarfs and readable files without sudo", async () => {
+      files = {
+        "/sys/firmware/efi/efivars/SecureBoot-8be4df61-93ca-11d2-aa0d-00e098032b8c":
+          "\u0006\u0000\u0000\u0000\u0000",
+        "/boot/grub/grub.cfg": "### BEGIN /etc/grub.d/10_linux ###\n",
+      };
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (command.startsWith("find /boot")) {
+          // find cannot enter /boot/efi and exits with 1
+          throw Object.assign(new Error(`Command failed: ${command}`), {
+            stdout: "755 root /boot\n644 root /boot/grub/grub.cfg\n",
+          });
+        }
+        throw new Error(`Command failed: ${command}`);
+      });
+
+      await expect(checker.checkBootSecurity()).resolves.toEqual({
+        secureBoot: "disabled",
+        bootloaderPasswordUsers: [],
+        bootFiles: [
+          { path: "/boot", mode: 0o755, owner: "root" },
+          { path: "/boot/grub/grub.cfg", mode: 0o644, owner: "root" },
+        ],
+        bootFilesComplete: false,
+      });
+    });
+
+    it("should report legacy BIOS boots as unsupported", async () => {
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        throw Object.assign(new Error(`Command failed: ${command}`), {
+          stdout:
+            command === "mokutil --sb-state 2>&1"
+              ? "EFI variables are not supported on this system\n"
+              : "",
+        });
+      });
+
+      const result = await checker.checkBootSecurity();
+      expect(result.secureBoot).toBe("unsupported");
+      expect(result.bootloaderPasswordUsers).toBeNull();
+    });
+  });
+
+  describe("checkEndpointProtection", () => {
+    afterEach(() => {
+      (mockExecAsync as jest.Mock).mockReset();
+    });
+
+    const falcon = {
+      name: "CrowdStrike Falcon",
+      processes: ["falcon-sensor"],
+      services: ["falcon-sensor.service"],
+    };
+
+    it("should report ClamAV and configured agents", async () => {
+      const outputs: Record<string, string> = {
+        "ps -eo comm= 2>/dev/null": "systemd\nclamd\nsshd\n",
+        "systemctl list-units --type=service --state=active --plain --no-legend 2>/dev/null":
+          "clamd@scan.service loaded active running clamd scanner (scan) daemon\n" +
+          "falcon-sensor.service loaded active running CrowdStrike Falcon Sensor\n",
+        "clamscan --version 2>/dev/null":
+          "ClamAV 1.0.5/27294/Mon Jun  3 10:05:23 2024\n",
+      };
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (!(command in outputs)) {
+          throw new Error(`Command failed: ${command}`);
+        }
+        return { stdout: outputs[command], stderr: "" };
+      });
+
+      const result = await checker.checkEndpointProtection([falcon]);
+      expect(result).toEqual([
+        {
+          name: "ClamAV",
+          running: true,
+          signatureVersion: "27294",
+          signaturesUpdated: "2024-06-03T10:05:23",
+        },
+        { name: "CrowdStrike Falcon", running: true },
+      ]);
+    });
+
+    it("should leave ClamAV out when it is not installed", async () => {
+      const outputs: Record<string, string> = {
+        "ps -eo comm= 2>/dev/null": "systemd\nsshd\n",
+      };
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (!(command in outputs)) {
+          throw new Error(`Command failed: ${command}`);
+        }
+        return { stdout: outputs[command], stderr: "" };
+      });
+
+      const result = await checker.checkEndpointProtection([falcon]);
+      expect(result).toEqual([{ name: "CrowdStrike Falcon", running: false }]);
+    });
+
+    it("should be undetermined when neither processes nor services can be listed", async () => {
+      (mockExecAsync as jest.Mock).mockRejectedValue(
+        new Error("Command failed"),
+      );
+
+      await expect(checker.checkEndpointProtection([])).rejects.toBeInstanceOf(
+        UndeterminedCheckError,
+      );
+    });
+  });
+
   describe("checkRemoteLogin", () => {
     it("should detect SSHD service running", async () => {
       (mockExecAsync as jest.Mock).mockResolvedValue({
@@ -300,6 +797,443 @@ describe("LinuxSecurityChecker", () => {
     });
   });
 
+  describe("checkSshHardening", () => {
+    it("should prefer the effective configuration from sshd -T", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockResolvedValueOnce({
+          stdout: "permitrootlogin no\npasswordauthentication no\n",
+          stderr: "",
+        });
+
+      const result = await checker.checkSshHardening();
+      expect(runWithSudo).toHaveBeenCalledWith(["sshd", "-T"], undefined);
+      expect(result).toMatchObject({
+        source: "sshd -T",
+        permitRootLogin: "no",
+        passwordAuthentication: false,
+      });
+      runWithSudo.mockRestore();
+    });
+
+    it("should parse sshd_config and its includes without sudo", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: a password is required"));
+      const files: Record<string, string> = {
+        "/etc/ssh/sshd_config":
+          "Include /etc/ssh/sshd_config.d/*.conf\nPasswordAuthentication yes\n",
+        "/etc/ssh/sshd_config.d/10-hardening.conf":
+          "PasswordAuthentication no\nInclude extra.conf\n",
+        "/etc/ssh/extra.conf": "MaxAuthTries 3\n",
+      };
+      mockExistsSync.mockImplementation(
+        (filePath) => String(filePath) in files,
+      );
+      mockReadFileSync.mockImplementation(
+        (filePath) => files[String(filePath)],
+      );
+      (mockExecAsync as jest.Mock).mockResolvedValueOnce({
+        stdout: "/etc/ssh/sshd_config.d/10-hardening.conf\n",
+        stderr: "",
+      });
+
+      const result = await checker.checkSshHardening();
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        "ls -1d /etc/ssh/sshd_config.d/*.conf 2>/dev/null",
+      );
+      expect(result).toMatchObject({
+        source: "/etc/ssh/sshd_config",
+        passwordAuthentication: false,
+        maxAuthTries: 3,
+      });
+      runWithSudo.mockRestore();
+    });
+
+    it("should return null when no SSH server is installed", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: sshd: command not found"));
+      mockExistsSync.mockReturnValue(false);
+      (mockExecAsync as jest.Mock).mockRejectedValueOnce(
+        new Error("Command failed: test -e /etc/ssh/sshd_config"),
+      );
+
+      await expect(checker.checkSshHardening()).resolves.toBeNull();
+      runWithSudo.mockRestore();
+    });
+
+    it("should be undetermined when an included file is only readable by root", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: a password is required"));
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockImplementation((filePath) => {
+        if (String(filePath) === "/etc/ssh/sshd_config") {
+          return "Include /etc/ssh/sshd_config.d/*.conf\nPasswordAuthentication no\n";
+        }
+        throw Object.assign(new Error("EACCES: permission denied"), {
+          code: "EACCES",
+        });
+      });
+      (mockExecAsync as jest.Mock)
+        .mockResolvedValueOnce({
+          stdout: "/etc/ssh/sshd_config.d/50-redhat.conf\n",
+          stderr: "",
+        })
+        .mockResolvedValueOnce({ stdout: "", stderr: "" });
+
+      await expect(checker.checkSshHardening()).rejects.toMatchObject({
+        name: "UndeterminedCheckError",
+        message:
+          "/etc/ssh/sshd_config.d/50-redhat.conf, included from /etc/ssh/sshd_config, requires root to read; run with sudo credentials available",
+      });
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        "test -e /etc/ssh/sshd_config.d/50-redhat.conf",
+      );
+      runWithSudo.mockRestore();
+    });
+
+    it("should skip included files that do not exist", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: a password is required"));
+      const files: Record<string, string> = {
+        "/etc/ssh/sshd_config":
+          "Include /etc/ssh/local.conf\nPasswordAuthentication no\n",
+      };
+      mockExistsSync.mockImplementation(
+        (filePath) => String(filePath) in files,
+      );
+      mockReadFileSync.mockImplementation(
+        (filePath) => files[String(filePath)],
+      );
+      (mockExecAsync as jest.Mock).mockRejectedValueOnce(
+        new Error("Command failed: test -e /etc/ssh/local.conf"),
+      );
+
+      await expect(checker.checkSshHardening()).resolves.toMatchObject({
+        passwordAuthentication: false,
+      });
+      runWithSudo.mockRestore();
+    });
+
+    it("should be undetermined when sshd_config is only readable by root", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: a password is required"));
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockImplementation(() => {
+        throw Object.assign(
+          new Error("EACCES: permission denied, open '/etc/ssh/sshd_config'"),
+          { code: "EACCES" },
+        );
+      });
+      (mockExecAsync as jest.Mock).mockResolvedValueOnce({
+        stdout: "",
+        stderr: "",
+      });
+
+      await expect(checker.checkSshHardening()).rejects.toThrow(
+        "/etc/ssh/sshd_config requires root to read",
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        "test -e /etc/ssh/sshd_config",
+      );
+      runWithSudo.mockRestore();
+    });
+  });
+
+  describe("checkKernelHardening", () => {
+    it("should read parameters from /proc/sys", async () => {
+      const files: Record<string, string> = {
+        "/proc/sys/kernel/kptr_restrict": "1\n",
+        "/proc/sys/net/ipv4/conf/all/rp_filter": "2\n",
+      };
+      (mockExecAsync as jest.Mock).mockRejectedValue(
+        new Error("Command failed: test -e"),
+      );
+      mockExistsSync.mockImplementation(
+        (filePath) => String(filePath) in files,
+      );
+      mockReadFileSync.mockImplementation(
+        (filePath) => files[String(filePath)],
+      );
+
+      await expect(
+        checker.checkKernelHardening([
+          "kernel.kptr_restrict",
+          "net.ipv4.conf.all.rp_filter",
+          "kernel.unprivileged_bpf_disabled",
+          "../../etc/shadow",
+        ]),
+      ).resolves.toEqual({
+        values: {
+          "kernel.kptr_restrict": "1",
+          "net.ipv4.conf.all.rp_filter": "2",
+          "kernel.unprivileged_bpf_disabled": null,
+          "../../etc/shadow": null,
+        },
+        unreadable: [],
+      });
+      expect(mockExistsSync).not.toHaveBeenCalledWith(
+        expect.stringContaining("shadow"),
+      );
+      expect(mockExecAsync).not.toHaveBeenCalledWith(
+        expect.stringContaining("shadow"),
+      );
+    });
+
+    it("should tell unreadable parameters from missing ones", async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockImplementation(() => {
+        throw Object.assign(new Error("EACCES: permission denied"), {
+          code: "EACCES",
+        });
+      });
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (command !== "test -e /proc/sys/kernel/kptr_restrict") {
+          throw new Error(`Command failed: ${command}`);
+        }
+        return { stdout: "", stderr: "" };
+      });
+
+      await expect(
+        checker.checkKernelHardening([
+          "kernel.kptr_restrict",
+          "kernel.unprivileged_bpf_disabled",
+        ]),
+      ).resolves.toEqual({
+        values: {
+          "kernel.kptr_restrict": null,
+          "kernel.unprivileged_bpf_disabled": null,
+        },
+        unreadable: ["kernel.kptr_restrict"],
+      });
+      (mockExecAsync as jest.Mock).mockReset();
+    });
+  });
+
+  describe("checkRemovableMedia", () => {
+    const originalDesktop = process.env.XDG_CURRENT_DESKTOP;
+
+    afterEach(() => {
+      if (originalDesktop === undefined) {
+        delete process.env.XDG_CURRENT_DESKTOP;
+      } else {
+        process.env.XDG_CURRENT_DESKTOP = originalDesktop;
+      }
+      (mockExecAsync as jest.Mock).mockReset();
+    });
+
+    it("should combine modprobe, desktop and USBGuard state", async () => {
+      process.env.XDG_CURRENT_DESKTOP = "GNOME";
+      const outputs: Record<string, string> = {
+        "modprobe -c 2>/dev/null": "blacklist usb_storage\n",
+        "gsettings get org.gnome.desktop.media-handling automount 2>/dev/null":
+          "true\n",
+        "command -v usbguard 2>/dev/null": "/usr/bin/usbguard\n",
+        "systemctl is-active usbguard 2>/dev/null": "active\n",
+      };
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (!(command in outputs)) {
+          throw new Error(`Command failed: ${command}`);
+        }
+        return { stdout: outputs[command], stderr: "" };
+      });
+      mockExistsSync.mockReturnValue(false);
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockResolvedValueOnce({ stdout: "block\n", stderr: "" })
+        .mockResolvedValueOnce({ stdout: "1: allow\n", stderr: "" });
+
+      const result = await checker.checkRemovableMedia();
+      expect(result).toEqual({
+        usbStorage: { blacklisted: true, disabled: false, loaded: false },
+        automount: true,
+        usbGuard: {
+          active: true,
+          implicitPolicyTarget: "block",
+          allowsAll: true,
+        },
+      });
+      runWithSudo.mockRestore();
+    });
+
+    it("should report USBGuard as missing when it is not installed", async () => {
+      delete process.env.XDG_CURRENT_DESKTOP;
+      (mockExecAsync as jest.Mock)
+        .mockResolvedValueOnce({ stdout: "", stderr: "" })
+        .mockRejectedValueOnce(new Error("Command failed"));
+      mockExistsSync.mockReturnValue(false);
+
+      const result = await checker.checkRemovableMedia();
+      expect(result.automount).toBeNull();
+      expect(result.usbGuard).toBeNull();
+    });
+  });
+
+  describe("checkAuditLogging", () => {
+    afterEach(() => {
+      (mockExecAsync as jest.Mock).mockReset();
+    });
+
+    it("should read auditd, its rules and the journald configuration", async () => {
+      const outputs: Record<string, string> = {
+        "systemctl show auditd.service -p LoadState -p ActiveState 2>/dev/null":
+          "LoadState=loaded\nActiveState=active\n",
+        "systemd-analyze cat-config systemd/journald.conf 2>/dev/null":
+          "# /etc/systemd/journald.conf\n[Journal]\n#Storage=auto\n\n" +
+          "# /etc/systemd/journald.conf.d/10-size.conf\n[Journal]\nSystemMaxUse=1G\n",
+        "test -d /var/log/journal": "",
+      };
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (!(command in outputs)) {
+          throw new Error(`Command failed: ${command}`);
+        }
+        return { stdout: outputs[command], stderr: "" };
+      });
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockResolvedValueOnce({
+          stdout: "-a never,task\n-w /etc/passwd -p wa -k identity\n",
+          stderr: "",
+        });
+
+      const result = await checker.checkAuditLogging();
+      expect(runWithSudo).toHaveBeenCalledWith(["auditctl", "-l"], undefined);
+      expect(result).toEqual({
+        auditd: { installed: true, active: true },
+        auditRules: ["-a never,task", "-w /etc/passwd -p wa -k identity"],
+        journal: {
+          storage: "auto",
+          persistent: true,
+          systemMaxUse: "1G",
+          maxUseBytes: 1024 ** 3,
+        },
+      });
+      runWithSudo.mockRestore();
+    });
+
+    it("should use journald's default size limit for persistent journals", async () => {
+      const outputs: Record<string, string> = {
+        "systemctl show auditd.service -p LoadState -p ActiveState 2>/dev/null":
+          "LoadState=not-found\nActiveState=inactive\n",
+        "systemd-analyze cat-config systemd/journald.conf 2>/dev/null":
+          "[Journal]\nStorage=persistent\n",
+        "df -B1 --output=size /var/log/journal 2>/dev/null":
+          "   1B-blocks\n10737418240\n",
+      };
+      (mockExecAsync as jest.Mock).mockImplementation(async (command) => {
+        if (!(command in outputs)) {
+          throw new Error(`Command failed: ${command}`);
+        }
+        return { stdout: outputs[command], stderr: "" };
+      });
+      const runWithSudo = jest.spyOn(defaultCommandRunner, "runWithSudo");
+
+      const result = await checker.checkAuditLogging();
+      expect(runWithSudo).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        auditd: { installed: false, active: false },
+        auditRules: [],
+        journal: {
+          storage: "persistent",
+          persistent: true,
+          systemMaxUse: null,
+          maxUseBytes: 1073741824,
+        },
+      });
+      runWithSudo.mockRestore();
+    });
+
+    it("should report a volatile journal without /var/log/journal", async () => {
+      (mockExecAsync as jest.Mock).mockRejectedValue(
+        new Error("Command failed"),
+      );
+      mockExistsSync.mockImplementation(
+        (filePath) => filePath === "/etc/systemd/journald.conf",
+      );
+      mockReadFileSync.mockReturnValue("[Journal]\n#Storage=auto\n");
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: a password is required"));
+
+      const result = await checker.checkAuditLogging();
+      expect(result).toEqual({
+        auditd: null,
+        auditRules: null,
+        journal: {
+          storage: "auto",
+          persistent: false,
+          systemMaxUse: null,
+          maxUseBytes: null,
+        },
+      });
+      runWithSudo.mockRestore();
+    });
+  });
+
+  describe("checkListeningPorts", () => {
+    it("should fall back to ss without sudo", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: a password is required"));
+      (mockExecAsync as jest.Mock).mockResolvedValueOnce({
+        stdout:
+          "Netid State  Recv-Q Send-Q Local Address:Port Peer Address:PortProcess\n" +
+          "tcp   LISTEN 0      128          0.0.0.0:22        0.0.0.0:*\n",
+        stderr: "",
+      });
+
+      const result = await checker.checkListeningPorts();
+      expect(runWithSudo).toHaveBeenCalledWith(["ss", "-tulpn"], undefined);
+      expect(result).toEqual({
+        sockets: [{ protocol: "tcp", address: "0.0.0.0", port: 22 }],
+        source: "ss -tulpn",
+      });
+      runWithSudo.mockRestore();
+    });
+
+    it("should read /proc/net when ss is not installed", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: ss: command not found"));
+      (mockExecAsync as jest.Mock).mockRejectedValueOnce(
+        new Error("ss: command not found"),
+      );
+      mockExistsSync.mockImplementation(
+        (filePath) => filePath === "/proc/net/tcp",
+      );
+      mockReadFileSync.mockReturnValue(
+        "  sl  local_address rem_address   st\n" +
+          "   0: 00000000:0016 00000000:0000 0A\n",
+      );
+
+      const result = await checker.checkListeningPorts();
+      expect(result).toEqual({
+        sockets: [{ protocol: "tcp", address: "0.0.0.0", port: 22 }],
+        source: "/proc/net",
+      });
+      runWithSudo.mockRestore();
+    });
+
+    it("should be undetermined when no socket table can be read", async () => {
+      const runWithSudo = jest
+        .spyOn(defaultCommandRunner, "runWithSudo")
+        .mockRejectedValueOnce(new Error("sudo: ss: command not found"));
+      (mockExecAsync as jest.Mock).mockRejectedValueOnce(
+        new Error("ss: command not found"),
+      );
+      mockExistsSync.mockReturnValue(false);
+
+      await expect(checker.checkListeningPorts()).rejects.toBeInstanceOf(
+        UndeterminedCheckError,
+      );
+      runWithSudo.mockRestore();
+    });
+  });
+
   describe("checkAutomaticUpdates", () => {
     beforeEach(() => {
       jest.clearAllMocks();
@@ -329,6 +1263,93 @@ describe("LinuxSecurityChecker", () => {
     });
   });
 
+  describe("checkPendingUpdates", () => {
+    it("should list dnf security updates and a pending reboot", async () => {
+      (mockExecAsync as jest.Mock)
+        .mockResolvedValueOnce({
+          stdout:
+            "FEDORA-2024-2c8b1a6f3e Important/Sec. openssl-libs-1:3.2.2-3.fc40.x86_64\n",
+          stderr: "",
+        })
+        .mockRejectedValueOnce(
+          Object.assign(new Error("Command failed"), { code: 1 }),
+        );
+
+      const result = await checker.checkPendingUpdates();
+      expect(result).toEqual({
+        source: "dnf",
+        securityUpdates: [
+          {
+            package: "openssl-libs",
+            advisory: "FEDORA-2024-2c8b1a6f3e",
+            severity: "Important",
+          },
+        ],
+        rebootRequired: true,
+      });
+    });
+
+    it("should fall back to apt and its reboot-required flag", async () => {
+      (mockExecAsync as jest.Mock)
+        .mockRejectedValueOnce(new Error("dnf: command not found"))
+        .mockResolvedValueOnce({
+          stdout:
+            "Inst libssl3 [3.0.2-0ubuntu1.15] (3.0.2-0ubuntu1.16 Ubuntu:22.04/jammy-security [amd64])\n",
+          stderr: "",
+        })
+        .mockResolvedValueOnce({ stdout: "", stderr: "" });
+      mockExistsSync.mockReturnValue(false);
+
+      const result = await checker.checkPendingUpdates();
+      expect(result).toEqual({
+        source: "apt",
+        securityUpdates: [{ package: "libssl3" }],
+        rebootRequired: false,
+      });
+    });
+
+    it("should only use cached dnf metadata", async () => {
+      (mockExecAsync as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error("Command failed"), {
+          code: 1,
+          stdout: "",
+          stderr:
+            "Error: Cache-only enabled but no cache for 'fedora'\nIgnoring repositories: fedora\n",
+        }),
+      );
+
+      await expect(checker.checkPendingUpdates()).rejects.toThrow(
+        "dnf has no cached repository metadata",
+      );
+      expect(mockExecAsync).toHaveBeenCalledTimes(1);
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        "dnf -q -C updateinfo list --security",
+      );
+    });
+
+    it("should be undetermined when apt has no package lists", async () => {
+      (mockExecAsync as jest.Mock)
+        .mockRejectedValueOnce(new Error("dnf: command not found"))
+        .mockResolvedValueOnce({ stdout: "", stderr: "" })
+        .mockRejectedValueOnce(new Error("Command failed"));
+
+      await expect(checker.checkPendingUpdates()).rejects.toThrow(
+        "apt has no downloaded package lists",
+      );
+    });
+
+    it("should be undetermined without a supported package manager", async () => {
+      (mockExecAsync as jest.Mock).mockRejectedValue(
+        new Error("command not found"),
+      );
+
+      await expect(checker.checkPendingUpdates()).rejects.toBeInstanceOf(
+        UndeterminedCheckError,
+      );
+      (mockExecAsync as jest.Mock).mockReset();
+    });
+  });
+
   describe("checkRemoteManagement", () => {
     it("should return false when no remote management services are active", async () => {
       (mockExecAsync as jest.Mock).mockResolvedValue({
@@ -374,6 +1395,152 @@ describe("LinuxSecurityChecker", () => {
     });
   });
 
+  describe("checkInstalledApplications", () => {
+    it("should combine packages from every source", async () => {
+      (mockExecAsync as jest.Mock).mockImplementation((command: string) => {
+        const outputs: Record<string, string> = {
+          "dpkg-query":
+            "firefox\tinstall ok installed\nzoom\tinstall ok installed\n",
+          rpm: "",
+          flatpak: "com.discordapp.Discord\tDiscord\n",
+          snap: "Name  Version  Rev  Tracking  Publisher  Notes\nzoom-client  5.0  1  latest/stable  zoom  -\n",
+          npm: "/usr/lib\n/usr/lib/node_modules/ngrok\n",
+          pip3: "requests==2.31.0\n",
+        };
+        const tool = command.split(" ")[0];
+        return Promise.resolve({ stdout: outputs[tool] ?? "", stderr: "" });
+      });
+
+      const result = await checker.checkInstalledApplications();
+
+      expect(result.sources).toEqual({
+        packages: ["firefox", "zoom"],
+        flatpak: ["Discord"],
+        snap: ["zoom-client"],
+        npm: ["ngrok"],
+        pip: ["requests"],
+      });
+      expect(result.installedApps).toEqual([
+        "firefox",
+        "zoom",
+        "Discord",
+        "zoom-client",
+        "ngrok",
+        "requests",
+      ]);
+    });
+
+    it("should skip tools that are not installed", async () => {
+      (mockExecAsync as jest.Mock).mockImplementation((command: string) =>
+        command.startsWith("rpm ")
+          ? Promise.resolve({ stdout: "bash\nfirefox\n", stderr: "" })
+          : Promise.reject(new Error("Command not found")),
+      );
+
+      const result = await checker.checkInstalledApplications();
+
+      expect(result.installedApps).toEqual(["bash", "firefox"]);
+      expect(result.sources.flatpak).toEqual([]);
+    });
+
+    it("should be undetermined when no package database can be read", async () => {
+      (mockExecAsync as jest.Mock).mockRejectedValue(
+        new Error("Command not found"),
+      );
+
+      await expect(checker.checkInstalledApplications()).rejects.toBeInstanceOf(
+        UndeterminedCheckError,
+      );
+    });
+  });
+
+  describe("checkOSVersion", () => {
+    const mockRelease = (distribution: string, version: string) => {
+      (mockExecAsync as jest.Mock)
+        .mockResolvedValueOnce({ stdout: `${distribution}\n`, stderr: "" })
+        .mockResolvedValueOnce({ stdout: `${version}\n`, stderr: "" });
+    };
+
+    it("should use the per-distribution target", async () => {
+      mockRelease("fedora", "40");
+
+      const result = await checker.checkOSVersion("latest", {
+        distributions: { fedora: "40", ubuntu: "22.04" },
+      });
+
+      expect(result).toMatchObject({
+        current: "40",
+        target: "40",
+        isLatest: false,
+        passed: true,
+        distribution: "Fedora",
+      });
+    });
+
+    it("should fail when below the target version", async () => {
+      mockRelease("ubuntu", "20.04");
+
+      const result = await checker.checkOSVersion("latest", {
+        distributions: { ubuntu: "22.04" },
+      });
+
+      expect(result.passed).toBe(false);
+      expect(result.target).toBe("22.04");
+    });
+
+    it("should not compare releases with a macOS-style target", async () => {
+      mockRelease("ubuntu", "22.04");
+
+      const result = await checker.checkOSVersion("14.0", {
+        distributions: { fedora: "40" },
+      });
+
+      expect(result.passed).toBe(false);
+      expect(result.reason).toBe(
+        "osVersion.distributions has no target version for ubuntu",
+      );
+    });
+
+    it("should resolve latest from the release table", async () => {
+      mockRelease("debian", "11");
+
+      const result = await checker.checkOSVersion("latest");
+
+      expect(result.isLatest).toBe(true);
+      expect(Number(result.target)).toBeGreaterThan(11);
+      expect(result.passed).toBe(false);
+    });
+
+    it("should report releases past end-of-life", async () => {
+      mockRelease("centos", "7");
+
+      const result = await checker.checkOSVersion("latest");
+
+      expect(result.endOfLife).toBe("2024-06-30");
+      expect(result.isEndOfLife).toBe(true);
+    });
+
+    it("should pass latest on rolling distributions", async () => {
+      mockRelease("arch", "");
+
+      const result = await checker.checkOSVersion("latest");
+
+      expect(result.passed).toBe(true);
+      expect(result.isEndOfLife).toBe(false);
+    });
+
+    it("should not determine latest on distributions missing from the table", async () => {
+      mockRelease("gentoo", "2.15");
+
+      const result = await checker.checkOSVersion("latest");
+
+      expect(result.target).toBe("unknown");
+      expect(result.passed).toBe(false);
+      expect(result.reason).toBe("gentoo is not in the Linux release table");
+      expect(result.isEndOfLife).toBeUndefined();
+    });
+  });
+
   describe("getCurrentLinuxVersion", () => {
     it("should return version from /etc/os-release", async () => {
       (mockExecAsync as jest.Mock).mockResolvedValue({
@@ -1,60 +1,269 @@
-import { exec } from "child_process";
-import { promisify } from "util";
-import * as fs from "fs";
-import { ISecurityChecker } from "../types";
+import { EncryptedVolume, EndpointAgentRule, ISecurityChecker } from "../types";
+import {
+  CommandError,
+  CommandRunner,
+  defaultCommandRunner,
+} from "../utils/command-runner";
+import {
+  LinuxPackageSources,
+  combineLinuxSources,
+  parseDpkgPackages,
+  parseFlatpakApps,
+  parseNpmGlobalPackages,
+  parsePipPackages,
+  parseRpmPackages,
+  parseSnapApps,
+} from "./linux-package-inventory";
+import {
+  DesktopEnvironment,
+  ScreenLockSettings,
+  builtInDesktopEnvironments,
+  detectDesktopEnvironment,
+} from "./linux-desktop-environments";
+import {
+  ModuleBlocking,
+  findModuleBlocking,
+  isModuleLoaded,
+  parseUsbGuardRules,
+} from "./linux-removable-media";
+import {
+  parseAuditRules,
+  parseJournaldConfig,
+  parseJournaldSize,
+  parseSystemctlShow,
+} from "./linux-audit-logging";
+import {
+  ClamavVersion,
+  isProcessRunning,
+  parseActiveServices,
+  parseClamavVersion,
+  parseProcessNames,
+} from "./linux-endpoint-protection";
+import {
+  BootFile,
+  SecureBootState,
+  findGrubPasswordUsers,
+  parseFileModes,
+  parseMokutilSbState,
+  parseSecureBootVariable,
+} from "./linux-boot-security";
+import {
+  PasswordlessSudoRule,
+  findPasswordlessSudoRules,
+  groupMembers,
+  parseGroup,
+  parsePasswd,
+} from "./linux-accounts";
+import {
+  PendingUpdate,
+  parseAptSecurityUpdates,
+  parseDnfSecurityUpdates,
+  parseZypperSecurityPatches,
+} from "./linux-pending-updates";
+import {
+  findRelease,
+  getLatestRelease,
+  isPastEndOfLife,
+  loadLinuxReleaseTable,
+} from "./linux-release-support";
+import {
+  BlockDevice,
+  describeEncryption,
+  findDeviceChain,
+  findMountFor,
+  parseDmCryptTable,
+  parseLsblkJson,
+  parseProcMounts,
+  parseProcSwaps,
+} from "./linux-block-devices";
+import {
+  FirewallRuleset,
+  InboundFilter,
+  parseIptablesSave,
+  parseNftRuleset,
+} from "./linux-firewall-rules";
+import {
+  ListeningSocket,
+  parseProcNetSockets,
+  parseSsListening,
+} from "./linux-listening-ports";
+import {
+  SshdDirective,
+  SshdSettings,
+  parseSshdConfig,
+  parseSshdTestOutput,
+  resolveSshdSettings,
+} from "./linux-sshd-config";
+import { VersionUtils } from "../utils/version-utils";
+import {
+  BOOT_FILE_LISTING,
+  EMPTY_PASSWORD_LISTING,
+  GRUB_PASSWORD_LISTING,
+  SUDOERS_LISTING,
+} from "../utils/sudo-session";
+import { UndeterminedCheckError } from "./undetermined-check-error";
 
-const execAsync = promisify(exec);
+const SSHD_CONFIG_DIR = "/etc/ssh";
+const SSHD_CONFIG_PATH = `${SSHD_CONFIG_DIR}/sshd_config`;
+const MAX_SSHD_INCLUDE_DEPTH = 16; // Same limit as sshd
+const SYSCTL_NAME = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/;
+const ADMIN_GROUPS = ["wheel", "sudo", "admin"];
+const GRUB_CONFIG_PATHS = [
+  "/boot/grub2/grub.cfg",
+  "/boot/grub2/user.cfg",
+  "/boot/grub/grub.cfg",
+];
+const SECURE_BOOT_VARIABLE =
+  "/sys/firmware/efi/efivars/SecureBoot-8be4df61-93ca-11d2-aa0d-00e098032b8c";
+const JOURNALD_DEFAULT_MAX_USE = 4 * 1024 ** 3; // Cap on journald's 10% default
 
 export class LinuxSecurityChecker implements ISecurityChecker {
   private password?: string;
+  private runner: CommandRunner;
+  private desktopEnvironments: DesktopEnvironment[];
 
-  constructor(password?: string) {
+  constructor(
+    password?: string,
+    runner: CommandRunner = defaultCommandRunner,
+    desktopEnvironments: DesktopEnvironment[] = builtInDesktopEnvironments,
+  ) {
     this.password = password;
+    this.runner = runner;
+    this.desktopEnvironments = desktopEnvironments;
   }
 
   /**
-   * Execute command with sudo using stored password if available
+   * Execute a privileged command with sudo, authenticating with the stored
+   * password if available
    */
   private async execWithSudo(
-    command: string,
+    args: readonly string[],
   ): Promise<{ stdout: string; stderr: string }> {
-    if (this.password) {
-      // Use non-interactive sudo with password
-      const sudoCommand = `echo "${this.password}" | sudo -S ${command}`;
-      return execAsync(sudoCommand);
-    } else {
-      // Fallback to regular sudo (will prompt for password)
-      return execAsync(`sudo ${command}`);
-    }
+    return this.runner.runWithSudo([...args], this.password);
   }
 
   /**
-   * Check if disk encryption (LUKS) is enabled
+   * Check that the root and /home file systems sit on dm-crypt
    * Linux equivalent of FileVault
    */
   async checkDiskEncryption(): Promise<boolean> {
+    const { volumes } = await this.checkDiskEncryptionCoverage();
+    return volumes
+      .filter((volume) => volume.role !== "swap")
+      .every((volume) => volume.encrypted);
+  }
+
+  /**
+   * Resolve `/`, `/home` and every active swap area through the block device
+   * tree to the dm-crypt mapping they sit on. Ciphers are only visible to
+   * root; LUKS versions come from lsblk.
+   */
+  async checkDiskEncryptionCoverage(): Promise<{
+    volumes: EncryptedVolume[];
+    commandsTried: string[];
+  }> {
+    const commandsTried: string[] = [];
+    const undetermined = (message: string) =>
+      new UndeterminedCheckError(message, commandsTried);
+
+    let devices: BlockDevice[] | null = null;
+    // util-linux before 2.33 rejects the PATH and FSVER columns
+    for (const columns of [
+      "NAME,KNAME,PATH,TYPE,FSTYPE,FSVER",
+      "NAME,KNAME,TYPE,FSTYPE",
+    ]) {
+      commandsTried.push(`lsblk -J -o ${columns}`);
+      try {
+        const { stdout } = await this.runner.run(`lsblk -J -o ${columns}`);
+        devices = parseLsblkJson(stdout);
+        break;
+      } catch {
+        // Try the older columns
+      }
+    }
+    if (!devices) {
+      throw undetermined("The block device tree could not be read with lsblk");
+    }
+
+    commandsTried.push("read /proc/mounts", "read /proc/swaps");
+    const mountsContent = await this.runner.readFile("/proc/mounts");
+    if (mountsContent === null) {
+      throw undetermined("/proc/mounts could not be read");
+    }
+    const mounts = parseProcMounts(mountsContent);
+    const swaps = parseProcSwaps(
+      (await this.runner.readFile("/proc/swaps")) ?? "",
+    );
+
+    let ciphers = new Map<string, string>();
     try {
-      // Check for LUKS encrypted devices
-      const { stdout } = await execAsync("lsblk -f");
-      const hasLuks = stdout.includes("crypto_LUKS");
+      commandsTried.push("sudo dmsetup table --target crypt");
+      const { stdout } = await this.execWithSudo([
+        "dmsetup",
+        "table",
+        "--target",
+        "crypt",
+      ]);
+      ciphers = parseDmCryptTable(stdout);
+    } catch {
+      // Ciphers are left out without root
+    }
 
-      if (hasLuks) {
-        return true;
+    const resolve = (
+      role: EncryptedVolume["role"],
+      mountPoint: string,
+      device: string,
+    ): EncryptedVolume => {
+      const chain = findDeviceChain(devices, device);
+      if (!chain) {
+        throw undetermined(
+          `${mountPoint} is on ${device}, which is not a block device known to lsblk`,
+        );
       }
+      return {
+        role,
+        mountPoint,
+        device,
+        ...describeEncryption(chain, ciphers),
+      };
+    };
 
-      // Alternative check using dmsetup
-      try {
-        const { stdout: dmStdout } = await execAsync(
-          'dmsetup ls --target crypt 2>/dev/null || echo ""',
+    const volumes: EncryptedVolume[] = [];
+    for (const target of ["/", "/home"]) {
+      // A later mount on the same target hides the earlier ones
+      const mount = mounts
+        .filter((candidate) => candidate.target === target)
+        .pop();
+      if (mount) {
+        volumes.push(
+          resolve(target === "/" ? "root" : "home", target, mount.source),
         );
-        return dmStdout.trim().length > 0;
-      } catch {
-        return false;
+      } else if (target === "/") {
+        throw undetermined("The root file system is not in /proc/mounts");
       }
-    } catch (error) {
-      console.error("Error checking disk encryption status:", error);
-      return false;
     }
+
+    for (const swap of swaps) {
+      if (/^\/dev\/zram\d+$/.test(swap.path)) {
+        // Compressed RAM, never written to disk
+        volumes.push({
+          role: "swap",
+          mountPoint: swap.path,
+          device: swap.path,
+          encrypted: false,
+          inMemory: true,
+        });
+        continue;
+      }
+
+      const mount =
+        swap.type === "file" ? findMountFor(mounts, swap.path) : null;
+      volumes.push(
+        resolve("swap", swap.path, mount ? mount.source : swap.path),
+      );
+    }
+
+    return { volumes, commandsTried };
   }
 
   /**
@@ -66,157 +275,256 @@ export class LinuxSecurityChecker implements ISecurityChecker {
     requirePasswordImmediately: boolean;
     passwordRequiredAfterLock: boolean;
   }> {
+    const lock = await this.readScreenLock();
+
+    // Check if user has a password (not passwordless)
+    let accountHasPassword: boolean;
     try {
-      let passwordEnabled = false;
-      let requirePasswordImmediately = false;
-      let passwordRequiredAfterLock = false;
+      const { stdout } = await this.runner.run(
+        'passwd -S $(whoami) 2>/dev/null || echo "unknown"',
+      );
+      accountHasPassword =
+        !stdout.includes("NP") && !stdout.includes("unknown"); // NP means no password
+    } catch {
+      // Assume password is enabled if we can't determine
+      accountHasPassword = true;
+    }
 
-      // Check if user has a password (not passwordless)
-      try {
-        const { stdout } = await execAsync(
-          'passwd -S $(whoami) 2>/dev/null || echo "unknown"',
-        );
-        passwordEnabled = !stdout.includes("NP") && !stdout.includes("unknown"); // NP means no password
-      } catch {
-        // Assume password is enabled if we can't determine
-        passwordEnabled = true;
-      }
+    return {
+      enabled: accountHasPassword && lock.lockEnabled,
+      requirePasswordImmediately:
+        lock.lockEnabled && lock.lockDelaySeconds === 0,
+      passwordRequiredAfterLock: lock.lockEnabled,
+    };
+  }
 
-      // Check screen lock settings (GNOME/KDE)
-      try {
-        // GNOME settings
-        const { stdout: gnomeTimeout } = await execAsync(
-          'gsettings get org.gnome.desktop.screensaver lock-delay 2>/dev/null || echo "not-found"',
-        );
-        if (!gnomeTimeout.includes("not-found")) {
-          const delayMatch = gnomeTimeout.trim().match(/\d+$/);
-          const delay = delayMatch ? parseInt(delayMatch[0]) : -1;
-          requirePasswordImmediately = delay === 0;
-          passwordRequiredAfterLock = true;
-        } else {
-          // GNOME not available, try KDE settings
-          try {
-            const kdeConfigPath = `${process.env.HOME}/.config/kscreenlockerrc`;
-            if (fs.existsSync(kdeConfigPath)) {
-              const kdeConfig = fs.readFileSync(kdeConfigPath, "utf-8");
-              passwordRequiredAfterLock = !kdeConfig.includes("Autolock=false");
-            } else {
-              // Default to requiring password for screen lock
-              passwordRequiredAfterLock = true;
-            }
-          } catch {
-            // Default to requiring password for screen lock
-            passwordRequiredAfterLock = true;
-          }
-        }
-      } catch {
-        // Default to requiring password for screen lock
-        passwordRequiredAfterLock = true;
-      }
+  /**
+   * Audit local accounts: UID 0 accounts besides root, empty passwords,
+   * administrator group members and passwordless sudo rules. Password hashes
+   * and sudoers are only readable by root, so those parts are null without
+   * sudo.
+   */
+  async checkUserAccounts(): Promise<{
+    uidZero: string[];
+    emptyPasswords: string[] | null;
+    adminGroups: Record<string, string[]>;
+    passwordlessSudo: PasswordlessSudoRule[] | null;
+  }> {
+    const passwdContent = await this.runner.readFile("/etc/passwd");
+    if (passwdContent === null) {
+      throw new UndeterminedCheckError("/etc/passwd could not be read", [
+        "read /etc/passwd",
+      ]);
+    }
+    const accounts = parsePasswd(passwdContent);
+    const groups = parseGroup((await this.runner.readFile("/etc/group")) ?? "");
 
-      return {
-        enabled: passwordEnabled,
-        requirePasswordImmediately,
-        passwordRequiredAfterLock,
-      };
+    // An empty field in /etc/passwd means /etc/shadow is not consulted
+    const emptyInPasswd = accounts
+      .filter((account) => account.password === "")
+      .map((account) => account.name);
+    let emptyPasswords: string[] | null =
+      emptyInPasswd.length > 0 ? emptyInPasswd : null;
+    try {
+      const { stdout } = await this.execWithSudo(EMPTY_PASSWORD_LISTING);
+      const emptyInShadow = stdout
+        .split("\n")
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0);
+      emptyPasswords = [...new Set([...emptyInPasswd, ...emptyInShadow])];
+    } catch {
+      // Not root and no cached sudo credentials
+    }
+
+    let passwordlessSudo: PasswordlessSudoRule[] | null = null;
+    try {
+      const { stdout } = await this.execWithSudo(SUDOERS_LISTING);
+      passwordlessSudo = findPasswordlessSudoRules(stdout);
     } catch (error) {
-      console.error("Error checking password protection:", error);
-      return {
-        enabled: false,
-        requirePasswordImmediately: false,
-        passwordRequiredAfterLock: false,
-      };
+      // grep exits with 2 when /etc/sudoers.d is missing but still lists /etc/sudoers
+      const { stdout } = error as CommandError;
+      if (stdout) {
+        passwordlessSudo = findPasswordlessSudoRules(stdout);
+      }
     }
+
+    const adminGroups: Record<string, string[]> = {};
+    for (const group of groups) {
+      if (ADMIN_GROUPS.includes(group.name)) {
+        adminGroups[group.name] = groupMembers(group, accounts);
+      }
+    }
+
+    return {
+      uidZero: accounts
+        .filter((account) => account.uid === 0 && account.name !== "root")
+        .map((account) => account.name),
+      emptyPasswords,
+      adminGroups,
+      passwordlessSudo,
+    };
   }
 
   /**
-   * Check auto-lock timeout settings
+   * Check auto-lock timeout settings: minutes from going idle until a
+   * password is needed, or 0 when the screen never locks
    * Linux equivalent of macOS auto-lock
    */
   async checkAutoLockTimeout(): Promise<number> {
-    // GNOME screen timeout
-    try {
-      const { stdout } = await execAsync(
-        "gsettings get org.gnome.desktop.session idle-delay 2>/dev/null",
+    const lock = await this.readScreenLock();
+    if (!lock.lockEnabled || lock.idleTimeoutSeconds === 0) {
+      return 0;
+    }
+    return Math.ceil((lock.idleTimeoutSeconds + lock.lockDelaySeconds) / 60);
+  }
+
+  /**
+   * Read the screen lock settings of the current desktop session
+   */
+  private async readScreenLock(): Promise<ScreenLockSettings> {
+    const commandsTried = ["read XDG_CURRENT_DESKTOP"];
+    const desktop = detectDesktopEnvironment(
+      this.runner,
+      this.desktopEnvironments,
+    );
+    if (!desktop) {
+      const current = this.runner.getEnv("XDG_CURRENT_DESKTOP");
+      throw new UndeterminedCheckError(
+        current
+          ? `Screen lock settings of the ${current} desktop cannot be read`
+          : "No desktop session was detected (XDG_CURRENT_DESKTOP is not set)",
+        commandsTried,
       );
-      const delayMatch = stdout.trim().match(/\d+$/);
-      const seconds = delayMatch ? parseInt(delayMatch[0]) : NaN;
-      if (!isNaN(seconds)) {
-        return Math.round(seconds / 60); // Convert to minutes
-      }
-    } catch {
-      // Try KDE settings
-      try {
-        const kdeConfigPath = `${process.env.HOME}/.config/kscreenlockerrc`;
-        if (fs.existsSync(kdeConfigPath)) {
-          const kdeConfig = fs.readFileSync(kdeConfigPath, "utf-8");
-          const match = kdeConfig.match(/Timeout=(\d+)/);
-          if (match) {
-            return Math.round(parseInt(match[1]) / 60); // Convert to minutes
-          }
-        }
-      } catch {
-        // Default timeout will be returned below
-      }
     }
 
-    // Default to 15 minutes if we can't determine
-    return 15;
+    const settings = await desktop.readScreenLock(this.runner, commandsTried);
+    if (!settings) {
+      throw new UndeterminedCheckError(
+        `${desktop.name} screen lock settings could not be read`,
+        commandsTried,
+      );
+    }
+    return settings;
   }
 
   /**
-   * Check firewall status using ufw or firewalld
+   * Check firewall status from the nftables or iptables ruleset, falling back
+   * to ufw or firewalld when the ruleset can only be read as root
    * Linux equivalent of macOS firewall
    */
-  async checkFirewall(): Promise<{ enabled: boolean; stealthMode: boolean }> {
+  async checkFirewall(): Promise<{
+    enabled: boolean;
+    stealthMode: boolean;
+    ruleset?: FirewallRuleset;
+  }> {
+    const commandsTried: string[] = [];
+
+    const ruleset = await this.readFirewallRuleset(commandsTried);
+    if (ruleset) {
+      return {
+        enabled: ruleset.ipv4.policy !== "accept",
+        // Dropped packets get no answer, unlike rejected ones
+        stealthMode: ruleset.ipv4.policy === "drop",
+        ruleset,
+      };
+    }
+
+    // Check ufw (Ubuntu/Debian)
     try {
-      let enabled = false;
+      commandsTried.push("ufw status verbose");
+      const { stdout } = await this.runner.run(
+        "ufw status verbose 2>/dev/null",
+      );
+      return {
+        enabled: /^Status: active$/m.test(stdout),
+        stealthMode: /^Default: deny \(incoming\)/m.test(stdout),
+      };
+    } catch {
+      // Fall through to firewalld
+    }
+
+    // Check firewalld (Fedora/RHEL)
+    try {
+      commandsTried.push("firewall-cmd --state");
+      const { stdout } = await this.runner.run(
+        "firewall-cmd --state 2>/dev/null",
+      );
+      const enabled = stdout.trim() === "running";
       let stealthMode = false;
 
-      // Check ufw (Ubuntu/Debian)
-      try {
-        const { stdout } = await execAsync("ufw status 2>/dev/null");
-        enabled = stdout.includes("Status: active");
-        // Check for stealth mode (reject vs deny)
-        stealthMode = stdout.includes("REJECT");
-      } catch {
-        // Check firewalld (Fedora/RHEL)
+      if (enabled) {
+        // Check for drop vs reject policy
         try {
-          const { stdout } = await execAsync(
-            "firewall-cmd --state 2>/dev/null",
+          const { stdout: policy } = await this.runner.run(
+            "firewall-cmd --get-default-zone 2>/dev/null",
           );
-          enabled = stdout.trim() === "running";
-
-          if (enabled) {
-            // Check for drop vs reject policy
-            const { stdout: policy } = await execAsync(
-              "firewall-cmd --get-default-zone 2>/dev/null",
-            );
-            const zone = policy.trim();
-            const { stdout: target } = await execAsync(
-              `firewall-cmd --zone=${zone} --query-target 2>/dev/null || echo "default"`,
-            );
-            stealthMode = target.includes("DROP");
-          }
+          const zone = policy.trim();
+          const { stdout: target } = await this.runner.run(
+            `firewall-cmd --zone=${zone} --query-target 2>/dev/null || echo "default"`,
+          );
+          stealthMode = target.trim() === "DROP";
         } catch {
-          // Check iptables directly
-          try {
-            const { stdout } = await this.execWithSudo(
-              'iptables -L 2>/dev/null || echo "not-available"',
-            );
-            enabled =
-              !stdout.includes("not-available") && stdout.includes("Chain");
-            stealthMode = stdout.includes("DROP");
-          } catch {
-            enabled = false;
-          }
+          // The firewall is running; only the zone target is unknown
         }
       }
 
       return { enabled, stealthMode };
-    } catch (error) {
-      console.error("Error checking firewall status:", error);
-      return { enabled: false, stealthMode: false };
+    } catch {
+      // Reported as undetermined below
+    }
+
+    throw new UndeterminedCheckError(
+      "No firewall status could be read from nftables, iptables, ufw or firewalld",
+      commandsTried,
+    );
+  }
+
+  /**
+   * Read the inbound filtering rules, which needs root. nftables is tried
+   * first; an empty nftables ruleset means legacy iptables may be in use.
+   */
+  private async readFirewallRuleset(
+    commandsTried: string[],
+  ): Promise<FirewallRuleset | null> {
+    try {
+      commandsTried.push("sudo nft -j list ruleset");
+      const { stdout } = await this.execWithSudo([
+        "nft",
+        "-j",
+        "list",
+        "ruleset",
+      ]);
+      const ruleset = parseNftRuleset(stdout);
+      if (ruleset) {
+        return ruleset;
+      }
+    } catch {
+      // nft is not installed or sudo is not available
+    }
+
+    let ipv4: InboundFilter | null;
+    try {
+      commandsTried.push("sudo iptables-save");
+      const { stdout } = await this.execWithSudo(["iptables-save"]);
+      ipv4 = parseIptablesSave(stdout);
+    } catch {
+      return null;
+    }
+    if (!ipv4) {
+      return null;
+    }
+
+    try {
+      commandsTried.push("sudo ip6tables-save");
+      const { stdout } = await this.execWithSudo(["ip6tables-save"]);
+      // Without an ip6tables filter table nothing filters IPv6
+      const ipv6 = parseIptablesSave(stdout) ?? {
+        policy: "accept" as const,
+        openPorts: [],
+      };
+      return { backend: "iptables", ipv4, ipv6 };
+    } catch {
+      return { backend: "iptables", ipv4 };
     }
   }
 
@@ -225,42 +533,51 @@ export class LinuxSecurityChecker implements ISecurityChecker {
    * Linux equivalent of Gatekeeper
    */
   async checkPackageVerification(): Promise<boolean> {
-    // Check based on package manager
+    const commandsTried: string[] = [];
 
     // DNF (Fedora)
     try {
-      const { stdout } = await execAsync(
+      commandsTried.push("dnf config-manager --dump");
+      const { stdout } = await this.runner.run(
         'dnf config-manager --dump 2>/dev/null | grep gpgcheck || echo "not-found"',
       );
       if (!stdout.includes("not-found")) {
         return stdout.includes("gpgcheck = 1") || stdout.includes("gpgcheck=1");
       }
     } catch {
-      // APT (Ubuntu/Debian)
-      try {
-        const { stdout } = await execAsync(
-          'apt-config dump | grep -i gpg 2>/dev/null || echo "not-found"',
-        );
-        if (!stdout.includes("not-found")) {
-          // APT generally has GPG verification enabled by default
-          return true;
-        }
-      } catch {
-        // YUM (older RHEL/CentOS)
-        try {
-          const yumConfPath = "/etc/yum.conf";
-          if (fs.existsSync(yumConfPath)) {
-            const yumConfig = fs.readFileSync(yumConfPath, "utf-8");
-            return yumConfig.includes("gpgcheck=1");
-          }
-        } catch {
-          // Will return default below
-        }
+      // Fall through to APT
+    }
+
+    // APT (Ubuntu/Debian)
+    try {
+      commandsTried.push("apt-config dump");
+      const { stdout } = await this.runner.run(
+        'apt-config dump | grep -i gpg 2>/dev/null || echo "not-found"',
+      );
+      if (!stdout.includes("not-found")) {
+        // APT generally has GPG verification enabled by default
+        return true;
       }
+    } catch {
+      // Fall through to YUM
     }
 
-    // Default to true if we can't determine (assume secure default)
-    return true;
+    // YUM (older RHEL/CentOS)
+    const yumConfPath = "/etc/yum.conf";
+    commandsTried.push(`read ${yumConfPath}`);
+    try {
+      const yumConfig = await this.runner.readFile(yumConfPath);
+      if (yumConfig !== null) {
+        return yumConfig.includes("gpgcheck=1");
+      }
+    } catch {
+      // Reported as undetermined below
+    }
+
+    throw new UndeterminedCheckError(
+      "No supported package manager configuration (DNF, APT or YUM) could be read",
+      commandsTried,
+    );
   }
 
   /**
@@ -270,19 +587,19 @@ export class LinuxSecurityChecker implements ISecurityChecker {
   async checkSystemIntegrityProtection(): Promise<boolean> {
     // Check SELinux (Fedora/RHEL)
     try {
-      const { stdout } = await execAsync("getenforce 2>/dev/null");
+      const { stdout } = await this.runner.run("getenforce 2>/dev/null");
       if (stdout.trim() === "Enforcing") {
         return true;
       }
     } catch {
       // Check AppArmor (Ubuntu/Debian)
       try {
-        const { stdout } = await execAsync("aa-status 2>/dev/null");
+        const { stdout } = await this.runner.run("aa-status 2>/dev/null");
         return stdout.includes("apparmor module is loaded");
       } catch {
         // Check for other security modules
         try {
-          const { stdout } = await execAsync(
+          const { stdout } = await this.runner.run(
             "cat /sys/kernel/security/lsm 2>/dev/null",
           );
           return stdout.includes("selinux") || stdout.includes("apparmor");
@@ -295,6 +612,184 @@ export class LinuxSecurityChecker implements ISecurityChecker {
     return false;
   }
 
+  /**
+   * Report UEFI Secure Boot, the GRUB superusers with a password and the
+   * modes of /boot and the GRUB configs. GRUB configs are usually only
+   * readable as root, so sudo is tried first.
+   */
+  async checkBootSecurity(): Promise<{
+    secureBoot: SecureBootState | null;
+    bootloaderPasswordUsers: string[] | null;
+    bootFiles: BootFile[];
+    bootFilesComplete: boolean;
+  }> {
+    let bootFiles: BootFile[] = [];
+    let bootFilesComplete = false;
+    try {
+      const { stdout } = await this.execWithSudo(BOOT_FILE_LISTING);
+      bootFiles = parseFileModes(stdout);
+      bootFilesComplete = true;
+    } catch {
+      try {
+        const { stdout } = await this.runner.run(
+          "find /boot -maxdepth 2 \\( -path /boot -o -name grub.cfg -o -name user.cfg \\) -printf '%m %u %p\\n' 2>/dev/null",
+        );
+        bootFiles = parseFileModes(stdout);
+        bootFilesComplete = true;
+      } catch (error) {
+        // find exits with 1 when it cannot enter a directory such as /boot/efi
+        bootFiles = parseFileModes((error as CommandError).stdout ?? "");
+      }
+    }
+
+    return {
+      secureBoot: await this.readSecureBoot(),
+      bootloaderPasswordUsers: await this.readGrubPasswordUsers(),
+      bootFiles,
+      bootFilesComplete,
+    };
+  }
+
+  /**
+   * Read the Secure Boot state with mokutil, falling back to efivarfs
+   */
+  private async readSecureBoot(): Promise<SecureBootState | null> {
+    try {
+      const { stdout } = await this.runner.run("mokutil --sb-state 2>&1");
+      const state = parseMokutilSbState(stdout);
+      if (state) {
+        return state;
+      }
+    } catch (error) {
+      // mokutil exits with 1 on systems without EFI variables
+      const state = parseMokutilSbState((error as CommandError).stdout ?? "");
+      if (state) {
+        return state;
+      }
+    }
+
+    const variable = await this.runner.readFile(SECURE_BOOT_VARIABLE);
+    if (variable !== null) {
+      const enabled = parseSecureBootVariable(variable);
+      return enabled === null ? null : enabled ? "enabled" : "disabled";
+    }
+
+    try {
+      await this.runner.run("test -d /sys/firmware/efi");
+      return null; // UEFI without a readable SecureBoot variable
+    } catch {
+      return "unsupported";
+    }
+  }
+
+  /**
+   * Find the GRUB superusers with a password, or null if no GRUB config could
+   * be read
+   */
+  private async readGrubPasswordUsers(): Promise<string[] | null> {
+    try {
+      const { stdout } = await this.execWithSudo(GRUB_PASSWORD_LISTING);
+      return findGrubPasswordUsers(stdout);
+    } catch {
+      // Not root and no cached sudo credentials
+    }
+
+    // Debian and Ubuntu leave grub.cfg world-readable until it holds a password
+    const contents: string[] = [];
+    let grubCfgRead = false;
+    for (const filePath of GRUB_CONFIG_PATHS) {
+      const content = await this.runner.readFile(filePath);
+      if (content !== null) {
+        contents.push(content);
+        grubCfgRead = grubCfgRead || filePath.endsWith("/grub.cfg");
+      }
+    }
+    return grubCfgRead ? findGrubPasswordUsers(contents.join("\n")) : null;
+  }
+
+  /**
+   * Find ClamAV and the configured agents among the running processes and
+   * active systemd services. ClamAV runs when clamd does; its signatures are
+   * dated by the daily database that freshclam downloads.
+   */
+  async checkEndpointProtection(agents: EndpointAgentRule[]): Promise<
+    {
+      name: string;
+      running: boolean;
+      signatureVersion?: string;
+      signaturesUpdated?: string | null;
+    }[]
+  > {
+    let processNames: string[] | null = null;
+    try {
+      const { stdout } = await this.runner.run("ps -eo comm= 2>/dev/null");
+      processNames = parseProcessNames(stdout);
+    } catch {
+      // procps is not installed
+    }
+
+    let services: string[] | null = null;
+    try {
+      const { stdout } = await this.runner.run(
+        "systemctl list-units --type=service --state=active --plain --no-legend 2>/dev/null",
+      );
+      services = parseActiveServices(stdout);
+    } catch {
+      // Not a systemd system
+    }
+
+    if (processNames === null && services === null) {
+      throw new UndeterminedCheckError(
+        "Neither running processes nor active services could be listed",
+        ["ps -eo comm=", "systemctl list-units --type=service --state=active"],
+      );
+    }
+
+    const products: {
+      name: string;
+      running: boolean;
+      signatureVersion?: string;
+      signaturesUpdated?: string | null;
+    }[] = [];
+
+    const clamdRunning = isProcessRunning(processNames ?? [], "clamd");
+    let clamav: ClamavVersion | null = null;
+    for (const command of ["freshclam --version", "clamscan --version"]) {
+      try {
+        const { stdout } = await this.runner.run(`${command} 2>/dev/null`);
+        clamav = parseClamavVersion(stdout);
+        break;
+      } catch {
+        // Not installed; clamd, clamscan and freshclam are separate packages
+      }
+    }
+    if (clamav || clamdRunning) {
+      products.push({
+        name: "ClamAV",
+        running: clamdRunning,
+        ...(clamav?.signatureVersion && {
+          signatureVersion: clamav.signatureVersion,
+        }),
+        signaturesUpdated: clamav?.signaturesUpdated ?? null,
+      });
+    }
+
+    for (const agent of agents) {
+      products.push({
+        name: agent.name,
+        running:
+          (agent.processes ?? []).some((name) =>
+            isProcessRunning(processNames ?? [], name),
+          ) ||
+          (agent.services ?? []).some((name) =>
+            (services ?? []).includes(name.replace(/\.service$/, "")),
+          ),
+      });
+    }
+
+    return products;
+  }
+
   /**
    * Check SSH service status
    * Linux equivalent of remote login
@@ -302,14 +797,14 @@ export class LinuxSecurityChecker implements ISecurityChecker {
   async checkRemoteLogin(): Promise<boolean> {
     // Check if SSH service is running
     try {
-      const { stdout } = await execAsync(
+      const { stdout } = await this.runner.run(
         'systemctl is-active ssh 2>/dev/null || systemctl is-active sshd 2>/dev/null || echo "inactive"',
       );
       return stdout.trim() === "active";
     } catch {
       // Fallback to checking if SSH daemon is running
       try {
-        const { stdout } = await execAsync(
+        const { stdout } = await this.runner.run(
           'pgrep sshd 2>/dev/null || echo "not-running"',
         );
         return !stdout.includes("not-running");
@@ -319,6 +814,414 @@ export class LinuxSecurityChecker implements ISecurityChecker {
     }
   }
 
+  /**
+   * Read the effective OpenSSH server configuration, or null if no SSH server
+   * is installed. `sshd -T` needs root; without sudo, sshd_config and the
+   * files it includes are parsed instead, which is undetermined when
+   * sshd_config is only readable by root.
+   */
+  async checkSshHardening(): Promise<
+    (SshdSettings & { source: string }) | null
+  > {
+    try {
+      const { stdout } = await this.execWithSudo(["sshd", "-T"]);
+      if (stdout.trim()) {
+        return { ...parseSshdTestOutput(stdout), source: "sshd -T" };
+      }
+    } catch {
+      // Not root and no cached sudo credentials, or sshd is not installed
+    }
+
+    const directives = await this.readSshdConfig(SSHD_CONFIG_PATH, 0);
+    if (directives === null) {
+      if (!(await this.pathExists(SSHD_CONFIG_PATH))) {
+        return null;
+      }
+      // Fedora and RHEL keep sshd_config readable only by root
+      throw new UndeterminedCheckError(
+        `${SSHD_CONFIG_PATH} requires root to read; run with sudo credentials available`,
+        ["sudo sshd -T", `read ${SSHD_CONFIG_PATH}`],
+      );
+    }
+    return { ...resolveSshdSettings(directives), source: SSHD_CONFIG_PATH };
+  }
+
+  /**
+   * Read an sshd_config file with its Include directives expanded in place.
+   * An included file that exists but cannot be read may hold any setting,
+   * so the configuration is then undetermined.
+   */
+  private async readSshdConfig(
+    filePath: string,
+    depth: number,
+  ): Promise<SshdDirective[] | null> {
+    const content = await this.runner.readFile(filePath);
+    if (content === null) {
+      return null;
+    }
+
+    const directives: SshdDirective[] = [];
+    for (const directive of parseSshdConfig(content)) {
+      if (directive.keyword !== "include") {
+        directives.push(directive);
+        continue;
+      }
+      if (depth >= MAX_SSHD_INCLUDE_DEPTH) {
+        continue;
+      }
+      for (const pattern of directive.value.split(/\s+/)) {
+        for (const includedPath of await this.expandSshdInclude(pattern)) {
+          const included = await this.readSshdConfig(includedPath, depth + 1);
+          if (included === null && (await this.pathExists(includedPath))) {
+            throw new UndeterminedCheckError(
+              `${includedPath}, included from ${filePath}, requires root to read; run with sudo credentials available`,
+              ["sudo sshd -T", `read ${includedPath}`],
+            );
+          }
+          directives.push(...(included ?? []));
+        }
+      }
+    }
+    return directives;
+  }
+
+  /**
+   * Whether a path exists, to tell files that cannot be read from missing
+   * ones. Paths that are not safe to pass to the shell count as existing.
+   */
+  private async pathExists(filePath: string): Promise<boolean> {
+    if (!/^[\w./-]+$/.test(filePath)) {
+      return true;
+    }
+    try {
+      await this.runner.run(`test -e ${filePath}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve an Include pattern to files in the order sshd reads them.
+   * Relative paths are relative to /etc/ssh.
+   */
+  private async expandSshdInclude(pattern: string): Promise<string[]> {
+    const absolute = pattern.startsWith("/")
+      ? pattern
+      : `${SSHD_CONFIG_DIR}/${pattern}`;
+    if (!/[*?[]/.test(absolute)) {
+      return [absolute];
+    }
+    // The pattern is expanded by the shell, so only plain path characters pass
+    if (!/^[\w./*?[\]-]+$/.test(absolute)) {
+      return [];
+    }
+
+    try {
+      const { stdout } = await this.runner.run(
+        `ls -1d ${absolute} 2>/dev/null`,
+      );
+      return stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .sort();
+    } catch {
+      return []; // Nothing matched
+    }
+  }
+
+  /**
+   * Read kernel parameters from /proc/sys, e.g. kernel.kptr_restrict from
+   * /proc/sys/kernel/kptr_restrict. Parameters that could not be read are
+   * null; those whose file exists, so the kernel has them, are also listed
+   * as unreadable.
+   */
+  async checkKernelHardening(
+    names: string[],
+  ): Promise<{ values: Record<string, string | null>; unreadable: string[] }> {
+    const values: Record<string, string | null> = {};
+    const unreadable: string[] = [];
+    for (const name of names) {
+      values[name] = null;
+      // Dots become path separators, so no name can leave /proc/sys
+      if (!SYSCTL_NAME.test(name)) {
+        continue;
+      }
+      const filePath = `/proc/sys/${name.replace(/\./g, "/")}`;
+      const content = await this.runner.readFile(filePath);
+      if (content !== null) {
+        values[name] = content.trim();
+      } else if (await this.pathExists(filePath)) {
+        unreadable.push(name);
+      }
+    }
+    return { values, unreadable };
+  }
+
+  /**
+   * Report how USB storage is restricted: the usb-storage module in the
+   * modprobe configuration, desktop automounting and USBGuard. The USBGuard
+   * policy is only readable as root.
+   */
+  async checkRemovableMedia(): Promise<{
+    usbStorage: ModuleBlocking & { loaded: boolean };
+    automount: boolean | null;
+    usbGuard: {
+      active: boolean;
+      implicitPolicyTarget: string | null;
+      allowsAll: boolean | null;
+    } | null;
+  }> {
+    let modprobeConfig: string;
+    try {
+      const { stdout } = await this.runner.run("modprobe -c 2>/dev/null");
+      modprobeConfig = stdout;
+    } catch {
+      throw new UndeterminedCheckError(
+        "The modprobe configuration could not be read",
+        ["modprobe -c"],
+      );
+    }
+    const cmdline = (await this.runner.readFile("/proc/cmdline")) ?? "";
+    const procModules = (await this.runner.readFile("/proc/modules")) ?? "";
+
+    return {
+      usbStorage: {
+        ...findModuleBlocking(modprobeConfig, cmdline, "usb-storage"),
+        loaded: isModuleLoaded(procModules, "usb-storage"),
+      },
+      automount: await this.readAutomount(),
+      usbGuard: await this.readUsbGuard(),
+    };
+  }
+
+  /**
+   * Whether the desktop automounts inserted media, or null outside a desktop
+   * session and on desktops without a reader for it
+   */
+  private async readAutomount(): Promise<boolean | null> {
+    const desktop = detectDesktopEnvironment(
+      this.runner,
+      this.desktopEnvironments,
+    );
+    if (!desktop?.readAutomount) {
+      return null;
+    }
+    return desktop.readAutomount(this.runner, []);
+  }
+
+  /**
+   * Read the USBGuard daemon state and policy, or null if it is not installed
+   */
+  private async readUsbGuard(): Promise<{
+    active: boolean;
+    implicitPolicyTarget: string | null;
+    allowsAll: boolean | null;
+  } | null> {
+    try {
+      await this.runner.run("command -v usbguard 2>/dev/null");
+    } catch {
+      return null;
+    }
+
+    let active = false;
+    try {
+      const { stdout } = await this.runner.run(
+        "systemctl is-active usbguard 2>/dev/null",
+      );
+      active = stdout.trim() === "active";
+    } catch {
+      // is-active exits with 3 when the unit is inactive
+    }
+
+    let implicitPolicyTarget: string | null = null;
+    let allowsAll: boolean | null = null;
+    try {
+      const { stdout: target } = await this.execWithSudo([
+        "usbguard",
+        "get-parameter",
+        "ImplicitPolicyTarget",
+      ]);
+      implicitPolicyTarget = target.trim() || null;
+      const { stdout: rules } = await this.execWithSudo([
+        "usbguard",
+        "list-rules",
+      ]);
+      allowsAll = parseUsbGuardRules(rules).allowsAll;
+    } catch {
+      // Only root may talk to the daemon unless IPCAllowedUsers says otherwise
+    }
+
+    return { active, implicitPolicyTarget, allowsAll };
+  }
+
+  /**
+   * Report the auditd service, the loaded audit rules and how journald
+   * stores logs. The audit rules are only readable as root.
+   */
+  async checkAuditLogging(): Promise<{
+    auditd: { installed: boolean; active: boolean } | null;
+    auditRules: string[] | null;
+    journal: {
+      storage: string;
+      persistent: boolean;
+      systemMaxUse: string | null;
+      maxUseBytes: number | null;
+    } | null;
+  }> {
+    let auditd: { installed: boolean; active: boolean } | null = null;
+    try {
+      const { stdout } = await this.runner.run(
+        "systemctl show auditd.service -p LoadState -p ActiveState 2>/dev/null",
+      );
+      const properties = parseSystemctlShow(stdout);
+      if (properties.LoadState) {
+        auditd = {
+          installed: properties.LoadState !== "not-found",
+          active: properties.ActiveState === "active",
+        };
+      }
+    } catch {
+      // Not a systemd system
+    }
+
+    let auditRules: string[] | null = auditd?.installed === false ? [] : null;
+    if (auditd?.installed !== false) {
+      try {
+        const { stdout } = await this.execWithSudo(["auditctl", "-l"]);
+        auditRules = parseAuditRules(stdout);
+      } catch {
+        // Not root and no cached sudo credentials
+      }
+    }
+
+    return { auditd, auditRules, journal: await this.readJournald() };
+  }
+
+  /**
+   * Read the effective journald storage and size limit, or null if journald
+   * is not configured on this system. Without SystemMaxUse, journald uses
+   * 10% of the file system holding /var/log/journal, at most 4G.
+   */
+  private async readJournald(): Promise<{
+    storage: string;
+    persistent: boolean;
+    systemMaxUse: string | null;
+    maxUseBytes: number | null;
+  } | null> {
+    let config: string | null;
+    try {
+      // Includes the drop-ins in journald.conf.d, in override order
+      const { stdout } = await this.runner.run(
+        "systemd-analyze cat-config systemd/journald.conf 2>/dev/null",
+      );
+      config = stdout;
+    } catch {
+      config = await this.runner.readFile("/etc/systemd/journald.conf");
+    }
+    if (config === null) {
+      return null;
+    }
+
+    const settings = parseJournaldConfig(config);
+    let journalDirectory = false;
+    try {
+      await this.runner.run("test -d /var/log/journal");
+      journalDirectory = true;
+    } catch {
+      // Storage=auto keeps the journal in memory without this directory
+    }
+    const persistent =
+      settings.storage === "persistent" ||
+      (settings.storage === "auto" && journalDirectory);
+
+    if (settings.systemMaxUse) {
+      return {
+        storage: settings.storage,
+        persistent,
+        systemMaxUse: settings.systemMaxUse,
+        maxUseBytes: parseJournaldSize(settings.systemMaxUse),
+      };
+    }
+
+    let maxUseBytes: number | null = null;
+    if (persistent) {
+      try {
+        const { stdout } = await this.runner.run(
+          "df -B1 --output=size /var/log/journal 2>/dev/null",
+        );
+        const size = parseInt(stdout.trim().split("\n").pop() ?? "", 10);
+        if (!isNaN(size)) {
+          maxUseBytes = Math.min(
+            Math.floor(size / 10),
+            JOURNALD_DEFAULT_MAX_USE,
+          );
+        }
+      } catch {
+        // The default limit is unknown without the file system size
+      }
+    }
+    return {
+      storage: settings.storage,
+      persistent,
+      systemMaxUse: null,
+      maxUseBytes,
+    };
+  }
+
+  /**
+   * List listening TCP and unconnected UDP sockets. `ss` only names the
+   * processes of other users when run as root, so sudo is tried first; the
+   * /proc/net tables are the last resort and carry no process names.
+   */
+  async checkListeningPorts(): Promise<{
+    sockets: ListeningSocket[];
+    source: string;
+  }> {
+    const commandsTried: string[] = [];
+
+    try {
+      commandsTried.push("sudo ss -tulpn");
+      const { stdout } = await this.execWithSudo(["ss", "-tulpn"]);
+      return { sockets: parseSsListening(stdout), source: "sudo ss -tulpn" };
+    } catch {
+      // Not root and no cached sudo credentials
+    }
+
+    try {
+      commandsTried.push("ss -tulpn");
+      const { stdout } = await this.runner.run("ss -tulpn 2>/dev/null");
+      return { sockets: parseSsListening(stdout), source: "ss -tulpn" };
+    } catch {
+      // iproute2 is not installed
+    }
+
+    const sockets: ListeningSocket[] = [];
+    let tablesRead = 0;
+    for (const table of ["tcp", "tcp6", "udp", "udp6"]) {
+      commandsTried.push(`read /proc/net/${table}`);
+      const content = await this.runner.readFile(`/proc/net/${table}`);
+      if (content !== null) {
+        tablesRead++;
+        sockets.push(
+          ...parseProcNetSockets(
+            content,
+            table.startsWith("tcp") ? "tcp" : "udp",
+          ),
+        );
+      }
+    }
+    if (tablesRead > 0) {
+      return { sockets, source: "/proc/net" };
+    }
+
+    throw new UndeterminedCheckError(
+      "No socket table could be read from ss or /proc/net",
+      commandsTried,
+    );
+  }
+
   /**
    * Check if VNC or other remote management services are running
    * Linux equivalent of remote management
@@ -330,7 +1233,7 @@ export class LinuxSecurityChecker implements ISecurityChecker {
 
       for (const service of vncServices) {
         try {
-          const { stdout } = await execAsync(
+          const { stdout } = await this.runner.run(
             `pgrep ${service} 2>/dev/null || echo "not-running"`,
           );
           if (!stdout.includes("not-running")) {
@@ -343,7 +1246,7 @@ export class LinuxSecurityChecker implements ISecurityChecker {
 
       // Check for TeamViewer
       try {
-        const { stdout } = await execAsync(
+        const { stdout } = await this.runner.run(
           'pgrep teamviewer 2>/dev/null || echo "not-running"',
         );
         if (!stdout.includes("not-running")) {
@@ -388,8 +1291,8 @@ export class LinuxSecurityChecker implements ISecurityChecker {
       // Check DNF automatic (Fedora)
       try {
         const dnfAutoConfigPath = "/etc/dnf/automatic.conf";
-        if (fs.existsSync(dnfAutoConfigPath)) {
-          const dnfConfig = fs.readFileSync(dnfAutoConfigPath, "utf-8");
+        const dnfConfig = await this.runner.readFile(dnfAutoConfigPath);
+        if (dnfConfig !== null) {
           enabled =
             dnfConfig.includes("apply_updates = yes") ||
             dnfConfig.includes("apply_updates=yes");
@@ -406,8 +1309,8 @@ export class LinuxSecurityChecker implements ISecurityChecker {
         try {
           const unattendedConfigPath =
             "/etc/apt/apt.conf.d/50unattended-upgrades";
-          if (fs.existsSync(unattendedConfigPath)) {
-            const aptConfig = fs.readFileSync(unattendedConfigPath, "utf-8");
+          const aptConfig = await this.runner.readFile(unattendedConfigPath);
+          if (aptConfig !== null) {
             enabled =
               !aptConfig.includes("//") ||
               aptConfig.includes('Unattended-Upgrade::Automatic-Reboot "true"');
@@ -420,8 +1323,8 @@ export class LinuxSecurityChecker implements ISecurityChecker {
           // Check yum-cron (older systems)
           try {
             const yumCronConfigPath = "/etc/yum/yum-cron.conf";
-            if (fs.existsSync(yumCronConfigPath)) {
-              const yumConfig = fs.readFileSync(yumCronConfigPath, "utf-8");
+            const yumConfig = await this.runner.readFile(yumCronConfigPath);
+            if (yumConfig !== null) {
               enabled = yumConfig.includes("apply_updates = yes");
               automaticInstall = enabled;
             }
@@ -452,6 +1355,117 @@ export class LinuxSecurityChecker implements ISecurityChecker {
     }
   }
 
+  /**
+   * Count security updates that are available but not installed, and whether
+   * a reboot is needed to finish installing earlier ones. Only the package
+   * manager's cached metadata is used, so counts are as fresh as its last
+   * refresh; without any cached metadata the count is undetermined.
+   */
+  async checkPendingUpdates(): Promise<{
+    source: "dnf" | "apt" | "zypper";
+    securityUpdates: PendingUpdate[];
+    rebootRequired: boolean | null;
+  }> {
+    const commandsTried: string[] = [];
+
+    // DNF (Fedora/RHEL); -C keeps it from refreshing metadata over the network
+    try {
+      commandsTried.push("dnf -C updateinfo list --security");
+      const { stdout } = await this.runner.run(
+        "dnf -q -C updateinfo list --security",
+      );
+      return {
+        source: "dnf",
+        securityUpdates: parseDnfSecurityUpdates(stdout),
+        rebootRequired: await this.rebootRequiredFromExitCode(
+          "dnf -q -C needs-restarting -r 2>/dev/null",
+          1,
+        ),
+      };
+    } catch (error) {
+      // "Cache-only enabled but no cache for 'fedora'"
+      if (/no cache/i.test((error as CommandError).stderr ?? "")) {
+        throw new UndeterminedCheckError(
+          "dnf has no cached repository metadata; run `sudo dnf makecache`",
+          commandsTried,
+        );
+      }
+      // Fall through to APT
+    }
+
+    // APT (Ubuntu/Debian); apt-get never downloads package lists by itself
+    let aptOutput: string | null = null;
+    try {
+      commandsTried.push("apt-get -s dist-upgrade");
+      ({ stdout: aptOutput } = await this.runner.run(
+        "apt-get -s dist-upgrade 2>/dev/null",
+      ));
+    } catch {
+      // Fall through to zypper
+    }
+    if (aptOutput !== null) {
+      try {
+        await this.runner.run(
+          "ls /var/lib/apt/lists 2>/dev/null | grep -q _Packages",
+        );
+      } catch {
+        // Without package lists apt knows of no updates at all
+        throw new UndeterminedCheckError(
+          "apt has no downloaded package lists; run `sudo apt-get update`",
+          [...commandsTried, "ls /var/lib/apt/lists"],
+        );
+      }
+      return {
+        source: "apt",
+        securityUpdates: parseAptSecurityUpdates(aptOutput),
+        // Created by update-notifier-common when an update needs a reboot
+        rebootRequired:
+          (await this.runner.readFile("/var/run/reboot-required")) !== null,
+      };
+    }
+
+    // zypper (openSUSE/SLES); --no-refresh skips the repositories' autorefresh
+    try {
+      commandsTried.push(
+        "zypper --no-refresh list-patches --category security",
+      );
+      const { stdout } = await this.runner.run(
+        "zypper --non-interactive --quiet --no-refresh list-patches --category security 2>/dev/null",
+      );
+      return {
+        source: "zypper",
+        securityUpdates: parseZypperSecurityPatches(stdout),
+        rebootRequired: await this.rebootRequiredFromExitCode(
+          "zypper needs-rebooting 2>/dev/null",
+          102,
+        ),
+      };
+    } catch {
+      // Reported as undetermined below
+    }
+
+    throw new UndeterminedCheckError(
+      "No pending updates could be listed with dnf, apt or zypper",
+      commandsTried,
+    );
+  }
+
+  /**
+   * Run a command that exits with `rebootExitCode` when a reboot is needed
+   * and 0 when it is not; anything else leaves the state unknown
+   */
+  private async rebootRequiredFromExitCode(
+    command: string,
+    rebootExitCode: number,
+  ): Promise<boolean | null> {
+    try {
+      await this.runner.run(command);
+      return false;
+    } catch (error) {
+      return (error as CommandError).code === rebootExitCode ? true : null;
+    }
+  }
+
   /**
    * Check file and screen sharing services
    * Linux equivalent of sharing services
@@ -466,13 +1480,13 @@ export class LinuxSecurityChecker implements ISecurityChecker {
       // File sharing - check Samba, NFS
       let fileSharing = false;
       try {
-        const { stdout: sambaStatus } = await execAsync(
+        const { stdout: sambaStatus } = await this.runner.run(
           'systemctl is-active smbd 2>/dev/null || systemctl is-active nmbd 2>/dev/null || echo "inactive"',
         );
         fileSharing = sambaStatus.includes("active");
 
         if (!fileSharing) {
-          const { stdout: nfsStatus } = await execAsync(
+          const { stdout: nfsStatus } = await this.runner.run(
             'systemctl is-active nfs-server 2>/dev/null || echo "inactive"',
           );
           fileSharing = nfsStatus.includes("active");
@@ -486,7 +1500,7 @@ export class LinuxSecurityChecker implements ISecurityChecker {
       try {
         const vncServices = ["vncserver", "x11vnc", "tigervnc"];
         for (const service of vncServices) {
-          const { stdout } = await execAsync(
+          const { stdout } = await this.runner.run(
             `pgrep ${service} 2>/dev/null || echo "not-running"`,
           );
           if (!stdout.includes("not-running")) {
@@ -518,18 +1532,153 @@ export class LinuxSecurityChecker implements ISecurityChecker {
     }
   }
 
+  /**
+   * Inventory installed applications from the dpkg/rpm databases, flatpak,
+   * snap and globally installed npm/pip packages
+   */
+  async checkInstalledApplications(): Promise<{
+    installedApps: string[];
+    bannedAppsFound: string[];
+    sources: LinuxPackageSources;
+  }> {
+    const sources: LinuxPackageSources = {
+      packages: [],
+      flatpak: [],
+      snap: [],
+      npm: [],
+      pip: [],
+    };
+
+    // Each tool is optional; one that is not installed lists nothing
+    const list = async (command: string): Promise<string | null> => {
+      try {
+        const { stdout } = await this.runner.run(command);
+        return stdout;
+      } catch (error) {
+        // npm exits with 1 on extraneous or invalid packages but still lists them
+        return (error as CommandError).stdout || null;
+      }
+    };
+
+    // System packages (Debian/Ubuntu use dpkg, Fedora/RHEL/SUSE use rpm)
+    const dpkg = await list(
+      "dpkg-query -W -f='${Package}\\t${Status}\\n' 2>/dev/null",
+    );
+    const rpm = await list("rpm -qa --qf '%{NAME}\\n' 2>/dev/null");
+    if (dpkg === null && rpm === null) {
+      throw new UndeterminedCheckError(
+        "Neither the dpkg nor the rpm package database could be read",
+        ["dpkg-query -W", "rpm -qa"],
+      );
+    }
+    sources.packages.push(
+      ...parseDpkgPackages(dpkg ?? ""),
+      ...parseRpmPackages(rpm ?? ""),
+    );
+
+    sources.flatpak = parseFlatpakApps(
+      (await list(
+        "flatpak list --app --columns=application,name 2>/dev/null",
+      )) ?? "",
+    );
+    sources.snap = parseSnapApps((await list("snap list 2>/dev/null")) ?? "");
+    sources.npm = parseNpmGlobalPackages(
+      (await list("npm list -g --depth=0 --parseable 2>/dev/null")) ?? "",
+    );
+    sources.pip = parsePipPackages(
+      (await list("pip3 list --format=freeze 2>/dev/null")) ?? "",
+    );
+
+    return {
+      installedApps: combineLinuxSources(sources),
+      bannedAppsFound: [], // Will be populated by the auditor
+      sources,
+    };
+  }
+
+  /**
+   * Check the distribution release against a target version and the
+   * end-of-life table. Per-distribution targets take precedence over
+   * `targetVersion`; "latest" resolves to the newest release in the table.
+   * A numeric `targetVersion` is a macOS or Windows version, so it is not
+   * compared with distribution releases.
+   */
+  async checkOSVersion(
+    targetVersion: string,
+    options: {
+      distributions?: Record<string, string>;
+      releaseTablePath?: string;
+    } = {},
+  ): Promise<{
+    current: string;
+    target: string;
+    isLatest: boolean;
+    passed: boolean;
+    reason?: string;
+    distribution: string;
+    endOfLife?: string;
+    isEndOfLife?: boolean;
+  }> {
+    const distributionId = await this.getCurrentLinuxDistribution();
+    const current = await this.getCurrentLinuxVersion();
+    const table = loadLinuxReleaseTable(options.releaseTablePath);
+    const distributionInfo = table.distributions[distributionId];
+    const distribution = distributionInfo?.name ?? distributionId;
+
+    let target = options.distributions?.[distributionId] ?? targetVersion;
+    const isLatest = target.toLowerCase() === "latest";
+    let passed: boolean;
+    let reason: string | undefined;
+
+    if (isLatest && distributionInfo?.rolling) {
+      // Rolling releases are always on the latest release
+      target = current;
+      passed = true;
+    } else if (isLatest) {
+      target = getLatestRelease(table, distributionId) ?? "unknown";
+      passed =
+        target !== "unknown" &&
+        VersionUtils.compareVersions(current, target) >= 0;
+      if (target === "unknown") {
+        reason = `${distribution} is not in the Linux release table`;
+      }
+    } else if (options.distributions?.[distributionId] === undefined) {
+      passed = false;
+      reason = `osVersion.distributions has no target version for ${distributionId}`;
+    } else {
+      passed = VersionUtils.compareVersions(current, target) >= 0;
+    }
+
+    const release = findRelease(table, distributionId, current);
+
+    return {
+      current,
+      target,
+      isLatest,
+      passed,
+      ...(reason && { reason }),
+      distribution,
+      endOfLife: release?.endOfLife,
+      isEndOfLife: release
+        ? isPastEndOfLife(release.endOfLife)
+        : distributionInfo?.rolling
+          ? false
+          : undefined,
+    };
+  }
+
   /**
    * Get current Linux version
    */
   async getCurrentLinuxVersion(): Promise<string> {
     try {
-      const { stdout } = await execAsync(
+      const { stdout } = await this.runner.run(
         "cat /etc/os-release | grep VERSION_ID | cut -d= -f2 | tr -d '\"'",
       );
       return stdout.trim();
     } catch {
       try {
-        const { stdout } = await execAsync("lsb_release -rs 2>/dev/null");
+        const { stdout } = await this.runner.run("lsb_release -rs 2>/dev/null");
         return stdout.trim();
       } catch {
         return "unknown";
@@ -542,13 +1691,13 @@ export class LinuxSecurityChecker implements ISecurityChecker {
    */
   async getCurrentLinuxDistribution(): Promise<string> {
     try {
-      const { stdout } = await execAsync(
+      const { stdout } = await this.runner.run(
         'cat /etc/os-release | grep "^ID=" | cut -d= -f2 | tr -d \'"\'',
       );
       return stdout.trim();
     } catch {
       try {
-        const { stdout } = await execAsync("lsb_release -is 2>/dev/null");
+        const { stdout } = await this.runner.run("lsb_release -is 2>/dev/null");
         return stdout.trim().toLowerCase();
       } catch {
         return "unknown";
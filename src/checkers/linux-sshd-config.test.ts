@@ -0,0 +1,86 @@
+import {
+  parseSshdConfig,
+  parseSshdTestOutput,
+  resolveSshdSettings,
+} from "./linux-sshd-config";
+
+// Captured `sudo sshd -T` output from an Ubuntu 22.04 server (abridged)
+const SSHD_TEST_OUTPUT = [
+  "port 22",
+  "permitrootlogin without-password",
+  "pubkeyauthentication yes",
+  "passwordauthentication no",
+  "maxauthtries 3",
+  "x11forwarding yes",
+  "ciphers chacha20-poly1305@openssh.com,aes128-ctr,aes256-gcm@openssh.com",
+  "macs umac-128-etm@openssh.com,hmac-sha2-256-etm@openssh.com",
+  "kexalgorithms sntrup761x25519-sha512@openssh.com,curve25519-sha256",
+  "",
+].join("\n");
+
+describe("linux-sshd-config", () => {
+  describe("parseSshdTestOutput", () => {
+    it("should read every audited setting", () => {
+      expect(parseSshdTestOutput(SSHD_TEST_OUTPUT)).toEqual({
+        permitRootLogin: "prohibit-password",
+        passwordAuthentication: false,
+        pubkeyAuthentication: true,
+        maxAuthTries: 3,
+        x11Forwarding: true,
+        ciphers: [
+          "chacha20-poly1305@openssh.com",
+          "aes128-ctr",
+          "aes256-gcm@openssh.com",
+        ],
+        macs: ["umac-128-etm@openssh.com", "hmac-sha2-256-etm@openssh.com"],
+        kexAlgorithms: [
+          "sntrup761x25519-sha512@openssh.com",
+          "curve25519-sha256",
+        ],
+      });
+    });
+  });
+
+  describe("parseSshdConfig", () => {
+    it("should skip comments and Match blocks and keep Include lines", () => {
+      const content = [
+        "# comment",
+        "Include /etc/ssh/sshd_config.d/*.conf",
+        "PasswordAuthentication=no",
+        '  X11Forwarding  "yes"',
+        "Match User deploy",
+        "  PasswordAuthentication yes",
+        "Match all",
+        "MaxAuthTries 2",
+      ].join("\n");
+
+      expect(parseSshdConfig(content)).toEqual([
+        { keyword: "include", value: "/etc/ssh/sshd_config.d/*.conf" },
+        { keyword: "passwordauthentication", value: "no" },
+        { keyword: "x11forwarding", value: "yes" },
+        { keyword: "maxauthtries", value: "2" },
+      ]);
+    });
+  });
+
+  describe("resolveSshdSettings", () => {
+    it("should keep the first value and fall back to OpenSSH defaults", () => {
+      expect(
+        resolveSshdSettings([
+          { keyword: "passwordauthentication", value: "no" },
+          { keyword: "passwordauthentication", value: "yes" },
+          { keyword: "ciphers", value: "+aes128-cbc" },
+        ]),
+      ).toEqual({
+        permitRootLogin: "prohibit-password",
+        passwordAuthentication: false,
+        pubkeyAuthentication: true,
+        maxAuthTries: 6,
+        x11Forwarding: false,
+        ciphers: undefined,
+        macs: undefined,
+        kexAlgorithms: undefined,
+      });
+    });
+  });
+});
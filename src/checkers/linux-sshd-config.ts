@@ -0,0 +1,157 @@
+/**
+ * Parsers for the OpenSSH server configuration.
+ * Kept free of command execution so captured output can be used as test fixtures.
+ */
+
+/**
+ * PermitRootLogin values from least to most permissive
+ */
+export const PERMIT_ROOT_LOGIN_VALUES = [
+  "no",
+  "forced-commands-only",
+  "prohibit-password",
+  "yes",
+] as const;
+
+export type PermitRootLogin = (typeof PERMIT_ROOT_LOGIN_VALUES)[number];
+
+/**
+ * Effective sshd settings audited by the sshHardening check
+ */
+export interface SshdSettings {
+  permitRootLogin: PermitRootLogin;
+  passwordAuthentication: boolean;
+  pubkeyAuthentication: boolean;
+  maxAuthTries: number;
+  x11Forwarding: boolean;
+  ciphers?: string[]; // Undefined when left at the compiled-in default
+  macs?: string[];
+  kexAlgorithms?: string[];
+}
+
+/**
+ * A `Keyword value` line of sshd_config, with the keyword lowercased
+ */
+export interface SshdDirective {
+  keyword: string;
+  value: string;
+}
+
+/**
+ * OpenSSH defaults for settings missing from sshd_config
+ */
+const SSHD_DEFAULTS = {
+  permitRootLogin: "prohibit-password",
+  passwordAuthentication: true,
+  pubkeyAuthentication: true,
+  maxAuthTries: 6,
+  x11Forwarding: false,
+} as const;
+
+/**
+ * Parse sshd_config into directives. Lines inside `Match` blocks only apply
+ * to some connections and are skipped; `Include` lines are returned as is.
+ */
+export function parseSshdConfig(content: string): SshdDirective[] {
+  const directives: SshdDirective[] = [];
+  let inMatchBlock = false;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    const match = line.match(/^(\S+?)(?:\s*=\s*|\s+)(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const keyword = match[1].toLowerCase();
+    const value = match[2].trim().replace(/^"(.*)"$/, "$1");
+
+    if (keyword === "match") {
+      inMatchBlock = value.toLowerCase() !== "all";
+      continue;
+    }
+    if (!inMatchBlock) {
+      directives.push({ keyword, value });
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Parse `sshd -T` output, which lists every effective setting
+ */
+export function parseSshdTestOutput(output: string): SshdSettings {
+  return resolveSshdSettings(parseSshdConfig(output));
+}
+
+/**
+ * Resolve directives to effective settings. As in sshd, the first value
+ * obtained for a keyword wins and later ones are ignored.
+ */
+export function resolveSshdSettings(directives: SshdDirective[]): SshdSettings {
+  const values = new Map<string, string>();
+  for (const { keyword, value } of directives) {
+    if (!values.has(keyword)) {
+      values.set(keyword, value);
+    }
+  }
+
+  const maxAuthTries = parseInt(values.get("maxauthtries") ?? "", 10);
+
+  return {
+    permitRootLogin: parsePermitRootLogin(values.get("permitrootlogin")),
+    passwordAuthentication: parseYesNo(
+      values.get("passwordauthentication"),
+      SSHD_DEFAULTS.passwordAuthentication,
+    ),
+    pubkeyAuthentication: parseYesNo(
+      values.get("pubkeyauthentication"),
+      SSHD_DEFAULTS.pubkeyAuthentication,
+    ),
+    maxAuthTries: isNaN(maxAuthTries)
+      ? SSHD_DEFAULTS.maxAuthTries
+      : maxAuthTries,
+    x11Forwarding: parseYesNo(
+      values.get("x11forwarding"),
+      SSHD_DEFAULTS.x11Forwarding,
+    ),
+    ciphers: parseAlgorithmList(values.get("ciphers")),
+    macs: parseAlgorithmList(values.get("macs")),
+    kexAlgorithms: parseAlgorithmList(values.get("kexalgorithms")),
+  };
+}
+
+function parsePermitRootLogin(value: string | undefined): PermitRootLogin {
+  const normalized = value?.toLowerCase();
+  if (normalized === "without-password") {
+    return "prohibit-password"; // Deprecated alias, still printed by older sshd -T
+  }
+  return PERMIT_ROOT_LOGIN_VALUES.find((allowed) => allowed === normalized)
+    ? (normalized as PermitRootLogin)
+    : SSHD_DEFAULTS.permitRootLogin;
+}
+
+function parseYesNo(value: string | undefined, fallback: boolean): boolean {
+  const normalized = value?.toLowerCase();
+  if (normalized === "yes") return true;
+  if (normalized === "no") return false;
+  return fallback;
+}
+
+/**
+ * Lists starting with +, - or ^ modify the compiled-in default, which is
+ * only known to sshd -T
+ */
+function parseAlgorithmList(value: string | undefined): string[] | undefined {
+  if (!value || /^[+\-^]/.test(value)) {
+    return undefined;
+  }
+  return value
+    .split(",")
+    .map((algorithm) => algorithm.trim())
+    .filter((algorithm) => algorithm.length > 0);
+}
@@ -202,6 +202,69 @@ describe("MacOSSecurityChecker", () => {
     });
   });
 
+  describe("checkEndpointProtection", () => {
+    it("should report XProtect from the xprotect tool", async () => {
+      mockExecAsync.mockResolvedValueOnce({
+        stdout: "Version: 5287\nInstall date: 2025-02-04 17:39:49 +0000\n",
+        stderr: "",
+      });
+
+      const result = await checker.checkEndpointProtection();
+      expect(result).toEqual([
+        {
+          name: "XProtect",
+          running: true,
+          signatureVersion: "5287",
+          signaturesUpdated: "2025-02-04T17:39:49+00:00",
+        },
+      ]);
+      expect(mockExecAsync).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fall back to the updated XProtect bundle", async () => {
+      mockExecAsync
+        .mockRejectedValueOnce(new Error("xprotect: command not found"))
+        .mockResolvedValueOnce({ stdout: "5287\n", stderr: "" })
+        .mockResolvedValueOnce({ stdout: "2024-06-03T10:05:23\n", stderr: "" });
+
+      const result = await checker.checkEndpointProtection();
+      expect(result).toEqual([
+        {
+          name: "XProtect",
+          running: true,
+          signatureVersion: "5287",
+          signaturesUpdated: "2024-06-03T10:05:23",
+        },
+      ]);
+      expect(mockExecAsync).toHaveBeenNthCalledWith(
+        2,
+        "defaults read /private/var/protected/xprotect/XProtect.bundle/Contents/Info CFBundleShortVersionString",
+      );
+    });
+
+    it("should read the original bundle before macOS 15", async () => {
+      mockExecAsync
+        .mockRejectedValueOnce(new Error("xprotect: command not found"))
+        .mockRejectedValueOnce(new Error("Domain does not exist"))
+        .mockResolvedValueOnce({ stdout: "2195\n", stderr: "" })
+        .mockResolvedValueOnce({ stdout: "2024-06-03T10:05:23\n", stderr: "" });
+
+      const result = await checker.checkEndpointProtection();
+      expect(result[0].signatureVersion).toBe("2195");
+      expect(mockExecAsync).toHaveBeenNthCalledWith(
+        3,
+        "defaults read /Library/Apple/System/Library/CoreServices/XProtect.bundle/Contents/Info CFBundleShortVersionString",
+      );
+    });
+
+    it("should report nothing when XProtect is missing", async () => {
+      mockExecAsync.mockRejectedValue(new Error("Domain does not exist"));
+
+      const result = await checker.checkEndpointProtection();
+      expect(result).toEqual([]);
+    });
+  });
+
   describe("checkRemoteLogin", () => {
     it("should detect enabled SSH", async () => {
       mockExecAsync.mockResolvedValue({
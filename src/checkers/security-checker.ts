@@ -1,35 +1,35 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import { ISecurityChecker } from "../types";
+import { CommandRunner, defaultCommandRunner } from "../utils/command-runner";
 
-const execAsync = promisify(exec);
+// Since macOS 15, XProtect updates land in /private/var/protected/xprotect
+// and the bundle in /Library/Apple keeps the version the OS shipped with
+const XPROTECT_BUNDLES = [
+  "/private/var/protected/xprotect/XProtect.bundle",
+  "/Library/Apple/System/Library/CoreServices/XProtect.bundle",
+];
 
 export class MacOSSecurityChecker implements ISecurityChecker {
   private password?: string;
+  private runner: CommandRunner;
 
-  constructor(password?: string) {
+  constructor(password?: string, runner: CommandRunner = defaultCommandRunner) {
     this.password = password;
+    this.runner = runner;
   }
 
   /**
-   * Execute command with sudo using stored password if available
+   * Execute a privileged command with sudo, authenticating with the stored
+   * password if available
    */
   private async execWithSudo(
-    command: string,
+    args: string[],
   ): Promise<{ stdout: string; stderr: string }> {
-    if (this.password) {
-      // Use non-interactive sudo with password
-      const sudoCommand = `echo "${this.password}" | sudo -S ${command}`;
-      return execAsync(sudoCommand);
-    } else {
-      // Fallback to regular sudo (will prompt for password)
-      return execAsync(`sudo ${command}`);
-    }
+    return this.runner.runWithSudo(args, this.password);
   }
 
   async checkFileVault(): Promise<boolean> {
     try {
-      const { stdout } = await execAsync("fdesetup status");
+      const { stdout } = await this.runner.run("fdesetup status");
       return stdout.includes("FileVault is On");
     } catch (error) {
       console.error("Error checking FileVault status:", error);
@@ -48,7 +48,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
   }> {
     try {
       // Check if password is required for login (basic login protection)
-      const { stdout: loginPasswordCheck } = await execAsync(
+      const { stdout: loginPasswordCheck } = await this.runner.run(
         'defaults read com.apple.loginwindow DisableLoginItemSuppression 2>/dev/null || echo "enabled"',
       );
       const passwordEnabled = !loginPasswordCheck.includes("disabled");
@@ -57,7 +57,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
       let passwordRequiredAfterLock = false;
       try {
         const applescript = `tell application "System Events" to tell security preferences to get require password to wake`;
-        const { stdout: lockScreenResult } = await execAsync(
+        const { stdout: lockScreenResult } = await this.runner.run(
           `osascript -e '${applescript}'`,
         );
         passwordRequiredAfterLock =
@@ -70,10 +70,10 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
         // Fallback to traditional defaults method (may not work on newer macOS versions)
         try {
-          const { stdout: screenSaverPassword } = await execAsync(
+          const { stdout: screenSaverPassword } = await this.runner.run(
             'defaults read com.apple.screensaver askForPassword 2>/dev/null || echo "0"',
           );
-          const { stdout: passwordDelay } = await execAsync(
+          const { stdout: passwordDelay } = await this.runner.run(
             'defaults read com.apple.screensaver askForPasswordDelay 2>/dev/null || echo "0"',
           );
           const delay = parseInt(passwordDelay.trim());
@@ -111,7 +111,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
   async checkAutoLockTimeout(): Promise<number> {
     try {
       // Check screen saver timeout (in seconds)
-      const { stdout } = await execAsync(
+      const { stdout } = await this.runner.run(
         'defaults -currentHost read com.apple.screensaver idleTime 2>/dev/null || echo "0"',
       );
       const timeoutSeconds = parseInt(stdout.trim());
@@ -126,7 +126,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
   async getSystemInfo(): Promise<string> {
     try {
-      const { stdout } = await execAsync("sw_vers -productVersion");
+      const { stdout } = await this.runner.run("sw_vers -productVersion");
       return `macOS ${stdout.trim()}`;
     } catch {
       return "Unknown macOS version";
@@ -135,7 +135,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
   async getCurrentMacOSVersion(): Promise<string> {
     try {
-      const { stdout } = await execAsync("sw_vers -productVersion");
+      const { stdout } = await this.runner.run("sw_vers -productVersion");
       return stdout.trim();
     } catch (error) {
       console.error("Error getting macOS version:", error);
@@ -147,7 +147,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
     try {
       // Try to get latest version from Apple's software update catalog
       // This uses softwareupdate command which may require admin privileges
-      const { stdout } = await execAsync(
+      const { stdout } = await this.runner.run(
         'softwareupdate --list --all | grep -E "macOS.*[0-9]+\\.[0-9]+" | head -1 | grep -o "[0-9][0-9]*\\.[0-9][0-9]*" | head -1',
       );
       const detectedVersion = stdout.trim();
@@ -371,13 +371,13 @@ export class MacOSSecurityChecker implements ISecurityChecker {
   async checkFirewall(): Promise<{ enabled: boolean; stealthMode: boolean }> {
     try {
       // Check if application firewall is enabled
-      const { stdout: firewallStatus } = await execAsync(
+      const { stdout: firewallStatus } = await this.runner.run(
         '/usr/libexec/ApplicationFirewall/socketfilterfw --getglobalstate 2>/dev/null || echo "disabled"',
       );
       const enabled = firewallStatus.includes("enabled");
 
       // Check stealth mode
-      const { stdout: stealthStatus } = await execAsync(
+      const { stdout: stealthStatus } = await this.runner.run(
         '/usr/libexec/ApplicationFirewall/socketfilterfw --getstealthmode 2>/dev/null || echo "disabled"',
       );
       const stealthMode = stealthStatus.includes("enabled");
@@ -391,7 +391,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
   async checkGatekeeper(): Promise<boolean> {
     try {
-      const { stdout } = await execAsync(
+      const { stdout } = await this.runner.run(
         'spctl --status 2>/dev/null || echo "disabled"',
       );
       return stdout.includes("enabled");
@@ -407,7 +407,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
   async checkSystemIntegrityProtection(): Promise<boolean> {
     try {
-      const { stdout } = await execAsync(
+      const { stdout } = await this.runner.run(
         'csrutil status 2>/dev/null || echo "disabled"',
       );
       return stdout.includes("enabled");
@@ -417,10 +417,77 @@ export class MacOSSecurityChecker implements ISecurityChecker {
     }
   }
 
+  /**
+   * Report XProtect, which is always on while its bundle is installed. The
+   * signature version and install date come from `xprotect version` (macOS
+   * 15 and later); older releases date the signatures by the bundle's
+   * Info.plist, which every XProtect update replaces.
+   */
+  async checkEndpointProtection(): Promise<
+    {
+      name: string;
+      running: boolean;
+      signatureVersion?: string;
+      signaturesUpdated?: string | null;
+    }[]
+  > {
+    try {
+      const { stdout } = await this.runner.run("xprotect version");
+      const version = /^\s*Version:\s*(\S+)/im.exec(stdout)?.[1];
+      if (version) {
+        const installed = /^\s*Install date:\s*(.+)$/im.exec(stdout)?.[1];
+        return [
+          {
+            name: "XProtect",
+            running: true,
+            signatureVersion: version,
+            signaturesUpdated: installed ? toIsoDate(installed.trim()) : null,
+          },
+        ];
+      }
+    } catch {
+      // The xprotect tool is only shipped with macOS 15 and later
+    }
+
+    for (const bundle of XPROTECT_BUNDLES) {
+      const infoPlist = `${bundle}/Contents/Info`;
+      let version: string;
+      try {
+        const { stdout } = await this.runner.run(
+          `defaults read ${infoPlist} CFBundleShortVersionString`,
+        );
+        version = stdout.trim();
+      } catch {
+        continue; // Bundle missing
+      }
+
+      let signaturesUpdated: string | null = null;
+      try {
+        const { stdout } = await this.runner.run(
+          `stat -f %Sm -t %Y-%m-%dT%H:%M:%S ${infoPlist}.plist`,
+        );
+        signaturesUpdated = stdout.trim() || null;
+      } catch {
+        // Reported as unknown age
+      }
+
+      return [
+        {
+          name: "XProtect",
+          running: true,
+          signatureVersion: version,
+          signaturesUpdated,
+        },
+      ];
+    }
+
+    return [];
+  }
+
   async checkRemoteLogin(): Promise<boolean> {
     try {
       // Primary method: Check if SSH daemon is enabled via launchd (no sudo required)
-      const { stdout: sshEnabled, stderr: sshErr } = await execAsync(
+      const { stdout: sshEnabled, stderr: sshErr } = await this.runner.run(
         'defaults read /System/Library/LaunchDaemons/ssh Disabled 2>&1 || echo "1"',
       );
       const sshOutput = sshEnabled + sshErr;
@@ -433,7 +500,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
       // Secondary method: Check if SSH daemon (sshd) is currently loaded, not ssh-agent
       try {
-        const { stdout: launchctlCheck } = await execAsync(
+        const { stdout: launchctlCheck } = await this.runner.run(
           'launchctl list | grep "com.openssh.sshd" 2>/dev/null',
         );
         const sshRunning = launchctlCheck.length > 0;
@@ -447,7 +514,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
       // Tertiary method: Check if SSH is listening on port 22
       try {
-        const { stdout: netstatCheck } = await execAsync(
+        const { stdout: netstatCheck } = await this.runner.run(
           'netstat -an | grep "*.22" | grep LISTEN 2>/dev/null',
         );
         return netstatCheck.length > 0;
@@ -465,17 +532,19 @@ export class MacOSSecurityChecker implements ISecurityChecker {
     try {
       // Check if Remote Management functionality is actually enabled (not just menu bar visibility)
       // ScreenSharingReqPermEnabled indicates if remote management/screen sharing is enabled
-      const { stdout: screenSharingPerm, stderr: screenErr } = await execAsync(
-        'defaults read /Library/Preferences/com.apple.RemoteManagement ScreenSharingReqPermEnabled 2>&1 || echo "0"',
-      );
+      const { stdout: screenSharingPerm, stderr: screenErr } =
+        await this.runner.run(
+          'defaults read /Library/Preferences/com.apple.RemoteManagement ScreenSharingReqPermEnabled 2>&1 || echo "0"',
+        );
       const screenOutput = screenSharingPerm + screenErr;
       const screenSharingEnabled =
         !screenOutput.includes("does not exist") && screenOutput.trim() === "1";
 
       // DOCAllowRemoteConnections indicates if remote desktop connections are allowed
-      const { stdout: remoteConnections, stderr: remoteErr } = await execAsync(
-        'defaults read /Library/Preferences/com.apple.RemoteDesktop DOCAllowRemoteConnections 2>&1 || echo "0"',
-      );
+      const { stdout: remoteConnections, stderr: remoteErr } =
+        await this.runner.run(
+          'defaults read /Library/Preferences/com.apple.RemoteDesktop DOCAllowRemoteConnections 2>&1 || echo "0"',
+        );
       const remoteOutput = remoteConnections + remoteErr;
       const remoteConnectionsEnabled =
         !remoteOutput.includes("does not exist") && remoteOutput.trim() === "1";
@@ -499,7 +568,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
   }> {
     try {
       // Use softwareupdate command to check if automatic checking is enabled
-      const { stdout: scheduleCheck } = await execAsync(
+      const { stdout: scheduleCheck } = await this.runner.run(
         'softwareupdate --schedule 2>/dev/null || echo "off"',
       );
       const enabled = scheduleCheck.includes(
@@ -507,9 +576,10 @@ export class MacOSSecurityChecker implements ISecurityChecker {
       );
 
       // Check if automatic downloading is enabled using system preferences
-      const { stdout: autoDownload, stderr: autoDownloadErr } = await execAsync(
-        'defaults read /Library/Preferences/com.apple.SoftwareUpdate AutomaticDownload 2>&1 || echo "0"',
-      );
+      const { stdout: autoDownload, stderr: autoDownloadErr } =
+        await this.runner.run(
+          'defaults read /Library/Preferences/com.apple.SoftwareUpdate AutomaticDownload 2>&1 || echo "0"',
+        );
       const autoDownloadOutput = autoDownload + autoDownloadErr;
       const automaticDownload = autoDownloadOutput.includes("does not exist")
         ? true
@@ -517,7 +587,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
       // Check if automatic installation of macOS updates is enabled
       const { stdout: autoInstallOS, stderr: autoInstallOSErr } =
-        await execAsync(
+        await this.runner.run(
           'defaults read /Library/Preferences/com.apple.SoftwareUpdate AutomaticallyInstallMacOSUpdates 2>&1 || echo "1"',
         );
       const autoInstallOSOutput = autoInstallOS + autoInstallOSErr;
@@ -527,7 +597,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
       // Check if critical/security updates are automatically installed
       const { stdout: securityUpdates, stderr: securityUpdatesErr } =
-        await execAsync(
+        await this.runner.run(
           'defaults read /Library/Preferences/com.apple.SoftwareUpdate CriticalUpdateInstall 2>&1 || echo "1"',
         );
       const securityUpdatesOutput = securityUpdates + securityUpdatesErr;
@@ -538,9 +608,10 @@ export class MacOSSecurityChecker implements ISecurityChecker {
         : securityUpdatesOutput.trim() === "1";
 
       // Check if system data files and security updates are automatically installed
-      const { stdout: configData, stderr: configDataErr } = await execAsync(
-        'defaults read /Library/Preferences/com.apple.SoftwareUpdate ConfigDataInstall 2>&1 || echo "1"',
-      );
+      const { stdout: configData, stderr: configDataErr } =
+        await this.runner.run(
+          'defaults read /Library/Preferences/com.apple.SoftwareUpdate ConfigDataInstall 2>&1 || echo "1"',
+        );
       const configDataOutput = configData + configDataErr;
       const configDataInstall = configDataOutput.includes("does not exist")
         ? true
@@ -600,7 +671,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
       let fileSharing = false;
       try {
         // Check if file sharing is enabled in System Preferences (capability check)
-        const { stdout: smbEnabled, stderr: smbErr } = await execAsync(
+        const { stdout: smbEnabled, stderr: smbErr } = await this.runner.run(
           'defaults read /System/Library/LaunchDaemons/com.apple.smbd Disabled 2>&1 || echo "1"',
         );
         const smbOutput = smbEnabled + smbErr;
@@ -609,9 +680,10 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
         // If launchd check indicates disabled, double-check with sharing command output content
         if (!fileSharing) {
-          const { stdout: sharingCheck } = await this.execWithSudo(
-            "sharing -l 2>/dev/null",
-          );
+          const { stdout: sharingCheck } = await this.execWithSudo([
+            "sharing",
+            "-l",
+          ]);
           // Only consider it enabled if there are actual share records (not just "No share point records")
           fileSharing =
             sharingCheck.includes("name:") ||
@@ -621,9 +693,11 @@ export class MacOSSecurityChecker implements ISecurityChecker {
       } catch {
         // Fallback to checking if SMB daemon is loaded and not disabled
         try {
-          const { stdout: smbLoaded } = await this.execWithSudo(
-            "launchctl print system/com.apple.smbd 2>/dev/null",
-          );
+          const { stdout: smbLoaded } = await this.execWithSudo([
+            "launchctl",
+            "print",
+            "system/com.apple.smbd",
+          ]);
           fileSharing =
             !smbLoaded.includes("Could not find service") &&
             !smbLoaded.includes("state = not running");
@@ -636,9 +710,10 @@ export class MacOSSecurityChecker implements ISecurityChecker {
       let screenSharing = false;
       try {
         // Check if screen sharing is enabled as a capability in System Preferences
-        const { stdout: screenEnabled, stderr: screenErr } = await execAsync(
-          'defaults read /System/Library/LaunchDaemons/com.apple.screensharing Disabled 2>&1 || echo "1"',
-        );
+        const { stdout: screenEnabled, stderr: screenErr } =
+          await this.runner.run(
+            'defaults read /System/Library/LaunchDaemons/com.apple.screensharing Disabled 2>&1 || echo "1"',
+          );
         const screenOutput = screenEnabled + screenErr;
         screenSharing =
           !screenOutput.includes("does not exist") &&
@@ -646,7 +721,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
         // Additional check for VNC/screen sharing preference
         if (!screenSharing) {
-          const { stdout: vncEnabled, stderr: vncErr } = await execAsync(
+          const { stdout: vncEnabled, stderr: vncErr } = await this.runner.run(
             'defaults read /Library/Preferences/com.apple.RemoteDesktop ARD_AllLocalUsers 2>&1 || echo "0"',
           );
           const vncOutput = vncEnabled + vncErr;
@@ -656,9 +731,11 @@ export class MacOSSecurityChecker implements ISecurityChecker {
       } catch {
         // Fallback to checking if screen sharing daemon is loaded
         try {
-          const { stdout: screenLoaded } = await this.execWithSudo(
-            "launchctl print system/com.apple.screensharing 2>/dev/null",
-          );
+          const { stdout: screenLoaded } = await this.execWithSudo([
+            "launchctl",
+            "print",
+            "system/com.apple.screensharing",
+          ]);
           screenSharing = !screenLoaded.includes("Could not find service");
         } catch {
           screenSharing = false;
@@ -669,25 +746,28 @@ export class MacOSSecurityChecker implements ISecurityChecker {
       let mediaSharing = false;
       try {
         // Check iTunes/Music sharing preferences
-        const { stdout: musicSharing, stderr: musicErr } = await execAsync(
-          'defaults read ~/Library/Preferences/com.apple.Music sharingEnabled 2>&1 || echo "0"',
-        );
+        const { stdout: musicSharing, stderr: musicErr } =
+          await this.runner.run(
+            'defaults read ~/Library/Preferences/com.apple.Music sharingEnabled 2>&1 || echo "0"',
+          );
         const musicOutput = musicSharing + musicErr;
         const musicEnabled =
           !musicOutput.includes("does not exist") && musicOutput.trim() === "1";
 
-        const { stdout: photosSharing, stderr: photosErr } = await execAsync(
-          'defaults read ~/Library/Preferences/com.apple.Photos sharingEnabled 2>&1 || echo "0"',
-        );
+        const { stdout: photosSharing, stderr: photosErr } =
+          await this.runner.run(
+            'defaults read ~/Library/Preferences/com.apple.Photos sharingEnabled 2>&1 || echo "0"',
+          );
         const photosOutput = photosSharing + photosErr;
         const photosEnabled =
           !photosOutput.includes("does not exist") &&
           photosOutput.trim() === "1";
 
         // Check for AirPlay receiver capability
-        const { stdout: airplayReceiver, stderr: airplayErr } = await execAsync(
-          'defaults read ~/Library/Preferences/com.apple.controlcenter AirplayRecieverEnabled 2>&1 || echo "0"',
-        );
+        const { stdout: airplayReceiver, stderr: airplayErr } =
+          await this.runner.run(
+            'defaults read ~/Library/Preferences/com.apple.controlcenter AirplayRecieverEnabled 2>&1 || echo "0"',
+          );
         const airplayOutput = airplayReceiver + airplayErr;
         const airplayEnabled =
           !airplayOutput.includes("does not exist") &&
@@ -697,9 +777,10 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
         // Additional check for Media Sharing preference in System Preferences
         if (!mediaSharing) {
-          const { stdout: mediaEnabled, stderr: mediaErr } = await execAsync(
-            'defaults read ~/Library/Preferences/com.apple.amp.mediasharingd media-sharing-enabled 2>&1 || echo "0"',
-          );
+          const { stdout: mediaEnabled, stderr: mediaErr } =
+            await this.runner.run(
+              'defaults read ~/Library/Preferences/com.apple.amp.mediasharingd media-sharing-enabled 2>&1 || echo "0"',
+            );
           const mediaOutput = mediaEnabled + mediaErr;
           mediaSharing =
             !mediaOutput.includes("does not exist") &&
@@ -712,14 +793,15 @@ export class MacOSSecurityChecker implements ISecurityChecker {
       // Check remote login capability (SSH enabled in System Preferences)
       let remoteLogin = false;
       try {
-        const { stdout: sshStatus } = await this.execWithSudo(
-          'systemsetup -getremotelogin 2>/dev/null || echo "Off"',
-        );
+        const { stdout: sshStatus } = await this.execWithSudo([
+          "systemsetup",
+          "-getremotelogin",
+        ]);
         remoteLogin = sshStatus.includes("On");
       } catch {
         // Fallback to checking SSH daemon capability via launchd
         try {
-          const { stdout: sshEnabled, stderr: sshErr } = await execAsync(
+          const { stdout: sshEnabled, stderr: sshErr } = await this.runner.run(
             'defaults read /System/Library/LaunchDaemons/ssh Disabled 2>&1 || echo "1"',
           );
           const sshOutput = sshEnabled + sshErr;
@@ -748,7 +830,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
   }> {
     // Primary method: Use system_profiler with awk for clean network name extraction
     try {
-      const { stdout } = await execAsync(
+      const { stdout } = await this.runner.run(
         `system_profiler SPAirPortDataType | awk '/Current Network/ {getline;$1=$1;print $0 | "tr -d ':'";exit}' 2>/dev/null`,
       );
       const networkName = stdout.trim();
@@ -777,7 +859,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
       // Check /Applications folder for third-party apps (exclude system apps)
       try {
-        const { stdout: appsList } = await execAsync(
+        const { stdout: appsList } = await this.runner.run(
           'ls /Applications/ 2>/dev/null || echo ""',
         );
         const allApps = appsList
@@ -841,7 +923,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
       // Check Homebrew cask installations
       try {
-        const { stdout: brewList } = await execAsync(
+        const { stdout: brewList } = await this.runner.run(
           'brew list --cask 2>/dev/null || echo ""',
         );
         const brewApps = brewList
@@ -854,7 +936,7 @@ export class MacOSSecurityChecker implements ISecurityChecker {
 
       // Check npm global packages
       try {
-        const { stdout: npmList } = await execAsync(
+        const { stdout: npmList } = await this.runner.run(
           'npm list -g --depth=0 --parseable 2>/dev/null || echo ""',
         );
         const npmPackages = npmList
@@ -896,3 +978,15 @@ export class MacOSSecurityChecker implements ISecurityChecker {
     return this.password;
   }
 }
+
+/**
+ * Convert dates such as "2025-02-04 17:39:49 +0000" to ISO 8601, or null
+ * when they cannot be parsed
+ */
+function toIsoDate(date: string): string | null {
+  const iso = date.replace(
+    /^(\d{4}-\d{2}-\d{2})\s+(\d{2}:\d{2}:\d{2})\s*([+-]\d{2}):?(\d{2})$/,
+    "$1T$2$3:$4",
+  );
+  return Number.isNaN(Date.parse(iso)) ? null : iso;
+}
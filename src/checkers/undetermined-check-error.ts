@@ -0,0 +1,14 @@
+/**
+ * Thrown by checker methods when a setting could not be determined, e.g. none
+ * of the tools that report it are installed or they could not be queried.
+ * The auditor reports such checks as "unknown" instead of passed or failed.
+ */
+export class UndeterminedCheckError extends Error {
+  constructor(
+    message: string,
+    public readonly commandsTried: string[] = [],
+  ) {
+    super(message);
+    this.name = "UndeterminedCheckError";
+  }
+}
@@ -232,6 +232,77 @@ describe("WindowsSecurityChecker", () => {
     });
   });
 
+  describe("checkEndpointProtection", () => {
+    it("should report Microsoft Defender with its signatures", async () => {
+      (mockExecAsync as jest.Mock).mockResolvedValue({
+        stdout:
+          "AntivirusEnabled: True\r\nRealTimeProtectionEnabled: True\r\n" +
+          "AntivirusSignatureVersion: 1.411.393.0\r\n" +
+          "AntivirusSignatureLastUpdated: 2024-06-03T10:05:23\r\n",
+        stderr: "",
+      });
+
+      const result = await checker.checkEndpointProtection();
+      expect(result).toEqual([
+        {
+          name: "Microsoft Defender",
+          running: true,
+          signatureVersion: "1.411.393.0",
+          signaturesUpdated: "2024-06-03T10:05:23",
+        },
+      ]);
+    });
+
+    it("should report Defender in passive mode as not running", async () => {
+      (mockExecAsync as jest.Mock).mockResolvedValue({
+        stdout:
+          "AntivirusEnabled: False\nRealTimeProtectionEnabled: False\n" +
+          "AntivirusSignatureVersion: 1.411.393.0\n" +
+          "AntivirusSignatureLastUpdated: 2024-06-03T10:05:23\n",
+        stderr: "",
+      });
+
+      const result = await checker.checkEndpointProtection();
+      expect(result[0].running).toBe(false);
+    });
+
+    it("should report nothing when Defender is not installed", async () => {
+      (mockExecAsync as jest.Mock).mockResolvedValue({
+        stdout: "Defender: NotInstalled\r\n",
+        stderr: "",
+      });
+
+      const result = await checker.checkEndpointProtection();
+      expect(result).toEqual([]);
+    });
+
+    it("should report Defender as not running when its service is stopped", async () => {
+      (mockExecAsync as jest.Mock).mockResolvedValue({
+        stdout: "Service: Stopped\r\n",
+        stderr: "",
+      });
+
+      const result = await checker.checkEndpointProtection();
+      expect(result).toEqual([{ name: "Microsoft Defender", running: false }]);
+    });
+
+    it("should be undetermined when Defender cannot be queried", async () => {
+      (mockExecAsync as jest.Mock).mockRejectedValue(
+        Object.assign(new Error("Command failed: powershell"), {
+          stdout: "Service: Running\r\n",
+          stderr:
+            "Get-MpComputerStatus : Access denied\r\nAt line:1 char:1\r\n",
+        }),
+      );
+
+      await expect(checker.checkEndpointProtection()).rejects.toMatchObject({
+        name: "UndeterminedCheckError",
+        message:
+          "Microsoft Defender status could not be read: Get-MpComputerStatus : Access denied",
+      });
+    });
+  });
+
   describe("checkRemoteLogin", () => {
     it("should return true when SSH service is running", async () => {
       (mockExecAsync as jest.Mock).mockResolvedValue({
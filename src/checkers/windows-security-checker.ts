@@ -1,14 +1,18 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import { ISecurityChecker } from "../types";
-
-const execAsync = promisify(exec);
+import {
+  CommandError,
+  CommandRunner,
+  defaultCommandRunner,
+} from "../utils/command-runner";
+import { UndeterminedCheckError } from "./undetermined-check-error";
 
 export class WindowsSecurityChecker implements ISecurityChecker {
   private password?: string;
+  private runner: CommandRunner;
 
-  constructor(password?: string) {
+  constructor(password?: string, runner: CommandRunner = defaultCommandRunner) {
     this.password = password;
+    this.runner = runner;
   }
 
   /**
@@ -18,7 +22,7 @@ export class WindowsSecurityChecker implements ISecurityChecker {
     command: string,
   ): Promise<{ stdout: string; stderr: string }> {
     const psCommand = `powershell -Command "${command.replace(/"/g, '\\"')}"`;
-    return execAsync(psCommand);
+    return this.runner.run(psCommand);
   }
 
   /**
@@ -38,7 +42,7 @@ export class WindowsSecurityChecker implements ISecurityChecker {
   async checkDiskEncryption(): Promise<boolean> {
     try {
       // Check BitLocker status using manage-bde
-      const { stdout } = await execAsync("manage-bde -status");
+      const { stdout } = await this.runner.run("manage-bde -status");
 
       // Check if any drive has BitLocker enabled and unlocked/protected
       const lines = stdout.split("\n");
@@ -252,6 +256,80 @@ export class WindowsSecurityChecker implements ISecurityChecker {
     }
   }
 
+  /**
+   * Check Microsoft Defender Antivirus status and signature age. Defender
+   * switches to passive mode when another antivirus product is registered,
+   * and is then reported as not running. Nothing is reported only when the
+   * WinDefend service or the Defender cmdlets are missing; a status that
+   * cannot be read is undetermined.
+   */
+  async checkEndpointProtection(): Promise<
+    {
+      name: string;
+      running: boolean;
+      signatureVersion?: string;
+      signaturesUpdated?: string | null;
+    }[]
+  > {
+    const commandsTried = ["Get-Service WinDefend", "Get-MpComputerStatus"];
+    let stdout: string;
+    try {
+      ({ stdout } = await this.execPowerShell(`
+        $service = Get-Service -Name 'WinDefend' -ErrorAction SilentlyContinue;
+        if (-not $service -or -not (Get-Command Get-MpComputerStatus -ErrorAction SilentlyContinue)) { Write-Output 'Defender: NotInstalled'; exit };
+        Write-Output "Service: $($service.Status)";
+        if ($service.Status -ne 'Running') { exit };
+        $defender = Get-MpComputerStatus -ErrorAction Stop;
+        Write-Output "AntivirusEnabled: $($defender.AntivirusEnabled)";
+        Write-Output "RealTimeProtectionEnabled: $($defender.RealTimeProtectionEnabled)";
+        Write-Output "AntivirusSignatureVersion: $($defender.AntivirusSignatureVersion)";
+        Write-Output "AntivirusSignatureLastUpdated: $($defender.AntivirusSignatureLastUpdated.ToString('s'))";
+      `));
+    } catch (error) {
+      const detail = (error as CommandError).stderr?.trim().split(/\r?\n/)[0];
+      throw new UndeterminedCheckError(
+        `Microsoft Defender status could not be read${detail ? `: ${detail}` : ""}`,
+        commandsTried,
+      );
+    }
+
+    const status: Record<string, string> = {};
+    for (const line of stdout.split("\n")) {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        status[line.slice(0, separator).trim()] = line
+          .slice(separator + 1)
+          .trim();
+      }
+    }
+
+    if (status.Defender === "NotInstalled") {
+      return [];
+    }
+    if (status.Service && status.Service !== "Running") {
+      return [{ name: "Microsoft Defender", running: false }];
+    }
+    if (!status.AntivirusEnabled) {
+      throw new UndeterminedCheckError(
+        "Get-MpComputerStatus reported no antivirus status",
+        commandsTried,
+      );
+    }
+
+    return [
+      {
+        name: "Microsoft Defender",
+        running:
+          status.AntivirusEnabled === "True" &&
+          status.RealTimeProtectionEnabled === "True",
+        ...(status.AntivirusSignatureVersion && {
+          signatureVersion: status.AntivirusSignatureVersion,
+        }),
+        signaturesUpdated: status.AntivirusSignatureLastUpdated || null,
+      },
+    ];
+  }
+
   /**
    * Check SSH service status (Windows OpenSSH)
    */
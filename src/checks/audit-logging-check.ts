@@ -0,0 +1,212 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+import {
+  formatJournaldSize,
+  isSuppressionRule,
+  parseJournaldSize,
+} from "../checkers/linux-audit-logging";
+
+const JOURNALD_NOT_FOUND =
+  "journald.conf was not found; the system may not use systemd-journald";
+
+export const auditLoggingCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["auditLogging"]>
+> = {
+  id: "audit-logging",
+  name: "Audit Logging",
+  configKey: "auditLogging",
+  platforms: [Platform.LINUX],
+  severity: "medium",
+  category: "logging",
+  remediation:
+    "Install and start auditd (`sudo systemctl enable --now auditd`), add audit rules to /etc/audit/rules.d and load them with `sudo augenrules --load`, and set `Storage=persistent` and `SystemMaxUse=` in a drop-in under /etc/systemd/journald.conf.d",
+  configSchema: {
+    type: "object",
+    properties: {
+      requireAuditd: { type: "boolean" },
+      minAuditRules: { type: "integer", minimum: 0 },
+      persistentJournal: { type: "boolean" },
+      minJournalSize: {
+        type: "string",
+        pattern: "^\\d+(\\.\\d+)?\\s*[KMGTPEkmgtpe]?(i?[Bb])?$",
+      },
+    },
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkAuditLogging) {
+      return [];
+    }
+
+    const minJournalBytes =
+      config.minJournalSize !== undefined
+        ? parseJournaldSize(config.minJournalSize)
+        : null;
+    if (config.minJournalSize !== undefined && minJournalBytes === null) {
+      throw new Error(
+        `minJournalSize is not a size like "1G": ${config.minJournalSize}`,
+      );
+    }
+
+    const { auditd, auditRules, journal } = await checker.checkAuditLogging();
+    const results: SecurityCheckResult[] = [];
+
+    if (config.requireAuditd) {
+      if (auditd === null) {
+        const reason = "systemctl could not report the auditd service";
+        results.push({
+          setting: "auditd",
+          expected: "running",
+          actual: null,
+          passed: false,
+          message: `auditd could not be determined: ${reason}`,
+          checkId: "audit-logging.auditd",
+          status: "unknown",
+          reason,
+          commandsTried: ["systemctl show auditd.service"],
+        });
+      } else {
+        const state = !auditd.installed
+          ? "not installed"
+          : auditd.active
+            ? "running"
+            : "stopped";
+        results.push({
+          setting: "auditd",
+          expected: "running",
+          actual: state,
+          passed: auditd.active,
+          message: auditd.active
+            ? "auditd is running"
+            : auditd.installed
+              ? "auditd is installed but not running"
+              : "auditd is not installed",
+          checkId: "audit-logging.auditd",
+        });
+      }
+    }
+
+    if (config.minAuditRules !== undefined) {
+      if (auditRules === null) {
+        const reason =
+          "audit rules can only be listed as root; run with sudo credentials available";
+        results.push({
+          setting: "Audit Rules",
+          expected: `at least ${config.minAuditRules}`,
+          actual: null,
+          passed: false,
+          message: `Loaded audit rules could not be determined: ${reason}`,
+          checkId: "audit-logging.rules",
+          status: "unknown",
+          reason,
+          commandsTried: ["sudo auditctl -l"],
+        });
+      } else {
+        const recording = auditRules.filter(
+          (rule) => !isSuppressionRule(rule),
+        ).length;
+        results.push({
+          setting: "Audit Rules",
+          expected: `at least ${config.minAuditRules}`,
+          actual: recording,
+          passed: recording >= config.minAuditRules,
+          message:
+            auditd?.installed === false
+              ? "auditd is not installed, so no audit rules are loaded"
+              : `${recording} audit rule${recording === 1 ? " is" : "s are"} loaded${
+                  recording < auditRules.length
+                    ? ` besides ${auditRules.length - recording} that only suppress events`
+                    : ""
+                }`,
+          checkId: "audit-logging.rules",
+        });
+      }
+    }
+
+    if (config.persistentJournal !== undefined) {
+      if (journal === null) {
+        results.push({
+          setting: "Persistent Journal",
+          expected: config.persistentJournal,
+          actual: null,
+          passed: false,
+          message: `Journal storage could not be determined: ${JOURNALD_NOT_FOUND}`,
+          checkId: "audit-logging.journal-storage",
+          status: "unknown",
+          reason: JOURNALD_NOT_FOUND,
+          commandsTried: [
+            "systemd-analyze cat-config systemd/journald.conf",
+            "read /etc/systemd/journald.conf",
+          ],
+        });
+      } else {
+        results.push({
+          setting: "Persistent Journal",
+          expected: config.persistentJournal,
+          actual: journal.persistent,
+          passed: journal.persistent === config.persistentJournal,
+          message: journal.persistent
+            ? `journald keeps logs in /var/log/journal (Storage=${journal.storage})`
+            : `journald logs are lost on reboot (Storage=${journal.storage}${
+                journal.storage === "auto" ? " without /var/log/journal" : ""
+              })`,
+          checkId: "audit-logging.journal-storage",
+        });
+      }
+    }
+
+    if (minJournalBytes !== null) {
+      const expected = `at least ${formatJournaldSize(minJournalBytes)}`;
+      if (
+        journal === null ||
+        (journal.persistent && journal.maxUseBytes === null)
+      ) {
+        const reason =
+          journal === null
+            ? JOURNALD_NOT_FOUND
+            : journal.systemMaxUse
+              ? `SystemMaxUse=${journal.systemMaxUse} is not a size`
+              : "SystemMaxUse is not set and the size of the file system holding /var/log/journal could not be read";
+        results.push({
+          setting: "Journal Size",
+          expected,
+          actual: null,
+          passed: false,
+          message: `The journal size limit could not be determined: ${reason}`,
+          checkId: "audit-logging.journal-size",
+          status: "unknown",
+          reason,
+          commandsTried: [
+            "systemd-analyze cat-config systemd/journald.conf",
+            "df -B1 --output=size /var/log/journal",
+          ],
+        });
+      } else if (!journal.persistent || journal.maxUseBytes === null) {
+        results.push({
+          setting: "Journal Size",
+          expected,
+          actual: "volatile",
+          passed: false,
+          message:
+            "journald keeps no persistent journal, so no logs are kept across reboots",
+          checkId: "audit-logging.journal-size",
+        });
+      } else {
+        const maxUse = formatJournaldSize(journal.maxUseBytes);
+        results.push({
+          setting: "Journal Size",
+          expected,
+          actual: maxUse,
+          passed: journal.maxUseBytes >= minJournalBytes,
+          message: journal.systemMaxUse
+            ? `journald keeps up to ${maxUse} of logs (SystemMaxUse=${journal.systemMaxUse})`
+            : `journald keeps up to ${maxUse} of logs (default of 10% of the file system, at most 4G)`,
+          checkId: "audit-logging.journal-size",
+        });
+      }
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,43 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const autoLockCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["autoLock"]>
+> = {
+  id: "auto-lock",
+  name: "Auto-lock Timeout",
+  configKey: "autoLock",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "medium",
+  category: "authentication",
+  remediation:
+    "Lower the screen lock or screen saver timeout to the configured limit",
+  configSchema: {
+    type: "object",
+    properties: {
+      maxTimeoutMinutes: { type: "number", minimum: 0 },
+    },
+    required: ["maxTimeoutMinutes"],
+  },
+
+  async evaluate(config, { checker }) {
+    const autoLockTimeout = await checker.checkAutoLockTimeout();
+    const autoLockPassed =
+      autoLockTimeout <= config.maxTimeoutMinutes && autoLockTimeout > 0;
+
+    return [
+      {
+        setting: "Auto-lock Timeout",
+        expected: `≤ ${config.maxTimeoutMinutes} minutes`,
+        actual: `${autoLockTimeout} minutes`,
+        passed: autoLockPassed,
+        message: autoLockPassed
+          ? `Screen locks after ${autoLockTimeout} minutes (within acceptable limit)`
+          : autoLockTimeout === 0
+            ? "Auto-lock is disabled"
+            : `Screen locks after ${autoLockTimeout} minutes (exceeds ${config.maxTimeoutMinutes} minute limit)`,
+      },
+    ];
+  },
+};
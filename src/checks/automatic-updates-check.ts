@@ -0,0 +1,163 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+function getUpdateModeDescription(mode: string): string {
+  switch (mode) {
+    case "disabled":
+      return "no automatic checking, downloading, or installing";
+    case "check-only":
+      return "automatic checking enabled, but manual download and install required";
+    case "download-only":
+      return "automatic checking and downloading, but manual install required";
+    case "fully-automatic":
+      return "automatic checking, downloading, and installing";
+    default:
+      return "unknown update mode";
+  }
+}
+
+/**
+ * Derive the update mode from the checker result. macOS reports the mode
+ * directly, other platforms report download/install flags.
+ */
+function getUpdateMode(
+  updateInfo: {
+    updateMode?: string;
+    downloadOnly?: boolean;
+    automaticInstall?: boolean;
+  },
+  platform: Platform,
+): string {
+  if (platform === Platform.MACOS) {
+    return updateInfo.updateMode as string;
+  }
+
+  return updateInfo.downloadOnly
+    ? "download-only"
+    : updateInfo.automaticInstall
+      ? "fully-automatic"
+      : "disabled";
+}
+
+export const automaticUpdatesCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["automaticUpdates"]>
+> = {
+  id: "automatic-updates",
+  name: "Automatic Updates",
+  configKey: "automaticUpdates",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "high",
+  category: "updates",
+  remediation:
+    "Enable automatic checking, downloading and installing of updates",
+  configSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+      securityUpdatesOnly: { type: "boolean" },
+      downloadOnly: { type: "boolean" },
+      automaticDownload: { type: "boolean" },
+      automaticInstall: { type: "boolean" },
+      automaticSecurityInstall: { type: "boolean" },
+      configDataInstall: { type: "boolean" },
+    },
+    required: ["enabled"],
+  },
+
+  async evaluate(config, { checker, platform }) {
+    const updateInfo = await checker.checkAutomaticUpdates();
+    const results: SecurityCheckResult[] = [];
+
+    // Check basic automatic updates enabled setting
+    results.push({
+      setting: "Automatic Updates",
+      expected: config.enabled,
+      actual: updateInfo.enabled,
+      passed: updateInfo.enabled === config.enabled,
+      message: updateInfo.enabled
+        ? "Automatic update checking is enabled"
+        : "Automatic updates are disabled - security patches may be delayed",
+    });
+
+    // Check specific update mode if granular settings are provided
+    if (config.downloadOnly !== undefined) {
+      const actualModeText = getUpdateMode(updateInfo, platform);
+      const downloadOnlyActual =
+        platform === Platform.MACOS
+          ? actualModeText === "download-only"
+          : updateInfo.downloadOnly || false;
+
+      results.push({
+        setting: "Automatic Update Mode",
+        expected: config.downloadOnly
+          ? "download-only"
+          : "fully-automatic or disabled",
+        actual: actualModeText,
+        passed: config.downloadOnly === downloadOnlyActual,
+        message: `Update mode is "${actualModeText}" - ${getUpdateModeDescription(actualModeText)}`,
+        checkId: "automatic-updates.mode",
+        severity: "medium",
+      });
+    } else if (config.automaticInstall !== undefined) {
+      const automaticInstallActual = updateInfo.automaticInstall;
+      results.push({
+        setting: "Automatic Installation",
+        expected: config.automaticInstall,
+        actual: automaticInstallActual,
+        passed: config.automaticInstall === automaticInstallActual,
+        message: automaticInstallActual
+          ? "All updates are installed automatically"
+          : "Updates require manual installation",
+        checkId: "automatic-updates.installation",
+        severity: "medium",
+      });
+    } else {
+      // Provide general update mode information when no specific settings are configured
+      const actualModeText = getUpdateMode(updateInfo, platform);
+      const modePassed =
+        platform === Platform.MACOS
+          ? actualModeText !== "disabled" && actualModeText !== "check-only"
+          : Boolean(updateInfo.downloadOnly || updateInfo.automaticInstall);
+
+      results.push({
+        setting: "Automatic Update Mode",
+        expected: "At least download-only or fully-automatic",
+        actual: actualModeText,
+        passed: modePassed,
+        message: `Update mode is "${actualModeText}" - ${getUpdateModeDescription(actualModeText)}`,
+        checkId: "automatic-updates.mode",
+        severity: "medium",
+      });
+    }
+
+    // Check security updates setting - maintain backward compatibility
+    if (config.securityUpdatesOnly !== undefined) {
+      results.push({
+        setting: "Security Updates",
+        expected: config.securityUpdatesOnly,
+        actual: updateInfo.securityUpdatesOnly,
+        passed: updateInfo.securityUpdatesOnly === config.securityUpdatesOnly,
+        message: updateInfo.securityUpdatesOnly
+          ? "Security updates are automatically installed"
+          : "Security updates require manual installation",
+        checkId: "automatic-updates.security-updates",
+      });
+    } else if (config.automaticSecurityInstall !== undefined) {
+      results.push({
+        setting: "Security Updates",
+        expected: config.automaticSecurityInstall,
+        actual: updateInfo.automaticSecurityInstall,
+        passed:
+          updateInfo.automaticSecurityInstall ===
+          config.automaticSecurityInstall,
+        message: updateInfo.automaticSecurityInstall
+          ? "Security updates are automatically installed"
+          : "Security updates require manual installation",
+        checkId: "automatic-updates.security-updates",
+      });
+    }
+
+    return results;
+  },
+};
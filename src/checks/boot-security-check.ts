@@ -0,0 +1,150 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+import { findLooseBootPermissions } from "../checkers/linux-boot-security";
+import {
+  BOOT_FILE_LISTING,
+  GRUB_PASSWORD_LISTING,
+} from "../utils/sudo-session";
+
+const ROOT_REQUIRED =
+  "the GRUB configs are only readable as root; run with sudo credentials available";
+
+export const bootSecurityCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["bootSecurity"]>
+> = {
+  id: "boot-security",
+  name: "Boot Security",
+  configKey: "bootSecurity",
+  platforms: [Platform.LINUX],
+  severity: "high",
+  category: "system-integrity",
+  remediation:
+    "Enable Secure Boot in the UEFI firmware settings, set a GRUB password with `sudo grub2-setpassword` (Fedora/RHEL) or `grub-mkpasswd-pbkdf2` and /etc/grub.d/40_custom (Debian/Ubuntu), and run `sudo chown root:root` and `sudo chmod og-rwx` on the GRUB configs",
+  configSchema: {
+    type: "object",
+    properties: {
+      requireSecureBoot: { type: "boolean" },
+      requireBootloaderPassword: { type: "boolean" },
+      restrictBootPermissions: { type: "boolean" },
+    },
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkBootSecurity) {
+      return [];
+    }
+
+    const {
+      secureBoot,
+      bootloaderPasswordUsers,
+      bootFiles,
+      bootFilesComplete,
+    } = await checker.checkBootSecurity();
+    const results: SecurityCheckResult[] = [];
+
+    if (config.requireSecureBoot) {
+      if (secureBoot === null) {
+        const reason =
+          "mokutil is not installed and the SecureBoot EFI variable could not be read";
+        results.push({
+          setting: "Secure Boot",
+          expected: "enabled",
+          actual: null,
+          passed: false,
+          message: `Secure Boot could not be determined: ${reason}`,
+          checkId: "boot-security.secure-boot",
+          status: "unknown",
+          reason,
+          commandsTried: [
+            "mokutil --sb-state",
+            "read /sys/firmware/efi/efivars/SecureBoot-8be4df61-93ca-11d2-aa0d-00e098032b8c",
+          ],
+        });
+      } else {
+        results.push({
+          setting: "Secure Boot",
+          expected: "enabled",
+          actual: secureBoot,
+          passed: secureBoot === "enabled",
+          message:
+            secureBoot === "enabled"
+              ? "Secure Boot is enabled"
+              : secureBoot === "disabled"
+                ? "Secure Boot is disabled in the UEFI firmware"
+                : "The system booted without UEFI, so Secure Boot is not available",
+          checkId: "boot-security.secure-boot",
+        });
+      }
+    }
+
+    if (config.requireBootloaderPassword) {
+      if (bootloaderPasswordUsers === null) {
+        results.push({
+          setting: "Bootloader Password",
+          expected: "set",
+          actual: null,
+          passed: false,
+          message: `The GRUB password could not be determined: ${ROOT_REQUIRED}`,
+          checkId: "boot-security.bootloader-password",
+          status: "unknown",
+          reason: ROOT_REQUIRED,
+          commandsTried: [
+            `sudo ${GRUB_PASSWORD_LISTING.join(" ")}`,
+            "read /boot/grub2/grub.cfg",
+            "read /boot/grub2/user.cfg",
+            "read /boot/grub/grub.cfg",
+          ],
+        });
+      } else {
+        const isSet = bootloaderPasswordUsers.length > 0;
+        results.push({
+          setting: "Bootloader Password",
+          expected: "set",
+          actual: isSet ? "set" : "not set",
+          passed: isSet,
+          message: isSet
+            ? `GRUB boot entries can only be edited by ${bootloaderPasswordUsers.join(", ")}`
+            : "GRUB has no superuser with a password, so anyone at the console can edit boot entries",
+          checkId: "boot-security.bootloader-password",
+        });
+      }
+    }
+
+    if (config.restrictBootPermissions) {
+      const problems = findLooseBootPermissions(bootFiles);
+      if (problems.length === 0 && !bootFilesComplete) {
+        const reason =
+          "parts of /boot can only be listed as root; run with sudo credentials available";
+        results.push({
+          setting: "Boot Permissions",
+          expected: "root only",
+          actual: null,
+          passed: false,
+          message: `/boot permissions could not be determined: ${reason}`,
+          checkId: "boot-security.permissions",
+          status: "unknown",
+          reason,
+          commandsTried: [
+            `sudo ${BOOT_FILE_LISTING.join(" ")}`,
+            BOOT_FILE_LISTING.join(" "),
+          ],
+        });
+      } else {
+        results.push({
+          setting: "Boot Permissions",
+          expected: "root only",
+          actual: problems.length === 0 ? "root only" : problems.join("; "),
+          passed: problems.length === 0,
+          message:
+            problems.length === 0
+              ? "/boot and the GRUB configs are only writable by root"
+              : `Boot files have loose permissions: ${problems.join("; ")}`,
+          checkId: "boot-security.permissions",
+        });
+      }
+    }
+
+    return results;
+  },
+};
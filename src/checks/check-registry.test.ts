@@ -0,0 +1,272 @@
+import {
+  applyCheckMetadata,
+  CheckRegistry,
+  SecurityCheckDefinition,
+} from "./check-registry";
+import {
+  builtInChecks,
+  createDefaultCheckRegistry,
+  defaultCheckRegistry,
+} from "./index";
+import { SecurityAuditor, VersionCompatibilityInfo } from "../services/auditor";
+import { SecurityConfig } from "../types";
+import { MockMacOSSecurityChecker } from "../test-utils/mocks";
+import { UndeterminedCheckError } from "../checkers/undetermined-check-error";
+import { Platform } from "../utils/platform-detector";
+
+function createCheck(
+  overrides: Partial<SecurityCheckDefinition> = {},
+): SecurityCheckDefinition {
+  return {
+    id: "custom-check",
+    name: "Custom Check",
+    configKey: "customCheck",
+    platforms: [Platform.MACOS, Platform.LINUX],
+    severity: "medium",
+    category: "custom",
+    remediation: "Fix the custom setting",
+    configSchema: { type: "object" },
+    evaluate: jest.fn().mockResolvedValue([
+      {
+        setting: "Custom Check",
+        expected: true,
+        actual: true,
+        passed: true,
+        message: "Custom check passed",
+      },
+    ]),
+    ...overrides,
+  };
+}
+
+describe("CheckRegistry", () => {
+  describe("register", () => {
+    it("should keep checks in registration order", () => {
+      const registry = new CheckRegistry([
+        createCheck({ id: "first" }),
+        createCheck({ id: "second" }),
+      ]);
+
+      expect(registry.getAll().map((check) => check.id)).toEqual([
+        "first",
+        "second",
+      ]);
+    });
+
+    it("should reject duplicate ids", () => {
+      const registry = new CheckRegistry([createCheck()]);
+
+      expect(() => registry.register(createCheck())).toThrow(
+        "Security check already registered: custom-check",
+      );
+    });
+
+    it("should reject definitions without platforms", () => {
+      const registry = new CheckRegistry();
+
+      expect(() => registry.register(createCheck({ platforms: [] }))).toThrow(
+        "must list at least one platform",
+      );
+    });
+
+    it("should reject unknown severities", () => {
+      const registry = new CheckRegistry();
+
+      expect(() =>
+        registry.register(
+          createCheck({
+            severity: "urgent" as SecurityCheckDefinition["severity"],
+          }),
+        ),
+      ).toThrow("has an invalid severity: urgent");
+    });
+
+    it("should unregister checks by id", () => {
+      const registry = new CheckRegistry([createCheck()]);
+
+      expect(registry.unregister("custom-check")).toBe(true);
+      expect(registry.has("custom-check")).toBe(false);
+    });
+  });
+
+  describe("getForPlatform", () => {
+    it("should only return checks supporting the platform", () => {
+      const registry = new CheckRegistry([
+        createCheck({ id: "everywhere" }),
+        createCheck({ id: "windows-only", platforms: [Platform.WINDOWS] }),
+      ]);
+
+      expect(
+        registry.getForPlatform(Platform.WINDOWS).map((check) => check.id),
+      ).toEqual(["windows-only"]);
+      expect(
+        registry.getForPlatform(Platform.LINUX).map((check) => check.id),
+      ).toEqual(["everywhere"]);
+    });
+  });
+
+  describe("applyCheckMetadata", () => {
+    const result = {
+      setting: "Custom Check",
+      expected: true,
+      actual: false,
+      passed: false,
+      message: "Custom check failed",
+    };
+
+    it("should fill in metadata from the definition", () => {
+      expect(applyCheckMetadata(result, createCheck(), Platform.LINUX)).toEqual(
+        {
+          ...result,
+          status: "fail",
+          checkId: "custom-check",
+          severity: "medium",
+          category: "custom",
+          remediation: "Fix the custom setting",
+        },
+      );
+    });
+
+    it("should keep metadata set by the result", () => {
+      const stamped = applyCheckMetadata(
+        { ...result, checkId: "custom-check.sub", severity: "critical" },
+        createCheck(),
+        Platform.LINUX,
+      );
+
+      expect(stamped.checkId).toBe("custom-check.sub");
+      expect(stamped.severity).toBe("critical");
+    });
+
+    it("should pick the remediation for the platform", () => {
+      const check = createCheck({
+        remediation: { [Platform.MACOS]: "Open System Settings" },
+      });
+
+      expect(
+        applyCheckMetadata(result, check, Platform.MACOS).remediation,
+      ).toBe("Open System Settings");
+      expect(
+        applyCheckMetadata(result, check, Platform.LINUX),
+      ).not.toHaveProperty("remediation");
+    });
+  });
+
+  describe("getConfigSchema", () => {
+    it("should combine schema fragments by config key", () => {
+      const schema = createDefaultCheckRegistry().getConfigSchema() as {
+        properties: Record<string, unknown>;
+      };
+
+      for (const check of builtInChecks) {
+        expect(schema.properties[check.configKey]).toBe(check.configSchema);
+      }
+    });
+  });
+
+  describe("SecurityAuditor integration", () => {
+    function createAuditor(registry?: CheckRegistry): SecurityAuditor {
+      const auditor = new SecurityAuditor(undefined, registry);
+      (auditor as unknown as { checker: MockMacOSSecurityChecker }).checker =
+        new MockMacOSSecurityChecker();
+      (
+        auditor as unknown as { versionInfo: VersionCompatibilityInfo }
+      ).versionInfo = {
+        currentVersion: "15.5",
+        isSupported: true,
+        isApproved: true,
+        isLegacy: false,
+        platform: Platform.MACOS,
+      };
+      return auditor;
+    }
+
+    it("should run custom checks when their config section is present", async () => {
+      const check = createCheck();
+      const registry = createDefaultCheckRegistry().register(check);
+      const config = {
+        firewall: { enabled: true },
+        customCheck: { enabled: true },
+      } as SecurityConfig;
+
+      const report = await createAuditor(registry).auditSecurity(config);
+
+      expect(check.evaluate).toHaveBeenCalledWith(
+        { enabled: true },
+        expect.objectContaining({ platform: Platform.MACOS }),
+      );
+      expect(report.results.map((result) => result.setting)).toEqual([
+        "Firewall",
+        "Custom Check",
+      ]);
+    });
+
+    it("should run in-house checks registered on the default registry", async () => {
+      const check = createCheck({ id: "in-house", configKey: "inHouse" });
+      defaultCheckRegistry.register(check);
+
+      try {
+        const report = await createAuditor().auditSecurity({
+          inHouse: { enabled: true },
+        } as SecurityConfig);
+
+        expect(check.evaluate).toHaveBeenCalled();
+        expect(report.results[0]).toMatchObject({ checkId: "in-house" });
+      } finally {
+        defaultCheckRegistry.unregister("in-house");
+      }
+    });
+
+    it("should report checks that could not be determined as unknown", async () => {
+      const check = createCheck({
+        evaluate: jest
+          .fn()
+          .mockRejectedValue(
+            new UndeterminedCheckError("No tool available", ["tool --status"]),
+          ),
+      });
+      const registry = new CheckRegistry([check]);
+
+      const report = await createAuditor(registry).auditSecurity({
+        customCheck: { enabled: true },
+      } as SecurityConfig);
+
+      expect(report.overallPassed).toBe(false);
+      expect(report.results[0]).toMatchObject({
+        setting: "Custom Check",
+        passed: false,
+        status: "unknown",
+        reason: "No tool available",
+        commandsTried: ["tool --status"],
+        checkId: "custom-check",
+      });
+    });
+
+    it("should report unexpected check failures as errors", async () => {
+      const check = createCheck({
+        evaluate: jest.fn().mockRejectedValue(new Error("boom")),
+      });
+      const registry = new CheckRegistry([check]);
+
+      const report = await createAuditor(registry).auditSecurity({
+        customCheck: { enabled: true },
+      } as SecurityConfig);
+
+      expect(report.results[0]).toMatchObject({
+        status: "error",
+        reason: "boom",
+        message: "Custom Check check failed: boom",
+      });
+    });
+
+    it("should skip checks that are not configured", async () => {
+      const check = createCheck();
+      const registry = new CheckRegistry([check]);
+
+      const report = await createAuditor(registry).auditSecurity({});
+
+      expect(check.evaluate).not.toHaveBeenCalled();
+      expect(report.results).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { ISecurityChecker, SecurityCheckResult, Severity } from "../types";
+import { Platform } from "../utils/platform-detector";
+import { VersionCompatibilityInfo } from "../services/auditor";
+import { SeverityUtils } from "../utils/severity-utils";
+import { ResultStatusUtils } from "../utils/result-status";
+import { UndeterminedCheckError } from "../checkers/undetermined-check-error";
+import { CommandRunner } from "../utils/command-runner";
+
+/**
+ * Everything a check needs to evaluate itself against the current system
+ */
+export interface CheckContext {
+  checker: ISecurityChecker;
+  platform: Platform;
+  versionInfo: VersionCompatibilityInfo;
+  runner: CommandRunner; // For checks that read the system themselves
+}
+
+/**
+ * A self-describing security check that the auditor can run
+ */
+export interface SecurityCheckDefinition<TConfig = any> {
+  /**
+   * Stable identifier, e.g. "disk-encryption"
+   */
+  id: string;
+
+  /**
+   * Human-readable name of the check
+   */
+  name: string;
+
+  /**
+   * Key of the SecurityConfig section that enables this check
+   */
+  configKey: string;
+
+  /**
+   * Platforms the check is able to run on
+   */
+  platforms: Platform[];
+
+  /**
+   * Severity of a failure, unless a result sets its own
+   */
+  severity: Severity;
+
+  /**
+   * Category used to group results, e.g. "network"
+   */
+  category: string;
+
+  /**
+   * How to fix a failure, either for all platforms or per platform
+   */
+  remediation: string | Partial<Record<Platform, string>>;
+
+  /**
+   * JSON Schema fragment describing the config section
+   */
+  configSchema: Record<string, unknown>;
+
+  /**
+   * Evaluate the check against the configured section
+   */
+  evaluate(
+    config: TConfig,
+    context: CheckContext,
+  ): Promise<SecurityCheckResult[]>;
+}
+
+/**
+ * Fill in check id, severity, category and remediation from the definition
+ * for anything the result does not set itself, and settle its status
+ */
+export function applyCheckMetadata(
+  result: SecurityCheckResult,
+  check: SecurityCheckDefinition,
+  platform: Platform,
+): SecurityCheckResult {
+  const remediation =
+    typeof check.remediation === "string"
+      ? check.remediation
+      : check.remediation[platform];
+
+  const status = ResultStatusUtils.getStatus(result);
+
+  return {
+    ...result,
+    passed: status === "pass",
+    status,
+    checkId: result.checkId ?? check.id,
+    severity: result.severity ?? check.severity,
+    category: result.category ?? check.category,
+    ...((result.remediation ?? remediation) !== undefined && {
+      remediation: result.remediation ?? remediation,
+    }),
+  };
+}
+
+/**
+ * Result for a check whose evaluate function threw. UndeterminedCheckError
+ * becomes "unknown"; anything else is reported as "error".
+ */
+export function createUndeterminedResult(
+  check: SecurityCheckDefinition,
+  error: unknown,
+): SecurityCheckResult {
+  const reason = error instanceof Error ? error.message : String(error);
+  const undetermined = error instanceof UndeterminedCheckError;
+
+  return {
+    setting: check.name,
+    expected: null,
+    actual: null,
+    passed: false,
+    message: undetermined
+      ? `${check.name} could not be determined: ${reason}`
+      : `${check.name} check failed: ${reason}`,
+    status: undetermined ? "unknown" : "error",
+    reason,
+    ...(undetermined &&
+      error.commandsTried.length > 0 && {
+        commandsTried: error.commandsTried,
+      }),
+  };
+}
+
+/**
+ * Registry of security checks run by the SecurityAuditor.
+ * Checks run in the order they were registered.
+ */
+export class CheckRegistry {
+  private checks = new Map<string, SecurityCheckDefinition>();
+
+  constructor(checks: SecurityCheckDefinition[] = []) {
+    for (const check of checks) {
+      this.register(check);
+    }
+  }
+
+  /**
+   * Register a check, rejecting malformed definitions and duplicate ids
+   */
+  register(check: SecurityCheckDefinition): this {
+    CheckRegistry.assertValidDefinition(check);
+
+    if (this.checks.has(check.id)) {
+      throw new Error(`Security check already registered: ${check.id}`);
+    }
+
+    this.checks.set(check.id, check);
+    return this;
+  }
+
+  /**
+   * Remove a check from the registry
+   */
+  unregister(id: string): boolean {
+    return this.checks.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.checks.has(id);
+  }
+
+  get(id: string): SecurityCheckDefinition | undefined {
+    return this.checks.get(id);
+  }
+
+  getAll(): SecurityCheckDefinition[] {
+    return Array.from(this.checks.values());
+  }
+
+  /**
+   * Get the checks that can run on the given platform
+   */
+  getForPlatform(platform: Platform): SecurityCheckDefinition[] {
+    return this.getAll().filter((check) => check.platforms.includes(platform));
+  }
+
+  /**
+   * Combine the config schema fragments of all registered checks
+   */
+  getConfigSchema(): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+
+    for (const check of this.checks.values()) {
+      if (!(check.configKey in properties)) {
+        properties[check.configKey] = check.configSchema;
+      }
+    }
+
+    return { type: "object", properties };
+  }
+
+  private static assertValidDefinition(check: SecurityCheckDefinition): void {
+    if (!check || typeof check.id !== "string" || check.id.length === 0) {
+      throw new Error("Security check definition must have an id");
+    }
+    if (typeof check.configKey !== "string" || check.configKey.length === 0) {
+      throw new Error(`Security check '${check.id}' must have a configKey`);
+    }
+    if (!Array.isArray(check.platforms) || check.platforms.length === 0) {
+      throw new Error(
+        `Security check '${check.id}' must list at least one platform`,
+      );
+    }
+    if (!SeverityUtils.isValidSeverity(check.severity)) {
+      throw new Error(
+        `Security check '${check.id}' has an invalid severity: ${check.severity}`,
+      );
+    }
+    if (typeof check.evaluate !== "function") {
+      throw new Error(
+        `Security check '${check.id}' must have an evaluate function`,
+      );
+    }
+  }
+}
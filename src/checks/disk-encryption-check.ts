@@ -0,0 +1,181 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { EncryptedVolume, SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+const LABELS: Record<
+  string,
+  { setting: string; enabledMessage: string; disabledMessage: string }
+> = {
+  [Platform.MACOS]: {
+    setting: "FileVault",
+    enabledMessage: "FileVault is enabled - disk encryption is active",
+    disabledMessage: "FileVault is disabled - disk is not encrypted",
+  },
+  [Platform.LINUX]: {
+    setting: "Disk Encryption (LUKS)",
+    enabledMessage: "Disk encryption is enabled - LUKS encryption is active",
+    disabledMessage: "Disk encryption is disabled - disk is not encrypted",
+  },
+  [Platform.WINDOWS]: {
+    setting: "Disk Encryption (BitLocker)",
+    enabledMessage:
+      "Disk encryption is enabled - BitLocker encryption is active",
+    disabledMessage: "Disk encryption is disabled - disk is not encrypted",
+  },
+};
+
+function describeVolume(volume: EncryptedVolume): string {
+  if (volume.inMemory) {
+    return `${volume.mountPoint} (in memory)`;
+  }
+  if (!volume.encrypted) {
+    return `${volume.mountPoint} on ${volume.device} (not encrypted)`;
+  }
+  const details = [
+    volume.luksVersion === undefined
+      ? "plain dm-crypt"
+      : `LUKS${volume.luksVersion ?? ""}`,
+    volume.cipher,
+  ].filter(Boolean);
+  return `${volume.mountPoint} on ${volume.mapping} (${details.join(", ")})`;
+}
+
+export const diskEncryptionCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["diskEncryption"]>
+> = {
+  id: "disk-encryption",
+  name: "Disk Encryption",
+  configKey: "diskEncryption",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "critical",
+  category: "data-protection",
+  remediation: {
+    [Platform.MACOS]:
+      "Enable FileVault in System Settings > Privacy & Security > FileVault",
+    [Platform.LINUX]:
+      "Encrypt the system disk with LUKS (usually requires reinstalling with encryption enabled)",
+    [Platform.WINDOWS]:
+      "Turn on BitLocker in Settings > Privacy & security > Device encryption",
+  },
+  configSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+      requireSwapEncrypted: { type: "boolean" },
+      minLuksVersion: { type: "integer", minimum: 1 },
+    },
+    required: ["enabled"],
+  },
+
+  async evaluate(config, { checker, platform }) {
+    const configEnabled = config.enabled ?? false;
+    const labels = LABELS[platform] ?? LABELS[Platform.LINUX];
+
+    if (checker.checkDiskEncryptionCoverage) {
+      const { volumes, commandsTried } =
+        await checker.checkDiskEncryptionCoverage();
+      const fileSystems = volumes.filter((volume) => volume.role !== "swap");
+      const swaps = volumes.filter((volume) => volume.role === "swap");
+      const encrypted = fileSystems.every((volume) => volume.encrypted);
+      const summary = fileSystems.map(describeVolume).join(", ");
+
+      const results: SecurityCheckResult[] = [
+        {
+          setting: labels.setting,
+          expected: configEnabled,
+          actual: encrypted,
+          passed: encrypted === configEnabled,
+          message: encrypted
+            ? `Disk encryption is enabled - ${summary}`
+            : `Disk encryption is disabled - ${summary}`,
+        },
+      ];
+
+      if (config.requireSwapEncrypted) {
+        const exposed = swaps.filter(
+          (volume) => !volume.encrypted && !volume.inMemory,
+        );
+        results.push({
+          setting: "Swap Encryption",
+          expected: "Encrypted or in memory",
+          actual:
+            swaps.length > 0 ? swaps.map(describeVolume).join(", ") : "No swap",
+          passed: exposed.length === 0,
+          message:
+            swaps.length === 0
+              ? "No swap is active"
+              : exposed.length === 0
+                ? `Swap is protected - ${swaps.map(describeVolume).join(", ")}`
+                : `Swap is not encrypted - memory contents can be written to disk in clear text: ${exposed.map(describeVolume).join(", ")}`,
+          checkId: "disk-encryption.swap",
+          severity: "high",
+        });
+      }
+
+      // Plain dm-crypt (e.g. swap with a random key) has no header to check
+      const luksVolumes = volumes.filter(
+        (volume) => volume.luksVersion !== undefined,
+      );
+      if (config.minLuksVersion !== undefined && luksVolumes.length > 0) {
+        const minLuksVersion = config.minLuksVersion;
+        const outdated = luksVolumes.filter(
+          (volume) =>
+            typeof volume.luksVersion === "number" &&
+            volume.luksVersion < minLuksVersion,
+        );
+        const unversioned = luksVolumes.filter(
+          (volume) => volume.luksVersion === null,
+        );
+
+        if (outdated.length === 0 && unversioned.length > 0) {
+          const reason = `lsblk does not report the LUKS version of ${unversioned.map((volume) => volume.mountPoint).join(", ")} (util-linux before 2.33)`;
+          results.push({
+            setting: "LUKS Version",
+            expected: `LUKS${minLuksVersion} or later`,
+            actual: null,
+            passed: false,
+            message: `LUKS version could not be determined: ${reason}`,
+            checkId: "disk-encryption.luks-version",
+            severity: "medium",
+            status: "unknown",
+            reason,
+            commandsTried,
+          });
+        } else {
+          results.push({
+            setting: "LUKS Version",
+            expected: `LUKS${minLuksVersion} or later`,
+            actual: luksVolumes.map(describeVolume).join(", "),
+            passed: outdated.length === 0,
+            message:
+              outdated.length === 0
+                ? `All LUKS volumes use LUKS${minLuksVersion} or later`
+                : `Outdated LUKS headers: ${outdated.map(describeVolume).join(", ")} - convert them with \`cryptsetup convert --type luks2\``,
+            checkId: "disk-encryption.luks-version",
+            severity: "medium",
+          });
+        }
+      }
+
+      return results;
+    }
+
+    if (!checker.checkDiskEncryption) {
+      return [];
+    }
+
+    const encryptionEnabled = await checker.checkDiskEncryption();
+
+    return [
+      {
+        setting: labels.setting,
+        expected: configEnabled,
+        actual: encryptionEnabled,
+        passed: encryptionEnabled === configEnabled,
+        message: encryptionEnabled
+          ? labels.enabledMessage
+          : labels.disabledMessage,
+      },
+    ];
+  },
+};
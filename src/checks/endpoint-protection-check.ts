@@ -0,0 +1,141 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const endpointProtectionCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["endpointProtection"]>
+> = {
+  id: "endpoint-protection",
+  name: "Endpoint Protection",
+  configKey: "endpointProtection",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "high",
+  category: "system-integrity",
+  remediation: {
+    [Platform.MACOS]:
+      "Install pending XProtect updates with `softwareupdate --background-critical` and keep 'Install Security Responses and system files' turned on in Software Update",
+    [Platform.LINUX]:
+      "Install and start one of the required products, e.g. ClamAV with `sudo systemctl enable --now clamd@scan` (Fedora) or `clamav-daemon` (Debian/Ubuntu), and keep signatures current with freshclam",
+    [Platform.WINDOWS]:
+      "Turn on real-time protection in Windows Security and update signatures with `Update-MpSignature`",
+  },
+  configSchema: {
+    type: "object",
+    properties: {
+      requireOneOf: { type: "array", items: { type: "string" } },
+      maxSignatureAgeDays: { type: "number", minimum: 0 },
+      agents: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            processes: { type: "array", items: { type: "string" } },
+            services: { type: "array", items: { type: "string" } },
+          },
+          required: ["name"],
+        },
+      },
+    },
+    required: ["requireOneOf"],
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkEndpointProtection) {
+      return [];
+    }
+
+    const products = await checker.checkEndpointProtection(config.agents ?? []);
+    const required = config.requireOneOf.map((name) => name.toLowerCase());
+    const running = products.filter(
+      (product) =>
+        product.running && required.includes(product.name.toLowerCase()),
+    );
+    const found = products.map(
+      (product) =>
+        `${product.name} (${product.running ? "running" : "not running"})`,
+    );
+    const results: SecurityCheckResult[] = [];
+
+    results.push({
+      setting: "Endpoint Protection",
+      expected: `One of ${config.requireOneOf.join(", ")} running`,
+      actual:
+        running.length > 0
+          ? running.map((product) => product.name).join(", ")
+          : "none running",
+      passed: running.length > 0,
+      message:
+        running.length > 0
+          ? `${running.map((product) => product.name).join(", ")} ${running.length === 1 ? "is" : "are"} running`
+          : found.length > 0
+            ? `None of the required products is running; found ${found.join(", ")}`
+            : "No endpoint protection product was found",
+      checkId: "endpoint-protection",
+    });
+
+    if (config.maxSignatureAgeDays !== undefined) {
+      const maxAgeDays = config.maxSignatureAgeDays;
+      const ages = running.map((product) => ({
+        product,
+        ageDays:
+          typeof product.signaturesUpdated === "string"
+            ? Math.floor(
+                (Date.now() - new Date(product.signaturesUpdated).getTime()) /
+                  DAY_MS,
+              )
+            : null,
+      }));
+      // Agents that report no signatures update themselves and always pass
+      const current = ages.filter(
+        ({ product, ageDays }) =>
+          product.signaturesUpdated === undefined ||
+          (ageDays !== null && ageDays <= maxAgeDays),
+      );
+      const unreadable = ages.filter(
+        ({ product }) => product.signaturesUpdated === null,
+      );
+      const describe = ({ product, ageDays }: (typeof ages)[number]) =>
+        product.signaturesUpdated === undefined
+          ? `${product.name}: no local signatures`
+          : ageDays === null
+            ? `${product.name}: unknown age`
+            : `${product.name}${product.signatureVersion ? ` ${product.signatureVersion}` : ""}: ${ageDays} day${ageDays === 1 ? "" : "s"} old`;
+
+      if (current.length === 0 && unreadable.length > 0) {
+        const reason = `the signature date of ${unreadable
+          .map(({ product }) => product.name)
+          .join(", ")} could not be read`;
+        results.push({
+          setting: "Signature Age",
+          expected: `At most ${maxAgeDays} days`,
+          actual: null,
+          passed: false,
+          message: `Signature age could not be determined: ${reason}`,
+          checkId: "endpoint-protection.signatures",
+          status: "unknown",
+          reason,
+        });
+      } else {
+        results.push({
+          setting: "Signature Age",
+          expected: `At most ${maxAgeDays} days`,
+          actual:
+            ages.length > 0 ? ages.map(describe).join(", ") : "none running",
+          passed: current.length > 0,
+          message:
+            ages.length === 0
+              ? "No required product is running"
+              : current.length > 0
+                ? `Signatures are current (${current.map(describe).join(", ")})`
+                : `Signatures are older than ${maxAgeDays} days (${ages.map(describe).join(", ")})`,
+          checkId: "endpoint-protection.signatures",
+        });
+      }
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,115 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+import {
+  InboundFilter,
+  describeFirewallPorts,
+} from "../checkers/linux-firewall-rules";
+
+function describeInboundFilter(filter: InboundFilter): string {
+  if (filter.policy === "accept") {
+    return "inbound traffic accepted by default";
+  }
+  return `inbound policy ${filter.policy}, open ports: ${
+    filter.openPorts.length > 0
+      ? describeFirewallPorts(filter.openPorts)
+      : "none"
+  }`;
+}
+
+export const firewallCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["firewall"]>
+> = {
+  id: "firewall",
+  name: "Firewall",
+  configKey: "firewall",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "high",
+  category: "network",
+  remediation: {
+    [Platform.MACOS]:
+      "Enable the firewall in System Settings > Network > Firewall",
+    [Platform.LINUX]:
+      "Enable a host firewall, e.g. `sudo ufw enable` or `sudo systemctl enable --now firewalld`",
+    [Platform.WINDOWS]:
+      "Enable Windows Defender Firewall for all network profiles",
+  },
+  configSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+      stealthMode: { type: "boolean" },
+      ipv6: { type: "boolean" },
+    },
+    required: ["enabled"],
+  },
+
+  async evaluate(config, { checker, platform }) {
+    const firewallInfo = await checker.checkFirewall();
+    const { ruleset } = firewallInfo;
+    const details = ruleset
+      ? ` (${ruleset.backend}: ${describeInboundFilter(ruleset.ipv4)})`
+      : "";
+    const results: SecurityCheckResult[] = [
+      {
+        setting: "Firewall",
+        expected: config.enabled,
+        actual: firewallInfo.enabled,
+        passed: firewallInfo.enabled === config.enabled,
+        message: firewallInfo.enabled
+          ? `Firewall is enabled${firewallInfo.stealthMode ? " (stealth mode active)" : ""}${details}`
+          : `Firewall is disabled - system is vulnerable to network attacks${details}`,
+      },
+    ];
+
+    if (config.stealthMode !== undefined) {
+      results.push({
+        setting: "Firewall Stealth Mode",
+        expected: config.stealthMode,
+        actual: firewallInfo.stealthMode,
+        passed: firewallInfo.stealthMode === config.stealthMode,
+        message: firewallInfo.stealthMode
+          ? "Firewall stealth mode is enabled - system is less visible to network scans"
+          : "Firewall stealth mode is disabled",
+        checkId: "firewall.stealth-mode",
+        severity: "low",
+      });
+    }
+
+    if (config.ipv6 && platform === Platform.LINUX) {
+      if (!ruleset?.ipv6) {
+        const reason =
+          "IPv6 filtering can only be read from the nftables or ip6tables ruleset, which needs root";
+        results.push({
+          setting: "Firewall IPv6 Filtering",
+          expected: true,
+          actual: null,
+          passed: false,
+          message: `Firewall IPv6 filtering could not be determined: ${reason}`,
+          checkId: "firewall.ipv6",
+          severity: "high",
+          status: "unknown",
+          reason,
+          commandsTried: ruleset
+            ? ["sudo ip6tables-save"]
+            : ["sudo nft -j list ruleset", "sudo ip6tables-save"],
+        });
+      } else {
+        const filtered = ruleset.ipv6.policy !== "accept";
+        results.push({
+          setting: "Firewall IPv6 Filtering",
+          expected: true,
+          actual: filtered,
+          passed: filtered,
+          message: filtered
+            ? `IPv6 traffic is filtered (${describeInboundFilter(ruleset.ipv6)})`
+            : "IPv6 traffic bypasses the firewall - inbound connections are accepted by default",
+          checkId: "firewall.ipv6",
+          severity: "high",
+        });
+      }
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,74 @@
+import { CheckRegistry, SecurityCheckDefinition } from "./check-registry";
+import { passwordConfigurationCheck } from "./password-configuration-check";
+import { diskEncryptionCheck } from "./disk-encryption-check";
+import { removableMediaCheck } from "./removable-media-check";
+import { passwordProtectionCheck } from "./password-protection-check";
+import { userAccountsCheck } from "./user-accounts-check";
+import { autoLockCheck } from "./auto-lock-check";
+import { firewallCheck } from "./firewall-check";
+import { listeningPortsCheck } from "./listening-ports-check";
+import { packageVerificationCheck } from "./package-verification-check";
+import { systemIntegrityProtectionCheck } from "./system-integrity-protection-check";
+import { bootSecurityCheck } from "./boot-security-check";
+import { endpointProtectionCheck } from "./endpoint-protection-check";
+import { kernelHardeningCheck } from "./kernel-hardening-check";
+import { auditLoggingCheck } from "./audit-logging-check";
+import { remoteLoginCheck } from "./remote-login-check";
+import { sshHardeningCheck } from "./ssh-hardening-check";
+import { remoteManagementCheck } from "./remote-management-check";
+import { automaticUpdatesCheck } from "./automatic-updates-check";
+import { pendingUpdatesCheck } from "./pending-updates-check";
+import { sharingServicesCheck } from "./sharing-services-check";
+import { osVersionCheck } from "./os-version-check";
+import { wifiSecurityCheck } from "./wifi-security-check";
+import { installedAppsCheck } from "./installed-apps-check";
+
+export {
+  CheckContext,
+  CheckRegistry,
+  SecurityCheckDefinition,
+  applyCheckMetadata,
+  createUndeterminedResult,
+} from "./check-registry";
+
+/**
+ * Built-in checks in the order their results appear in reports
+ */
+export const builtInChecks: SecurityCheckDefinition[] = [
+  passwordConfigurationCheck,
+  diskEncryptionCheck,
+  removableMediaCheck,
+  passwordProtectionCheck,
+  userAccountsCheck,
+  autoLockCheck,
+  firewallCheck,
+  listeningPortsCheck,
+  packageVerificationCheck,
+  systemIntegrityProtectionCheck,
+  bootSecurityCheck,
+  endpointProtectionCheck,
+  kernelHardeningCheck,
+  auditLoggingCheck,
+  remoteLoginCheck,
+  sshHardeningCheck,
+  remoteManagementCheck,
+  automaticUpdatesCheck,
+  pendingUpdatesCheck,
+  sharingServicesCheck,
+  osVersionCheck,
+  wifiSecurityCheck,
+  installedAppsCheck,
+];
+
+/**
+ * Create a registry pre-populated with the built-in checks
+ */
+export function createDefaultCheckRegistry(): CheckRegistry {
+  return new CheckRegistry(builtInChecks);
+}
+
+/**
+ * Shared registry used by SecurityAuditor when none is supplied.
+ * Register in-house checks here to have them picked up by every audit.
+ */
+export const defaultCheckRegistry = createDefaultCheckRegistry();
@@ -0,0 +1,102 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+/**
+ * How each inventory source is described in the report summary
+ */
+const SOURCE_LABELS: Record<string, string> = {
+  applications: "in Applications",
+  homebrew: "via Homebrew",
+  npm: "via npm",
+  packages: "system packages",
+  flatpak: "via Flatpak",
+  snap: "via Snap",
+  pip: "via pip",
+};
+
+/**
+ * Linux systems report thousands of distribution packages, so the full list
+ * in messages is capped
+ */
+const MAX_LISTED_APPS = 100;
+
+function listApps(apps: string[]): string {
+  if (apps.length <= MAX_LISTED_APPS) {
+    return apps.join(", ");
+  }
+  return `${apps.slice(0, MAX_LISTED_APPS).join(", ")} (and ${apps.length - MAX_LISTED_APPS} more)`;
+}
+
+export const installedAppsCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["installedApps"]>
+> = {
+  id: "installed-apps",
+  name: "Installed Applications",
+  configKey: "installedApps",
+  platforms: [Platform.MACOS, Platform.LINUX],
+  severity: "medium",
+  category: "software",
+  remediation: "Uninstall the banned applications",
+  configSchema: {
+    type: "object",
+    properties: {
+      bannedApplications: { type: "array", items: { type: "string" } },
+    },
+    required: ["bannedApplications"],
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkInstalledApplications) {
+      return [];
+    }
+
+    const appInfo = await checker.checkInstalledApplications();
+    const bannedApps = config.bannedApplications || [];
+
+    // Find any banned apps that are currently installed
+    const bannedAppsFound = appInfo.installedApps.filter((app: string) =>
+      bannedApps.some(
+        (banned) =>
+          app.toLowerCase().includes(banned.toLowerCase()) ||
+          banned.toLowerCase().includes(app.toLowerCase()),
+      ),
+    );
+
+    const totalAppsCount = appInfo.installedApps.length;
+    const sourceSummary = Object.entries(appInfo.sources)
+      .map(
+        ([source, apps]) =>
+          `${apps.length} ${SOURCE_LABELS[source] ?? `via ${source}`}`,
+      )
+      .join(", ");
+    const appSummary = `${totalAppsCount} total apps: ${sourceSummary}`;
+
+    if (bannedApps.length === 0) {
+      // If no banned apps configured, just report the installed apps and pass
+      return [
+        {
+          setting: "Installed Applications",
+          expected: "Application monitoring (no restrictions configured)",
+          actual: appSummary,
+          passed: true,
+          message: `Detected applications: ${listApps(appInfo.installedApps)}`,
+        },
+      ];
+    }
+
+    const hasBannedApps = bannedAppsFound.length > 0;
+
+    return [
+      {
+        setting: "Installed Applications",
+        expected: `No banned applications: ${bannedApps.join(", ")}`,
+        actual: appSummary,
+        passed: !hasBannedApps,
+        message: hasBannedApps
+          ? `❌ Banned applications found: ${bannedAppsFound.join(", ")} | All apps: ${listApps(appInfo.installedApps)}`
+          : `✅ No banned applications detected | All apps: ${listApps(appInfo.installedApps)}`,
+      },
+    ];
+  },
+};
@@ -0,0 +1,78 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const kernelHardeningCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["kernelHardening"]>
+> = {
+  id: "kernel-hardening",
+  name: "Kernel Hardening",
+  configKey: "kernelHardening",
+  platforms: [Platform.LINUX],
+  severity: "medium",
+  category: "system-integrity",
+  remediation:
+    "Set the expected values in a file under /etc/sysctl.d (e.g. 90-hardening.conf) and apply them with `sudo sysctl --system`",
+  configSchema: {
+    type: "object",
+    properties: {
+      sysctl: {
+        type: "object",
+        propertyNames: { pattern: "^[A-Za-z0-9_-]+(\\.[A-Za-z0-9_-]+)*$" },
+        additionalProperties: {
+          anyOf: [
+            { type: "integer" },
+            { type: "array", items: { type: "integer" }, minItems: 1 },
+          ],
+        },
+      },
+    },
+    required: ["sysctl"],
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkKernelHardening) {
+      return [];
+    }
+
+    const names = Object.keys(config.sysctl);
+    const { values, unreadable } = await checker.checkKernelHardening(names);
+
+    return names.map((name): SecurityCheckResult => {
+      const accepted = ([] as number[]).concat(config.sysctl[name]);
+      const expected = accepted.join(" or ");
+      const actual = values[name] ?? null;
+      const checkId = `kernel-hardening.${name}`;
+
+      if (actual === null) {
+        const filePath = `/proc/sys/${name.replace(/\./g, "/")}`;
+        const reason = unreadable.includes(name)
+          ? `${filePath} exists but could not be read`
+          : `${filePath} does not exist on this kernel`;
+        return {
+          setting: name,
+          expected,
+          actual,
+          passed: false,
+          message: `${name} could not be determined: ${reason}`,
+          checkId,
+          status: "unknown",
+          reason,
+          commandsTried: [`read ${filePath}`],
+        };
+      }
+
+      const passed = accepted.some((value) => String(value) === actual);
+      return {
+        setting: name,
+        expected,
+        actual,
+        passed,
+        message: passed
+          ? `${name} is ${actual}`
+          : `${name} is ${actual}, expected ${expected}`,
+        checkId,
+      };
+    });
+  },
+};
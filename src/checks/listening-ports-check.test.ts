@@ -0,0 +1,84 @@
+import { CheckContext } from "./check-registry";
+import { listeningPortsCheck } from "./listening-ports-check";
+import { ListeningSocket } from "../checkers/linux-listening-ports";
+import { defaultCommandRunner } from "../utils/command-runner";
+import { Platform } from "../utils/platform-detector";
+import { ISecurityChecker } from "../types";
+
+function createContext(sockets: ListeningSocket[], source: string) {
+  return {
+    checker: {
+      checkListeningPorts: jest.fn().mockResolvedValue({ sockets, source }),
+    } as unknown as ISecurityChecker,
+    platform: Platform.LINUX,
+    versionInfo: {
+      currentVersion: "40",
+      isSupported: true,
+      isApproved: true,
+      isLegacy: false,
+      platform: Platform.LINUX,
+    },
+    runner: defaultCommandRunner,
+  } as CheckContext;
+}
+
+describe("listeningPortsCheck", () => {
+  const config = {
+    allowed: [{ port: 631, scope: "localhost" as const, process: "cupsd" }],
+  };
+
+  it("should match rules with a process by the owning process", async () => {
+    const results = await listeningPortsCheck.evaluate(
+      config,
+      createContext(
+        [
+          {
+            protocol: "tcp",
+            address: "127.0.0.1",
+            port: 631,
+            process: "cupsd",
+          },
+        ],
+        "sudo ss -tulpn",
+      ),
+    );
+
+    expect(results[0]).toMatchObject({ passed: true });
+  });
+
+  it("should be undetermined when the owning process is not shown", async () => {
+    const results = await listeningPortsCheck.evaluate(
+      config,
+      createContext(
+        [{ protocol: "tcp", address: "127.0.0.1", port: 631 }],
+        "ss -tulpn",
+      ),
+    );
+
+    expect(results[0]).toMatchObject({
+      passed: false,
+      status: "unknown",
+      reason:
+        "ss -tulpn does not show which process owns tcp 127.0.0.1:631; run with sudo credentials available",
+    });
+  });
+
+  it("should still fail for sockets no rule allows", async () => {
+    const results = await listeningPortsCheck.evaluate(
+      config,
+      createContext(
+        [
+          { protocol: "tcp", address: "127.0.0.1", port: 631 },
+          { protocol: "tcp", address: "0.0.0.0", port: 8080 },
+        ],
+        "/proc/net",
+      ),
+    );
+
+    expect(results[0]).toMatchObject({
+      passed: false,
+      actual: "tcp 0.0.0.0:8080",
+    });
+    expect(results[0].status).toBeUndefined();
+  });
+});
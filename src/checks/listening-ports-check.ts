@@ -0,0 +1,141 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { ListeningPortRule, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+import {
+  ListeningSocket,
+  isLoopbackAddress,
+} from "../checkers/linux-listening-ports";
+
+function matchesRule(
+  socket: ListeningSocket,
+  rule: ListeningPortRule,
+): boolean {
+  return (
+    socket.port === rule.port &&
+    (rule.protocol === undefined || socket.protocol === rule.protocol) &&
+    (rule.scope !== "localhost" || isLoopbackAddress(socket.address)) &&
+    (rule.process === undefined || socket.process === rule.process)
+  );
+}
+
+function describeSocket(socket: ListeningSocket): string {
+  const address = socket.address.includes(":")
+    ? `[${socket.address}]`
+    : socket.address;
+  return `${socket.protocol} ${address}:${socket.port}${socket.process ? ` (${socket.process})` : ""}`;
+}
+
+function describeRule(rule: ListeningPortRule): string {
+  return [
+    `${rule.protocol ?? "tcp/udp"} ${rule.port}`,
+    rule.scope === "localhost" && "on localhost",
+    rule.process && `by ${rule.process}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+export const listeningPortsCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["listeningPorts"]>
+> = {
+  id: "listening-ports",
+  name: "Listening Ports",
+  configKey: "listeningPorts",
+  platforms: [Platform.LINUX],
+  severity: "high",
+  category: "network",
+  remediation:
+    "Stop or reconfigure unexpected services so they only listen on localhost, or add them to listeningPorts.allowed",
+  configSchema: {
+    type: "object",
+    properties: {
+      allowed: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            port: { type: "integer", minimum: 0, maximum: 65535 },
+            protocol: { type: "string", enum: ["tcp", "udp"] },
+            scope: { type: "string", enum: ["localhost", "any"] },
+            process: { type: "string" },
+          },
+          required: ["port"],
+        },
+      },
+      ignoreLoopback: { type: "boolean" },
+    },
+    required: ["allowed"],
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkListeningPorts) {
+      return [];
+    }
+
+    const { sockets, source } = await checker.checkListeningPorts();
+    const audited = config.ignoreLoopback
+      ? sockets.filter((socket) => !isLoopbackAddress(socket.address))
+      : sockets;
+    const unmatched = audited.filter(
+      (socket) => !config.allowed.some((rule) => matchesRule(socket, rule)),
+    );
+    // Without root, ss only names the processes of the current user and
+    // /proc/net names none, so rules with a process cannot be checked there
+    const undetermined = unmatched.filter(
+      (socket) =>
+        socket.process === undefined &&
+        config.allowed.some(
+          (rule) =>
+            rule.process !== undefined &&
+            matchesRule(socket, { ...rule, process: undefined }),
+        ),
+    );
+    const unexpected = unmatched.filter(
+      (socket) => !undetermined.includes(socket),
+    );
+    const exposed = unexpected.filter(
+      (socket) => !isLoopbackAddress(socket.address),
+    );
+    const expected =
+      config.allowed.length > 0
+        ? `Only ${config.allowed.map(describeRule).join(", ")}`
+        : "No listening ports";
+
+    if (unexpected.length === 0 && undetermined.length > 0) {
+      const reason = `${source} does not show which process owns ${undetermined.map(describeSocket).join(", ")}; run with sudo credentials available`;
+      return [
+        {
+          setting: "Listening Ports",
+          expected,
+          actual: null,
+          passed: false,
+          message: `Listening ports could not be fully checked: ${reason}`,
+          status: "unknown",
+          reason,
+          commandsTried: [source],
+        },
+      ];
+    }
+
+    return [
+      {
+        setting: "Listening Ports",
+        expected,
+        actual:
+          unexpected.length > 0
+            ? unexpected.map(describeSocket).join(", ")
+            : `${audited.length} allowed`,
+        passed: unexpected.length === 0,
+        message:
+          unexpected.length === 0
+            ? `All ${audited.length} listening sockets are allowed (from ${source})`
+            : `${unexpected.length} unexpected listening sockets, ${exposed.length} reachable from the network: ${unexpected.map(describeSocket).join(", ")} (from ${source})${undetermined.length > 0 ? `; the owner of ${undetermined.length} more is not shown` : ""}`,
+        // Services only reachable from this machine are a lesser finding
+        ...(unexpected.length > 0 &&
+          exposed.length === 0 && {
+            severity: "low" as const,
+          }),
+      },
+    ];
+  },
+};
@@ -0,0 +1,112 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const osVersionCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["osVersion"]>
+> = {
+  id: "os-version",
+  name: "OS Version",
+  configKey: "osVersion",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "medium",
+  category: "updates",
+  remediation: "Upgrade the operating system to the required version",
+  configSchema: {
+    type: "object",
+    properties: {
+      targetVersion: { type: "string" },
+      distributions: {
+        type: "object",
+        additionalProperties: { type: "string" },
+      },
+      failOnEndOfLife: { type: "boolean" },
+      releaseTablePath: { type: "string" },
+    },
+    required: ["targetVersion"],
+  },
+
+  async evaluate(config, { checker, platform }) {
+    if (!checker.checkOSVersion) {
+      return [];
+    }
+
+    const versionInfo = await checker.checkOSVersion(config.targetVersion, {
+      distributions: config.distributions,
+      releaseTablePath: config.releaseTablePath,
+    });
+    const osName =
+      platform === Platform.WINDOWS
+        ? "Windows"
+        : platform === Platform.LINUX
+          ? (versionInfo.distribution ?? "Linux")
+          : "macOS";
+    const expectedMessage = versionInfo.isLatest
+      ? `latest ${osName} version`
+      : `≥ ${versionInfo.target}`;
+
+    const results: SecurityCheckResult[] = [];
+
+    if (versionInfo.reason) {
+      results.push({
+        setting: "OS Version",
+        expected: expectedMessage,
+        actual: versionInfo.current,
+        passed: false,
+        message: `${osName} ${versionInfo.current} could not be checked: ${versionInfo.reason}`,
+        status: "unknown",
+        reason: versionInfo.reason,
+      });
+    } else {
+      results.push({
+        setting: "OS Version",
+        expected: expectedMessage,
+        actual: versionInfo.current,
+        passed: versionInfo.passed,
+        message: versionInfo.passed
+          ? `${osName} ${versionInfo.current} meets requirements (${versionInfo.isLatest ? "checking against latest" : `target: ${versionInfo.target}`})`
+          : `${osName} ${versionInfo.current} is outdated (${versionInfo.isLatest ? "latest available" : "target"}: ${versionInfo.target})`,
+      });
+    }
+
+    if (config.failOnEndOfLife && platform === Platform.LINUX) {
+      const endOfLife = versionInfo.endOfLife;
+      const remediation = `Upgrade to a ${osName} release that still receives security updates`;
+
+      if (versionInfo.isEndOfLife === undefined) {
+        const reason = `${osName} ${versionInfo.current} is not in the end-of-life table`;
+        results.push({
+          setting: "OS End of Life",
+          expected: "Release receives security updates",
+          actual: null,
+          passed: false,
+          message: `End of life could not be determined: ${reason}`,
+          status: "unknown",
+          reason,
+          checkId: "os-version.end-of-life",
+          severity: "critical",
+          remediation,
+        });
+      } else {
+        results.push({
+          setting: "OS End of Life",
+          expected: "Release receives security updates",
+          actual: endOfLife
+            ? `${osName} ${versionInfo.current} (end of life ${endOfLife})`
+            : `${osName} (rolling release)`,
+          passed: !versionInfo.isEndOfLife,
+          message: !endOfLife
+            ? `${osName} is a rolling release and does not reach end of life`
+            : versionInfo.isEndOfLife
+              ? `${osName} ${versionInfo.current} reached end of life on ${endOfLife} and no longer receives security updates`
+              : `${osName} ${versionInfo.current} is supported until ${endOfLife}`,
+          checkId: "os-version.end-of-life",
+          severity: "critical",
+          remediation,
+        });
+      }
+    }
+
+    return results;
+  },
+};
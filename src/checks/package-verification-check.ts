@@ -0,0 +1,74 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+const LABELS: Record<
+  string,
+  { setting: string; enabledMessage: string; disabledMessage: string }
+> = {
+  [Platform.MACOS]: {
+    setting: "Gatekeeper",
+    enabledMessage: "Gatekeeper is enabled - unsigned applications are blocked",
+    disabledMessage: "Gatekeeper is disabled - unsigned applications can run",
+  },
+  [Platform.LINUX]: {
+    setting: "Package Verification",
+    enabledMessage:
+      "Package verification is enabled - unsigned packages are blocked",
+    disabledMessage:
+      "Package verification is disabled - unsigned packages can be installed",
+  },
+  [Platform.WINDOWS]: {
+    setting: "Package Verification",
+    enabledMessage:
+      "SmartScreen is enabled - unrecognized applications are blocked",
+    disabledMessage:
+      "SmartScreen is disabled - unrecognized applications can run",
+  },
+};
+
+export const packageVerificationCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["packageVerification"]>
+> = {
+  id: "package-verification",
+  name: "Package Verification",
+  configKey: "packageVerification",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "high",
+  category: "software-integrity",
+  remediation: {
+    [Platform.MACOS]: "Re-enable Gatekeeper with `sudo spctl --master-enable`",
+    [Platform.LINUX]:
+      "Enable GPG signature checking (gpgcheck=1 for DNF/YUM, no AllowUnauthenticated for APT)",
+    [Platform.WINDOWS]: "Turn on SmartScreen in Windows Security",
+  },
+  configSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+    },
+    required: ["enabled"],
+  },
+
+  async evaluate(config, { checker, platform }) {
+    if (!checker.checkPackageVerification) {
+      return [];
+    }
+
+    const verificationEnabled = await checker.checkPackageVerification();
+    const configEnabled = config.enabled ?? false;
+    const labels = LABELS[platform] ?? LABELS[Platform.LINUX];
+
+    return [
+      {
+        setting: labels.setting,
+        expected: configEnabled,
+        actual: verificationEnabled,
+        passed: verificationEnabled === configEnabled,
+        message: verificationEnabled
+          ? labels.enabledMessage
+          : labels.disabledMessage,
+      },
+    ];
+  },
+};
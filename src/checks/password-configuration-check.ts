@@ -0,0 +1,121 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityConfig } from "../types";
+import { validatePasswordConfiguration } from "../utils/password-utils";
+import { Platform } from "../utils/platform-detector";
+
+export const passwordConfigurationCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["password"]>
+> = {
+  id: "password-configuration",
+  name: "Password Configuration",
+  configKey: "password",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "high",
+  category: "authentication",
+  remediation:
+    "Set a password that meets the configured length and complexity requirements and change it before it expires",
+  configSchema: {
+    type: "object",
+    properties: {
+      required: { type: "boolean" },
+      minLength: { type: "integer", minimum: 0 },
+      requireUppercase: { type: "boolean" },
+      requireLowercase: { type: "boolean" },
+      requireNumber: { type: "boolean" },
+      requireSpecialChar: { type: "boolean" },
+      maxAgeDays: { type: "integer", minimum: 0 },
+    },
+    required: [
+      "required",
+      "minLength",
+      "requireUppercase",
+      "requireLowercase",
+      "requireNumber",
+      "requireSpecialChar",
+      "maxAgeDays",
+    ],
+  },
+
+  async evaluate(config, { checker, runner }) {
+    const currentPassword = checker.getPassword?.();
+
+    const passwordValidation = await validatePasswordConfiguration(
+      currentPassword,
+      config,
+      runner,
+    );
+
+    // Generate description of requirements
+    const requirements = [];
+    if (config.minLength > 0) {
+      requirements.push(`${config.minLength}+ characters`);
+    }
+
+    const charTypes = [];
+    if (config.requireUppercase) charTypes.push("uppercase");
+    if (config.requireLowercase) charTypes.push("lowercase");
+    if (config.requireNumber) charTypes.push("number");
+    if (config.requireSpecialChar) charTypes.push("special character");
+
+    if (charTypes.length > 0) {
+      requirements.push(`with ${charTypes.join(", ")}`);
+    } else if (config.minLength > 0) {
+      requirements.push("(any characters allowed)");
+    }
+
+    const requirementsText = requirements.join(" ");
+    const expectedText = config.required
+      ? `Required: Yes, Requirements: ${requirementsText}, Max Age: ${config.maxAgeDays} days`
+      : "Required: No";
+
+    // Requirements failures are definite; an unreadable password age is not
+    const undetermined =
+      config.required &&
+      passwordValidation.requirementsValid &&
+      passwordValidation.expirationUndetermined;
+
+    const actualText = config.required
+      ? passwordValidation.overallValid
+        ? "Configuration loaded"
+        : undetermined
+          ? "Password age unknown"
+          : "Validation failed"
+      : "Configuration loaded";
+
+    let statusMessage = "";
+    if (!config.required) {
+      statusMessage = "Password validation is disabled";
+    } else if (passwordValidation.overallValid) {
+      statusMessage = `Password validation is enabled with ${requirementsText} and ${config.maxAgeDays}-day expiration`;
+    } else {
+      const issues = [];
+      if (!passwordValidation.requirementsValid) {
+        issues.push(`Requirements: ${passwordValidation.requirementsMessage}`);
+      }
+      if (
+        !passwordValidation.expirationValid &&
+        !passwordValidation.expirationUndetermined
+      ) {
+        issues.push(`Expiration: ${passwordValidation.expirationMessage}`);
+      }
+      statusMessage = undetermined
+        ? `Password requirements are met but the password age could not be checked against the ${config.maxAgeDays}-day limit`
+        : issues.join("; ");
+    }
+
+    return [
+      {
+        setting: "Password Configuration",
+        expected: expectedText,
+        actual: actualText,
+        passed: !config.required || passwordValidation.overallValid,
+        message: statusMessage,
+        ...(undetermined && {
+          status: "unknown" as const,
+          reason: passwordValidation.expirationMessage,
+          commandsTried: passwordValidation.expirationCommandsTried,
+        }),
+      },
+    ];
+  },
+};
@@ -0,0 +1,57 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const passwordProtectionCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["passwordProtection"]>
+> = {
+  id: "password-protection",
+  name: "Password Protection",
+  configKey: "passwordProtection",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "high",
+  category: "authentication",
+  remediation:
+    "Require a password to unlock the screen after sleep or screen saver",
+  configSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+      requirePasswordImmediately: { type: "boolean" },
+    },
+    required: ["enabled"],
+  },
+
+  async evaluate(config, { checker }) {
+    const passwordInfo = await checker.checkPasswordProtection();
+    const results: SecurityCheckResult[] = [
+      {
+        setting: "Password Protection",
+        expected: config.enabled,
+        actual: passwordInfo.enabled,
+        passed: passwordInfo.enabled === config.enabled,
+        message: passwordInfo.enabled
+          ? "Password protection is enabled"
+          : "Password protection is disabled",
+      },
+    ];
+
+    if (config.requirePasswordImmediately !== undefined) {
+      results.push({
+        setting: "Immediate Password Requirement",
+        expected: config.requirePasswordImmediately,
+        actual: passwordInfo.requirePasswordImmediately,
+        passed:
+          passwordInfo.requirePasswordImmediately ===
+          config.requirePasswordImmediately,
+        message: passwordInfo.requirePasswordImmediately
+          ? "Password is required immediately after screen saver"
+          : "Password is not required immediately after screen saver",
+        checkId: "password-protection.immediate",
+        severity: "medium",
+      });
+    }
+
+    return results;
+  },
+};
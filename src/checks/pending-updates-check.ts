@@ -0,0 +1,145 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REMEDIATION_COMMANDS = {
+  dnf: "sudo dnf upgrade --security",
+  apt: "sudo apt-get update && sudo apt-get upgrade",
+  zypper: "sudo zypper patch --category security",
+};
+
+const REBOOT_COMMANDS = {
+  dnf: "dnf needs-restarting -r",
+  apt: "read /var/run/reboot-required",
+  zypper: "zypper needs-rebooting",
+};
+
+export const pendingUpdatesCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["pendingUpdates"]>
+> = {
+  id: "pending-updates",
+  name: "Pending Security Updates",
+  configKey: "pendingUpdates",
+  platforms: [Platform.LINUX],
+  severity: "high",
+  category: "updates",
+  remediation:
+    "Install pending security updates (`sudo dnf upgrade --security`, `sudo apt-get upgrade` or `sudo zypper patch --category security`) and reboot if the package manager asks for it",
+  configSchema: {
+    type: "object",
+    properties: {
+      maxSecurityUpdates: { type: "integer", minimum: 0 },
+      maxAgeDays: { type: "integer", minimum: 0 },
+      allowPendingReboot: { type: "boolean" },
+    },
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkPendingUpdates) {
+      return [];
+    }
+
+    const { source, securityUpdates, rebootRequired } =
+      await checker.checkPendingUpdates();
+    const maxUpdates = config.maxSecurityUpdates ?? 0;
+    const count = securityUpdates.length;
+    const packages = securityUpdates.map((update) => update.package);
+    const results: SecurityCheckResult[] = [];
+
+    results.push({
+      setting: "Pending Security Updates",
+      expected: `At most ${maxUpdates}`,
+      actual: count,
+      passed: count <= maxUpdates,
+      message:
+        count === 0
+          ? `No security updates are pending (${source})`
+          : `${count} security update${count === 1 ? " is" : "s are"} pending (${source}): ${packages.join(", ")}`,
+      checkId: "pending-updates",
+      ...(count > maxUpdates && {
+        remediation: `Run \`${REMEDIATION_COMMANDS[source]}\``,
+      }),
+    });
+
+    if (config.maxAgeDays !== undefined) {
+      const expected = `No update older than ${config.maxAgeDays} days`;
+      const dated = securityUpdates.filter((update) => update.issued);
+
+      if (count === 0) {
+        results.push({
+          setting: "Oldest Pending Security Update",
+          expected,
+          actual: "none pending",
+          passed: true,
+          message: "No security updates are pending",
+          checkId: "pending-updates.age",
+        });
+      } else if (dated.length === 0) {
+        const reason = `${source} does not report when security updates were issued`;
+        results.push({
+          setting: "Oldest Pending Security Update",
+          expected,
+          actual: null,
+          passed: false,
+          message: `Age of pending security updates could not be determined: ${reason}`,
+          checkId: "pending-updates.age",
+          status: "unknown",
+          reason,
+          commandsTried: [`${source} security update listing`],
+        });
+      } else {
+        const oldest = dated.reduce((a, b) =>
+          (a.issued as string) <= (b.issued as string) ? a : b,
+        );
+        const ageDays = Math.floor(
+          (Date.now() - Date.parse(`${oldest.issued}T00:00:00Z`)) / DAY_MS,
+        );
+        const passed = ageDays <= config.maxAgeDays;
+        results.push({
+          setting: "Oldest Pending Security Update",
+          expected,
+          actual: `${ageDays} days`,
+          passed,
+          message: `Oldest pending security update is ${oldest.package}${oldest.advisory ? ` (${oldest.advisory})` : ""}, issued ${oldest.issued} (${ageDays} days ago)`,
+          checkId: "pending-updates.age",
+        });
+      }
+    }
+
+    if (!config.allowPendingReboot) {
+      if (rebootRequired === null) {
+        const reason = `${source} could not report whether a reboot is required`;
+        results.push({
+          setting: "Pending Reboot",
+          expected: false,
+          actual: null,
+          passed: false,
+          message: `Pending reboot could not be determined: ${reason}`,
+          checkId: "pending-updates.reboot",
+          status: "unknown",
+          reason,
+          commandsTried: [REBOOT_COMMANDS[source]],
+        });
+      } else {
+        results.push({
+          setting: "Pending Reboot",
+          expected: false,
+          actual: rebootRequired,
+          passed: !rebootRequired,
+          message: rebootRequired
+            ? "A reboot is required to finish installing updates, the running kernel or core libraries are outdated"
+            : "No reboot is pending",
+          checkId: "pending-updates.reboot",
+          severity: "medium",
+          ...(rebootRequired && {
+            remediation: "Reboot to load the updated kernel and libraries",
+          }),
+        });
+      }
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,38 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const remoteLoginCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["remoteLogin"]>
+> = {
+  id: "remote-login",
+  name: "Remote Login (SSH)",
+  configKey: "remoteLogin",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "medium",
+  category: "remote-access",
+  remediation: "Disable the SSH server unless remote login is required",
+  configSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+    },
+    required: ["enabled"],
+  },
+
+  async evaluate(config, { checker }) {
+    const remoteLoginEnabled = await checker.checkRemoteLogin();
+
+    return [
+      {
+        setting: "Remote Login (SSH)",
+        expected: config.enabled,
+        actual: remoteLoginEnabled,
+        passed: remoteLoginEnabled === config.enabled,
+        message: remoteLoginEnabled
+          ? "Remote login is enabled - SSH access is available"
+          : "Remote login is disabled",
+      },
+    ];
+  },
+};
@@ -0,0 +1,39 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const remoteManagementCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["remoteManagement"]>
+> = {
+  id: "remote-management",
+  name: "Remote Management",
+  configKey: "remoteManagement",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "high",
+  category: "remote-access",
+  remediation:
+    "Disable remote management and remote desktop services that are not required",
+  configSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+    },
+    required: ["enabled"],
+  },
+
+  async evaluate(config, { checker }) {
+    const remoteManagementEnabled = await checker.checkRemoteManagement();
+
+    return [
+      {
+        setting: "Remote Management",
+        expected: config.enabled,
+        actual: remoteManagementEnabled,
+        passed: remoteManagementEnabled === config.enabled,
+        message: remoteManagementEnabled
+          ? "Remote management is enabled - system can be managed remotely"
+          : "Remote management is disabled",
+      },
+    ];
+  },
+};
@@ -0,0 +1,139 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const removableMediaCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["removableMedia"]>
+> = {
+  id: "removable-media",
+  name: "Removable Media",
+  configKey: "removableMedia",
+  platforms: [Platform.LINUX],
+  severity: "high",
+  category: "data-protection",
+  remediation:
+    "Add `install usb-storage /bin/false` and `blacklist usb-storage` to a file in /etc/modprobe.d, turn off automounting in the desktop settings, and install USBGuard with `ImplicitPolicyTarget=block`",
+  configSchema: {
+    type: "object",
+    properties: {
+      blockUsbStorage: { type: "boolean" },
+      automount: { type: "boolean" },
+      requireUsbGuard: { type: "boolean" },
+    },
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkRemovableMedia) {
+      return [];
+    }
+
+    const { usbStorage, automount, usbGuard } =
+      await checker.checkRemovableMedia();
+    const results: SecurityCheckResult[] = [];
+
+    if (config.blockUsbStorage !== undefined) {
+      const blockedBy = [
+        ...(usbStorage.blacklisted ? ["blacklisted"] : []),
+        ...(usbStorage.disabled
+          ? [`installed as ${usbStorage.installCommand}`]
+          : []),
+      ];
+      const blocked = blockedBy.length > 0 && !usbStorage.loaded;
+      results.push({
+        setting: "USB Storage Module",
+        expected: config.blockUsbStorage ? "blocked" : "allowed",
+        actual: blocked ? "blocked" : "allowed",
+        passed: blocked === config.blockUsbStorage,
+        message: blocked
+          ? `usb-storage is ${blockedBy.join(" and ")}`
+          : usbStorage.loaded
+            ? `usb-storage is loaded${blockedBy.length > 0 ? ` although it is ${blockedBy.join(" and ")}; reboot or run \`sudo modprobe -r usb-storage\`` : ""}`
+            : "usb-storage is neither blacklisted nor disabled and loads when a USB drive is inserted",
+        checkId: "removable-media.usb-storage",
+      });
+    }
+
+    if (config.automount !== undefined) {
+      if (automount === null) {
+        const reason =
+          "automounting is only read from GNOME, Cinnamon, MATE and KDE Plasma sessions";
+        results.push({
+          setting: "Automount",
+          expected: config.automount,
+          actual: null,
+          passed: false,
+          message: `Automount could not be determined: ${reason}`,
+          checkId: "removable-media.automount",
+          status: "unknown",
+          reason,
+          commandsTried: ["read XDG_CURRENT_DESKTOP"],
+        });
+      } else {
+        results.push({
+          setting: "Automount",
+          expected: config.automount,
+          actual: automount,
+          passed: automount === config.automount,
+          message: automount
+            ? "Inserted media are mounted automatically"
+            : "Inserted media are not mounted automatically",
+          checkId: "removable-media.automount",
+          severity: "medium",
+        });
+      }
+    }
+
+    if (config.requireUsbGuard) {
+      const checkId = "removable-media.usbguard";
+      if (!usbGuard || !usbGuard.active) {
+        results.push({
+          setting: "USBGuard",
+          expected: "active, blocking unknown devices",
+          actual: usbGuard ? "inactive" : "not installed",
+          passed: false,
+          message: usbGuard
+            ? "USBGuard is installed but its daemon is not running"
+            : "USBGuard is not installed",
+          checkId,
+        });
+      } else if (
+        usbGuard.implicitPolicyTarget === null ||
+        usbGuard.allowsAll === null
+      ) {
+        const reason =
+          "the USBGuard policy can only be read as root; run with sudo credentials available";
+        results.push({
+          setting: "USBGuard",
+          expected: "active, blocking unknown devices",
+          actual: null,
+          passed: false,
+          message: `USBGuard is running but its policy could not be determined: ${reason}`,
+          checkId,
+          status: "unknown",
+          reason,
+          commandsTried: [
+            "sudo usbguard get-parameter ImplicitPolicyTarget",
+            "sudo usbguard list-rules",
+          ],
+        });
+      } else {
+        const permissive =
+          usbGuard.implicitPolicyTarget === "allow" || usbGuard.allowsAll;
+        results.push({
+          setting: "USBGuard",
+          expected: "active, blocking unknown devices",
+          actual: `ImplicitPolicyTarget=${usbGuard.implicitPolicyTarget}${usbGuard.allowsAll ? ", allow-all rule" : ""}`,
+          passed: !permissive,
+          message: permissive
+            ? usbGuard.allowsAll
+              ? "USBGuard has a rule that allows every device"
+              : "USBGuard allows devices that match no rule"
+            : `USBGuard is running and ${usbGuard.implicitPolicyTarget}s devices that match no rule`,
+          checkId,
+        });
+      }
+    }
+
+    return results;
+  },
+};
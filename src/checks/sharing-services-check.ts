@@ -0,0 +1,57 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const sharingServicesCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["sharingServices"]>
+> = {
+  id: "sharing-services",
+  name: "Sharing Services",
+  configKey: "sharingServices",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "medium",
+  category: "sharing",
+  remediation:
+    "Turn off file and screen sharing services that are not required",
+  configSchema: {
+    type: "object",
+    properties: {
+      fileSharing: { type: "boolean" },
+      screenSharing: { type: "boolean" },
+      remoteLogin: { type: "boolean" },
+    },
+  },
+
+  async evaluate(config, { checker }) {
+    const sharingInfo = await checker.checkSharingServices();
+    const results: SecurityCheckResult[] = [];
+
+    if (config.fileSharing !== undefined) {
+      results.push({
+        setting: "File Sharing",
+        expected: config.fileSharing,
+        actual: sharingInfo.fileSharing,
+        passed: sharingInfo.fileSharing === config.fileSharing,
+        message: sharingInfo.fileSharing
+          ? "File sharing is enabled"
+          : "File sharing is disabled",
+        checkId: "sharing-services.file-sharing",
+      });
+    }
+
+    if (config.screenSharing !== undefined) {
+      results.push({
+        setting: "Screen Sharing",
+        expected: config.screenSharing,
+        actual: sharingInfo.screenSharing,
+        passed: sharingInfo.screenSharing === config.screenSharing,
+        message: sharingInfo.screenSharing
+          ? "Screen sharing is enabled"
+          : "Screen sharing is disabled",
+        checkId: "sharing-services.screen-sharing",
+      });
+    }
+
+    return results;
+  },
+};
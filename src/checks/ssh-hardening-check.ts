@@ -0,0 +1,193 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+import { PERMIT_ROOT_LOGIN_VALUES } from "../checkers/linux-sshd-config";
+
+type SshHardeningConfig = NonNullable<SecurityConfig["sshHardening"]>;
+
+const ALGORITHM_LISTS = [
+  {
+    configKey: "allowedCiphers",
+    settingKey: "ciphers",
+    keyword: "Ciphers",
+    setting: "SSH Ciphers",
+    checkId: "ssh-hardening.ciphers",
+  },
+  {
+    configKey: "allowedMacs",
+    settingKey: "macs",
+    keyword: "MACs",
+    setting: "SSH MACs",
+    checkId: "ssh-hardening.macs",
+  },
+  {
+    configKey: "allowedKexAlgorithms",
+    settingKey: "kexAlgorithms",
+    keyword: "KexAlgorithms",
+    setting: "SSH Key Exchange Algorithms",
+    checkId: "ssh-hardening.kex-algorithms",
+  },
+] as const;
+
+const YES_NO_SETTINGS = [
+  {
+    key: "passwordAuthentication",
+    keyword: "PasswordAuthentication",
+    setting: "SSH Password Authentication",
+    checkId: "ssh-hardening.password-authentication",
+    severity: "high",
+  },
+  {
+    key: "pubkeyAuthentication",
+    keyword: "PubkeyAuthentication",
+    setting: "SSH Public Key Authentication",
+    checkId: "ssh-hardening.pubkey-authentication",
+    severity: "medium",
+  },
+  {
+    key: "x11Forwarding",
+    keyword: "X11Forwarding",
+    setting: "SSH X11 Forwarding",
+    checkId: "ssh-hardening.x11-forwarding",
+    severity: "low",
+  },
+] as const;
+
+const yesNo = (value: boolean): string => (value ? "yes" : "no");
+
+export const sshHardeningCheck: SecurityCheckDefinition<SshHardeningConfig> = {
+  id: "ssh-hardening",
+  name: "SSH Hardening",
+  configKey: "sshHardening",
+  platforms: [Platform.LINUX],
+  severity: "high",
+  category: "remote-access",
+  remediation:
+    "Set the required options in /etc/ssh/sshd_config (or a file in /etc/ssh/sshd_config.d) and reload sshd",
+  configSchema: {
+    type: "object",
+    properties: {
+      permitRootLogin: { type: "string", enum: [...PERMIT_ROOT_LOGIN_VALUES] },
+      passwordAuthentication: { type: "boolean" },
+      pubkeyAuthentication: { type: "boolean" },
+      maxAuthTries: { type: "integer", minimum: 1 },
+      x11Forwarding: { type: "boolean" },
+      allowedCiphers: { type: "array", items: { type: "string" } },
+      allowedMacs: { type: "array", items: { type: "string" } },
+      allowedKexAlgorithms: { type: "array", items: { type: "string" } },
+    },
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkSshHardening) {
+      return [];
+    }
+
+    const sshd = await checker.checkSshHardening();
+    if (!sshd) {
+      return [
+        {
+          setting: "SSH Hardening",
+          expected: "Hardened SSH server configuration",
+          actual: "No SSH server installed",
+          passed: true,
+          message: "No OpenSSH server is installed - nothing to harden",
+        },
+      ];
+    }
+
+    const from = `(from ${sshd.source})`;
+    const results: SecurityCheckResult[] = [];
+
+    if (config.permitRootLogin !== undefined) {
+      const allowed = PERMIT_ROOT_LOGIN_VALUES.indexOf(config.permitRootLogin);
+      const actual = PERMIT_ROOT_LOGIN_VALUES.indexOf(
+        sshd.permitRootLogin as (typeof PERMIT_ROOT_LOGIN_VALUES)[number],
+      );
+      const passed = actual !== -1 && actual <= allowed;
+      results.push({
+        setting: "SSH Root Login",
+        expected: `PermitRootLogin ${config.permitRootLogin} or stricter`,
+        actual: `PermitRootLogin ${sshd.permitRootLogin}`,
+        passed,
+        message: passed
+          ? `PermitRootLogin is ${sshd.permitRootLogin} ${from}`
+          : `PermitRootLogin is ${sshd.permitRootLogin}, more permissive than ${config.permitRootLogin} ${from}`,
+        checkId: "ssh-hardening.permit-root-login",
+        severity: "high",
+      });
+    }
+
+    for (const { key, keyword, ...metadata } of YES_NO_SETTINGS) {
+      const expected = config[key];
+      if (expected === undefined) {
+        continue;
+      }
+      results.push({
+        ...metadata,
+        expected: `${keyword} ${yesNo(expected)}`,
+        actual: `${keyword} ${yesNo(sshd[key])}`,
+        passed: sshd[key] === expected,
+        message: `${keyword} is ${yesNo(sshd[key])} ${from}`,
+      });
+    }
+
+    if (config.maxAuthTries !== undefined) {
+      const passed = sshd.maxAuthTries <= config.maxAuthTries;
+      results.push({
+        setting: "SSH Max Auth Tries",
+        expected: `MaxAuthTries ≤ ${config.maxAuthTries}`,
+        actual: `MaxAuthTries ${sshd.maxAuthTries}`,
+        passed,
+        message: passed
+          ? `MaxAuthTries is ${sshd.maxAuthTries} ${from}`
+          : `MaxAuthTries is ${sshd.maxAuthTries}, above the limit of ${config.maxAuthTries} ${from}`,
+        checkId: "ssh-hardening.max-auth-tries",
+        severity: "medium",
+      });
+    }
+
+    for (const list of ALGORITHM_LISTS) {
+      const allowed = config[list.configKey];
+      if (allowed === undefined) {
+        continue;
+      }
+
+      const enabled = sshd[list.settingKey];
+      if (enabled === undefined) {
+        const reason = `${list.keyword} is left at the compiled-in default, which only \`sshd -T\` (as root) can report`;
+        results.push({
+          setting: list.setting,
+          expected: `Only ${allowed.join(", ")}`,
+          actual: null,
+          passed: false,
+          message: `${list.setting} could not be determined: ${reason}`,
+          checkId: list.checkId,
+          severity: "medium",
+          status: "unknown",
+          reason,
+          commandsTried: ["sudo sshd -T", `read ${sshd.source}`],
+        });
+        continue;
+      }
+
+      const disallowed = enabled.filter(
+        (algorithm) => !allowed.includes(algorithm),
+      );
+      results.push({
+        setting: list.setting,
+        expected: `Only ${allowed.join(", ")}`,
+        actual: enabled.join(", "),
+        passed: disallowed.length === 0,
+        message:
+          disallowed.length === 0
+            ? `All enabled ${list.keyword} are allowed ${from}`
+            : `${list.keyword} not on the allowed list are enabled: ${disallowed.join(", ")} ${from}`,
+        checkId: list.checkId,
+        severity: "medium",
+      });
+    }
+
+    return results;
+  },
+};
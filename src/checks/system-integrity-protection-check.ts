@@ -0,0 +1,65 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+const LABELS: Record<
+  string,
+  { setting: string; enabledMessage: string; disabledMessage: string }
+> = {
+  [Platform.MACOS]: {
+    setting: "System Integrity Protection",
+    enabledMessage: "SIP is enabled - system files are protected",
+    disabledMessage: "SIP is disabled - system files are vulnerable",
+  },
+  [Platform.LINUX]: {
+    setting: "System Integrity Protection (SELinux/AppArmor)",
+    enabledMessage: "System integrity protection is enabled (SELinux/AppArmor)",
+    disabledMessage: "System integrity protection is disabled",
+  },
+  [Platform.WINDOWS]: {
+    setting: "System Integrity Protection (Windows Defender)",
+    enabledMessage:
+      "System integrity protection is enabled (real-time and tamper protection)",
+    disabledMessage: "System integrity protection is disabled",
+  },
+};
+
+export const systemIntegrityProtectionCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["systemIntegrityProtection"]>
+> = {
+  id: "system-integrity-protection",
+  name: "System Integrity Protection",
+  configKey: "systemIntegrityProtection",
+  platforms: [Platform.MACOS, Platform.LINUX, Platform.WINDOWS],
+  severity: "high",
+  category: "system-integrity",
+  remediation: {
+    [Platform.MACOS]:
+      "Re-enable SIP by running `csrutil enable` from Recovery mode",
+    [Platform.LINUX]: "Enable SELinux in enforcing mode or AppArmor",
+    [Platform.WINDOWS]:
+      "Turn on real-time protection and tamper protection in Windows Security",
+  },
+  configSchema: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+    },
+    required: ["enabled"],
+  },
+
+  async evaluate(config, { checker, platform }) {
+    const sipEnabled = await checker.checkSystemIntegrityProtection();
+    const labels = LABELS[platform] ?? LABELS[Platform.LINUX];
+
+    return [
+      {
+        setting: labels.setting,
+        expected: config.enabled,
+        actual: sipEnabled,
+        passed: sipEnabled === config.enabled,
+        message: sipEnabled ? labels.enabledMessage : labels.disabledMessage,
+      },
+    ];
+  },
+};
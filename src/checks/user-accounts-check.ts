@@ -0,0 +1,141 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityCheckResult, SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+import { EMPTY_PASSWORD_LISTING, SUDOERS_LISTING } from "../utils/sudo-session";
+
+const ROOT_REQUIRED =
+  "reading it requires root; run with sudo credentials available";
+
+export const userAccountsCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["userAccounts"]>
+> = {
+  id: "user-accounts",
+  name: "User Accounts",
+  configKey: "userAccounts",
+  platforms: [Platform.LINUX],
+  severity: "high",
+  category: "authentication",
+  remediation:
+    "Remove extra UID 0 accounts, lock or set passwords on accounts without one (`sudo passwd -l <user>`), remove unapproved users from administrator groups (`sudo gpasswd -d <user> <group>`) and drop NOPASSWD from sudoers rules with `sudo visudo`",
+  configSchema: {
+    type: "object",
+    properties: {
+      allowedAdmins: { type: "array", items: { type: "string" } },
+      allowedPasswordlessSudo: { type: "array", items: { type: "string" } },
+    },
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkUserAccounts) {
+      return [];
+    }
+
+    const { uidZero, emptyPasswords, adminGroups, passwordlessSudo } =
+      await checker.checkUserAccounts();
+    const results: SecurityCheckResult[] = [];
+
+    results.push({
+      setting: "UID 0 Accounts",
+      expected: "root only",
+      actual: ["root", ...uidZero].join(", "),
+      passed: uidZero.length === 0,
+      message:
+        uidZero.length === 0
+          ? "root is the only account with UID 0"
+          : `Accounts other than root have UID 0: ${uidZero.join(", ")}`,
+      checkId: "user-accounts.uid-zero",
+      severity: "critical",
+    });
+
+    if (emptyPasswords === null) {
+      const reason = `/etc/shadow could not be read, ${ROOT_REQUIRED}`;
+      results.push({
+        setting: "Empty Passwords",
+        expected: "none",
+        actual: null,
+        passed: false,
+        message: `Accounts with empty passwords could not be determined: ${reason}`,
+        checkId: "user-accounts.empty-passwords",
+        status: "unknown",
+        reason,
+        commandsTried: [`sudo ${EMPTY_PASSWORD_LISTING.join(" ")}`],
+      });
+    } else {
+      results.push({
+        setting: "Empty Passwords",
+        expected: "none",
+        actual: emptyPasswords.length > 0 ? emptyPasswords.join(", ") : "none",
+        passed: emptyPasswords.length === 0,
+        message:
+          emptyPasswords.length === 0
+            ? "Every account has a password or is locked"
+            : `Accounts can log in without a password: ${emptyPasswords.join(", ")}`,
+        checkId: "user-accounts.empty-passwords",
+        severity: "critical",
+      });
+    }
+
+    if (config.allowedAdmins) {
+      const allowed = config.allowedAdmins;
+      const unexpected = Object.entries(adminGroups).flatMap(
+        ([group, members]) =>
+          members
+            .filter((member) => !allowed.includes(member))
+            .map((member) => `${member} (${group})`),
+      );
+      const admins = [...new Set(Object.values(adminGroups).flat())];
+      results.push({
+        setting: "Administrators",
+        expected: allowed.length > 0 ? allowed.join(", ") : "none",
+        actual: admins.length > 0 ? admins.join(", ") : "none",
+        passed: unexpected.length === 0,
+        message:
+          unexpected.length === 0
+            ? "Only approved users are in administrator groups"
+            : `Users not on the approved list are in administrator groups: ${unexpected.join(", ")}`,
+        checkId: "user-accounts.admins",
+      });
+    }
+
+    if (passwordlessSudo === null) {
+      const reason = `sudoers could not be read, ${ROOT_REQUIRED}`;
+      results.push({
+        setting: "Passwordless sudo",
+        expected: "none",
+        actual: null,
+        passed: false,
+        message: `Passwordless sudo rules could not be determined: ${reason}`,
+        checkId: "user-accounts.passwordless-sudo",
+        status: "unknown",
+        reason,
+        commandsTried: [`sudo ${SUDOERS_LISTING.join(" ")}`],
+      });
+    } else {
+      const allowed = config.allowedPasswordlessSudo ?? [];
+      const unexpected = passwordlessSudo.filter(
+        (rule) =>
+          !rule.principals.every((principal) => allowed.includes(principal)),
+      );
+      results.push({
+        setting: "Passwordless sudo",
+        expected: allowed.length > 0 ? allowed.join(", ") : "none",
+        actual:
+          passwordlessSudo.length > 0
+            ? passwordlessSudo
+                .map((rule) => rule.principals.join(", "))
+                .join("; ")
+            : "none",
+        passed: unexpected.length === 0,
+        message:
+          unexpected.length === 0
+            ? "No unapproved sudo rules skip the password prompt"
+            : `sudo rules skip the password prompt: ${unexpected
+                .map((rule) => `"${rule.rule}" in ${rule.file}`)
+                .join(", ")}`,
+        checkId: "user-accounts.passwordless-sudo",
+      });
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,73 @@
+import { SecurityCheckDefinition } from "./check-registry";
+import { SecurityConfig } from "../types";
+import { Platform } from "../utils/platform-detector";
+
+export const wifiSecurityCheck: SecurityCheckDefinition<
+  NonNullable<SecurityConfig["wifiSecurity"]>
+> = {
+  id: "wifi-security",
+  name: "WiFi Network Security",
+  configKey: "wifiSecurity",
+  platforms: [Platform.MACOS],
+  severity: "medium",
+  category: "network",
+  remediation: "Disconnect from the banned network and use an approved network",
+  configSchema: {
+    type: "object",
+    properties: {
+      bannedNetworks: { type: "array", items: { type: "string" } },
+    },
+    required: ["bannedNetworks"],
+  },
+
+  async evaluate(config, { checker }) {
+    if (!checker.checkCurrentWifiNetwork) {
+      return [];
+    }
+
+    const wifiInfo = await checker.checkCurrentWifiNetwork();
+    const bannedNetworks = config.bannedNetworks || [];
+
+    if (!wifiInfo.connected || !wifiInfo.networkName) {
+      return [
+        {
+          setting: "WiFi Network Security",
+          expected:
+            bannedNetworks.length > 0
+              ? `Not connected to banned networks: ${bannedNetworks.join(", ")}`
+              : "Network monitoring",
+          actual: "Not connected to WiFi",
+          passed: true,
+          message: "Not currently connected to any WiFi network",
+        },
+      ];
+    }
+
+    if (bannedNetworks.length === 0) {
+      // If no banned networks configured, just log the current network and pass
+      return [
+        {
+          setting: "WiFi Network Security",
+          expected: "Network monitoring (no restrictions configured)",
+          actual: `Connected to: ${wifiInfo.networkName}`,
+          passed: true,
+          message: `Currently connected to WiFi network: ${wifiInfo.networkName} (no network restrictions configured)`,
+        },
+      ];
+    }
+
+    const isOnBannedNetwork = bannedNetworks.includes(wifiInfo.networkName);
+
+    return [
+      {
+        setting: "WiFi Network Security",
+        expected: `Not connected to banned networks: ${bannedNetworks.join(", ")}`,
+        actual: `Connected to: ${wifiInfo.networkName}`,
+        passed: !isOnBannedNetwork,
+        message: isOnBannedNetwork
+          ? `❌ Connected to banned network: ${wifiInfo.networkName}`
+          : `✅ Connected to allowed network: ${wifiInfo.networkName}`,
+      },
+    ];
+  },
+};
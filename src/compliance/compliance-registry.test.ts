@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ComplianceRegistry } from "./compliance-registry";
+import { builtInFrameworks, createDefaultComplianceRegistry } from "./index";
+import { ComplianceFramework } from "../types";
+import { defaultCheckRegistry } from "../checks";
+
+describe("ComplianceRegistry", () => {
+  const iso: ComplianceFramework = {
+    id: "iso-27001",
+    name: "ISO/IEC 27001",
+    version: "2022",
+    controls: [
+      { id: "A.8.20", title: "Networks security", checkIds: ["firewall"] },
+    ],
+  };
+
+  it("should register frameworks in order and reject duplicates", () => {
+    const registry = createDefaultComplianceRegistry();
+    registry.register(iso);
+
+    expect(registry.getAll().map((framework) => framework.id)).toEqual([
+      "cis",
+      "nist-800-53",
+      "soc2",
+      "iso-27001",
+    ]);
+    expect(() => registry.register(iso)).toThrow(
+      "Compliance framework already registered: iso-27001",
+    );
+    expect(registry.unregister("iso-27001")).toBe(true);
+    expect(registry.has("iso-27001")).toBe(false);
+  });
+
+  it("should reject malformed mappings", () => {
+    const registry = new ComplianceRegistry();
+
+    expect(() =>
+      registry.register({ ...iso, name: "" } as ComplianceFramework),
+    ).toThrow("must have a name");
+    expect(() =>
+      registry.register({
+        ...iso,
+        controls: [iso.controls[0], iso.controls[0]],
+      }),
+    ).toThrow("lists control A.8.20 twice");
+    expect(() =>
+      registry.register({
+        ...iso,
+        controls: [{ id: "A.5.1", title: "Policies" }],
+      } as unknown as ComplianceFramework),
+    ).toThrow("Control A.5.1 of 'iso-27001' must list check ids");
+  });
+
+  it("should load framework mappings from a directory", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "compliance-"));
+    try {
+      fs.writeFileSync(path.join(directory, "iso.json"), JSON.stringify(iso));
+      fs.writeFileSync(path.join(directory, "README.md"), "ignored");
+
+      const registry = new ComplianceRegistry();
+
+      expect(registry.registerFromDirectory(directory)).toEqual([iso]);
+      expect(registry.get("iso-27001")).toEqual(iso);
+      expect(
+        registry.registerFromDirectory(path.join(directory, "missing")),
+      ).toEqual([]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should only map bundled controls to registered checks", () => {
+    // Mappings may name a sub-result, e.g. "os-version.end-of-life"
+    const checkIds = new Set(
+      defaultCheckRegistry.getAll().map((check) => check.id),
+    );
+
+    for (const framework of builtInFrameworks) {
+      for (const control of framework.controls) {
+        for (const checkId of control.checkIds) {
+          expect([
+            framework.id,
+            control.id,
+            checkIds.has(checkId.split(".")[0]),
+          ]).toEqual([framework.id, control.id, true]);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ComplianceFramework } from "../types";
+
+/**
+ * Holds the compliance frameworks that reports are mapped to.
+ * Frameworks are reported in the order they were registered.
+ */
+export class ComplianceRegistry {
+  private frameworks = new Map<string, ComplianceFramework>();
+
+  constructor(frameworks: ComplianceFramework[] = []) {
+    for (const framework of frameworks) {
+      this.register(framework);
+    }
+  }
+
+  /**
+   * Register a framework, rejecting malformed mappings and duplicate ids
+   */
+  register(framework: ComplianceFramework): this {
+    ComplianceRegistry.assertValidFramework(framework);
+
+    if (this.frameworks.has(framework.id)) {
+      throw new Error(
+        `Compliance framework already registered: ${framework.id}`,
+      );
+    }
+
+    this.frameworks.set(framework.id, framework);
+    return this;
+  }
+
+  /**
+   * Remove a framework from the registry
+   */
+  unregister(id: string): boolean {
+    return this.frameworks.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.frameworks.has(id);
+  }
+
+  get(id: string): ComplianceFramework | undefined {
+    return this.frameworks.get(id);
+  }
+
+  getAll(): ComplianceFramework[] {
+    return Array.from(this.frameworks.values());
+  }
+
+  /**
+   * Load a framework mapping from a JSON file
+   */
+  registerFromFile(filePath: string): ComplianceFramework {
+    const resolvedPath = path.resolve(filePath);
+    let framework: ComplianceFramework;
+    try {
+      framework = JSON.parse(fs.readFileSync(resolvedPath, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `Failed to read compliance framework ${resolvedPath}: ${error}`,
+      );
+    }
+
+    this.register(framework);
+    return framework;
+  }
+
+  /**
+   * Load every *.json framework mapping in a directory, if it exists
+   */
+  registerFromDirectory(directory: string): ComplianceFramework[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(directory)
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => this.registerFromFile(path.join(directory, file)));
+  }
+
+  private static assertValidFramework(framework: ComplianceFramework): void {
+    if (
+      !framework ||
+      typeof framework.id !== "string" ||
+      framework.id.length === 0
+    ) {
+      throw new Error("Compliance framework must have an id");
+    }
+    if (typeof framework.name !== "string" || framework.name.length === 0) {
+      throw new Error(
+        `Compliance framework '${framework.id}' must have a name`,
+      );
+    }
+    if (!Array.isArray(framework.controls)) {
+      throw new Error(
+        `Compliance framework '${framework.id}' must list its controls`,
+      );
+    }
+
+    const controlIds = new Set<string>();
+    for (const control of framework.controls) {
+      if (!control || typeof control.id !== "string" || !control.id) {
+        throw new Error(
+          `Compliance framework '${framework.id}' has a control without an id`,
+        );
+      }
+      if (controlIds.has(control.id)) {
+        throw new Error(
+          `Compliance framework '${framework.id}' lists control ${control.id} twice`,
+        );
+      }
+      if (
+        !Array.isArray(control.checkIds) ||
+        control.checkIds.some((checkId) => typeof checkId !== "string")
+      ) {
+        throw new Error(
+          `Control ${control.id} of '${framework.id}' must list check ids`,
+        );
+      }
+      controlIds.add(control.id);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import * as path from "path";
+import { ComplianceFramework } from "../types";
+import { ComplianceRegistry } from "./compliance-registry";
+import { ConfigManager } from "../config/config-manager";
+import cisFramework from "../data/compliance/cis.json";
+import nistFramework from "../data/compliance/nist-800-53.json";
+import soc2Framework from "../data/compliance/soc2.json";
+
+export { ComplianceRegistry } from "./compliance-registry";
+
+/**
+ * Directory inside the config directory holding additional framework mappings
+ */
+export const COMPLIANCE_DIRNAME = "compliance";
+
+/**
+ * Bundled framework mappings
+ */
+export const builtInFrameworks: ComplianceFramework[] = [
+  cisFramework,
+  nistFramework,
+  soc2Framework,
+];
+
+/**
+ * Create a registry pre-populated with the bundled frameworks
+ */
+export function createDefaultComplianceRegistry(): ComplianceRegistry {
+  return new ComplianceRegistry(builtInFrameworks);
+}
+
+let defaultComplianceRegistry: ComplianceRegistry | undefined;
+
+/**
+ * Shared registry used by SecurityAuditor when none is supplied: the bundled
+ * frameworks plus any mappings (e.g. ISO 27001) in the config directory's
+ * compliance folder. Loaded on first use.
+ */
+export function getDefaultComplianceRegistry(): ComplianceRegistry {
+  if (!defaultComplianceRegistry) {
+    const registry = createDefaultComplianceRegistry();
+    registry.registerFromDirectory(
+      path.join(
+        ConfigManager.getCentralizedConfigDirectory(),
+        COMPLIANCE_DIRNAME,
+      ),
+    );
+    defaultComplianceRegistry = registry;
+  }
+  return defaultComplianceRegistry;
+}
@@ -50,6 +50,9 @@ describe("ConfigManager", () => {
       parts.pop();
       return parts.join("/") || "/";
     });
+    mockedPath.resolve.mockImplementation((...segments: string[]) => {
+      return segments.join("/");
+    });
   });
 
   afterEach(() => {
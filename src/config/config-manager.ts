@@ -5,6 +5,8 @@ import { exec } from "child_process";
 import { promisify } from "util";
 import { SecurityConfig, SchedulingConfig } from "../types";
 import { getConfigByProfile } from "./config-profiles";
+import { loadSecurityConfigFile } from "./config-resolver";
+import { ConfigValidator } from "../utils/config-validator";
 import { Platform, PlatformDetector } from "../utils/platform-detector";
 
 // Define pkg property interface for process
@@ -1246,8 +1248,7 @@ export class ConfigManager {
     }
 
     try {
-      const content = fs.readFileSync(configPath, "utf-8");
-      return JSON.parse(content);
+      return loadSecurityConfigFile(configPath);
     } catch (error) {
       throw new Error(`Failed to load security configuration: ${error}`);
     }
@@ -1265,7 +1266,9 @@ export class ConfigManager {
 
     try {
       const content = fs.readFileSync(configPath, "utf-8");
-      return JSON.parse(content);
+      const config = JSON.parse(content);
+      ConfigValidator.assertValidSchedulingConfig(config, configPath);
+      return config;
     } catch (error) {
       throw new Error(`Failed to load scheduling configuration: ${error}`);
     }
@@ -52,6 +52,14 @@ export function getConfigByProfile(profile: string): SecurityConfig {
           automaticInstall: true,
           automaticSecurityInstall: true,
         },
+        pendingUpdates: { maxSecurityUpdates: 0, maxAgeDays: 14 },
+        userAccounts: {}, // No extra UID 0 accounts, empty passwords or NOPASSWD
+        auditLogging: { requireAuditd: true, persistentJournal: true },
+        bootSecurity: {
+          requireSecureBoot: true,
+          requireBootloaderPassword: true,
+          restrictBootPermissions: true,
+        },
         sharingServices: {
           fileSharing: false,
           screenSharing: false,
@@ -77,6 +85,24 @@ export function getConfigByProfile(profile: string): SecurityConfig {
             "Skype",
           ],
         },
+        // CIS benchmark values
+        kernelHardening: {
+          sysctl: {
+            "kernel.randomize_va_space": 2,
+            "kernel.kptr_restrict": [1, 2],
+            "kernel.dmesg_restrict": 1,
+            "kernel.unprivileged_bpf_disabled": [1, 2],
+            "kernel.yama.ptrace_scope": [1, 2, 3],
+            "fs.protected_symlinks": 1,
+            "fs.protected_hardlinks": 1,
+            "fs.suid_dumpable": 0,
+            "net.ipv4.conf.all.rp_filter": 1,
+            "net.ipv4.conf.all.accept_redirects": 0,
+            "net.ipv4.conf.all.send_redirects": 0,
+            "net.ipv4.conf.all.accept_source_route": 0,
+            "net.ipv4.tcp_syncookies": 1,
+          },
+        },
       };
 
     case "relaxed":
@@ -190,6 +216,17 @@ export function getConfigByProfile(profile: string): SecurityConfig {
         wifiSecurity: {
           bannedNetworks: ["EAIguest", "xfinitywifi", "Guest", "Public WiFi"],
         },
+        kernelHardening: {
+          sysctl: {
+            "kernel.randomize_va_space": 2,
+            "kernel.kptr_restrict": [1, 2],
+            "kernel.unprivileged_bpf_disabled": [1, 2],
+            "fs.protected_symlinks": 1,
+            "fs.protected_hardlinks": 1,
+            // Loose mode (2) is the systemd default and still drops spoofed packets
+            "net.ipv4.conf.all.rp_filter": [1, 2],
+          },
+        },
       };
 
     default: // 'default' profile
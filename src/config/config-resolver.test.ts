@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  deepMerge,
+  isConfigFileReference,
+  loadSecurityConfigFile,
+  resolveSecurityConfig,
+} from "./config-resolver";
+import { getConfigByProfile } from "./config-profiles";
+
+describe("config resolver", () => {
+  describe("deepMerge", () => {
+    it("should merge objects recursively and replace arrays", () => {
+      const merged = deepMerge(
+        {
+          firewall: { enabled: true, stealthMode: true },
+          wifiSecurity: { bannedNetworks: ["Guest", "Public WiFi"] },
+        },
+        {
+          firewall: { stealthMode: false },
+          wifiSecurity: { bannedNetworks: ["EAIguest"] },
+        },
+      );
+
+      expect(merged).toEqual({
+        firewall: { enabled: true, stealthMode: false },
+        wifiSecurity: { bannedNetworks: ["EAIguest"] },
+      });
+    });
+
+    it("should remove keys overridden with null", () => {
+      const merged = deepMerge(
+        { remoteLogin: { enabled: false }, firewall: { enabled: true } },
+        { remoteLogin: null },
+      );
+
+      expect(merged).toEqual({ firewall: { enabled: true } });
+    });
+
+    it("should not modify its inputs", () => {
+      const base = { autoLock: { maxTimeoutMinutes: 3 } };
+      deepMerge(base, { autoLock: { maxTimeoutMinutes: 10 } });
+
+      expect(base.autoLock.maxTimeoutMinutes).toBe(3);
+    });
+  });
+
+  describe("isConfigFileReference", () => {
+    it("should tell file paths from profile names", () => {
+      expect(isConfigFileReference("strict")).toBe(false);
+      expect(isConfigFileReference("base.json")).toBe(true);
+      expect(isConfigFileReference("./policies/base")).toBe(true);
+      expect(isConfigFileReference("..\\base")).toBe(true);
+    });
+  });
+
+  describe("resolveSecurityConfig", () => {
+    it("should return configs without extends unchanged", () => {
+      const config = { firewall: { enabled: true } };
+
+      expect(resolveSecurityConfig(config)).toEqual(config);
+    });
+
+    it("should override a built-in profile", () => {
+      const strict = getConfigByProfile("strict");
+      const resolved = resolveSecurityConfig({
+        extends: "strict",
+        autoLock: { maxTimeoutMinutes: 10 },
+        firewall: { enabled: true, stealthMode: false },
+      });
+
+      expect(resolved.extends).toBeUndefined();
+      expect(resolved.autoLock).toEqual({ maxTimeoutMinutes: 10 });
+      expect(resolved.firewall).toEqual({ enabled: true, stealthMode: false });
+      expect(resolved.passwordProtection).toEqual(strict.passwordProtection);
+      expect(resolved.wifiSecurity).toEqual(strict.wifiSecurity);
+    });
+
+    it("should reject unknown profiles", () => {
+      expect(() => resolveSecurityConfig({ extends: "paranoid" })).toThrow(
+        /Unknown profile in "extends": paranoid/,
+      );
+    });
+  });
+
+  describe("loadSecurityConfigFile", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "eai-config-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const writeConfig = (name: string, config: object): string => {
+      const filePath = path.join(tempDir, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(config));
+      return filePath;
+    };
+
+    it("should resolve a chain of files relative to each file", () => {
+      writeConfig("base/org.json", {
+        extends: "strict",
+        autoLock: { maxTimeoutMinutes: 5 },
+      });
+      const teamPath = writeConfig("team/dev.json", {
+        extends: "../base/org.json",
+        remoteLogin: { enabled: true },
+        sharingServices: null,
+      });
+
+      const resolved = loadSecurityConfigFile(teamPath);
+
+      expect(resolved.autoLock).toEqual({ maxTimeoutMinutes: 5 });
+      expect(resolved.remoteLogin).toEqual({ enabled: true });
+      expect(resolved.sharingServices).toBeUndefined();
+      expect(resolved.firewall).toEqual({ enabled: true, stealthMode: true });
+    });
+
+    it("should detect circular extends", () => {
+      writeConfig("a.json", { extends: "./b.json" });
+      const bPath = writeConfig("b.json", { extends: "./a.json" });
+
+      expect(() => loadSecurityConfigFile(bPath)).toThrow(/Circular "extends"/);
+    });
+
+    it("should validate the resolved configuration", () => {
+      const configPath = writeConfig("typo.json", {
+        extends: "strict",
+        firewal: { enabled: false },
+      });
+
+      expect(() => loadSecurityConfigFile(configPath)).toThrow(
+        /\/firewal: unknown property \(did you mean "firewall"\?\)/,
+      );
+    });
+
+    it("should report which file extends a missing file", () => {
+      const configPath = writeConfig("child.json", {
+        extends: "./missing.json",
+      });
+
+      expect(() => loadSecurityConfigFile(configPath)).toThrow(
+        /missing\.json \(extended by .*child\.json\)/,
+      );
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Resolves "extends" in security configurations
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { SecurityConfig } from "../types";
+import { getConfigByProfile, isValidProfile } from "./config-profiles";
+import { ConfigValidator } from "../utils/config-validator";
+import { defaultCheckRegistry } from "../checks";
+
+/**
+ * Whether an "extends" value refers to a file rather than a built-in profile
+ */
+export function isConfigFileReference(reference: string): boolean {
+  return (
+    reference.endsWith(".json") ||
+    reference.includes("/") ||
+    reference.includes("\\")
+  );
+}
+
+/**
+ * Deep-merge `override` onto `base`. Objects merge recursively, arrays and
+ * other values replace the base value, and `null` removes the key.
+ */
+export function deepMerge<T extends object>(base: T, override: object): T {
+  const merged = { ...base } as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === null) {
+      delete merged[key];
+    } else if (isPlainObject(value) && isPlainObject(merged[key])) {
+      merged[key] = deepMerge(merged[key] as object, value);
+    } else if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged as T;
+}
+
+/**
+ * Resolve a configuration's "extends" chain into the effective configuration.
+ * File references are relative to `baseDir`, normally the directory of the
+ * file that declares them.
+ */
+export function resolveSecurityConfig(
+  config: SecurityConfig,
+  baseDir: string = process.cwd(),
+  chain: string[] = [],
+): SecurityConfig {
+  const { extends: reference, ...overrides } = config;
+  if (reference === undefined) {
+    return overrides;
+  }
+  if (typeof reference !== "string" || reference.length === 0) {
+    throw new Error('"extends" must be a profile name or config file path');
+  }
+
+  let parent: SecurityConfig;
+  if (isConfigFileReference(reference)) {
+    parent = loadSecurityConfigFile(path.resolve(baseDir, reference), chain);
+  } else if (isValidProfile(reference)) {
+    parent = getConfigByProfile(reference);
+  } else {
+    throw new Error(
+      `Unknown profile in "extends": ${reference}. Use a built-in profile name or a path to a .json file`,
+    );
+  }
+
+  return deepMerge(parent, overrides);
+}
+
+/**
+ * Read a security configuration file, resolve what it extends and validate
+ * the result against the SecurityConfig schema
+ */
+export function loadSecurityConfigFile(
+  filePath: string,
+  chain: string[] = [],
+): SecurityConfig {
+  const resolvedPath = path.resolve(filePath);
+
+  if (chain.includes(resolvedPath)) {
+    throw new Error(
+      `Circular "extends" in security configuration: ${[...chain, resolvedPath].join(" -> ")}`,
+    );
+  }
+  if (!fs.existsSync(resolvedPath)) {
+    const extendedBy = chain[chain.length - 1];
+    throw new Error(
+      extendedBy
+        ? `Configuration file not found: ${resolvedPath} (extended by ${extendedBy})`
+        : `Configuration file not found: ${resolvedPath}`,
+    );
+  }
+
+  let config: SecurityConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(resolvedPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to parse configuration ${resolvedPath}: ${error}`);
+  }
+
+  const resolved = resolveSecurityConfig(config, path.dirname(resolvedPath), [
+    ...chain,
+    resolvedPath,
+  ]);
+
+  // Only the effective configuration has to be complete
+  if (chain.length === 0) {
+    ConfigValidator.assertValidSecurityConfig(
+      resolved,
+      resolvedPath,
+      defaultCheckRegistry.getConfigSchema(),
+    );
+  }
+
+  return resolved;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -2,6 +2,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { ConfigManager } from "../config/config-manager";
 import { VALID_PROFILES } from "../config/config-profiles";
+import { loadSecurityConfigFile } from "../config/config-resolver";
 
 export interface ConfigurationStatus {
   configDirectory: string;
@@ -122,8 +123,7 @@ export class ConfigurationOperations {
           );
         }
 
-        const content = fs.readFileSync(configPath, "utf-8");
-        return JSON.parse(content);
+        return loadSecurityConfigFile(configPath);
       }
     } catch (error) {
       console.error(
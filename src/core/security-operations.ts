@@ -7,6 +7,8 @@ import { CryptoUtils } from "../utils/crypto-utils";
 import { PlatformDetector } from "../utils/platform-detector";
 import { ConfigManager } from "../config/config-manager";
 import { isValidProfile } from "../config/config-profiles";
+import { loadSecurityConfigFile } from "../config/config-resolver";
+import { WaiverUtils } from "../utils/waiver-utils";
 
 export interface SecurityCheckOptions {
   profile?: string;
@@ -56,8 +58,7 @@ export class SecurityOperations {
 
     if (fs.existsSync(configPath)) {
       try {
-        const content = fs.readFileSync(configPath, "utf-8");
-        return JSON.parse(content);
+        return loadSecurityConfigFile(configPath);
       } catch (error) {
         console.error(`Failed to load config from ${configPath}:`, error);
         return null;
@@ -69,8 +70,7 @@ export class SecurityOperations {
 
         // Try to load again after creation
         if (fs.existsSync(configPath)) {
-          const content = fs.readFileSync(configPath, "utf-8");
-          return JSON.parse(content);
+          return loadSecurityConfigFile(configPath);
         } else {
           console.error(
             `Configuration file not found after creation: ${configPath}`,
@@ -96,6 +96,8 @@ export class SecurityOperations {
     // Determine configuration source
     let config: SecurityConfig;
     let configSource = "";
+    // Waivers live next to the config file, or in the config directory for profiles
+    let waiversPath = WaiverUtils.getWaiversPath();
 
     if (options.configPath) {
       // Use explicit config file if provided
@@ -105,9 +107,9 @@ export class SecurityOperations {
         throw new Error(`Configuration file not found: ${configPath}`);
       }
 
-      const configContent = fs.readFileSync(configPath, "utf-8");
-      config = JSON.parse(configContent);
+      config = loadSecurityConfigFile(configPath);
       configSource = `config file: ${configPath}`;
+      waiversPath = WaiverUtils.getWaiversPath(configPath);
     } else if (options.profile) {
       // Use profile argument
       const profileConfig = this.getConfigForProfile(options.profile);
@@ -124,13 +126,12 @@ export class SecurityOperations {
       const localConfigPath = path.resolve("./security-config.json");
 
       if (fs.existsSync(centralConfigPath)) {
-        const configContent = fs.readFileSync(centralConfigPath, "utf-8");
-        config = JSON.parse(configContent);
+        config = loadSecurityConfigFile(centralConfigPath);
         configSource = `config file: ${centralConfigPath}`;
       } else if (fs.existsSync(localConfigPath)) {
-        const configContent = fs.readFileSync(localConfigPath, "utf-8");
-        config = JSON.parse(configContent);
+        config = loadSecurityConfigFile(localConfigPath);
         configSource = `config file: ${localConfigPath}`;
+        waiversPath = WaiverUtils.getWaiversPath(localConfigPath);
       } else {
         // Generate default config if no file exists
         const defaultConfig = this.getConfigForProfile("default");
@@ -151,7 +152,9 @@ export class SecurityOperations {
     // Handle password for sudo operations if needed
 
     // Create auditor with password if needed
-    const auditor = new SecurityAuditor(options.password);
+    const auditor = new SecurityAuditor(options.password).useWaivers(
+      WaiverUtils.loadWaivers(waiversPath),
+    );
     const versionInfo = await auditor.checkVersionCompatibility();
 
     // Show version warning immediately if there are issues
@@ -202,9 +205,12 @@ export class SecurityOperations {
         options.format as OutputFormat,
         {
           platform: platformInfo.platform,
-          timestamp: new Date().toISOString(),
-          overallPassed: auditResult.overallPassed,
+          platformVersion: versionInfo.currentVersion,
+          distribution: platformInfo.distribution,
+          profile: options.profile,
+          configSource,
         },
+        auditResult,
       );
 
       finalReport = formattedOutput.content;
@@ -10,6 +10,27 @@ const { SchedulingService } = require("../../dist/services/scheduling-service");
 const { DaemonOperations } = require("../../dist/core/daemon-operations");
 const { CryptoUtils } = require("../../dist/utils/crypto-utils");
 const { PlatformDetector } = require("../../dist/utils/platform-detector");
+const { JsonReportUtils } = require("../../dist/utils/json-report");
+const { SeverityUtils } = require("../../dist/utils/severity-utils");
+const {
+  EXIT_CODES,
+  ResultStatusUtils,
+} = require("../../dist/utils/result-status");
+const { WaiverUtils } = require("../../dist/utils/waiver-utils");
+const { loadSecurityConfigFile } = require("../../dist/config/config-resolver");
+const {
+  ConfigValidator,
+  ConfigValidationError,
+} = require("../../dist/utils/config-validator");
+const { defaultCheckRegistry } = require("../../dist/checks");
+const { getDefaultComplianceRegistry } = require("../../dist/compliance");
+const { ComplianceUtils } = require("../../dist/utils/compliance-utils");
+const {
+  RecordingCommandRunner,
+  ReplayCommandRunner,
+  loadCommandFixture,
+  saveCommandFixture,
+} = require("../../dist/utils/command-fixtures");
 
 // Check for CLI arguments before starting Electron GUI
 const args = process.argv.slice(1); // Skip node executable
@@ -18,6 +39,8 @@ const hasCliArgs =
   (args.includes("check") ||
     args.includes("validate") ||
     args.includes("daemon") ||
+    args.includes("config") ||
+    args.includes("validate-config") ||
     args.includes("--version") ||
     args.includes("-v") ||
     args.includes("--help") ||
@@ -48,6 +71,12 @@ async function handleCliMode() {
       case "daemon":
         await handleDaemonCommand();
         break;
+      case "config":
+        await handleConfigCommand();
+        break;
+      case "validate-config":
+        await handleValidateConfigCommand();
+        break;
       case "--version":
       case "-v":
         printVersion();
@@ -81,13 +110,36 @@ async function handleCheckCommand() {
   const securityAuditor = new SecurityAuditor(options.password);
 
   try {
+    // Record every command the checks run, or answer them from a recording
+    if (options.recordPath && options.replayPath) {
+      throw new Error("--record and --replay cannot be used together");
+    }
+    const fixture = options.replayPath
+      ? loadCommandFixture(options.replayPath)
+      : undefined;
+    const recorder = options.recordPath
+      ? new RecordingCommandRunner()
+      : undefined;
+    if (fixture) {
+      console.log(
+        `🎞️  Replaying commands recorded on ${fixture.hostname} at ${fixture.recordedAt}`,
+      );
+      securityAuditor.useCommandRunner(new ReplayCommandRunner(fixture));
+    } else if (recorder) {
+      securityAuditor.useCommandRunner(recorder);
+    }
+    securityAuditor.useExecutionOptions({
+      concurrency: options.concurrency,
+      checkTimeoutSeconds: options.checkTimeoutSeconds,
+    });
+
     // Load configuration
     let config;
     if (options.configPath) {
       if (!fs.existsSync(options.configPath)) {
         throw new Error(`Configuration file not found: ${options.configPath}`);
       }
-      config = JSON.parse(fs.readFileSync(options.configPath, "utf8"));
+      config = loadSecurityConfigFile(options.configPath);
     } else {
       // Use default profile configuration
       const {
@@ -96,21 +148,43 @@ async function handleCheckCommand() {
       config = getConfigByProfile(options.profile);
     }
 
+    const complianceRegistry = getDefaultComplianceRegistry();
+    if (options.framework && !complianceRegistry.has(options.framework)) {
+      throw new Error(
+        `Unknown compliance framework: ${options.framework} (available: ${complianceRegistry
+          .getAll()
+          .map((framework) => framework.id)
+          .join(", ")})`,
+      );
+    }
+
     console.log(`⚙️  Using profile: ${options.profile}`);
     console.log("🔍 Running security checks...");
 
+    // Apply waivers kept next to the configuration
+    securityAuditor.useWaivers(
+      WaiverUtils.loadWaivers(WaiverUtils.getWaiversPath(options.configPath)),
+      fixture ? { hostname: fixture.hostname } : {},
+    );
+
     // Run security check
     const results = await securityAuditor.auditSecurity(config);
+    const versionInfo = await securityAuditor.checkVersionCompatibility();
 
     // Generate report
-    const reportData = {
-      timestamp: new Date().toISOString(),
-      platform: os.platform(),
-      profile: options.profile,
-      version: getAppVersion(),
-      results: results,
-      summary: generateSummary(results),
-    };
+    const reportData = JsonReportUtils.buildReport(results, {
+      hostname: fixture?.hostname,
+      platform: versionInfo.platform,
+      platformVersion: versionInfo.currentVersion,
+      distribution: versionInfo.distribution,
+      profile: options.configPath ? undefined : options.profile,
+      configSource: options.configPath,
+    });
+    if (options.framework) {
+      reportData.compliance = reportData.compliance.filter(
+        (coverage) => coverage.framework === options.framework,
+      );
+    }
 
     // Save report
     const reportPath =
@@ -122,20 +196,31 @@ async function handleCheckCommand() {
       console.log("📊 Results (JSON):");
       console.log(JSON.stringify(reportData, null, 2));
     } else {
-      printHumanReadableResults(reportData);
+      printHumanReadableResults(reportData, options.framework);
     }
 
     console.log(`\n📝 Report saved to: ${reportPath}`);
 
-    // Exit with appropriate code
-    const hasFailures = checkForSecurityFailures(results);
-    if (hasFailures) {
+    if (recorder) {
+      saveCommandFixture(options.recordPath, recorder.getBundle());
+      console.log(`🎞️  Commands recorded to: ${options.recordPath}`);
+    }
+
+    // Exit with appropriate code, ignoring results below --fail-on
+    const exitCode = ResultStatusUtils.getExitCode(
+      reportData.results,
+      options.failOn,
+    );
+    if (exitCode === EXIT_CODES.FAILED) {
       console.log("\n⚠️  Security check completed with warnings/failures.");
-      process.exit(1);
+    } else if (exitCode === EXIT_CODES.UNDETERMINED) {
+      console.log(
+        "\n❔ Security check completed, but some checks could not be determined.",
+      );
     } else {
       console.log("\n✅ Security check completed successfully!");
-      process.exit(0);
     }
+    process.exit(exitCode);
   } catch (error) {
     console.error("Security check failed:", error.message);
     process.exit(1);
@@ -154,29 +239,17 @@ async function handleValidateCommand() {
   }
 
   try {
-    if (!fs.existsSync(reportPath)) {
-      throw new Error(`Report file not found: ${reportPath}`);
-    }
-
-    const reportContent = fs.readFileSync(reportPath, "utf8");
-    const report = JSON.parse(reportContent);
-
     console.log("🔍 Validating security report...");
-
-    // Basic validation
-    const requiredFields = ["timestamp", "platform", "results", "summary"];
-    for (const field of requiredFields) {
-      if (!report[field]) {
-        throw new Error(`Required field missing: ${field}`);
-      }
-    }
+    const report = JsonReportUtils.loadReport(reportPath);
 
     console.log("✅ Report structure is valid");
+    console.log(`Schema version: ${report.schemaVersion}`);
     console.log(`Report timestamp: ${report.timestamp}`);
-    console.log(`Platform: ${report.platform}`);
-    console.log(`Total checks: ${report.summary.totalChecks}`);
+    console.log(`Platform: ${report.host.platform}`);
+    console.log(`Total checks: ${report.summary.total}`);
     console.log(`Passed: ${report.summary.passed}`);
     console.log(`Failed: ${report.summary.failed}`);
+    console.log(`Unknown: ${report.summary.unknown ?? 0}`);
 
     process.exit(0);
   } catch (error) {
@@ -241,6 +314,108 @@ async function handleDaemonCommand() {
   }
 }
 
+/**
+ * Handle the 'config' command
+ */
+async function handleConfigCommand() {
+  const action = args[2];
+  if (action !== "resolve") {
+    console.error(
+      action
+        ? `Unknown config action: ${action}`
+        : "Error: Config action is required",
+    );
+    console.error("Usage: config resolve [--config <path> | --profile <name>]");
+    process.exit(1);
+  }
+
+  try {
+    const options = parseCheckOptions();
+    let config;
+    if (options.configPath) {
+      config = loadSecurityConfigFile(options.configPath);
+    } else {
+      const {
+        getConfigByProfile,
+        isValidProfile,
+      } = require("../../dist/config/config-profiles");
+      if (!isValidProfile(options.profile)) {
+        throw new Error(`Invalid profile: ${options.profile}`);
+      }
+      config = getConfigByProfile(options.profile);
+    }
+
+    // Print the effective policy after "extends" has been merged in
+    console.log(JSON.stringify(config, null, 2));
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Failed to resolve configuration:", error.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle the 'validate-config' command
+ */
+async function handleValidateConfigCommand() {
+  const configPath = args[2];
+  if (!configPath || configPath.startsWith("-")) {
+    console.error("Error: Configuration path is required");
+    console.error(
+      "Usage: validate-config <configPath> [--type security|scheduling]",
+    );
+    process.exit(1);
+  }
+
+  try {
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Configuration file not found: ${configPath}`);
+    }
+
+    const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    const typeIndex = args.indexOf("--type");
+    const type =
+      typeIndex !== -1
+        ? args[typeIndex + 1]
+        : "securityProfile" in config || "intervalDays" in config
+          ? "scheduling"
+          : "security";
+
+    let issues = [];
+    if (type === "scheduling") {
+      issues = ConfigValidator.validateSchedulingConfig(config);
+    } else if (type === "security") {
+      // Security configs are validated after "extends" has been merged in
+      try {
+        loadSecurityConfigFile(configPath);
+      } catch (error) {
+        if (!(error instanceof ConfigValidationError)) {
+          throw error;
+        }
+        issues = error.issues;
+      }
+    } else {
+      throw new Error(`Unknown configuration type: ${type}`);
+    }
+
+    if (issues.length === 0) {
+      console.log(`✅ ${configPath} is a valid ${type} configuration`);
+      process.exit(0);
+    }
+
+    console.error(
+      `❌ ${configPath} is not a valid ${type} configuration (${issues.length} problem${issues.length === 1 ? "" : "s"}):`,
+    );
+    for (const line of ConfigValidator.formatIssues(issues)) {
+      console.error(`  ${line}`);
+    }
+    process.exit(1);
+  } catch (error) {
+    console.error("❌ Configuration validation failed:", error.message);
+    process.exit(1);
+  }
+}
+
 /**
  * Parse command line options for the check command
  */
@@ -264,6 +439,18 @@ function parseCheckOptions() {
       options.outputPath = args[++i];
     } else if (arg === "--format" || arg === "-f") {
       options.format = args[++i];
+    } else if (arg === "--framework") {
+      options.framework = args[++i];
+    } else if (arg === "--fail-on") {
+      options.failOn = SeverityUtils.parseSeverity(args[++i] || "");
+    } else if (arg === "--record") {
+      options.recordPath = args[++i];
+    } else if (arg === "--replay") {
+      options.replayPath = args[++i];
+    } else if (arg === "--concurrency") {
+      options.concurrency = Number(args[++i]);
+    } else if (arg === "--check-timeout") {
+      options.checkTimeoutSeconds = Number(args[++i]);
     } else if (arg === "--password") {
       options.password = args[++i];
     } else if (arg === "--non-interactive") {
@@ -276,95 +463,151 @@ function parseCheckOptions() {
   return options;
 }
 
-/**
- * Generate a summary of security check results
- */
-function generateSummary(results) {
-  const summary = {
-    totalChecks: 0,
-    passed: 0,
-    failed: 0,
-    warnings: 0,
-    critical: 0,
-  };
-
-  const processResults = (obj) => {
-    if (typeof obj === "object" && obj !== null) {
-      for (const [, value] of Object.entries(obj)) {
-        if (typeof value === "boolean") {
-          summary.totalChecks++;
-          if (value) {
-            summary.passed++;
-          } else {
-            summary.failed++;
-          }
-        } else if (typeof value === "object" && value !== null) {
-          processResults(value);
-        }
-      }
-    }
-  };
-
-  processResults(results);
-  return summary;
-}
-
-/**
- * Check if there are any security failures
- */
-function checkForSecurityFailures(results) {
-  const checkForFailures = (obj) => {
-    if (typeof obj === "object" && obj !== null) {
-      for (const [, value] of Object.entries(obj)) {
-        if (typeof value === "boolean" && !value) {
-          return true;
-        } else if (typeof value === "object" && value !== null) {
-          if (checkForFailures(value)) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
-  };
-
-  return checkForFailures(results);
-}
-
 /**
  * Print human-readable results
  */
-function printHumanReadableResults(reportData) {
+function printHumanReadableResults(reportData, framework) {
   console.log("\n🛡️  Security Check Results");
   console.log("==========================");
   console.log(`Timestamp: ${reportData.timestamp}`);
-  console.log(`Platform: ${reportData.platform}`);
-  console.log(`Profile: ${reportData.profile}`);
-  console.log(`Version: ${reportData.version}\n`);
+  console.log(`Platform: ${reportData.host.platform}`);
+  console.log(`Profile: ${reportData.profile || reportData.configSource}`);
+  console.log(`Version: ${reportData.generator.version}\n`);
 
   const { summary } = reportData;
   console.log("📊 Summary:");
-  console.log(`  Total Checks: ${summary.totalChecks}`);
+  console.log(`  Total Checks: ${summary.total}`);
   console.log(`  ✅ Passed: ${summary.passed}`);
   console.log(`  ❌ Failed: ${summary.failed}`);
+  console.log(`  ❔ Unknown: ${summary.unknown}`);
+  console.log(`  ⚠️  Errors: ${summary.errors}`);
+  console.log(`  ➖ Waived: ${summary.waived}`);
 
   if (summary.failed > 0) {
     console.log("\n⚠️  Security Issues Found:");
     printFailures(reportData.results);
+  }
+  if (summary.unknown + summary.errors > 0) {
+    console.log("\n❔ Could Not Be Determined:");
+    printUndetermined(reportData.results);
+  }
+  printWaivers(reportData.waivers);
+  if (framework) {
+    printResultsByControl(reportData);
   } else {
+    printComplianceSummary(reportData.compliance);
+  }
+  if (reportData.overallStatus === "pass") {
     console.log("\n🎉 All security checks passed!");
   }
 }
 
+const STATUS_MARKERS = {
+  pass: "✅",
+  fail: "❌",
+  unknown: "❔",
+  error: "⚠️ ",
+  waived: "➖",
+  "not-assessed": "⬜",
+};
+
+/**
+ * Print how many controls of each framework the audit covers
+ */
+function printComplianceSummary(compliance) {
+  if (!compliance || compliance.length === 0) {
+    return;
+  }
+
+  console.log("\n📚 Compliance Coverage:");
+  for (const coverage of compliance) {
+    const { summary } = coverage;
+    console.log(
+      `  ${ComplianceUtils.getDisplayName(coverage)}: ${summary.assessed}/${summary.total} controls assessed - ${summary.passed} passing, ${summary.failed} failing, ${summary.unknown} unknown`,
+    );
+  }
+  console.log("  Use --framework <id> to group results by control");
+}
+
+/**
+ * Print the results of a single framework grouped by control (--framework)
+ */
+function printResultsByControl(reportData) {
+  for (const coverage of reportData.compliance) {
+    const { summary } = coverage;
+    console.log(
+      `\n📚 ${ComplianceUtils.getDisplayName(coverage)} - ${summary.assessed}/${summary.total} controls assessed`,
+    );
+
+    for (const control of coverage.controls) {
+      console.log(
+        `\n  ${STATUS_MARKERS[control.status]} ${control.id} ${control.title}`,
+      );
+      const results = reportData.results.filter((result) =>
+        control.checkIds.includes(result.checkId),
+      );
+      if (results.length === 0) {
+        console.log("     Not assessed by the current configuration");
+      }
+      for (const result of results) {
+        console.log(
+          `     ${STATUS_MARKERS[result.status]} ${result.setting}: ${result.message}`,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Print active and expired waivers for this machine
+ */
+function printWaivers(waivers) {
+  if (waivers.active.length === 0 && waivers.expired.length === 0) {
+    return;
+  }
+
+  console.log("\n📝 Waivers:");
+  for (const waiver of waivers.active) {
+    console.log(
+      `  ➖ ${waiver.checkId} - active until ${waiver.expires} (approved by ${waiver.approver}): ${waiver.justification}`,
+    );
+  }
+  for (const waiver of waivers.expired) {
+    console.log(
+      `  ⌛ ${waiver.checkId} - expired on ${waiver.expires} (approved by ${waiver.approver}): ${waiver.justification}`,
+    );
+  }
+}
+
 /**
  * Print detailed failure information
  */
-function printFailures(results, prefix = "") {
-  for (const [key, value] of Object.entries(results)) {
-    if (typeof value === "boolean" && !value) {
-      console.log(`  ${prefix}❌ ${key}: FAILED`);
-    } else if (typeof value === "object" && value !== null) {
-      printFailures(value, `${prefix}  `);
+function printFailures(results) {
+  for (const result of results) {
+    if (result.status === "fail") {
+      const severity = result.severity
+        ? `[${result.severity.toUpperCase()}] `
+        : "";
+      console.log(`  ❌ ${severity}${result.setting}: ${result.message}`);
+      if (result.remediation) {
+        console.log(`     ↳ ${result.remediation}`);
+      }
+    }
+  }
+}
+
+/**
+ * Print results that could not be determined, with the commands tried
+ */
+function printUndetermined(results) {
+  for (const result of results) {
+    if (ResultStatusUtils.isUndetermined(result)) {
+      console.log(
+        `  ❔ [${result.status.toUpperCase()}] ${result.setting}: ${result.reason || result.message}`,
+      );
+      if (result.commandsTried && result.commandsTried.length > 0) {
+        console.log(`     ↳ Tried: ${result.commandsTried.join("; ")}`);
+      }
     }
   }
 }
@@ -402,6 +645,8 @@ USAGE:
   eai-security-check check [options]          Run security check
   eai-security-check validate <reportPath>    Validate a security report
   eai-security-check daemon <action>          Manage daemon service
+  eai-security-check config resolve [options] Print the effective configuration
+  eai-security-check validate-config <path>   Validate a security or scheduling config
   eai-security-check --version                Show version
   eai-security-check --help                   Show this help
 
@@ -411,6 +656,17 @@ CHECK OPTIONS:
       --platform <name>   Target platform (macos, linux, windows)
   -o, --output <path>     Output file path for report
   -f, --format <format>   Output format (json, human)
+      --fail-on <severity> Only let results of this severity or worse affect
+                          the exit code (critical, high, medium, low, info)
+      --framework <id>    Group results by the controls of a compliance
+                          framework (cis, nist-800-53, soc2)
+      --record <path>     Save the output of every command the checks run
+                          to a fixture bundle
+      --replay <path>     Run the checks against a recorded fixture bundle
+                          instead of this machine
+      --concurrency <n>   Number of checks run at the same time (default: 4)
+      --check-timeout <s> Report checks still running after this many
+                          seconds as unknown (default: 60)
       --non-interactive   Run without user interaction
 
 DAEMON ACTIONS:
@@ -420,10 +676,26 @@ DAEMON ACTIONS:
   stop        Stop daemon service
   status      Show daemon status
 
+CONFIG ACTIONS:
+  resolve     Print the configuration with "extends" merged in
+              (-c, --config <path> or -p, --profile <name>)
+
+EXIT CODES:
+  0   All checks passed
+  1   At least one check failed
+  2   Nothing failed, but some checks could not be determined
+
 EXAMPLES:
   eai-security-check check --profile strict
   eai-security-check check --config ./my-config.json --format human
+  eai-security-check check --profile strict --fail-on high
+  eai-security-check check --profile strict --framework cis --format human
+  eai-security-check check --profile strict --record ./fedora-laptop.json
+  eai-security-check check --profile strict --replay ./fedora-laptop.json
+  eai-security-check check --profile strict --concurrency 2 --check-timeout 120
   eai-security-check validate ./security-report.json
+  eai-security-check config resolve --config ./my-config.json
+  eai-security-check validate-config ./my-config.json
   eai-security-check daemon install
 `);
   process.exit(0);
@@ -587,8 +859,17 @@ function initializeElectronApp() {
   ipcMain.handle("security:runFullCheck", async (event, config) => {
     try {
       if (!securityAuditor) throw new Error("Security auditor not initialized");
-      const result = await securityAuditor.runFullSecurityCheck(config);
-      return { success: true, data: result };
+      securityAuditor.useWaivers(
+        WaiverUtils.loadWaivers(WaiverUtils.getWaiversPath()),
+      );
+      const results = await securityAuditor.auditSecurity(config);
+      const versionInfo = await securityAuditor.checkVersionCompatibility();
+      const report = JsonReportUtils.buildReport(results, {
+        platform: versionInfo.platform,
+        platformVersion: versionInfo.currentVersion,
+        distribution: versionInfo.distribution,
+      });
+      return { success: true, data: report };
     } catch (error) {
       console.error("Full security check failed:", error);
       return { success: false, error: error.message };
@@ -646,9 +927,18 @@ function initializeElectronApp() {
 
   ipcMain.handle("config:validate", async (event, config) => {
     try {
-      if (!configManager) throw new Error("Config manager not initialized");
-      const result = await configManager.validateConfig(config);
-      return { success: true, data: result };
+      const issues = ConfigValidator.validateSecurityConfig(
+        config,
+        defaultCheckRegistry.getConfigSchema(),
+      );
+      return {
+        success: true,
+        data: {
+          valid: issues.length === 0,
+          issues,
+          errors: ConfigValidator.formatIssues(issues),
+        },
+      };
     } catch (error) {
       console.error("Config validation failed:", error);
       return { success: false, error: error.message };
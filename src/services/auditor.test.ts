@@ -2,6 +2,8 @@ import { SecurityAuditor, VersionCompatibilityInfo } from "./auditor";
 import { SecurityConfig } from "../types";
 import { MockMacOSSecurityChecker } from "../test-utils/mocks";
 import { PlatformDetector, Platform } from "../utils/platform-detector";
+import { ComplianceRegistry } from "../compliance";
+import { CommandAbortScope } from "../utils/command-runner";
 
 // Mock platform detection to always return macOS
 jest.mock("../utils/platform-detector");
@@ -109,6 +111,155 @@ describe("SecurityAuditor", () => {
       expect(fileVaultResult).toBeDefined();
       expect(fileVaultResult?.expected).toBe(true);
     });
+
+    it("should waive failures covered by an active waiver", async () => {
+      const waiver = {
+        checkId: "auto-lock",
+        hostname: "dev-box",
+        justification: "Kiosk display",
+        approver: "security@example.com",
+        expires: "2999-12-31",
+      };
+      auditor.useWaivers([waiver], { hostname: "dev-box" });
+
+      const report = await auditor.auditSecurity({
+        autoLock: { maxTimeoutMinutes: 1 },
+      });
+
+      expect(report.results[0]).toMatchObject({
+        status: "waived",
+        passed: false,
+        waiver,
+      });
+      expect(report.overallPassed).toBe(true);
+      expect(report.waivers).toEqual({ active: [waiver], expired: [] });
+    });
+
+    it("should summarize compliance coverage per framework", async () => {
+      auditor.useComplianceRegistry(
+        new ComplianceRegistry([
+          {
+            id: "test",
+            name: "Test Framework",
+            controls: [
+              { id: "T-1", title: "Device lock", checkIds: ["auto-lock"] },
+              { id: "T-2", title: "Firewall", checkIds: ["firewall"] },
+            ],
+          },
+        ]),
+      );
+
+      const report = await auditor.auditSecurity({
+        autoLock: { maxTimeoutMinutes: 10 },
+      });
+
+      expect(report.compliance).toEqual([
+        {
+          framework: "test",
+          name: "Test Framework",
+          summary: { total: 2, assessed: 1, passed: 1, failed: 0, unknown: 0 },
+          controls: [
+            {
+              id: "T-1",
+              title: "Device lock",
+              status: "pass",
+              checkIds: ["auto-lock"],
+            },
+            {
+              id: "T-2",
+              title: "Firewall",
+              status: "not-assessed",
+              checkIds: [],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("should report checks that time out as unknown", async () => {
+      const checker = (
+        auditor as unknown as { checker: MockMacOSSecurityChecker }
+      ).checker;
+      checker.checkFirewall = jest.fn(() => new Promise<never>(() => {}));
+      auditor.useExecutionOptions({ checkTimeoutSeconds: 0.05 });
+
+      const report = await auditor.auditSecurity({
+        firewall: { enabled: true },
+        autoLock: { maxTimeoutMinutes: 10 },
+      });
+
+      expect(
+        report.results.map((result) => [result.checkId, result.status]),
+      ).toEqual([
+        ["auto-lock", "pass"],
+        ["firewall", "unknown"],
+      ]);
+      expect(report.results[1].reason).toBe("Timed out after 0.05s");
+      expect(Object.keys(report.durations ?? {}).sort()).toEqual([
+        "auto-lock",
+        "firewall",
+      ]);
+      expect(report.durations?.firewall).toBeGreaterThanOrEqual(40);
+    });
+
+    it("should abort the commands of checks that time out", async () => {
+      const checker = (
+        auditor as unknown as { checker: MockMacOSSecurityChecker }
+      ).checker;
+      let signal: AbortSignal | undefined;
+      checker.checkFirewall = jest.fn(() => {
+        signal = CommandAbortScope.signal;
+        return new Promise<never>(() => {});
+      });
+      auditor.useExecutionOptions({ checkTimeoutSeconds: 0.05 });
+
+      await auditor.auditSecurity({ firewall: { enabled: true } });
+
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it("should never run more checks at once than the concurrency limit", async () => {
+      const checker = (
+        auditor as unknown as { checker: MockMacOSSecurityChecker }
+      ).checker;
+      let running = 0;
+      let maxRunning = 0;
+      const slow =
+        <T>(value: T) =>
+        async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          running--;
+          return value;
+        };
+      checker.checkFileVault = jest.fn(slow(true));
+      checker.checkAutoLockTimeout = jest.fn(slow(5));
+      checker.checkGatekeeper = jest.fn(slow(true));
+      checker.checkRemoteLogin = jest.fn(slow(false));
+
+      auditor.useExecutionOptions({ concurrency: 2 });
+      const report = await auditor.auditSecurity({
+        diskEncryption: { enabled: true },
+        autoLock: { maxTimeoutMinutes: 10 },
+        packageVerification: { enabled: true },
+        remoteLogin: { enabled: false },
+      });
+
+      expect(maxRunning).toBe(2);
+      expect(report.results.every((result) => result.status === "pass")).toBe(
+        true,
+      );
+    });
+
+    it("should reject invalid execution options", () => {
+      expect(() => auditor.useExecutionOptions({ concurrency: 0 })).toThrow(
+        "Check concurrency must be a positive integer: 0",
+      );
+      expect(() =>
+        auditor.useExecutionOptions({ checkTimeoutSeconds: -1 }),
+      ).toThrow("Check timeout must be a positive number of seconds: -1");
+    });
   });
 
   describe("generateReport", () => {
@@ -2,13 +2,50 @@ import { MacOSSecurityChecker } from "../checkers/security-checker";
 import { LegacyMacOSSecurityChecker } from "../checkers/legacy-security-checker";
 import { LinuxSecurityChecker } from "../checkers/linux-security-checker";
 import { WindowsSecurityChecker } from "../checkers/windows-security-checker";
-import { SecurityConfig, SecurityCheckResult, SecurityReport } from "../types";
-import { validatePasswordConfiguration } from "../utils/password-utils";
+import {
+  AuditExecutionOptions,
+  SecurityConfig,
+  SecurityCheckResult,
+  SecurityReport,
+  Waiver,
+} from "../types";
+import { ResultStatusUtils } from "../utils/result-status";
+import { WaiverIdentity, WaiverUtils } from "../utils/waiver-utils";
+import { ComplianceUtils } from "../utils/compliance-utils";
+import {
+  ComplianceRegistry,
+  getDefaultComplianceRegistry,
+} from "../compliance";
+import {
+  CheckContext,
+  CheckRegistry,
+  applyCheckMetadata,
+  createUndeterminedResult,
+  defaultCheckRegistry,
+} from "../checks";
 import {
   PlatformDetector,
   Platform,
   PlatformInfo,
 } from "../utils/platform-detector";
+import {
+  CommandAbortScope,
+  CommandRunner,
+  defaultCommandRunner,
+} from "../utils/command-runner";
+import { ConcurrencyUtils } from "../utils/concurrency-utils";
+import { UndeterminedCheckError } from "../checkers/undetermined-check-error";
+
+/**
+ * Checks run at the same time unless useExecutionOptions sets a limit
+ */
+export const DEFAULT_CHECK_CONCURRENCY = 4;
+
+/**
+ * Seconds after which a check is reported as unknown unless
+ * useExecutionOptions sets a timeout
+ */
+export const DEFAULT_CHECK_TIMEOUT_SECONDS = 60;
 
 export interface VersionCompatibilityInfo {
   currentVersion: string;
@@ -28,13 +65,82 @@ export class SecurityAuditor {
   private versionInfo: VersionCompatibilityInfo | null = null;
   private initialPassword?: string;
   private platformInfo: PlatformInfo | null = null;
-
-  constructor(password?: string) {
+  private registry: CheckRegistry;
+  private waivers: Waiver[] = [];
+  private waiverIdentity: WaiverIdentity = {};
+  private complianceRegistry?: ComplianceRegistry;
+  private runner: CommandRunner = defaultCommandRunner;
+  private execution: AuditExecutionOptions = {};
+
+  constructor(
+    password?: string,
+    registry: CheckRegistry = defaultCheckRegistry,
+  ) {
     this.initialPassword = password;
+    this.registry = registry;
     // Default to macOS checker, will be updated in checkVersionCompatibility
     this.checker = new MacOSSecurityChecker(password);
   }
 
+  /**
+   * Registry of checks run by auditSecurity
+   */
+  getCheckRegistry(): CheckRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Waive matching failures in subsequent audits
+   */
+  useWaivers(waivers: Waiver[], identity: WaiverIdentity = {}): this {
+    this.waivers = waivers;
+    this.waiverIdentity = identity;
+    return this;
+  }
+
+  /**
+   * Map results to the frameworks of this registry instead of the default one
+   */
+  useComplianceRegistry(registry: ComplianceRegistry): this {
+    this.complianceRegistry = registry;
+    return this;
+  }
+
+  /**
+   * Run every command of subsequent audits through this runner, e.g. to
+   * record them or to replay a recording
+   */
+  useCommandRunner(runner: CommandRunner): this {
+    this.runner = runner;
+    this.versionInfo = null;
+    this.checker = new MacOSSecurityChecker(this.initialPassword, runner);
+    return this;
+  }
+
+  /**
+   * Limit how many checks of subsequent audits run at the same time and how
+   * long each may take
+   */
+  useExecutionOptions(options: AuditExecutionOptions): this {
+    const { concurrency, checkTimeoutSeconds } = options;
+    if (
+      concurrency !== undefined &&
+      !(Number.isInteger(concurrency) && concurrency >= 1)
+    ) {
+      throw new Error(
+        `Check concurrency must be a positive integer: ${concurrency}`,
+      );
+    }
+    if (checkTimeoutSeconds !== undefined && !(checkTimeoutSeconds > 0)) {
+      throw new Error(
+        `Check timeout must be a positive number of seconds: ${checkTimeoutSeconds}`,
+      );
+    }
+
+    this.execution = { ...this.execution, ...options };
+    return this;
+  }
+
   /**
    * Check version compatibility for the current platform
    */
@@ -44,7 +150,7 @@ export class SecurityAuditor {
     }
 
     // Detect platform first
-    this.platformInfo = await PlatformDetector.detectPlatform();
+    this.platformInfo = await PlatformDetector.detectPlatform(this.runner);
 
     if (this.platformInfo.platform === Platform.MACOS) {
       return await this.checkMacOSCompatibility();
@@ -104,7 +210,10 @@ export class SecurityAuditor {
 
     // Switch to legacy checker if needed
     if (isLegacy) {
-      this.checker = new LegacyMacOSSecurityChecker(this.initialPassword);
+      this.checker = new LegacyMacOSSecurityChecker(
+        this.initialPassword,
+        this.runner,
+      );
     }
 
     return this.versionInfo;
@@ -115,7 +224,7 @@ export class SecurityAuditor {
    */
   private async checkLinuxCompatibility(): Promise<VersionCompatibilityInfo> {
     // Switch to Linux checker
-    this.checker = new LinuxSecurityChecker(this.initialPassword);
+    this.checker = new LinuxSecurityChecker(this.initialPassword, this.runner);
 
     const currentVersion = await (
       this.checker as LinuxSecurityChecker
@@ -165,7 +274,10 @@ export class SecurityAuditor {
    */
   private async checkWindowsCompatibility(): Promise<VersionCompatibilityInfo> {
     // Switch to Windows checker
-    this.checker = new WindowsSecurityChecker(this.initialPassword);
+    this.checker = new WindowsSecurityChecker(
+      this.initialPassword,
+      this.runner,
+    );
 
     const currentVersion = await (
       this.checker as WindowsSecurityChecker
@@ -244,21 +356,6 @@ export class SecurityAuditor {
     return 0; // Equal
   }
 
-  private getUpdateModeDescription(mode: string): string {
-    switch (mode) {
-      case "disabled":
-        return "no automatic checking, downloading, or installing";
-      case "check-only":
-        return "automatic checking enabled, but manual download and install required";
-      case "download-only":
-        return "automatic checking and downloading, but manual install required";
-      case "fully-automatic":
-        return "automatic checking, downloading, and installing";
-      default:
-        return "unknown update mode";
-    }
-  }
-
   async auditSecurity(config: SecurityConfig): Promise<SecurityReport> {
     // Check version compatibility first
     const versionInfo = await this.checkVersionCompatibility();
@@ -296,541 +393,96 @@ export class SecurityAuditor {
         actual: actualText,
         passed: versionInfo.isApproved,
         message: versionInfo.warningMessage,
+        status: versionInfo.isApproved ? "pass" : "fail",
+        checkId: "platform-compatibility",
+        severity: versionInfo.isLegacy ? "medium" : "low",
+        category: "platform",
+        remediation:
+          "Upgrade to a tested operating system version for full support",
       });
     }
 
-    // Check password configuration (only if configured)
-    if (config.password) {
-      let currentPassword: string | undefined;
-
-      // Only get password from macOS checker (Linux checker doesn't have this method)
-      if (versionInfo.platform === Platform.MACOS) {
-        currentPassword = (this.checker as MacOSSecurityChecker).getPassword();
-      }
-
-      const passwordValidation = await validatePasswordConfiguration(
-        currentPassword,
-        config.password,
-      );
-
-      // Generate description of requirements
-      const requirements = [];
-      if (config.password.minLength > 0) {
-        requirements.push(`${config.password.minLength}+ characters`);
-      }
-
-      const charTypes = [];
-      if (config.password.requireUppercase) charTypes.push("uppercase");
-      if (config.password.requireLowercase) charTypes.push("lowercase");
-      if (config.password.requireNumber) charTypes.push("number");
-      if (config.password.requireSpecialChar)
-        charTypes.push("special character");
-
-      if (charTypes.length > 0) {
-        requirements.push(`with ${charTypes.join(", ")}`);
-      } else if (config.password.minLength > 0) {
-        requirements.push("(any characters allowed)");
-      }
-
-      const requirementsText = requirements.join(" ");
-      const expectedText = config.password.required
-        ? `Required: Yes, Requirements: ${requirementsText}, Max Age: ${config.password.maxAgeDays} days`
-        : "Required: No";
-
-      const actualText = config.password.required
-        ? passwordValidation.overallValid
-          ? "Configuration loaded"
-          : "Validation failed"
-        : "Configuration loaded";
-
-      let statusMessage = "";
-      if (!config.password.required) {
-        statusMessage = "Password validation is disabled";
-      } else if (passwordValidation.overallValid) {
-        statusMessage = `Password validation is enabled with ${requirementsText} and ${config.password.maxAgeDays}-day expiration`;
-      } else {
-        const issues = [];
-        if (!passwordValidation.requirementsValid) {
-          issues.push(
-            `Requirements: ${passwordValidation.requirementsMessage}`,
-          );
-        }
-        if (!passwordValidation.expirationValid) {
-          issues.push(`Expiration: ${passwordValidation.expirationMessage}`);
-        }
-        statusMessage = issues.join("; ");
-      }
-
-      results.push({
-        setting: "Password Configuration",
-        expected: expectedText,
-        actual: actualText,
-        passed: !config.password.required || passwordValidation.overallValid,
-        message: statusMessage,
-      });
-    }
-
-    // Check disk encryption (FileVault on macOS, LUKS on Linux)
-    if (config.diskEncryption) {
-      const encryptionEnabled =
-        versionInfo.platform === Platform.MACOS
-          ? await (this.checker as MacOSSecurityChecker).checkFileVault()
-          : await (this.checker as LinuxSecurityChecker).checkDiskEncryption();
-
-      const configEnabled = config.diskEncryption?.enabled ?? false;
-      const settingName =
-        versionInfo.platform === Platform.MACOS
-          ? "FileVault"
-          : "Disk Encryption (LUKS)";
-      const enabledMessage =
-        versionInfo.platform === Platform.MACOS
-          ? "FileVault is enabled - disk encryption is active"
-          : "Disk encryption is enabled - LUKS encryption is active";
-      const disabledMessage =
-        versionInfo.platform === Platform.MACOS
-          ? "FileVault is disabled - disk is not encrypted"
-          : "Disk encryption is disabled - disk is not encrypted";
-
-      results.push({
-        setting: settingName,
-        expected: configEnabled,
-        actual: encryptionEnabled,
-        passed: encryptionEnabled === configEnabled,
-        message: encryptionEnabled ? enabledMessage : disabledMessage,
-      });
-    }
-
-    // Check password protection (only if configured)
-    if (config.passwordProtection) {
-      const passwordInfo = await this.checker.checkPasswordProtection();
-      results.push({
-        setting: "Password Protection",
-        expected: config.passwordProtection.enabled,
-        actual: passwordInfo.enabled,
-        passed: passwordInfo.enabled === config.passwordProtection.enabled,
-        message: passwordInfo.enabled
-          ? "Password protection is enabled"
-          : "Password protection is disabled",
-      });
-
-      if (config.passwordProtection.requirePasswordImmediately !== undefined) {
-        results.push({
-          setting: "Immediate Password Requirement",
-          expected: config.passwordProtection.requirePasswordImmediately,
-          actual: passwordInfo.requirePasswordImmediately,
-          passed:
-            passwordInfo.requirePasswordImmediately ===
-            config.passwordProtection.requirePasswordImmediately,
-          message: passwordInfo.requirePasswordImmediately
-            ? "Password is required immediately after screen saver"
-            : "Password is not required immediately after screen saver",
-        });
-      }
-    }
-
-    // Check auto-lock timeout (only if configured)
-    if (config.autoLock) {
-      const autoLockTimeout = await this.checker.checkAutoLockTimeout();
-      const autoLockPassed =
-        autoLockTimeout <= config.autoLock.maxTimeoutMinutes &&
-        autoLockTimeout > 0;
-      results.push({
-        setting: "Auto-lock Timeout",
-        expected: `≤ ${config.autoLock.maxTimeoutMinutes} minutes`,
-        actual: `${autoLockTimeout} minutes`,
-        passed: autoLockPassed,
-        message: autoLockPassed
-          ? `Screen locks after ${autoLockTimeout} minutes (within acceptable limit)`
-          : autoLockTimeout === 0
-            ? "Auto-lock is disabled"
-            : `Screen locks after ${autoLockTimeout} minutes (exceeds ${config.autoLock.maxTimeoutMinutes} minute limit)`,
-      });
-    }
-
-    // Check Firewall (only if configured)
-    if (config.firewall) {
-      const firewallInfo = await this.checker.checkFirewall();
-      results.push({
-        setting: "Firewall",
-        expected: config.firewall.enabled,
-        actual: firewallInfo.enabled,
-        passed: firewallInfo.enabled === config.firewall.enabled,
-        message: firewallInfo.enabled
-          ? `Firewall is enabled${firewallInfo.stealthMode ? " (stealth mode active)" : ""}`
-          : "Firewall is disabled - system is vulnerable to network attacks",
-      });
-
-      if (config.firewall.stealthMode !== undefined) {
-        results.push({
-          setting: "Firewall Stealth Mode",
-          expected: config.firewall.stealthMode,
-          actual: firewallInfo.stealthMode,
-          passed: firewallInfo.stealthMode === config.firewall.stealthMode,
-          message: firewallInfo.stealthMode
-            ? "Firewall stealth mode is enabled - system is less visible to network scans"
-            : "Firewall stealth mode is disabled",
-        });
-      }
-    }
-
-    // Check Gatekeeper/Package Verification (only if configured)
-    if (config.packageVerification) {
-      const verificationEnabled =
-        versionInfo.platform === Platform.MACOS
-          ? await (this.checker as MacOSSecurityChecker).checkGatekeeper()
-          : await (
-              this.checker as LinuxSecurityChecker
-            ).checkPackageVerification();
-
-      const configEnabled = config.packageVerification?.enabled ?? false;
-      const settingName =
-        versionInfo.platform === Platform.MACOS
-          ? "Gatekeeper"
-          : "Package Verification";
-      const enabledMessage =
-        versionInfo.platform === Platform.MACOS
-          ? "Gatekeeper is enabled - unsigned applications are blocked"
-          : "Package verification is enabled - unsigned packages are blocked";
-      const disabledMessage =
-        versionInfo.platform === Platform.MACOS
-          ? "Gatekeeper is disabled - unsigned applications can run"
-          : "Package verification is disabled - unsigned packages can be installed";
-
-      results.push({
-        setting: settingName,
-        expected: configEnabled,
-        actual: verificationEnabled,
-        passed: verificationEnabled === configEnabled,
-        message: verificationEnabled ? enabledMessage : disabledMessage,
-      });
-    }
-
-    // Check System Integrity Protection (only if configured)
-    if (config.systemIntegrityProtection) {
-      const sipEnabled = await this.checker.checkSystemIntegrityProtection();
-      const settingName =
-        versionInfo.platform === Platform.MACOS
-          ? "System Integrity Protection"
-          : "System Integrity Protection (SELinux/AppArmor)";
-      const enabledMessage =
-        versionInfo.platform === Platform.MACOS
-          ? "SIP is enabled - system files are protected"
-          : "System integrity protection is enabled (SELinux/AppArmor)";
-      const disabledMessage =
-        versionInfo.platform === Platform.MACOS
-          ? "SIP is disabled - system files are vulnerable"
-          : "System integrity protection is disabled";
-
-      results.push({
-        setting: settingName,
-        expected: config.systemIntegrityProtection.enabled,
-        actual: sipEnabled,
-        passed: sipEnabled === config.systemIntegrityProtection.enabled,
-        message: sipEnabled ? enabledMessage : disabledMessage,
-      });
-    }
-
-    // Check Remote Login (only if configured)
-    if (config.remoteLogin) {
-      const remoteLoginEnabled = await this.checker.checkRemoteLogin();
-      results.push({
-        setting: "Remote Login (SSH)",
-        expected: config.remoteLogin.enabled,
-        actual: remoteLoginEnabled,
-        passed: remoteLoginEnabled === config.remoteLogin.enabled,
-        message: remoteLoginEnabled
-          ? "Remote login is enabled - SSH access is available"
-          : "Remote login is disabled",
-      });
-    }
-
-    // Check Remote Management (only if configured)
-    if (config.remoteManagement) {
-      const remoteManagementEnabled =
-        await this.checker.checkRemoteManagement();
-      results.push({
-        setting: "Remote Management",
-        expected: config.remoteManagement.enabled,
-        actual: remoteManagementEnabled,
-        passed: remoteManagementEnabled === config.remoteManagement.enabled,
-        message: remoteManagementEnabled
-          ? "Remote management is enabled - system can be managed remotely"
-          : "Remote management is disabled",
-      });
-    }
-
-    // Check Automatic Updates (only if configured)
-    if (config.automaticUpdates) {
-      const updateInfo = await this.checker.checkAutomaticUpdates();
-
-      // Check basic automatic updates enabled setting
-      results.push({
-        setting: "Automatic Updates",
-        expected: config.automaticUpdates.enabled,
-        actual: updateInfo.enabled,
-        passed: updateInfo.enabled === config.automaticUpdates.enabled,
-        message: updateInfo.enabled
-          ? "Automatic update checking is enabled"
-          : "Automatic updates are disabled - security patches may be delayed",
-      });
-
-      // Check specific update mode if granular settings are provided
-      if (config.automaticUpdates.downloadOnly !== undefined) {
-        const downloadOnlyExpected = config.automaticUpdates.downloadOnly;
-
-        let downloadOnlyActual = false;
-        let actualModeText = "";
-
-        if (versionInfo.platform === Platform.MACOS) {
-          const macUpdateInfo = updateInfo as { updateMode: string }; // Type assertion for macOS-specific fields
-          downloadOnlyActual = macUpdateInfo.updateMode === "download-only";
-          actualModeText = macUpdateInfo.updateMode;
-        } else {
-          const linuxUpdateInfo = updateInfo as {
-            downloadOnly?: boolean;
-            automaticInstall?: boolean;
-          }; // Type assertion for Linux-specific fields
-          downloadOnlyActual = linuxUpdateInfo.downloadOnly || false;
-          actualModeText = linuxUpdateInfo.downloadOnly
-            ? "download-only"
-            : linuxUpdateInfo.automaticInstall
-              ? "fully-automatic"
-              : "disabled";
-        }
-
-        results.push({
-          setting: "Automatic Update Mode",
-          expected: downloadOnlyExpected
-            ? "download-only"
-            : "fully-automatic or disabled",
-          actual: actualModeText,
-          passed: downloadOnlyExpected === downloadOnlyActual,
-          message: `Update mode is "${actualModeText}" - ${this.getUpdateModeDescription(actualModeText)}`,
-        });
-      } else if (config.automaticUpdates.automaticInstall !== undefined) {
-        const automaticInstallExpected =
-          config.automaticUpdates.automaticInstall;
-        const automaticInstallActual = updateInfo.automaticInstall;
-        results.push({
-          setting: "Automatic Installation",
-          expected: automaticInstallExpected,
-          actual: automaticInstallActual,
-          passed: automaticInstallExpected === automaticInstallActual,
-          message: automaticInstallActual
-            ? "All updates are installed automatically"
-            : "Updates require manual installation",
-        });
-      } else {
-        // Provide general update mode information when no specific settings are configured
-        let actualModeText = "";
-        let modePassed = false;
-
-        if (versionInfo.platform === Platform.MACOS) {
-          const macUpdateInfo = updateInfo as { updateMode: string }; // Type assertion for macOS-specific fields
-          actualModeText = macUpdateInfo.updateMode;
-          modePassed =
-            macUpdateInfo.updateMode !== "disabled" &&
-            macUpdateInfo.updateMode !== "check-only";
-        } else {
-          const linuxUpdateInfo = updateInfo as {
-            downloadOnly?: boolean;
-            automaticInstall?: boolean;
-          }; // Type assertion for Linux-specific fields
-          actualModeText = linuxUpdateInfo.downloadOnly
-            ? "download-only"
-            : linuxUpdateInfo.automaticInstall
-              ? "fully-automatic"
-              : "disabled";
-          modePassed = Boolean(
-            linuxUpdateInfo.downloadOnly || linuxUpdateInfo.automaticInstall,
+    // Run every registered check that applies to this platform and is configured
+    const context: CheckContext = {
+      checker: this.checker,
+      platform: versionInfo.platform,
+      versionInfo,
+      runner: this.runner,
+    };
+    const checks = this.registry
+      .getForPlatform(versionInfo.platform)
+      .filter((check) => (config as Record<string, unknown>)[check.configKey]);
+    const timeoutSeconds =
+      this.execution.checkTimeoutSeconds ?? DEFAULT_CHECK_TIMEOUT_SECONDS;
+    const durations: Record<string, number> = {};
+
+    let checkResults: SecurityCheckResult[][];
+    try {
+      checkResults = await ConcurrencyUtils.mapWithConcurrency(
+        checks,
+        this.execution.concurrency ?? DEFAULT_CHECK_CONCURRENCY,
+        async (check) => {
+          const checkConfig = (config as Record<string, unknown>)[
+            check.configKey
+          ];
+          const startedAt = Date.now();
+
+          const abort = new AbortController();
+
+          let checkResults: SecurityCheckResult[];
+          try {
+            // A hung command must not hold up the rest of the audit
+            checkResults = await ConcurrencyUtils.withTimeout(
+              CommandAbortScope.run(abort.signal, async () =>
+                check.evaluate(checkConfig, context),
+              ),
+              timeoutSeconds * 1000,
+              () => {
+                // Kill the commands the check still runs and refuse new ones
+                abort.abort();
+                return new UndeterminedCheckError(
+                  `Timed out after ${timeoutSeconds}s`,
+                );
+              },
+            );
+          } catch (error) {
+            checkResults = [createUndeterminedResult(check, error)];
+          }
+          durations[check.id] = Date.now() - startedAt;
+
+          return checkResults.map((result) =>
+            applyCheckMetadata(result, check, versionInfo.platform),
           );
-        }
-
-        results.push({
-          setting: "Automatic Update Mode",
-          expected: "At least download-only or fully-automatic",
-          actual: actualModeText,
-          passed: modePassed,
-          message: `Update mode is "${actualModeText}" - ${this.getUpdateModeDescription(actualModeText)}`,
-        });
-      }
-
-      // Check security updates setting - maintain backward compatibility
-      if (config.automaticUpdates.securityUpdatesOnly !== undefined) {
-        results.push({
-          setting: "Security Updates",
-          expected: config.automaticUpdates.securityUpdatesOnly,
-          actual: updateInfo.securityUpdatesOnly,
-          passed:
-            updateInfo.securityUpdatesOnly ===
-            config.automaticUpdates.securityUpdatesOnly,
-          message: updateInfo.securityUpdatesOnly
-            ? "Security updates are automatically installed"
-            : "Security updates require manual installation",
-        });
-      } else if (
-        config.automaticUpdates.automaticSecurityInstall !== undefined
-      ) {
-        results.push({
-          setting: "Security Updates",
-          expected: config.automaticUpdates.automaticSecurityInstall,
-          actual: updateInfo.automaticSecurityInstall,
-          passed:
-            updateInfo.automaticSecurityInstall ===
-            config.automaticUpdates.automaticSecurityInstall,
-          message: updateInfo.automaticSecurityInstall
-            ? "Security updates are automatically installed"
-            : "Security updates require manual installation",
-        });
-      }
-    }
-
-    // Check Sharing Services (only if configured)
-    if (config.sharingServices) {
-      const sharingInfo = await this.checker.checkSharingServices();
-
-      if (config.sharingServices.fileSharing !== undefined) {
-        results.push({
-          setting: "File Sharing",
-          expected: config.sharingServices.fileSharing,
-          actual: sharingInfo.fileSharing,
-          passed:
-            sharingInfo.fileSharing === config.sharingServices.fileSharing,
-          message: sharingInfo.fileSharing
-            ? "File sharing is enabled"
-            : "File sharing is disabled",
-        });
-      }
-
-      if (config.sharingServices.screenSharing !== undefined) {
-        results.push({
-          setting: "Screen Sharing",
-          expected: config.sharingServices.screenSharing,
-          actual: sharingInfo.screenSharing,
-          passed:
-            sharingInfo.screenSharing === config.sharingServices.screenSharing,
-          message: sharingInfo.screenSharing
-            ? "Screen sharing is enabled"
-            : "Screen sharing is disabled",
-        });
-      }
-    }
-
-    // Check OS Version (only if configured and supported on platform)
-    if (config.osVersion && versionInfo.platform === Platform.MACOS) {
-      const macChecker = this.checker as MacOSSecurityChecker;
-      const versionInfo = await macChecker.checkOSVersion(
-        config.osVersion.targetVersion,
-      );
-      const expectedMessage = versionInfo.isLatest
-        ? "latest macOS version"
-        : `≥ ${versionInfo.target}`;
-
-      results.push({
-        setting: "OS Version",
-        expected: expectedMessage,
-        actual: versionInfo.current,
-        passed: versionInfo.passed,
-        message: versionInfo.passed
-          ? `macOS ${versionInfo.current} meets requirements (${versionInfo.isLatest ? "checking against latest" : `target: ${versionInfo.target}`})`
-          : `macOS ${versionInfo.current} is outdated (${versionInfo.isLatest ? "latest available" : "target"}: ${versionInfo.target})`,
-      });
-    }
-
-    // Check WiFi Network Security (only if configured and supported on platform)
-    if (config.wifiSecurity && versionInfo.platform === Platform.MACOS) {
-      const macChecker = this.checker as MacOSSecurityChecker;
-      const wifiInfo = await macChecker.checkCurrentWifiNetwork();
-      const bannedNetworks = config.wifiSecurity.bannedNetworks || [];
-
-      if (wifiInfo.connected && wifiInfo.networkName) {
-        const isOnBannedNetwork = bannedNetworks.includes(wifiInfo.networkName);
-
-        if (bannedNetworks.length === 0) {
-          // If no banned networks configured, just log the current network and pass
-          results.push({
-            setting: "WiFi Network Security",
-            expected: "Network monitoring (no restrictions configured)",
-            actual: `Connected to: ${wifiInfo.networkName}`,
-            passed: true,
-            message: `Currently connected to WiFi network: ${wifiInfo.networkName} (no network restrictions configured)`,
-          });
-        } else {
-          // Check if current network is in banned list
-          results.push({
-            setting: "WiFi Network Security",
-            expected: `Not connected to banned networks: ${bannedNetworks.join(", ")}`,
-            actual: `Connected to: ${wifiInfo.networkName}`,
-            passed: !isOnBannedNetwork,
-            message: isOnBannedNetwork
-              ? `❌ Connected to banned network: ${wifiInfo.networkName}`
-              : `✅ Connected to allowed network: ${wifiInfo.networkName}`,
-          });
-        }
-      } else {
-        // Not connected to WiFi
-        results.push({
-          setting: "WiFi Network Security",
-          expected:
-            bannedNetworks.length > 0
-              ? `Not connected to banned networks: ${bannedNetworks.join(", ")}`
-              : "Network monitoring",
-          actual: "Not connected to WiFi",
-          passed: true,
-          message: "Not currently connected to any WiFi network",
-        });
-      }
-    }
-
-    // Check Installed Applications (only if configured and supported on platform)
-    if (config.installedApps && versionInfo.platform === Platform.MACOS) {
-      const macChecker = this.checker as MacOSSecurityChecker;
-      const appInfo = await macChecker.checkInstalledApplications();
-      const bannedApps = config.installedApps.bannedApplications || [];
-
-      // Find any banned apps that are currently installed
-      const bannedAppsFound = appInfo.installedApps.filter((app: string) =>
-        bannedApps.some(
-          (banned) =>
-            app.toLowerCase().includes(banned.toLowerCase()) ||
-            banned.toLowerCase().includes(app.toLowerCase()),
-        ),
+        },
       );
-
-      const totalAppsCount = appInfo.installedApps.length;
-      const appSummary = `${totalAppsCount} total apps: ${appInfo.sources.applications.length} in Applications, ${appInfo.sources.homebrew.length} via Homebrew, ${appInfo.sources.npm.length} via npm`;
-
-      if (bannedApps.length === 0) {
-        // If no banned apps configured, just report the installed apps and pass
-        results.push({
-          setting: "Installed Applications",
-          expected: "Application monitoring (no restrictions configured)",
-          actual: appSummary,
-          passed: true,
-          message: `Detected applications: ${appInfo.installedApps.join(", ")}`,
-        });
-      } else {
-        // Check if any banned apps are installed
-        const hasBannedApps = bannedAppsFound.length > 0;
-
-        results.push({
-          setting: "Installed Applications",
-          expected: `No banned applications: ${bannedApps.join(", ")}`,
-          actual: appSummary,
-          passed: !hasBannedApps,
-          message: hasBannedApps
-            ? `❌ Banned applications found: ${bannedAppsFound.join(", ")} | All apps: ${appInfo.installedApps.join(", ")}`
-            : `✅ No banned applications detected | All apps: ${appInfo.installedApps.join(", ")}`,
-        });
-      }
+    } finally {
+      // Sudo credentials are cached for the length of one audit
+      await this.runner.endSudoSession();
     }
+    // Results keep the registration order of their checks
+    results.push(...checkResults.flat());
 
+    // Results that could not be determined never count as passed
     const overallPassed = results.every((result) => result.passed);
-
-    return {
+    const report: SecurityReport = {
       timestamp: new Date().toISOString(),
       overallPassed,
       results,
+      durations,
+    };
+
+    const waivedReport =
+      this.waivers.length > 0
+        ? WaiverUtils.applyWaivers(report, this.waivers, this.waiverIdentity)
+        : report;
+
+    // Coverage is computed last so waived failures count as passing controls
+    const frameworks = (
+      this.complianceRegistry ?? getDefaultComplianceRegistry()
+    ).getAll();
+    return {
+      ...waivedReport,
+      compliance: ComplianceUtils.summarize(frameworks, waivedReport.results),
     };
   }
 
@@ -872,7 +524,8 @@ export class SecurityAuditor {
       output += `✅ Version Status: ${systemText} is fully supported\n`;
     }
 
-    output += `✅ Overall Status: ${report.overallPassed ? "PASSED" : "FAILED"}\n\n`;
+    const overallStatus = ResultStatusUtils.getOverallStatus(report.results);
+    output += `✅ Overall Status: ${ResultStatusUtils.getStatusLabel(overallStatus)}\n\n`;
 
     // Special message for legacy versions
     if (versionInfo.isLegacy) {
@@ -889,7 +542,7 @@ export class SecurityAuditor {
     output += `${"=".repeat(60)}\n`;
 
     for (const result of report.results) {
-      const status = result.passed ? "✅ PASS" : "❌ FAIL";
+      const status = this.getStatusMarker(result);
       const explanation = explanations ? explanations[result.setting] : null;
 
       output += `\n${status} ${result.setting}`;
@@ -900,6 +553,15 @@ export class SecurityAuditor {
       output += `   Expected: ${result.expected}\n`;
       output += `   Actual: ${result.actual}\n`;
       output += `   Status: ${result.message}\n`;
+      if (result.reason && ResultStatusUtils.isUndetermined(result)) {
+        output += `   Reason: ${result.reason}\n`;
+      }
+      if (result.commandsTried && result.commandsTried.length > 0) {
+        output += `   Commands tried: ${result.commandsTried.join("; ")}\n`;
+      }
+      if (result.waiver) {
+        output += `   Waiver: ${result.waiver.justification} (approved by ${result.waiver.approver}, expires ${result.waiver.expires})\n`;
+      }
 
       if (explanation) {
         output += `   📝 What it does: ${explanation.description}\n`;
@@ -907,13 +569,15 @@ export class SecurityAuditor {
       }
     }
 
-    if (!report.overallPassed) {
+    if (overallStatus === "fail") {
       output += `\n⚠️  Security Issues Found!\n`;
       output += `The checks marked as FAIL indicate potential security vulnerabilities.\n`;
       output += `Review the security advice above and adjust your system settings accordingly.\n`;
 
       // Group failed checks by risk level (only if explanations are available)
-      const failedChecks = report.results.filter((r) => !r.passed);
+      const failedChecks = report.results.filter(
+        (r) => ResultStatusUtils.getStatus(r) === "fail",
+      );
 
       if (explanations) {
         const highRisk = failedChecks.filter(
@@ -938,12 +602,23 @@ export class SecurityAuditor {
       } else if (failedChecks.length > 0) {
         output += `\n❌ FAILED CHECKS: ${failedChecks.map((r) => r.setting).join(", ")}\n`;
       }
-    } else {
+    } else if (overallStatus === "pass") {
       output += `\n🎉 All security checks passed!\n`;
       output += `Your macOS system meets the specified security requirements.\n`;
       output += `Continue following security best practices to maintain protection.\n`;
     }
 
+    const undeterminedChecks = report.results.filter((r) =>
+      ResultStatusUtils.isUndetermined(r),
+    );
+    if (undeterminedChecks.length > 0) {
+      output += `\n❔ UNDETERMINED CHECKS: ${undeterminedChecks.map((r) => r.setting).join(", ")}\n`;
+      output += `These settings could not be checked automatically - verify them manually.\n`;
+    }
+
+    output += this.formatWaivers(report);
+    output += this.formatCompliance(report);
+
     return output;
   }
 
@@ -990,10 +665,21 @@ export class SecurityAuditor {
       output += `✅ Version: ${systemText} (fully supported)\n`;
     }
 
-    output += `${report.overallPassed ? "✅ PASSED" : "❌ FAILED"} - ${report.results.filter((r) => r.passed).length}/${report.results.length} checks passed\n`;
+    const overallStatus = ResultStatusUtils.getOverallStatus(report.results);
+    const counts = ResultStatusUtils.countByStatus(report.results);
+    const undeterminedCount = counts.unknown + counts.error;
+    const overallMarker =
+      overallStatus === "pass" ? "✅" : overallStatus === "fail" ? "❌" : "⚠️ ";
+    output += `${overallMarker} ${ResultStatusUtils.getStatusLabel(overallStatus)} - ${counts.pass}/${report.results.length} checks passed`;
+    if (undeterminedCount > 0) {
+      output += `, ${undeterminedCount} undetermined`;
+    }
+    output += counts.waived > 0 ? `, ${counts.waived} waived\n` : `\n`;
 
-    if (!report.overallPassed) {
-      const failedChecks = report.results.filter((r) => !r.passed);
+    if (overallStatus === "fail") {
+      const failedChecks = report.results.filter(
+        (r) => ResultStatusUtils.getStatus(r) === "fail",
+      );
 
       output += `\n🚨 Failed Checks:\n`;
 
@@ -1023,6 +709,67 @@ export class SecurityAuditor {
       output += `\n💡 Run without --quiet for detailed recommendations\n`;
     }
 
+    if (undeterminedCount > 0) {
+      output += `\n❔ Undetermined Checks:\n`;
+      output += `   ${report.results
+        .filter((r) => ResultStatusUtils.isUndetermined(r))
+        .map((r) => r.setting)
+        .join(", ")}\n`;
+    }
+
     return output;
   }
+
+  /**
+   * List the waivers for this machine, including expired ones
+   */
+  private formatWaivers(report: SecurityReport): string {
+    const { active = [], expired = [] } = report.waivers ?? {};
+    if (active.length === 0 && expired.length === 0) {
+      return "";
+    }
+
+    let output = `\n📝 Waivers:\n`;
+    for (const waiver of active) {
+      output += `   ➖ ${waiver.checkId} - active until ${waiver.expires} (approved by ${waiver.approver}): ${waiver.justification}\n`;
+    }
+    for (const waiver of expired) {
+      output += `   ⌛ ${waiver.checkId} - expired on ${waiver.expires} (approved by ${waiver.approver}): ${waiver.justification}\n`;
+    }
+    return output;
+  }
+
+  /**
+   * One line per compliance framework with its control coverage
+   */
+  private formatCompliance(report: SecurityReport): string {
+    if (!report.compliance || report.compliance.length === 0) {
+      return "";
+    }
+
+    let output = `\n📚 Compliance Coverage:\n`;
+    for (const coverage of report.compliance) {
+      const { summary } = coverage;
+      output += `   ${ComplianceUtils.getDisplayName(coverage)}: ${summary.assessed}/${summary.total} controls assessed - ${summary.passed} passing, ${summary.failed} failing, ${summary.unknown} unknown\n`;
+    }
+    return output;
+  }
+
+  /**
+   * Marker shown in front of each result in the detailed report
+   */
+  private getStatusMarker(result: SecurityCheckResult): string {
+    switch (ResultStatusUtils.getStatus(result)) {
+      case "pass":
+        return "✅ PASS";
+      case "fail":
+        return "❌ FAIL";
+      case "waived":
+        return "➖ WAIVED";
+      case "unknown":
+        return "⚠️  UNKNOWN";
+      default:
+        return "⚠️  ERROR";
+    }
+  }
 }
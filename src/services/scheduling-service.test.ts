@@ -67,9 +67,16 @@ describe("SchedulingService", () => {
       );
     });
 
-    it("should show warning for empty configuration", () => {
+    it("should show warning when no delivery method is configured", () => {
       const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
-      mockFs.readFileSync.mockReturnValue(JSON.stringify({}));
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          enabled: true,
+          intervalDays: 7,
+          reportFormat: "json",
+          securityProfile: "default",
+        }),
+      );
 
       new SchedulingService();
 
@@ -79,6 +86,20 @@ describe("SchedulingService", () => {
 
       consoleSpy.mockRestore();
     });
+
+    it("should reject configuration that does not match the schema", () => {
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          ...mockConfig,
+          intervalDays: "7",
+          alertSeverty: "high",
+        }),
+      );
+
+      expect(() => new SchedulingService()).toThrow(
+        /\/intervalDays: must be a number, got string[\s\S]*\/alertSeverty: unknown property \(did you mean "alertSeverity"\?\)/,
+      );
+    });
   });
 
   describe("getDaemonStatus", () => {
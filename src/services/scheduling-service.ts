@@ -6,11 +6,20 @@ import * as os from "os";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { SecurityAuditor } from "./auditor";
-import { SecurityConfig, SchedulingConfig, DaemonState } from "../types";
+import {
+  SecurityConfig,
+  SchedulingConfig,
+  DaemonState,
+  OverallStatus,
+} from "../types";
 import { OutputUtils, OutputFormat } from "../utils/output-utils";
 import { PlatformDetector, Platform } from "../utils/platform-detector";
 import { VersionUtils } from "../utils/version-utils";
 import { ConfigManager } from "../config/config-manager";
+import { loadSecurityConfigFile } from "../config/config-resolver";
+import { ConfigValidator } from "../utils/config-validator";
+import { ResultStatusUtils } from "../utils/result-status";
+import { WaiverUtils } from "../utils/waiver-utils";
 
 const execAsync = promisify(exec);
 
@@ -50,9 +59,10 @@ export class SchedulingService {
 
     try {
       const content = fs.readFileSync(resolvedPath, "utf-8");
-      const config = JSON.parse(content) as SchedulingConfig;
+      const config = JSON.parse(content);
+      ConfigValidator.assertValidSchedulingConfig(config, resolvedPath);
 
-      // Validate configuration - at least one delivery method must be configured
+      // At least one delivery method should be configured
       const hasEmail = config.email?.smtp?.host && config.email?.to?.length > 0;
       const hasScp = config.scp?.enabled && config.scp?.host;
 
@@ -154,12 +164,10 @@ export class SchedulingService {
     // Priority: 1. Explicit security config path, 2. Custom config path from schedule config, 3. Profile
     if (this.securityConfigPath) {
       // Use explicit security config file from command line
-      const content = fs.readFileSync(this.securityConfigPath, "utf-8");
-      return JSON.parse(content);
+      return loadSecurityConfigFile(this.securityConfigPath);
     } else if (this.config.customConfigPath) {
       // Use custom config file from schedule config
-      const content = fs.readFileSync(this.config.customConfigPath, "utf-8");
-      return JSON.parse(content);
+      return loadSecurityConfigFile(this.config.customConfigPath);
     } else {
       // Use profile-based config from configuration files
       return this.getConfigByProfile(this.config.securityProfile);
@@ -183,8 +191,7 @@ export class SchedulingService {
 
     if (fs.existsSync(configPath)) {
       try {
-        const content = fs.readFileSync(configPath, "utf-8");
-        return JSON.parse(content);
+        return loadSecurityConfigFile(configPath);
       } catch (error) {
         console.error(`Failed to load config from ${configPath}:`, error);
         throw new Error(
@@ -201,8 +208,7 @@ export class SchedulingService {
 
         // Try to load again after creation
         if (fs.existsSync(configPath)) {
-          const content = fs.readFileSync(configPath, "utf-8");
-          return JSON.parse(content);
+          return loadSecurityConfigFile(configPath);
         } else {
           throw new Error(
             `Configuration file still not found after creation: ${configPath}`,
@@ -257,8 +263,18 @@ export class SchedulingService {
       // Load security configuration
       const securityConfig = this.loadSecurityConfig();
 
-      // Run security audit
-      const auditor = new SecurityAuditor();
+      // Run security audit, applying waivers kept next to the security config
+      const auditor = new SecurityAuditor().useWaivers(
+        WaiverUtils.loadWaivers(
+          WaiverUtils.getWaiversPath(
+            this.securityConfigPath ?? this.config.customConfigPath,
+          ),
+        ),
+        { userId: this.config.userId },
+      );
+      if (this.config.execution) {
+        auditor.useExecutionOptions(this.config.execution);
+      }
       const report = await auditor.generateReport(securityConfig);
       const auditResult = await auditor.auditSecurity(securityConfig);
 
@@ -273,24 +289,31 @@ export class SchedulingService {
       const formattedOutput = OutputUtils.formatReport(
         report,
         this.config.reportFormat as OutputFormat,
-        reportMetadata,
+        { ...reportMetadata, profile: this.config.securityProfile },
+        auditResult,
       );
 
       // Always save report locally
-      await this.saveReportLocally(formattedOutput.content, reportMetadata);
-
-      // Send email
-      await this.sendEmailReport(
+      await this.saveReportLocally(
         formattedOutput.content,
-        auditResult.overallPassed,
+        ResultStatusUtils.getOverallStatus(auditResult.results),
       );
 
+      // Only results at or above the alert threshold decide the delivered status
+      const alertStatus = ResultStatusUtils.getOverallStatus(
+        auditResult.results,
+        this.config.alertSeverity ?? "info",
+      );
+
+      // Send email
+      await this.sendEmailReport(formattedOutput.content, alertStatus);
+
       // Send via SCP if configured
       if (this.config.scp?.enabled) {
         try {
           await this.sendScpReport(
             formattedOutput.content,
-            auditResult.overallPassed,
+            alertStatus,
             reportMetadata,
           );
         } catch (error) {
@@ -308,7 +331,7 @@ export class SchedulingService {
       this.saveDaemonState(state);
 
       console.log(
-        `[${new Date().toISOString()}] Security report sent successfully. Overall status: ${auditResult.overallPassed ? "PASSED" : "FAILED"}`,
+        `[${new Date().toISOString()}] Security report sent successfully. Overall status: ${ResultStatusUtils.getStatusLabel(alertStatus)}`,
       );
     } catch (error) {
       console.error(
@@ -323,7 +346,7 @@ export class SchedulingService {
    */
   private async saveReportLocally(
     reportContent: string,
-    reportMetadata: Record<string, unknown>,
+    overallStatus: OverallStatus,
   ): Promise<void> {
     try {
       // Create reports directory in the centralized structure
@@ -332,7 +355,7 @@ export class SchedulingService {
       // Generate filename with timestamp
       const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
       const userIdPrefix = this.config.userId ? `${this.config.userId}-` : "";
-      const status = reportMetadata.overallPassed ? "PASSED" : "FAILED";
+      const status = ResultStatusUtils.getStatusLabel(overallStatus);
       const filename = `${userIdPrefix}security-report-${timestamp}-${status}.txt`;
       const filePath = path.join(reportsDir, filename);
 
@@ -392,7 +415,7 @@ export class SchedulingService {
    */
   private async sendEmailReport(
     reportContent: string,
-    overallPassed: boolean,
+    status: OverallStatus,
   ): Promise<void> {
     if (!this.config.email?.smtp?.host || !this.config.email?.to?.length) {
       console.log("📧 Email not configured, skipping email delivery");
@@ -412,7 +435,7 @@ export class SchedulingService {
     const userIdPrefix = this.config.userId ? `[${this.config.userId}] ` : "";
     const subject =
       this.config.email.subject ||
-      `${userIdPrefix}Security Audit Report - ${overallPassed ? "PASSED" : "FAILED"} - ${new Date().toLocaleDateString()}`;
+      `${userIdPrefix}Security Audit Report - ${ResultStatusUtils.getStatusLabel(status)} - ${new Date().toLocaleDateString()}`;
 
     const mailOptions = {
       from: this.config.email.from,
@@ -446,7 +469,7 @@ export class SchedulingService {
    */
   private async sendScpReport(
     reportContent: string,
-    overallPassed: boolean,
+    overallStatus: OverallStatus,
     _reportMetadata: Record<string, unknown>,
   ): Promise<void> {
     if (!this.config.scp?.enabled) {
@@ -458,7 +481,7 @@ export class SchedulingService {
     const userIdPrefix = this.config.userId
       ? `${this.config.userId.replace(/[^a-zA-Z0-9]/g, "_")}-`
       : "";
-    const status = overallPassed ? "PASSED" : "FAILED";
+    const status = ResultStatusUtils.getStatusLabel(overallStatus);
     const filename = `${userIdPrefix}security-report-${status}-${timestamp}.txt`;
 
     // Create temporary file in OS temp directory (pkg-compatible)
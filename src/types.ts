@@ -1,7 +1,15 @@
+/**
+ * Security policy. src/schemas/security-config.schema.json is generated from
+ * this interface; run scripts/generate-config-schemas.js after changing it.
+ */
 export interface SecurityConfig {
+  // Built-in profile name or path of a config file to inherit from
+  extends?: string;
   // Disk encryption (FileVault on macOS, LUKS on Linux)
   diskEncryption?: {
     enabled: boolean;
+    requireSwapEncrypted?: boolean; // Linux: every active swap area must be encrypted or in memory (zram)
+    minLuksVersion?: number; // Linux: lowest LUKS header version allowed, e.g. 2
   };
   passwordProtection?: {
     enabled: boolean;
@@ -22,6 +30,7 @@ export interface SecurityConfig {
   firewall?: {
     enabled: boolean;
     stealthMode?: boolean;
+    ipv6?: boolean; // Inbound IPv6 traffic must be filtered as well (Linux)
   };
   // Code signing/package verification (Gatekeeper on macOS, package verification on Linux)
   packageVerification?: {
@@ -31,6 +40,18 @@ export interface SecurityConfig {
   systemIntegrityProtection?: {
     enabled: boolean;
   };
+  // Linux: UEFI Secure Boot, GRUB password and /boot permissions
+  bootSecurity?: {
+    requireSecureBoot?: boolean; // UEFI Secure Boot must be enabled
+    requireBootloaderPassword?: boolean; // A GRUB superuser must have a password, so boot entries cannot be edited without it
+    restrictBootPermissions?: boolean; // /boot must be root-owned and not writable by others, GRUB configs only accessible by root
+  };
+  // Antivirus and EDR agents (ClamAV and configured agents on Linux, Microsoft Defender on Windows, XProtect on macOS)
+  endpointProtection?: {
+    requireOneOf: string[]; // At least one of these products must be running, e.g. ["ClamAV", "CrowdStrike Falcon"]
+    maxSignatureAgeDays?: number; // A running product must have signatures at most this many days old, unless it reports none
+    agents?: EndpointAgentRule[]; // Linux: commercial agents, found by process or systemd service name
+  };
   remoteLogin?: {
     enabled: boolean;
   };
@@ -52,6 +73,9 @@ export interface SecurityConfig {
   };
   osVersion?: {
     targetVersion: string; // Version number like "14.0" or "latest" for Apple's current release
+    distributions?: Record<string, string>; // Linux targets per distribution ID, e.g. { fedora: "40", ubuntu: "22.04" }
+    failOnEndOfLife?: boolean; // Linux: fail when the release is past end-of-life
+    releaseTablePath?: string; // Linux: release/end-of-life table overriding the bundled one
   };
   wifiSecurity?: {
     bannedNetworks: string[]; // List of WiFi network names that should not be used
@@ -59,24 +83,251 @@ export interface SecurityConfig {
   installedApps?: {
     bannedApplications: string[]; // List of application names that should not be installed
   };
+  // Linux: OpenSSH server configuration, read with `sshd -T` or from sshd_config
+  sshHardening?: {
+    permitRootLogin?:
+      "no" | "forced-commands-only" | "prohibit-password" | "yes"; // Most permissive PermitRootLogin allowed
+    passwordAuthentication?: boolean; // Required PasswordAuthentication value
+    pubkeyAuthentication?: boolean; // Required PubkeyAuthentication value
+    maxAuthTries?: number; // Highest MaxAuthTries allowed
+    x11Forwarding?: boolean; // Required X11Forwarding value
+    allowedCiphers?: string[]; // Every enabled cipher must be in this list
+    allowedMacs?: string[]; // Every enabled MAC must be in this list
+    allowedKexAlgorithms?: string[]; // Every enabled key exchange algorithm must be in this list
+  };
+  // Linux: listening TCP/UDP sockets, read with `ss -tulpn` or from /proc/net
+  listeningPorts?: {
+    allowed: ListeningPortRule[]; // Sockets matching none of these rules fail the check
+    ignoreLoopback?: boolean; // Skip sockets only reachable from this machine (default: false)
+  };
+  // Linux: local accounts, administrator groups and passwordless sudo
+  userAccounts?: {
+    allowedAdmins?: string[]; // Only these users may be in the wheel, sudo or admin group; unset skips the group check
+    allowedPasswordlessSudo?: string[]; // Users, %groups or aliases allowed NOPASSWD sudo rules (default: none)
+  };
+  // Linux: security updates that are available but not installed
+  pendingUpdates?: {
+    maxSecurityUpdates?: number; // Most pending security updates allowed (default: 0)
+    maxAgeDays?: number; // Oldest pending security update may be at most this many days old
+    allowPendingReboot?: boolean; // Pass even when a reboot is needed to finish installing updates (default: false)
+  };
+  // Linux: USB storage and removable media
+  removableMedia?: {
+    blockUsbStorage?: boolean; // The usb-storage kernel module must be blacklisted or disabled in modprobe.d
+    automount?: boolean; // Required state of desktop automounting of inserted media
+    requireUsbGuard?: boolean; // USBGuard must be running with a policy that blocks unknown devices
+  };
+  // Linux: kernel parameters read from /proc/sys
+  kernelHardening?: {
+    sysctl: Record<string, number | number[]>; // Expected value, or list of accepted values, per parameter, e.g. { "kernel.kptr_restrict": [1, 2] }
+  };
+  // Linux: auditd and persistent journald logs
+  auditLogging?: {
+    requireAuditd?: boolean; // auditd must be installed and running
+    minAuditRules?: number; // Fewest loaded audit rules (`auditctl -l`) allowed, not counting rules that only suppress events
+    persistentJournal?: boolean; // Required state of journald keeping logs in /var/log/journal across reboots
+    minJournalSize?: string; // Smallest journald SystemMaxUse allowed, e.g. "1G"
+  };
   // Platform-specific settings
   platform?: {
     target: "macos" | "linux" | "auto"; // Target platform, 'auto' detects automatically
   };
 }
 
+/**
+ * Listening socket allowed by the listeningPorts check
+ */
+export interface ListeningPortRule {
+  port: number;
+  protocol?: "tcp" | "udp"; // Both when omitted
+  scope?: "localhost" | "any"; // "localhost" only allows loopback addresses (default: any)
+  process?: string; // Only this process may listen, e.g. "sshd"
+}
+
+/**
+ * Endpoint protection agent found by the endpointProtection check on Linux
+ */
+export interface EndpointAgentRule {
+  name: string; // Product name used in requireOneOf
+  processes?: string[]; // Running when one of these processes runs, e.g. "falcon-sensor"
+  services?: string[]; // Running when one of these systemd services is active, e.g. "falcon-sensor"
+}
+
+/**
+ * Effective inbound filtering of one address family, from the Linux ruleset
+ */
+export interface FirewallInboundFilter {
+  policy: "accept" | "drop" | "reject"; // For new connections no rule accepts
+  openPorts: { protocol: "tcp" | "udp"; from: number; to: number }[]; // Empty when the policy is accept
+}
+
+/**
+ * File system or swap area resolved to the dm-crypt mapping it sits on (Linux)
+ */
+export interface EncryptedVolume {
+  role: "root" | "home" | "swap";
+  mountPoint: string; // "/", "/home", or the swap device or file
+  device: string; // Block device the volume is on, e.g. "/dev/mapper/luks-3c5d..."
+  encrypted: boolean;
+  inMemory?: boolean; // zram swap, never written to disk
+  mapping?: string; // dm-crypt mapping name
+  luksVersion?: number | null; // Undefined for plain dm-crypt, null when lsblk cannot report it
+  cipher?: string; // Only readable as root
+}
+
+/**
+ * How serious a failed check is, from most to least severe
+ */
+export type Severity = "critical" | "high" | "medium" | "low" | "info";
+
+/**
+ * Outcome of a single result. "unknown" means the setting could not be
+ * determined; "error" means the check itself failed unexpectedly; "waived"
+ * means a failure is covered by an active waiver.
+ */
+export type CheckStatus = "pass" | "fail" | "unknown" | "error" | "waived";
+
+/**
+ * Outcome of a whole audit: "unknown" when nothing failed but some results
+ * could not be determined
+ */
+export type OverallStatus = "pass" | "fail" | "unknown";
+
 export interface SecurityCheckResult {
   setting: string;
   expected: any;
   actual: any;
-  passed: boolean;
+  passed: boolean; // Only true when status is "pass"
   message: string;
+  checkId?: string; // Stable identifier, e.g. "firewall" or "firewall.stealth-mode"
+  severity?: Severity;
+  category?: string; // e.g. "network", "authentication"
+  remediation?: string; // How to fix a failure
+  status?: CheckStatus; // Defaults to "pass"/"fail" from `passed`
+  reason?: string; // Why the status is "unknown" or "error"
+  commandsTried?: string[]; // Commands run while trying to determine the setting
+  waiver?: Waiver; // Set when status is "waived"
+}
+
+/**
+ * Approved exception for a failing check on specific machines or users.
+ * Read from waivers.json next to the security configuration.
+ */
+export interface Waiver {
+  checkId: string; // Also covers sub-results, e.g. "firewall" covers "firewall.stealth-mode"
+  hostname?: string;
+  userId?: string;
+  justification: string;
+  approver: string;
+  expires: string; // YYYY-MM-DD (valid through that day, UTC) or ISO timestamp
+}
+
+/**
+ * Control of a compliance framework and the checks that provide evidence for it
+ */
+export interface ComplianceControl {
+  id: string; // Identifier within the framework, e.g. "AC-11" or "CC6.1"
+  title: string;
+  checkIds: string[]; // "firewall" also covers sub-results such as "firewall.stealth-mode"
+}
+
+/**
+ * Mapping of a compliance framework (CIS, NIST 800-53, SOC 2, ...) to check ids
+ */
+export interface ComplianceFramework {
+  id: string; // Short name used on the command line, e.g. "cis"
+  name: string;
+  version?: string;
+  controls: ComplianceControl[];
+}
+
+/**
+ * Outcome of a control: its results combined like the overall status, or
+ * "not-assessed" when none of its checks ran
+ */
+export type ControlStatus = OverallStatus | "not-assessed";
+
+/**
+ * How well an audit covers one compliance framework
+ */
+export interface ComplianceCoverage {
+  framework: string; // ComplianceFramework id
+  name: string;
+  version?: string;
+  summary: {
+    total: number; // Controls in the framework
+    assessed: number; // Controls with at least one result
+    passed: number;
+    failed: number;
+    unknown: number;
+  };
+  controls: {
+    id: string;
+    title: string;
+    status: ControlStatus;
+    checkIds: string[]; // Ids of the results that were evaluated for the control
+  }[];
 }
 
 export interface SecurityReport {
   timestamp: string;
   overallPassed: boolean;
   results: SecurityCheckResult[];
+  waivers?: {
+    active: Waiver[];
+    expired: Waiver[]; // Matching failures are reported as failed again
+  };
+  compliance?: ComplianceCoverage[]; // One entry per registered framework
+  durations?: Record<string, number>; // Milliseconds each check took, by check id
+}
+
+/**
+ * How the auditor runs checks
+ */
+export interface AuditExecutionOptions {
+  concurrency?: number; // Checks run at the same time (default: 4)
+  checkTimeoutSeconds?: number; // Checks still running after this are reported as unknown (default: 60)
+}
+
+/**
+ * Versioned JSON report shared by the CLI, daemon, UI and MCP server.
+ * Described by src/schemas/security-report.schema.json
+ */
+export interface JsonSecurityReport {
+  schemaVersion: string;
+  generator: {
+    name: string;
+    version: string;
+  };
+  timestamp: string;
+  host: {
+    hostname: string;
+    platform: string;
+    platformVersion?: string;
+    distribution?: string;
+    userId?: string;
+  };
+  profile?: string;
+  configSource?: string;
+  overallPassed: boolean;
+  overallStatus: OverallStatus;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    unknown: number;
+    errors: number;
+    waived: number;
+    failedBySeverity: Record<Severity, number>;
+  };
+  waivers: {
+    active: Waiver[];
+    expired: Waiver[];
+  };
+  compliance: ComplianceCoverage[];
+  durations: Record<string, number>;
+  results: SecurityCheckResult[];
+  metadata: Record<string, unknown>;
 }
 
 export interface EmailConfig {
@@ -105,6 +356,10 @@ export interface ScpConfig {
   port?: number; // SSH port, defaults to 22
 }
 
+/**
+ * Daemon settings. src/schemas/scheduling-config.schema.json is generated from
+ * this interface; run scripts/generate-config-schemas.js after changing it.
+ */
 export interface SchedulingConfig {
   enabled: boolean;
   intervalDays: number; // How often to run checks (default: 7 days)
@@ -115,6 +370,8 @@ export interface SchedulingConfig {
   securityProfile: string; // Which security profile to use for checks
   customConfigPath?: string; // Optional path to custom security config
   userId?: string; // User identifier included in reports and emails
+  alertSeverity?: Severity; // Only report FAILED when a failure is at least this severe (default: info)
+  execution?: AuditExecutionOptions; // Concurrency and per-check timeout of each audit
 }
 
 export interface DaemonState {
@@ -135,6 +392,15 @@ export interface ISecurityChecker {
    */
   checkDiskEncryption?(): Promise<boolean>;
 
+  /**
+   * Resolve the root, /home and swap volumes to their dm-crypt mappings
+   * (Linux only)
+   */
+  checkDiskEncryptionCoverage?(): Promise<{
+    volumes: EncryptedVolume[];
+    commandsTried: string[]; // Commands the volumes were resolved with
+  }>;
+
   /**
    * Check password protection and screen lock settings
    */
@@ -152,7 +418,16 @@ export interface ISecurityChecker {
   /**
    * Check firewall status
    */
-  checkFirewall(): Promise<{ enabled: boolean; stealthMode: boolean }>;
+  checkFirewall(): Promise<{
+    enabled: boolean;
+    stealthMode: boolean;
+    ruleset?: {
+      // Linux, when the nftables or iptables rules could be read
+      backend: "nftables" | "iptables";
+      ipv4: FirewallInboundFilter;
+      ipv6?: FirewallInboundFilter; // Undefined when the IPv6 rules could not be read
+    };
+  }>;
 
   /**
    * Check package verification/code signing (Gatekeeper on macOS, package verification on Linux)
@@ -164,11 +439,137 @@ export interface ISecurityChecker {
    */
   checkSystemIntegrityProtection(): Promise<boolean>;
 
+  /**
+   * Report Secure Boot, the GRUB password and /boot permissions (Linux only)
+   */
+  checkBootSecurity?(): Promise<{
+    secureBoot: "enabled" | "disabled" | "unsupported" | null; // "unsupported" without UEFI, null when unknown
+    bootloaderPasswordUsers: string[] | null; // GRUB superusers with a password; null when no GRUB config could be read
+    bootFiles: { path: string; mode: number; owner: string }[]; // /boot and the GRUB configs
+    bootFilesComplete: boolean; // False when part of /boot could only be listed as root
+  }>;
+
+  /**
+   * List antivirus and endpoint protection products and whether they run.
+   * Linux also looks for the given agents.
+   */
+  checkEndpointProtection?(agents: EndpointAgentRule[]): Promise<
+    {
+      name: string;
+      running: boolean;
+      signatureVersion?: string;
+      signaturesUpdated?: string | null; // Local time as YYYY-MM-DDTHH:MM:SS; null when unreadable, absent for products without signatures
+    }[]
+  >;
+
   /**
    * Check SSH/remote login status
    */
   checkRemoteLogin(): Promise<boolean>;
 
+  /**
+   * Read the effective SSH server configuration (Linux only), or null if no
+   * SSH server is installed
+   */
+  checkSshHardening?(): Promise<{
+    source: string; // "sshd -T" or the sshd_config path that was parsed
+    permitRootLogin: string;
+    passwordAuthentication: boolean;
+    pubkeyAuthentication: boolean;
+    maxAuthTries: number;
+    x11Forwarding: boolean;
+    ciphers?: string[]; // Undefined when left at the compiled-in default
+    macs?: string[];
+    kexAlgorithms?: string[];
+  } | null>;
+
+  /**
+   * Audit local accounts and sudo rules (Linux only). Parts that need root
+   * are null without sudo.
+   */
+  checkUserAccounts?(): Promise<{
+    uidZero: string[]; // Accounts other than root with UID 0
+    emptyPasswords: string[] | null;
+    adminGroups: Record<string, string[]>; // Members of wheel, sudo and admin
+    passwordlessSudo:
+      | {
+          file: string;
+          principals: string[];
+          rule: string;
+        }[]
+      | null;
+  }>;
+
+  /**
+   * Count pending security updates and whether a reboot is needed to finish
+   * installing updates (Linux only)
+   */
+  checkPendingUpdates?(): Promise<{
+    source: "dnf" | "apt" | "zypper";
+    securityUpdates: {
+      package: string;
+      advisory?: string;
+      severity?: string;
+      issued?: string; // YYYY-MM-DD, when the package manager reports it
+    }[];
+    rebootRequired: boolean | null; // Null when it could not be determined
+  }>;
+
+  /**
+   * Report how USB storage is restricted (Linux only)
+   */
+  checkRemovableMedia?(): Promise<{
+    usbStorage: {
+      blacklisted: boolean;
+      installCommand?: string;
+      disabled: boolean; // The install command loads nothing
+      loaded: boolean;
+    };
+    automount: boolean | null; // Null outside a supported desktop session
+    usbGuard: {
+      active: boolean;
+      implicitPolicyTarget: string | null; // Null when the daemon could not be queried
+      allowsAll: boolean | null;
+    } | null; // Null when USBGuard is not installed
+  }>;
+
+  /**
+   * Report auditd, the loaded audit rules and journald storage (Linux only)
+   */
+  checkAuditLogging?(): Promise<{
+    auditd: { installed: boolean; active: boolean } | null; // Null without systemd
+    auditRules: string[] | null; // Null when they could not be read as root
+    journal: {
+      storage: string; // Storage= setting, e.g. "auto" or "persistent"
+      persistent: boolean;
+      systemMaxUse: string | null; // Null when journald's default applies
+      maxUseBytes: number | null; // Effective SystemMaxUse, when known
+    } | null; // Null when journald is not configured
+  }>;
+
+  /**
+   * Read kernel parameters from /proc/sys (Linux only). Parameters that
+   * could not be read are null; `unreadable` lists those the kernel has.
+   */
+  checkKernelHardening?(names: string[]): Promise<{
+    values: Record<string, string | null>;
+    unreadable: string[];
+  }>;
+
+  /**
+   * List listening TCP and unconnected UDP sockets (Linux only)
+   */
+  checkListeningPorts?(): Promise<{
+    sockets: {
+      protocol: "tcp" | "udp";
+      address: string;
+      port: number;
+      process?: string; // Owning process, when visible to the current user
+      pid?: number;
+    }[];
+    source: string; // Command or table the sockets were read from
+  }>;
+
   /**
    * Check remote management services
    */
@@ -241,11 +642,21 @@ export interface ISecurityChecker {
   /**
    * Check OS version
    */
-  checkOSVersion?(targetVersion: string): Promise<{
+  checkOSVersion?(
+    targetVersion: string,
+    options?: {
+      distributions?: Record<string, string>; // Linux: per-distribution targets
+      releaseTablePath?: string; // Linux: override end-of-life table
+    },
+  ): Promise<{
     current: string;
     target: string;
     isLatest: boolean;
     passed: boolean;
+    reason?: string; // Why the version could not be compared with a target
+    distribution?: string;
+    endOfLife?: string; // End-of-life date of the current release, if known
+    isEndOfLife?: boolean;
   }>;
 
   /**
@@ -262,7 +673,7 @@ export interface ISecurityChecker {
   checkInstalledApplications?(): Promise<{
     installedApps: string[];
     bannedAppsFound: string[];
-    sources: { applications: string[]; homebrew: string[]; npm: string[] };
+    sources: Record<string, string[]>; // Apps per source, e.g. homebrew, npm, flatpak
   }>;
 
   /**
@@ -1,12 +1,17 @@
 import {
   ChangeDetectionStrategy,
   Component,
+  computed,
   signal,
   inject,
 } from "@angular/core";
 import { CommonModule } from "@angular/common";
 import { FormsModule } from "@angular/forms";
 import { ElectronService } from "../../services/electron.service";
+import {
+  ConfigValidationIssue,
+  ConfigValidator,
+} from "../../../../utils/config-validator";
 
 interface ConfigSection {
   name: string;
@@ -59,7 +64,7 @@ interface ConfigField {
         <div class="action-controls">
           <button
             class="btn btn-primary"
-            [disabled]="!hasChanges() || isSaving()"
+            [disabled]="!hasChanges() || isSaving() || !isValid()"
             (click)="saveConfig()"
           >
             @if (isSaving()) {
@@ -91,6 +96,23 @@ interface ConfigField {
         </div>
       </div>
 
+      @if (config() && !isValid()) {
+        <div class="validation-issues">
+          <h3>⚠️ Configuration does not match the schema</h3>
+          <ul>
+            @for (issue of validationIssues(); track issue.pointer) {
+              <li>
+                <code>{{ issue.pointer || "/" }}</code> {{ issue.message }}
+                @if (issue.suggestion) {
+                  (did you mean <code>{{ issue.suggestion }}</code
+                  >?)
+                }
+              </li>
+            }
+          </ul>
+        </div>
+      }
+
       @if (config()) {
         <div class="config-sections">
           @for (section of configSections; track section.name) {
@@ -193,12 +215,15 @@ export class ConfigEditorComponent {
   private readonly _isSaving = signal(false);
   private readonly _message = signal<string>("");
   private readonly _messageType = signal<"success" | "error" | "info">("info");
+  private readonly _validationIssues = signal<ConfigValidationIssue[]>([]);
 
   readonly config = this._config.asReadonly();
   readonly hasChanges = this._hasChanges.asReadonly();
   readonly isSaving = this._isSaving.asReadonly();
   readonly message = this._message.asReadonly();
   readonly messageType = this._messageType.asReadonly();
+  readonly validationIssues = this._validationIssues.asReadonly();
+  readonly isValid = computed(() => this._validationIssues().length === 0);
 
   selectedProfile = "";
 
@@ -340,7 +365,7 @@ export class ConfigEditorComponent {
 
   async loadProfile(profile: string): Promise<void> {
     if (!profile) {
-      this._config.set(null);
+      this.setConfig(null);
       this._originalConfig.set(null);
       this._hasChanges.set(false);
       return;
@@ -348,7 +373,7 @@ export class ConfigEditorComponent {
 
     try {
       const config = await this.electronService.createConfig(profile);
-      this._config.set(config);
+      this.setConfig(config);
       this._originalConfig.set(JSON.parse(JSON.stringify(config)));
       this._hasChanges.set(false);
       this.showMessage(`Loaded ${profile} profile configuration`, "success");
@@ -359,7 +384,7 @@ export class ConfigEditorComponent {
 
   async createNewProfile(): Promise<void> {
     const config = await this.electronService.createConfig("default");
-    this._config.set(config);
+    this.setConfig(config);
     this._originalConfig.set(JSON.parse(JSON.stringify(config)));
     this._hasChanges.set(false);
     this.selectedProfile = "";
@@ -371,6 +396,10 @@ export class ConfigEditorComponent {
 
   async saveConfig(): Promise<void> {
     if (!this.config()) return;
+    if (!this.isValid()) {
+      this.showMessage("Fix the configuration errors before saving", "error");
+      return;
+    }
 
     this._isSaving.set(true);
     try {
@@ -391,7 +420,7 @@ export class ConfigEditorComponent {
 
   resetChanges(): void {
     if (this._originalConfig()) {
-      this._config.set(JSON.parse(JSON.stringify(this._originalConfig())));
+      this.setConfig(JSON.parse(JSON.stringify(this._originalConfig())));
       this._hasChanges.set(false);
       this.showMessage("Changes reset to saved configuration", "info");
     }
@@ -456,12 +485,23 @@ export class ConfigEditorComponent {
 
     current[path[path.length - 1]] = value;
 
-    this._config.set(config);
+    this.setConfig(config);
     this._hasChanges.set(
       JSON.stringify(config) !== JSON.stringify(this._originalConfig()),
     );
   }
 
+  /**
+   * Update the edited configuration and validate it against the same schema
+   * the CLI and daemon use
+   */
+  private setConfig(config: any): void {
+    this._config.set(config);
+    this._validationIssues.set(
+      config ? ConfigValidator.validateSecurityConfig(config) : [],
+    );
+  }
+
   private showMessage(
     message: string,
     type: "success" | "error" | "info",
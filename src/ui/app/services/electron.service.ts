@@ -1,4 +1,5 @@
 import { Injectable, signal } from "@angular/core";
+import type { JsonSecurityReport, Severity } from "../../../types";
 
 export interface PlatformInfo {
   platform: string;
@@ -82,7 +83,7 @@ declare global {
         profile: string,
         config?: string,
         password?: string,
-      ) => Promise<SecurityCheckReport>;
+      ) => Promise<SecurityCheckReport | JsonSecurityReport>;
       runInteractive: () => Promise<void>;
       verifyReport: (path: string) => Promise<boolean>;
       manageDaemon: (
@@ -148,7 +149,9 @@ declare global {
         directory: string,
         extension: string,
       ) => Promise<string[]>;
-      loadReport: (path: string) => Promise<SecurityCheckReport>;
+      loadReport: (
+        path: string,
+      ) => Promise<SecurityCheckReport | JsonSecurityReport>;
       loadApplicationConfig: () => Promise<any>;
       saveApplicationConfig: (config: any) => Promise<boolean>;
     };
@@ -198,10 +201,8 @@ export class ElectronService {
     }
 
     try {
-      return await window.electronAPI!.runSecurityCheck(
-        profile,
-        config,
-        password,
+      return this.toSecurityCheckReport(
+        await window.electronAPI!.runSecurityCheck(profile, config, password),
       );
     } catch (error) {
       console.error("Security check failed:", error);
@@ -315,7 +316,7 @@ export class ElectronService {
     try {
       // Use Node.js fs to read the file (via Electron IPC)
       const reportData = await window.electronAPI!.loadReportFile(path);
-      return JSON.parse(reportData);
+      return this.toSecurityCheckReport(JSON.parse(reportData));
     } catch (error) {
       console.error("Failed to load report from path:", error);
       // Return mock data as fallback
@@ -571,7 +572,79 @@ export class ElectronService {
       // Mock for non-electron environment
       throw new Error("Not in Electron environment");
     }
-    return window.electronAPI!.loadReport(path);
+    return this.toSecurityCheckReport(
+      await window.electronAPI!.loadReport(path),
+    );
+  }
+
+  /**
+   * Convert a versioned JSON report (src/schemas/security-report.schema.json)
+   * into the view model. Reports in the view model shape pass through unchanged.
+   */
+  toSecurityCheckReport(
+    report: SecurityCheckReport | JsonSecurityReport,
+  ): SecurityCheckReport {
+    if (!("schemaVersion" in report)) {
+      return report;
+    }
+
+    return {
+      platform: {
+        platform: report.host.platform,
+        arch: "",
+        version: report.host.platformVersion ?? "",
+      },
+      profile: report.profile ?? report.configSource ?? "custom",
+      timestamp: report.timestamp,
+      checks: report.results.map((result) => ({
+        name: result.setting,
+        // Waived failures and results that could not be checked are warnings
+        status: result.passed
+          ? "pass"
+          : result.status === "unknown" ||
+              result.status === "error" ||
+              result.status === "waived"
+            ? "warning"
+            : "fail",
+        message: result.message,
+        details: result.waiver
+          ? `Waived until ${result.waiver.expires} (approved by ${result.waiver.approver}): ${result.waiver.justification}`
+          : result.reason
+            ? `Could not be determined: ${result.reason}`
+            : result.remediation
+              ? `Expected: ${result.expected}, Actual: ${result.actual}. Remediation: ${result.remediation}`
+              : `Expected: ${result.expected}, Actual: ${result.actual}`,
+        ...(result.severity && { risk: this.toRisk(result.severity) }),
+      })),
+      summary: {
+        passed: report.summary.passed,
+        failed: report.summary.failed,
+        // Older reports have no unknown/error (1.2) or waived (1.3) counts
+        warnings:
+          (report.summary.unknown ?? 0) +
+          (report.summary.errors ?? 0) +
+          (report.summary.waived ?? 0),
+        overallStatus:
+          report.overallStatus === "unknown"
+            ? "warning"
+            : report.overallPassed
+              ? "pass"
+              : "fail",
+      },
+      userId: report.host.userId,
+      metadata: {
+        hostname: report.host.hostname,
+        version: report.generator.version,
+        userId: report.host.userId,
+      },
+    };
+  }
+
+  private toRisk(severity: Severity): "high" | "medium" | "low" {
+    if (severity === "critical" || severity === "high") {
+      return "high";
+    }
+    return severity === "medium" ? "medium" : "low";
   }
 
   async loadApplicationConfig(): Promise<any> {
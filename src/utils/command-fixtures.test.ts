@@ -0,0 +1,457 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CommandFixtureBundle,
+  RecordingCommandRunner,
+  ReplayCommandRunner,
+  loadCommandFixture,
+  saveCommandFixture,
+} from "./command-fixtures";
+import { CommandRunner } from "./command-runner";
+import { SecurityAuditor } from "../services/auditor";
+import { LinuxSecurityChecker } from "../checkers/linux-security-checker";
+import { ComplianceRegistry } from "../compliance";
+import { SecurityConfig } from "../types";
+
+const FIXTURES_DIR = path.join(__dirname, "../test-utils/fixtures");
+
+describe("command fixtures", () => {
+  const bundle: CommandFixtureBundle = {
+    version: 1,
+    recordedAt: "2024-06-03T09:15:42.120Z",
+    platform: "linux",
+    hostname: "fedora-laptop",
+    commands: {
+      "getenforce 2>/dev/null": {
+        stdout: "Enforcing\n",
+        stderr: "",
+        exitCode: 0,
+      },
+      "ufw status 2>/dev/null": {
+        stdout: "",
+        stderr: "",
+        exitCode: 127,
+        error: "Command failed: ufw status 2>/dev/null",
+      },
+      "sudo iptables -L": {
+        stdout: "Chain INPUT (policy DROP)\n",
+        stderr: "",
+        exitCode: 0,
+      },
+    },
+    files: { "/etc/yum.conf": "gpgcheck=1\n", "/etc/dnf/automatic.conf": null },
+    env: { HOME: "/home/jdoe", USER: null },
+  };
+
+  describe("ReplayCommandRunner", () => {
+    const runner = new ReplayCommandRunner(bundle);
+
+    it("should answer commands, files and variables from the bundle", async () => {
+      expect(runner.platform).toBe("linux");
+      await expect(runner.run("getenforce 2>/dev/null")).resolves.toEqual({
+        stdout: "Enforcing\n",
+        stderr: "",
+      });
+      await expect(runner.runWithSudo(["iptables", "-L"])).resolves.toEqual({
+        stdout: "Chain INPUT (policy DROP)\n",
+        stderr: "",
+      });
+      await expect(runner.readFile("/etc/yum.conf")).resolves.toBe(
+        "gpgcheck=1\n",
+      );
+      await expect(runner.readFile("/etc/dnf/automatic.conf")).resolves.toBe(
+        null,
+      );
+      expect(runner.getEnv("HOME")).toBe("/home/jdoe");
+      expect(runner.getEnv("USER")).toBeUndefined();
+    });
+
+    it("should reject failed and unrecorded commands like exec", async () => {
+      await expect(runner.run("ufw status 2>/dev/null")).rejects.toMatchObject({
+        message: "Command failed: ufw status 2>/dev/null",
+        code: 127,
+      });
+      await expect(runner.run("lsblk -f")).rejects.toMatchObject({
+        message: "Command not in fixture: lsblk -f",
+        code: 127,
+        stdout: "",
+      });
+      await expect(runner.readFile("/etc/os-release")).resolves.toBeNull();
+    });
+  });
+
+  describe("RecordingCommandRunner", () => {
+    it("should record what it reads without the sudo password", async () => {
+      const runWithSudo = jest.fn().mockResolvedValue({
+        stdout: "Chain INPUT (policy DROP)\n",
+        stderr: "",
+      });
+      const inner: CommandRunner = {
+        platform: "linux",
+        run: jest
+          .fn()
+          .mockResolvedValueOnce({ stdout: "Enforcing\n", stderr: "" })
+          .mockRejectedValueOnce(
+            Object.assign(new Error("Command failed: ufw status 2>/dev/null"), {
+              code: 127,
+              stdout: "",
+              stderr: "",
+            }),
+          ),
+        runWithSudo,
+        endSudoSession: jest.fn(),
+        readFile: jest
+          .fn()
+          .mockImplementation(async (filePath: string) =>
+            filePath === "/etc/yum.conf" ? "gpgcheck=1\n" : null,
+          ),
+        getEnv: (name: string) => (name === "HOME" ? "/home/jdoe" : undefined),
+      };
+      const recorder = new RecordingCommandRunner(inner);
+
+      await recorder.run("getenforce 2>/dev/null");
+      await expect(recorder.run("ufw status 2>/dev/null")).rejects.toThrow(
+        "Command failed",
+      );
+      await recorder.runWithSudo(["iptables", "-L"], "s3cret");
+      await recorder.readFile("/etc/yum.conf");
+      await recorder.readFile("/etc/dnf/automatic.conf");
+      recorder.getEnv("HOME");
+      recorder.getEnv("USER");
+
+      const recorded = recorder.getBundle("fedora-laptop");
+      expect(runWithSudo).toHaveBeenCalledWith(["iptables", "-L"], "s3cret");
+      expect(recorded).toEqual({
+        ...bundle,
+        recordedAt: expect.any(String),
+      });
+      expect(JSON.stringify(recorded)).not.toContain("s3cret");
+    });
+
+    it("should redact password hashes and leave out sudoers", async () => {
+      const inner: CommandRunner = {
+        platform: "linux",
+        run: jest.fn(),
+        runWithSudo: jest.fn().mockImplementation(async (args: string[]) => ({
+          stdout:
+            args[0] === "grep"
+              ? "/etc/sudoers.d/alice:alice ALL=(ALL) NOPASSWD: ALL\n"
+              : "alice:$6$rounds=5000$salt$hash:19800::::::\n",
+          stderr: "",
+        })),
+        endSudoSession: jest.fn(),
+        readFile: jest.fn(),
+        getEnv: () => undefined,
+      };
+      const recorder = new RecordingCommandRunner(inner);
+
+      const sudoers = await recorder.runWithSudo([
+        "grep",
+        "-rsH",
+        "^",
+        "/etc/sudoers",
+        "/etc/sudoers.d",
+      ]);
+      await recorder.runWithSudo(["sshd", "-T"]);
+
+      expect(sudoers.stdout).toContain("NOPASSWD");
+      const { commands } = recorder.getBundle("fedora-laptop");
+      expect(commands["sudo grep -rsH ^ /etc/sudoers /etc/sudoers.d"]).toEqual({
+        stdout: "",
+        stderr: "",
+        exitCode: 1,
+        error:
+          "Output of sudo grep -rsH ^ /etc/sudoers /etc/sudoers.d is not recorded",
+      });
+      expect(commands["sudo sshd -T"].stdout).toBe(
+        "alice:REDACTED:19800::::::\n",
+      );
+    });
+    it("should record the GRUB password lines without hashes", async () => {
+      const bootDir = fs.mkdtempSync(path.join(os.tmpdir(), "eai-boot-"));
+      const grubCfg = path.join(bootDir, "grub.cfg");
+      const userCfg = path.join(bootDir, "user.cfg");
+      fs.writeFileSync(
+        grubCfg,
+        'set superusers="root admin"\n' +
+          "password_pbkdf2 root ${GRUB2_PASSWORD}\n" +
+          "password_pbkdf2 admin grub.pbkdf2.sha512.10000.ABCD.EF01\n" +
+          "password guest secret\n",
+      );
+      fs.writeFileSync(
+        userCfg,
+        "GRUB2_PASSWORD=grub.pbkdf2.sha512.10000.1234.5678\n",
+      );
+      const listings: string[] = [];
+      const inner: CommandRunner = {
+        platform: "linux",
+        run: jest.fn().mockRejectedValue(new Error("Command failed")),
+        // Runs the program find would -exec on the GRUB configs of bootDir
+        runWithSudo: jest.fn().mockImplementation(async (args: string[]) => {
+          if (!args.includes("-exec")) {
+            throw new Error("Command failed");
+          }
+          const [file, ...programArgs] = args.slice(
+            args.indexOf("-exec") + 1,
+            args.indexOf("{}"),
+          );
+          const stdout = execFileSync(
+            file,
+            [...programArgs, userCfg, grubCfg],
+            {
+              encoding: "utf-8",
+            },
+          );
+          listings.push(stdout);
+          return { stdout, stderr: "" };
+        }),
+        endSudoSession: jest.fn(),
+        readFile: jest.fn().mockResolvedValue(null),
+        getEnv: () => undefined,
+      };
+      const recorder = new RecordingCommandRunner(inner);
+
+      try {
+        const result = await new LinuxSecurityChecker(
+          undefined,
+          recorder,
+        ).checkBootSecurity();
+        expect(result.bootloaderPasswordUsers).toEqual(["root", "admin"]);
+      } finally {
+        fs.rmSync(bootDir, { recursive: true, force: true });
+      }
+
+      expect(listings).toHaveLength(1);
+      for (const text of [listings[0], JSON.stringify(recorder.getBundle())]) {
+        expect(text).toContain("REDACTED");
+        expect(text).not.toContain("grub.pbkdf2");
+        expect(text).not.toContain("secret");
+      }
+    });
+
+    it("should redact hashes in GRUB configs readable without sudo", async () => {
+      const files: Record<string, string> = {
+        "/boot/grub2/grub.cfg":
+          'set superusers="root"\n' +
+          "password_pbkdf2 root ${GRUB2_PASSWORD}\n",
+        "/boot/grub2/user.cfg":
+          "GRUB2_PASSWORD=grub.pbkdf2.sha512.10000.1234.5678\n",
+      };
+      const inner: CommandRunner = {
+        platform: "linux",
+        run: jest.fn().mockRejectedValue(new Error("Command failed")),
+        runWithSudo: jest.fn().mockRejectedValue(new Error("Command failed")),
+        endSudoSession: jest.fn(),
+        readFile: jest
+          .fn()
+          .mockImplementation(
+            async (filePath: string) => files[filePath] ?? null,
+          ),
+        getEnv: () => undefined,
+      };
+      const recorder = new RecordingCommandRunner(inner);
+
+      const result = await new LinuxSecurityChecker(
+        undefined,
+        recorder,
+      ).checkBootSecurity();
+
+      expect(result.bootloaderPasswordUsers).toEqual(["root"]);
+      const bundle = recorder.getBundle();
+      expect(bundle.files["/boot/grub2/user.cfg"]).toBe(
+        "GRUB2_PASSWORD=REDACTED\n",
+      );
+      expect(JSON.stringify(bundle)).not.toContain("grub.pbkdf2");
+    });
+  });
+
+  describe("saveCommandFixture / loadCommandFixture", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "eai-fixture-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should round-trip a bundle", () => {
+      const filePath = path.join(tempDir, "nested", "fixture.json");
+      saveCommandFixture(filePath, bundle);
+
+      expect(loadCommandFixture(filePath)).toEqual(bundle);
+    });
+
+    it("should reject other documents and newer versions", () => {
+      const filePath = path.join(tempDir, "fixture.json");
+
+      fs.writeFileSync(filePath, JSON.stringify({ schemaVersion: "1.4" }));
+      expect(() => loadCommandFixture(filePath)).toThrow(
+        "Not a command fixture bundle",
+      );
+
+      fs.writeFileSync(filePath, JSON.stringify({ ...bundle, version: 2 }));
+      expect(() => loadCommandFixture(filePath)).toThrow(
+        "Unsupported command fixture version 2",
+      );
+    });
+  });
+
+  describe("recorded audits", () => {
+    const config: SecurityConfig = {
+      diskEncryption: {
+        enabled: true,
+        requireSwapEncrypted: true,
+        minLuksVersion: 2,
+      },
+      removableMedia: {
+        blockUsbStorage: true,
+        automount: false,
+        requireUsbGuard: true,
+      },
+      passwordProtection: { enabled: true, requirePasswordImmediately: true },
+      userAccounts: { allowedAdmins: ["jdoe"] },
+      autoLock: { maxTimeoutMinutes: 3 },
+      firewall: { enabled: true, stealthMode: false, ipv6: true },
+      listeningPorts: {
+        allowed: [
+          { port: 53, scope: "localhost" },
+          { port: 631, scope: "localhost" },
+          { port: 5353, protocol: "udp" },
+          { port: 5355 },
+        ],
+      },
+      packageVerification: { enabled: true },
+      systemIntegrityProtection: { enabled: true },
+      bootSecurity: {
+        requireSecureBoot: true,
+        requireBootloaderPassword: true,
+        restrictBootPermissions: true,
+      },
+      endpointProtection: {
+        requireOneOf: ["ClamAV", "CrowdStrike Falcon"],
+        maxSignatureAgeDays: 7,
+        agents: [
+          {
+            name: "CrowdStrike Falcon",
+            processes: ["falcon-sensor"],
+            services: ["falcon-sensor"],
+          },
+        ],
+      },
+      kernelHardening: {
+        sysctl: {
+          "kernel.randomize_va_space": 2,
+          "kernel.kptr_restrict": [1, 2],
+          "kernel.dmesg_restrict": 1,
+          "kernel.unprivileged_bpf_disabled": [1, 2],
+          "kernel.yama.ptrace_scope": [1, 2, 3],
+          "fs.protected_symlinks": 1,
+          "net.ipv4.conf.all.rp_filter": [1, 2],
+        },
+      },
+      auditLogging: {
+        requireAuditd: true,
+        minAuditRules: 1,
+        persistentJournal: true,
+        minJournalSize: "1G",
+      },
+      remoteLogin: { enabled: false },
+      sshHardening: {
+        permitRootLogin: "no",
+        passwordAuthentication: false,
+        x11Forwarding: false,
+        maxAuthTries: 4,
+        allowedCiphers: [
+          "aes256-gcm@openssh.com",
+          "chacha20-poly1305@openssh.com",
+          "aes256-ctr",
+          "aes128-gcm@openssh.com",
+          "aes128-ctr",
+        ],
+      },
+      remoteManagement: { enabled: false },
+      automaticUpdates: { enabled: true, securityUpdatesOnly: true },
+      pendingUpdates: { maxSecurityUpdates: 0, maxAgeDays: 30 },
+      osVersion: { targetVersion: "latest", distributions: { fedora: "40" } },
+      installedApps: { bannedApplications: ["transmission"] },
+    };
+
+    it.each([
+      [
+        "fedora-40-workstation.json",
+        {
+          "disk-encryption": "pass",
+          "disk-encryption.swap": "pass",
+          "disk-encryption.luks-version": "pass",
+          "removable-media.usb-storage": "fail",
+          "removable-media.automount": "fail",
+          "removable-media.usbguard": "fail",
+          "password-protection": "pass",
+          "password-protection.immediate": "pass",
+          "user-accounts.uid-zero": "pass",
+          "user-accounts.empty-passwords": "unknown",
+          "user-accounts.admins": "pass",
+          "user-accounts.passwordless-sudo": "unknown",
+          "auto-lock": "fail",
+          firewall: "pass",
+          "firewall.stealth-mode": "pass",
+          "firewall.ipv6": "unknown",
+          "listening-ports": "fail",
+          "package-verification": "pass",
+          "system-integrity-protection": "pass",
+          "boot-security.secure-boot": "pass",
+          "boot-security.bootloader-password": "unknown",
+          "boot-security.permissions": "unknown",
+          "endpoint-protection": "fail",
+          "endpoint-protection.signatures": "fail",
+          "kernel-hardening.kernel.randomize_va_space": "pass",
+          "kernel-hardening.kernel.kptr_restrict": "fail",
+          "kernel-hardening.kernel.dmesg_restrict": "fail",
+          "kernel-hardening.kernel.unprivileged_bpf_disabled": "pass",
+          "kernel-hardening.kernel.yama.ptrace_scope": "fail",
+          "kernel-hardening.fs.protected_symlinks": "pass",
+          "kernel-hardening.net.ipv4.conf.all.rp_filter": "pass",
+          "audit-logging.auditd": "pass",
+          "audit-logging.rules": "unknown",
+          "audit-logging.journal-storage": "pass",
+          "audit-logging.journal-size": "pass",
+          "remote-login": "pass",
+          "ssh-hardening.permit-root-login": "pass",
+          "ssh-hardening.password-authentication": "fail",
+          "ssh-hardening.x11-forwarding": "fail",
+          "ssh-hardening.max-auth-tries": "fail",
+          "ssh-hardening.ciphers": "pass",
+          "remote-management": "pass",
+          "automatic-updates": "fail",
+          "automatic-updates.mode": "pass",
+          "automatic-updates.security-updates": "fail",
+          "pending-updates": "fail",
+          "pending-updates.age": "unknown",
+          "pending-updates.reboot": "fail",
+          "os-version": "pass",
+          "installed-apps": "fail",
+        },
+      ],
+    ])("should reproduce the audit recorded in %s", async (file, expected) => {
+      const auditor = new SecurityAuditor()
+        .useCommandRunner(
+          new ReplayCommandRunner(
+            loadCommandFixture(path.join(FIXTURES_DIR, file)),
+          ),
+        )
+        .useComplianceRegistry(new ComplianceRegistry());
+
+      const report = await auditor.auditSecurity(config);
+
+      expect(
+        Object.fromEntries(
+          report.results.map((result) => [result.checkId, result.status]),
+        ),
+      ).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CommandError,
+  CommandOutput,
+  CommandRunner,
+  defaultCommandRunner,
+} from "./command-runner";
+import { SudoSession } from "./sudo-session";
+
+/**
+ * Bumped when the bundle format changes incompatibly
+ */
+export const COMMAND_FIXTURE_VERSION = 1;
+
+// crypt(3) hashes ($1$, $2b$, $5$, $6$, $y$, ...) and GRUB PBKDF2 hashes
+const PASSWORD_HASH =
+  /\$(?:1|2[abxy]?|5|6|7|y|gy|sha1|md5)\$[^\s:'"]+|grub\.pbkdf2\.[^\s'"]+/g;
+const REDACTED = "REDACTED";
+
+/**
+ * Recorded outcome of a single command
+ */
+export interface RecordedCommand {
+  stdout: string;
+  stderr: string;
+  exitCode: number | string; // 0 on success, otherwise the error code
+  error?: string; // Error message when the command failed
+}
+
+/**
+ * Everything a recorded audit read from the system, keyed by command, file
+ * path and variable name. Sudo commands are keyed as "sudo <args>" and
+ * never include the password; password hashes in their output are replaced
+ * with "REDACTED", and commands in UNRECORDED_COMMANDS are recorded as
+ * failed without their output.
+ */
+export interface CommandFixtureBundle {
+  version: number;
+  recordedAt: string;
+  platform: NodeJS.Platform;
+  hostname: string;
+  commands: Record<string, RecordedCommand>;
+  files: Record<string, string | null>;
+  env: Record<string, string | null>;
+}
+
+/**
+ * Wraps a runner and records every command, file and variable it reads.
+ * The first outcome of a command is kept; replays return it for every call.
+ * Password hashes in sudo output and in files are replaced by REDACTED.
+ */
+export class RecordingCommandRunner implements CommandRunner {
+  private commands: Record<string, RecordedCommand> = {};
+  private files: Record<string, string | null> = {};
+  private env: Record<string, string | null> = {};
+
+  constructor(private readonly inner: CommandRunner = defaultCommandRunner) {}
+
+  get platform(): NodeJS.Platform {
+    return this.inner.platform;
+  }
+
+  async run(command: string): Promise<CommandOutput> {
+    return this.record(command, () => this.inner.run(command));
+  }
+
+  async runWithSudo(args: string[], password?: string): Promise<CommandOutput> {
+    const key = `sudo ${args.join(" ")}`;
+    if (!SudoSession.isRecordable(args)) {
+      this.store(key, {
+        stdout: "",
+        stderr: "",
+        exitCode: 1,
+        error: `Output of ${key} is not recorded`,
+      });
+      return this.inner.runWithSudo(args, password);
+    }
+
+    return this.record(
+      key,
+      () => this.inner.runWithSudo(args, password),
+      redactPasswordHashes,
+    );
+  }
+
+  async endSudoSession(): Promise<void> {
+    return this.inner.endSudoSession();
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    const content = await this.inner.readFile(filePath);
+    if (!(filePath in this.files)) {
+      // e.g. a GRUB config that is readable without sudo
+      this.files[filePath] =
+        content === null ? null : redactPasswordHashes(content);
+    }
+    return content;
+  }
+
+  getEnv(name: string): string | undefined {
+    const value = this.inner.getEnv(name);
+    if (!(name in this.env)) {
+      this.env[name] = value ?? null;
+    }
+    return value;
+  }
+
+  /**
+   * Bundle of everything recorded so far
+   */
+  getBundle(hostname: string = os.hostname()): CommandFixtureBundle {
+    return {
+      version: COMMAND_FIXTURE_VERSION,
+      recordedAt: new Date().toISOString(),
+      platform: this.platform,
+      hostname,
+      commands: { ...this.commands },
+      files: { ...this.files },
+      env: { ...this.env },
+    };
+  }
+
+  private async record(
+    key: string,
+    execute: () => Promise<CommandOutput>,
+    sanitize: (text: string) => string = (text) => text,
+  ): Promise<CommandOutput> {
+    try {
+      const output = await execute();
+      this.store(key, {
+        stdout: sanitize(output.stdout ?? ""),
+        stderr: sanitize(output.stderr ?? ""),
+        exitCode: 0,
+      });
+      return output;
+    } catch (error) {
+      const failure = error as Partial<CommandError>;
+      this.store(key, {
+        stdout: sanitize(failure.stdout ?? ""),
+        stderr: sanitize(failure.stderr ?? ""),
+        exitCode: failure.code ?? 1,
+        error: sanitize(failure.message ?? String(error)),
+      });
+      throw error;
+    }
+  }
+
+  private store(key: string, recorded: RecordedCommand): void {
+    if (!(key in this.commands)) {
+      this.commands[key] = recorded;
+    }
+  }
+}
+
+/**
+ * Replace password hashes so recorded bundles can be shared
+ */
+function redactPasswordHashes(text: string): string {
+  return text.replace(PASSWORD_HASH, REDACTED);
+}
+
+/**
+ * Answers every command, file and variable from a recorded bundle.
+ * Commands that were not recorded fail as if they were not installed, and
+ * files that were not recorded do not exist.
+ */
+export class ReplayCommandRunner implements CommandRunner {
+  constructor(private readonly bundle: CommandFixtureBundle) {}
+
+  get platform(): NodeJS.Platform {
+    return this.bundle.platform;
+  }
+
+  async run(command: string): Promise<CommandOutput> {
+    return this.replay(command);
+  }
+
+  async runWithSudo(args: string[]): Promise<CommandOutput> {
+    return this.replay(`sudo ${args.join(" ")}`);
+  }
+
+  async endSudoSession(): Promise<void> {
+    // Nothing is cached when replaying
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    return this.bundle.files[filePath] ?? null;
+  }
+
+  getEnv(name: string): string | undefined {
+    return this.bundle.env[name] ?? undefined;
+  }
+
+  private async replay(key: string): Promise<CommandOutput> {
+    const recorded = this.bundle.commands[key];
+    if (!recorded) {
+      throw Object.assign(new Error(`Command not in fixture: ${key}`), {
+        code: 127,
+        stdout: "",
+        stderr: "",
+      });
+    }
+
+    if (recorded.exitCode !== 0) {
+      throw Object.assign(
+        new Error(recorded.error ?? `Command failed: ${key}`),
+        {
+          code: recorded.exitCode,
+          stdout: recorded.stdout,
+          stderr: recorded.stderr,
+        },
+      );
+    }
+
+    return { stdout: recorded.stdout, stderr: recorded.stderr };
+  }
+}
+
+/**
+ * Write a recorded bundle as JSON
+ */
+export function saveCommandFixture(
+  filePath: string,
+  bundle: CommandFixtureBundle,
+): void {
+  const resolvedPath = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+  fs.writeFileSync(resolvedPath, `${JSON.stringify(bundle, null, 2)}\n`);
+}
+
+/**
+ * Read a recorded bundle, rejecting files that are not fixture bundles
+ */
+export function loadCommandFixture(filePath: string): CommandFixtureBundle {
+  const resolvedPath = path.resolve(filePath);
+  let bundle: CommandFixtureBundle;
+  try {
+    bundle = JSON.parse(fs.readFileSync(resolvedPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read command fixture ${resolvedPath}: ${error}`);
+  }
+
+  if (
+    !bundle ||
+    typeof bundle.commands !== "object" ||
+    typeof bundle.platform !== "string"
+  ) {
+    throw new Error(`Not a command fixture bundle: ${resolvedPath}`);
+  }
+  if (bundle.version !== COMMAND_FIXTURE_VERSION) {
+    throw new Error(
+      `Unsupported command fixture version ${bundle.version} in ${resolvedPath} (expected ${COMMAND_FIXTURE_VERSION})`,
+    );
+  }
+
+  return { ...bundle, files: bundle.files ?? {}, env: bundle.env ?? {} };
+}
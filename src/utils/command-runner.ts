@@ -0,0 +1,143 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { exec } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as os from "os";
+import { SudoSession } from "./sudo-session";
+
+const execAsync = promisify(exec);
+
+// Errors for which readFile returns null instead of throwing
+const UNREADABLE_FILE_CODES = ["ENOENT", "EACCES", "EPERM"];
+
+/**
+ * Output of a command that exited successfully
+ */
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Rejection of a command that failed, shaped like the error of a promisified
+ * child_process.exec so checkers can keep inspecting `code` and `stdout`
+ */
+export interface CommandError extends Error {
+  code?: number | string;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Everything checkers read from the system. Checkers never call
+ * child_process or fs directly, so an audit can be recorded on one machine
+ * and replayed on another.
+ */
+export interface CommandRunner {
+  /**
+   * Platform the commands run on, as reported by os.platform()
+   */
+  readonly platform: NodeJS.Platform;
+
+  /**
+   * Run a shell command, rejecting with a CommandError if it fails
+   */
+  run(command: string): Promise<CommandOutput>;
+
+  /**
+   * Run a command from PRIVILEGED_COMMANDS through sudo, without a shell
+   */
+  runWithSudo(args: string[], password?: string): Promise<CommandOutput>;
+
+  /**
+   * Drop sudo credentials cached since the audit started
+   */
+  endSudoSession(): Promise<void>;
+
+  /**
+   * Read a text file, or null if it does not exist or cannot be read
+   */
+  readFile(filePath: string): Promise<string | null>;
+
+  /**
+   * Read an environment variable of the audited user
+   */
+  getEnv(name: string): string | undefined;
+}
+
+/**
+ * Ties the commands started by one piece of audit work to an AbortSignal.
+ * Once the signal aborts, e.g. because the check timed out, its running
+ * commands are killed and new ones are refused.
+ */
+export class CommandAbortScope {
+  private static storage = new AsyncLocalStorage<AbortSignal>();
+
+  /**
+   * Run `fn` with every command it starts, also through checkers, bound to
+   * `signal`
+   */
+  static run<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+    return CommandAbortScope.storage.run(signal, fn);
+  }
+
+  /**
+   * Signal of the work currently running, if any
+   */
+  static get signal(): AbortSignal | undefined {
+    return CommandAbortScope.storage.getStore();
+  }
+}
+
+/**
+ * Runs commands on the local machine
+ */
+export class ExecCommandRunner implements CommandRunner {
+  private sudo = new SudoSession();
+
+  get platform(): NodeJS.Platform {
+    return os.platform();
+  }
+
+  async run(command: string): Promise<CommandOutput> {
+    const signal = CommandAbortScope.signal;
+    return signal ? execAsync(command, { signal }) : execAsync(command);
+  }
+
+  async runWithSudo(args: string[], password?: string): Promise<CommandOutput> {
+    return this.sudo.run(args, password, CommandAbortScope.signal);
+  }
+
+  async endSudoSession(): Promise<void> {
+    // The ended session refuses further commands; the next audit gets a new one
+    const session = this.sudo;
+    this.sudo = new SudoSession();
+    return session.end();
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      return fs.readFileSync(filePath, "utf-8");
+    } catch (error) {
+      // e.g. /etc/ssh/sshd_config is only readable by root on Fedora/RHEL
+      if (
+        UNREADABLE_FILE_CODES.includes((error as NodeJS.ErrnoException).code!)
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  getEnv(name: string): string | undefined {
+    return process.env[name];
+  }
+}
+
+/**
+ * Runner used when none is injected
+ */
+export const defaultCommandRunner: CommandRunner = new ExecCommandRunner();
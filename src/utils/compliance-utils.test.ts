@@ -0,0 +1,97 @@
+import { ComplianceUtils } from "./compliance-utils";
+import { ComplianceFramework, SecurityCheckResult } from "../types";
+
+describe("ComplianceUtils", () => {
+  const framework: ComplianceFramework = {
+    id: "test",
+    name: "Test Framework",
+    version: "v1",
+    controls: [
+      { id: "T-1", title: "Network filtering", checkIds: ["firewall"] },
+      { id: "T-2", title: "Device lock", checkIds: ["auto-lock"] },
+      { id: "T-3", title: "Patching", checkIds: ["automatic-updates"] },
+      { id: "T-4", title: "Secure boot", checkIds: ["system-integrity"] },
+    ],
+  };
+
+  const result = (
+    checkId: string,
+    passed: boolean,
+    extra: Partial<SecurityCheckResult> = {},
+  ): SecurityCheckResult => ({
+    setting: checkId,
+    expected: true,
+    actual: passed,
+    passed,
+    message: "",
+    checkId,
+    ...extra,
+  });
+
+  describe("controlCovers", () => {
+    it("should match exact check ids and their sub-results", () => {
+      const control = framework.controls[0];
+
+      expect(
+        ComplianceUtils.controlCovers(control, result("firewall", true)),
+      ).toBe(true);
+      expect(
+        ComplianceUtils.controlCovers(
+          control,
+          result("firewall.stealth-mode", true),
+        ),
+      ).toBe(true);
+      expect(
+        ComplianceUtils.controlCovers(control, result("firewall-extra", true)),
+      ).toBe(false);
+      expect(
+        ComplianceUtils.controlCovers(control, {
+          ...result("firewall", true),
+          checkId: undefined,
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("getCoverage", () => {
+    it("should derive each control's status from its results", () => {
+      const coverage = ComplianceUtils.getCoverage(framework, [
+        result("firewall", true),
+        result("firewall.stealth-mode", false),
+        result("auto-lock", false, { status: "waived" }),
+        result("automatic-updates", false, { status: "unknown" }),
+      ]);
+
+      expect(coverage.framework).toBe("test");
+      expect(coverage.version).toBe("v1");
+      expect(
+        coverage.controls.map(({ id, status }) => ({ id, status })),
+      ).toEqual([
+        { id: "T-1", status: "fail" },
+        { id: "T-2", status: "pass" },
+        { id: "T-3", status: "unknown" },
+        { id: "T-4", status: "not-assessed" },
+      ]);
+      expect(coverage.controls[0].checkIds).toEqual([
+        "firewall",
+        "firewall.stealth-mode",
+      ]);
+      expect(coverage.summary).toEqual({
+        total: 4,
+        assessed: 3,
+        passed: 1,
+        failed: 1,
+        unknown: 1,
+      });
+    });
+  });
+
+  describe("getDisplayName", () => {
+    it("should append the version when present", () => {
+      expect(ComplianceUtils.getDisplayName(framework)).toBe(
+        "Test Framework v1",
+      );
+      expect(ComplianceUtils.getDisplayName({ name: "SOC 2" })).toBe("SOC 2");
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  ComplianceControl,
+  ComplianceCoverage,
+  ComplianceFramework,
+  ControlStatus,
+  SecurityCheckResult,
+} from "../types";
+import { ResultStatusUtils } from "./result-status";
+
+/**
+ * Maps check results onto compliance framework controls
+ */
+export class ComplianceUtils {
+  /**
+   * Whether a control lists the result's check, either exactly or as the
+   * parent of a sub-result ("firewall" covers "firewall.stealth-mode")
+   */
+  static controlCovers(
+    control: ComplianceControl,
+    result: SecurityCheckResult,
+  ): boolean {
+    const { checkId } = result;
+    if (!checkId) {
+      return false;
+    }
+    return control.checkIds.some(
+      (mapped) => checkId === mapped || checkId.startsWith(`${mapped}.`),
+    );
+  }
+
+  /**
+   * Results that provide evidence for a control
+   */
+  static getControlResults(
+    control: ComplianceControl,
+    results: SecurityCheckResult[],
+  ): SecurityCheckResult[] {
+    return results.filter((result) => this.controlCovers(control, result));
+  }
+
+  /**
+   * Status of a control: failed if any of its results failed, unknown if any
+   * could not be determined, not assessed if none of its checks ran
+   */
+  static getControlStatus(
+    control: ComplianceControl,
+    results: SecurityCheckResult[],
+  ): ControlStatus {
+    const controlResults = this.getControlResults(control, results);
+    return controlResults.length === 0
+      ? "not-assessed"
+      : ResultStatusUtils.getOverallStatus(controlResults);
+  }
+
+  /**
+   * Coverage of a single framework by the given results
+   */
+  static getCoverage(
+    framework: ComplianceFramework,
+    results: SecurityCheckResult[],
+  ): ComplianceCoverage {
+    const controls = framework.controls.map((control) => ({
+      id: control.id,
+      title: control.title,
+      status: this.getControlStatus(control, results),
+      checkIds: Array.from(
+        new Set(
+          this.getControlResults(control, results).map(
+            (result) => result.checkId as string,
+          ),
+        ),
+      ),
+    }));
+    const count = (status: ControlStatus) =>
+      controls.filter((control) => control.status === status).length;
+
+    return {
+      framework: framework.id,
+      name: framework.name,
+      ...(framework.version && { version: framework.version }),
+      summary: {
+        total: controls.length,
+        assessed: controls.length - count("not-assessed"),
+        passed: count("pass"),
+        failed: count("fail"),
+        unknown: count("unknown"),
+      },
+      controls,
+    };
+  }
+
+  /**
+   * Coverage of every framework by the given results
+   */
+  static summarize(
+    frameworks: ComplianceFramework[],
+    results: SecurityCheckResult[],
+  ): ComplianceCoverage[] {
+    return frameworks.map((framework) => this.getCoverage(framework, results));
+  }
+
+  /**
+   * Framework name with its version, e.g. "NIST SP 800-53 Rev. 5"
+   */
+  static getDisplayName(framework: { name: string; version?: string }): string {
+    return framework.version
+      ? `${framework.name} ${framework.version}`
+      : framework.name;
+  }
+}
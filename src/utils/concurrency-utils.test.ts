@@ -0,0 +1,72 @@
+import { ConcurrencyUtils } from "./concurrency-utils";
+
+describe("ConcurrencyUtils", () => {
+  describe("mapWithConcurrency", () => {
+    it("should keep item order and never exceed the limit", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const delays = [30, 5, 20, 1, 10];
+
+      const results = await ConcurrencyUtils.mapWithConcurrency(
+        delays,
+        2,
+        async (delay, index) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          running--;
+          return `${index}:${delay}`;
+        },
+      );
+
+      expect(results).toEqual(["0:30", "1:5", "2:20", "3:1", "4:10"]);
+      expect(maxRunning).toBe(2);
+    });
+
+    it("should run one at a time for limits below one", async () => {
+      const order: number[] = [];
+
+      await ConcurrencyUtils.mapWithConcurrency([1, 2, 3], 0, async (item) => {
+        order.push(item);
+      });
+
+      expect(order).toEqual([1, 2, 3]);
+      await expect(
+        ConcurrencyUtils.mapWithConcurrency([], 4, async () => 1),
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe("withTimeout", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should settle with promises that finish in time", async () => {
+      await expect(
+        ConcurrencyUtils.withTimeout(
+          Promise.resolve("done"),
+          1000,
+          () => new Error("late"),
+        ),
+      ).resolves.toBe("done");
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it("should reject once the timeout elapses", async () => {
+      const pending = ConcurrencyUtils.withTimeout(
+        new Promise(() => {}),
+        1000,
+        () => new Error("Timed out after 1s"),
+      );
+
+      jest.advanceTimersByTime(1000);
+
+      await expect(pending).rejects.toThrow("Timed out after 1s");
+    });
+  });
+});
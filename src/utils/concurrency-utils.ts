@@ -0,0 +1,46 @@
+/**
+ * Helpers for running audit work concurrently without letting one slow task
+ * hold up the rest
+ */
+export class ConcurrencyUtils {
+  /**
+   * Map items with at most `limit` calls of `fn` in flight. Results keep the
+   * order of the items.
+   */
+  static async mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index], index);
+      }
+    };
+
+    const workers = Math.max(1, Math.min(Math.floor(limit), items.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+  }
+
+  /**
+   * Settle with the promise, or reject with `createError()` if it is still
+   * pending after `timeoutMs`. The promise itself keeps running.
+   */
+  static withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    createError: () => Error,
+  ): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(createError()), timeoutMs);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
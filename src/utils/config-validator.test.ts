@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ConfigValidationError,
+  ConfigValidator,
+  SCHEDULING_CONFIG_SCHEMA,
+  SECURITY_CONFIG_SCHEMA,
+} from "./config-validator";
+import { VALID_PROFILES, getConfigByProfile } from "../config/config-profiles";
+
+describe("ConfigValidator", () => {
+  describe("validateSecurityConfig", () => {
+    it("should accept every built-in profile", () => {
+      for (const profile of VALID_PROFILES) {
+        expect(
+          ConfigValidator.validateSecurityConfig(getConfigByProfile(profile)),
+        ).toEqual([]);
+      }
+    });
+
+    it("should suggest the closest property for unknown keys", () => {
+      const issues = ConfigValidator.validateSecurityConfig({
+        firewal: { enabled: true },
+        autoLock: { maxTimeout: 5 },
+      });
+
+      expect(issues).toEqual([
+        {
+          pointer: "/firewal",
+          message: "unknown property",
+          suggestion: "firewall",
+        },
+        { pointer: "/autoLock/maxTimeoutMinutes", message: "is required" },
+        {
+          pointer: "/autoLock/maxTimeout",
+          message: "unknown property",
+          suggestion: undefined,
+        },
+      ]);
+    });
+
+    it("should report wrong types with their JSON pointer", () => {
+      const issues = ConfigValidator.validateSecurityConfig({
+        autoLock: { maxTimeoutMinutes: "5" },
+        wifiSecurity: { bannedNetworks: ["Guest", 42] },
+        platform: { target: "macOS" },
+      });
+
+      expect(ConfigValidator.formatIssues(issues)).toEqual([
+        "/autoLock/maxTimeoutMinutes: must be a number, got string",
+        "/wifiSecurity/bannedNetworks/1: must be a string, got number",
+        '/platform/target: must be one of "macos", "linux", "auto", got "macOS" (did you mean "macos"?)',
+      ]);
+    });
+
+    it("should accept config sections of registered checks", () => {
+      const config = { usbStorage: { blocked: true } };
+      const checkSchema = {
+        type: "object",
+        properties: {
+          usbStorage: {
+            type: "object",
+            properties: { blocked: { type: "boolean" } },
+            required: ["blocked"],
+          },
+        },
+      };
+
+      expect(ConfigValidator.validateSecurityConfig(config)).toHaveLength(1);
+      expect(
+        ConfigValidator.validateSecurityConfig(config, checkSchema),
+      ).toEqual([]);
+    });
+
+    it("should reject documents that are not objects", () => {
+      expect(
+        ConfigValidator.formatIssues(
+          ConfigValidator.validateSecurityConfig([]),
+        ),
+      ).toEqual(["/: must be an object, got array"]);
+    });
+  });
+
+  describe("validateSchedulingConfig", () => {
+    it("should validate nested delivery settings and severities", () => {
+      const issues = ConfigValidator.validateSchedulingConfig({
+        enabled: true,
+        intervalDays: 7,
+        reportFormat: "json",
+        securityProfile: "strict",
+        alertSeverity: "hihg",
+        scp: { enabled: true, host: "reports", authMethod: "key" },
+      });
+
+      expect(ConfigValidator.formatIssues(issues)).toEqual([
+        '/alertSeverity: must be one of "critical", "high", "medium", "low", "info", got "hihg" (did you mean "high"?)',
+        "/scp/username: is required",
+        "/scp/destinationDirectory: is required",
+      ]);
+    });
+  });
+
+  describe("assertValidSecurityConfig", () => {
+    it("should throw an error listing every issue", () => {
+      let thrown: unknown;
+      try {
+        ConfigValidator.assertValidSecurityConfig(
+          { firewall: { enabled: "yes" } },
+          "test.json",
+        );
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(ConfigValidationError);
+      expect((thrown as ConfigValidationError).issues).toHaveLength(1);
+      expect((thrown as Error).message).toBe(
+        "Invalid configuration test.json:\n  /firewall/enabled: must be a boolean, got string",
+      );
+    });
+  });
+
+  describe("generated schemas", () => {
+    it("should match the interfaces in src/types.ts", () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const generator = require("../../scripts/generate-config-schemas");
+      const schemas = generator.generateConfigSchemas();
+
+      expect(schemas["security-config.schema.json"]).toEqual(
+        SECURITY_CONFIG_SCHEMA,
+      );
+      expect(schemas["scheduling-config.schema.json"]).toEqual(
+        SCHEDULING_CONFIG_SCHEMA,
+      );
+    });
+
+    it("should accept the example configurations", () => {
+      const examplesDir = path.join(__dirname, "../../examples");
+      for (const file of fs.readdirSync(examplesDir)) {
+        const config = JSON.parse(
+          fs.readFileSync(path.join(examplesDir, file), "utf-8"),
+        );
+        expect([file, ConfigValidator.validateSecurityConfig(config)]).toEqual([
+          file,
+          [],
+        ]);
+      }
+    });
+  });
+});
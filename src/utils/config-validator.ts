@@ -0,0 +1,352 @@
+import { SchedulingConfig, SecurityConfig } from "../types";
+import securityConfigSchema from "../schemas/security-config.schema.json";
+import schedulingConfigSchema from "../schemas/scheduling-config.schema.json";
+
+/**
+ * JSON Schema for SecurityConfig, generated from src/types.ts
+ */
+export const SECURITY_CONFIG_SCHEMA: JsonSchema = securityConfigSchema;
+
+/**
+ * JSON Schema for SchedulingConfig, generated from src/types.ts
+ */
+export const SCHEDULING_CONFIG_SCHEMA: JsonSchema = schedulingConfigSchema;
+
+/**
+ * The subset of JSON Schema (draft-07) used by the config schemas
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  [keyword: string]: unknown;
+}
+
+/**
+ * A single validation problem, located by JSON pointer (RFC 6901)
+ */
+export interface ConfigValidationIssue {
+  pointer: string; // "" for the document itself, e.g. "/autoLock/maxTimeoutMinutes"
+  message: string;
+  suggestion?: string; // Closest known property name for unknown keys
+}
+
+/**
+ * Thrown when a configuration file does not match its schema
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    source: string,
+    public readonly issues: ConfigValidationIssue[],
+  ) {
+    super(
+      `Invalid configuration ${source}:\n${ConfigValidator.formatIssues(issues)
+        .map((line) => `  ${line}`)
+        .join("\n")}`,
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+/**
+ * Strict validation of configurations against their JSON Schemas
+ */
+export class ConfigValidator {
+  /**
+   * Validate a security configuration. `checkSchema` is the combined schema of
+   * a check registry (CheckRegistry.getConfigSchema) and adds config sections
+   * for registered in-house checks that are not part of SecurityConfig.
+   */
+  static validateSecurityConfig(
+    config: unknown,
+    checkSchema: JsonSchema = {},
+  ): ConfigValidationIssue[] {
+    const properties = { ...SECURITY_CONFIG_SCHEMA.properties };
+    for (const [key, schema] of Object.entries(checkSchema.properties ?? {})) {
+      if (!(key in properties)) {
+        properties[key] = schema;
+      }
+    }
+
+    return this.validate(config, { ...SECURITY_CONFIG_SCHEMA, properties });
+  }
+
+  /**
+   * Validate a scheduling configuration
+   */
+  static validateSchedulingConfig(config: unknown): ConfigValidationIssue[] {
+    return this.validate(config, SCHEDULING_CONFIG_SCHEMA);
+  }
+
+  /**
+   * Throw a ConfigValidationError unless the security configuration is valid
+   */
+  static assertValidSecurityConfig(
+    config: unknown,
+    source: string,
+    checkSchema: JsonSchema = {},
+  ): asserts config is SecurityConfig {
+    const issues = this.validateSecurityConfig(config, checkSchema);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(source, issues);
+    }
+  }
+
+  /**
+   * Throw a ConfigValidationError unless the scheduling configuration is valid
+   */
+  static assertValidSchedulingConfig(
+    config: unknown,
+    source: string,
+  ): asserts config is SchedulingConfig {
+    const issues = this.validateSchedulingConfig(config);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(source, issues);
+    }
+  }
+
+  /**
+   * Validate a value against a schema, collecting every problem found
+   */
+  static validate(
+    value: unknown,
+    schema: JsonSchema,
+    pointer: string = "",
+  ): ConfigValidationIssue[] {
+    if (schema.anyOf) {
+      const branches = schema.anyOf.map((branch) =>
+        this.validate(value, branch, pointer),
+      );
+      if (branches.some((issues) => issues.length === 0)) {
+        return [];
+      }
+      return [
+        {
+          pointer,
+          message: `must match one of: ${schema.anyOf
+            .map((branch) => this.describeType(branch))
+            .join(", ")}`,
+        },
+      ];
+    }
+
+    if (schema.type !== undefined && !this.matchesType(value, schema.type)) {
+      return [
+        {
+          pointer,
+          message: `must be ${this.describeType(schema)}, got ${this.typeOf(value)}`,
+        },
+      ];
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      return [
+        {
+          pointer,
+          message: `must be one of ${schema.enum
+            .map((option) => JSON.stringify(option))
+            .join(", ")}, got ${JSON.stringify(value)}`,
+          suggestion:
+            typeof value === "string"
+              ? this.suggest(
+                  value,
+                  schema.enum.filter(
+                    (option): option is string => typeof option === "string",
+                  ),
+                )
+              : undefined,
+        },
+      ];
+    }
+
+    const issues: ConfigValidationIssue[] = [];
+
+    if (typeof value === "number") {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ pointer, message: `must be ≥ ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push({ pointer, message: `must be ≤ ${schema.maximum}` });
+      }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => {
+        issues.push(
+          ...this.validate(item, schema.items!, `${pointer}/${index}`),
+        );
+      });
+    }
+
+    if (this.isObject(value)) {
+      issues.push(...this.validateObject(value, schema, pointer));
+    }
+
+    return issues;
+  }
+
+  /**
+   * One line per issue, e.g. `/firewal: unknown property (did you mean "firewall"?)`
+   */
+  static formatIssues(issues: ConfigValidationIssue[]): string[] {
+    return issues.map(
+      (issue) =>
+        `${issue.pointer || "/"}: ${issue.message}${
+          issue.suggestion ? ` (did you mean "${issue.suggestion}"?)` : ""
+        }`,
+    );
+  }
+
+  private static validateObject(
+    value: Record<string, unknown>,
+    schema: JsonSchema,
+    pointer: string,
+  ): ConfigValidationIssue[] {
+    const issues: ConfigValidationIssue[] = [];
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        issues.push({
+          pointer: `${pointer}/${this.escapePointer(key)}`,
+          message: "is required",
+        });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertyPointer = `${pointer}/${this.escapePointer(key)}`;
+      const propertySchema = properties[key];
+
+      if (propertySchema) {
+        issues.push(
+          ...this.validate(propertyValue, propertySchema, propertyPointer),
+        );
+      } else if (this.isObject(schema.additionalProperties)) {
+        issues.push(
+          ...this.validate(
+            propertyValue,
+            schema.additionalProperties,
+            propertyPointer,
+          ),
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push({
+          pointer: propertyPointer,
+          message: "unknown property",
+          suggestion: this.suggest(key, Object.keys(properties)),
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Closest candidate within a small edit distance, ignoring case
+   */
+  private static suggest(
+    input: string,
+    candidates: string[],
+  ): string | undefined {
+    const maxDistance = Math.max(1, Math.floor(input.length / 3));
+    let best: { candidate: string; distance: number } | undefined;
+
+    for (const candidate of candidates) {
+      const distance = this.editDistance(
+        input.toLowerCase(),
+        candidate.toLowerCase(),
+      );
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { candidate, distance };
+      }
+    }
+
+    return best?.candidate;
+  }
+
+  /**
+   * Edits needed to turn `a` into `b`, counting swapped neighbours as one
+   */
+  private static editDistance(a: string, b: string): number {
+    const d = Array.from({ length: a.length + 1 }, (_, i) =>
+      Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i)),
+    );
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        d[i][j] = Math.min(
+          d[i - 1][j] + 1,
+          d[i][j - 1] + 1,
+          d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return d[a.length][b.length];
+  }
+
+  private static matchesType(value: unknown, type: string | string[]): boolean {
+    const types = Array.isArray(type) ? type : [type];
+    return types.some((expected) => {
+      switch (expected) {
+        case "object":
+          return this.isObject(value);
+        case "array":
+          return Array.isArray(value);
+        case "number":
+          return typeof value === "number" && !Number.isNaN(value);
+        case "integer":
+          return Number.isInteger(value);
+        case "null":
+          return value === null;
+        default:
+          return typeof value === expected;
+      }
+    });
+  }
+
+  private static describeType(schema: JsonSchema): string {
+    if (schema.enum) {
+      return schema.enum.map((option) => JSON.stringify(option)).join(" | ");
+    }
+    if (schema.type === undefined) {
+      return "any value";
+    }
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    return types
+      .map((type) => `a${/^[aeiou]/.test(type) ? "n" : ""} ${type}`)
+      .join(" or ");
+  }
+
+  private static typeOf(value: unknown): string {
+    if (value === null) {
+      return "null";
+    }
+    if (Array.isArray(value)) {
+      return "array";
+    }
+    if (Number.isNaN(value)) {
+      return "NaN";
+    }
+    return typeof value;
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private static escapePointer(key: string): string {
+    return key.replace(/~/g, "~0").replace(/\//g, "~1");
+  }
+}
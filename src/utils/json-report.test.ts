@@ -0,0 +1,257 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  JSON_REPORT_SCHEMA,
+  JSON_REPORT_SCHEMA_VERSION,
+  JsonReportUtils,
+} from "./json-report";
+import { JsonSecurityReport, SecurityReport } from "../types";
+
+describe("JsonReportUtils", () => {
+  const securityReport: SecurityReport = {
+    timestamp: "2025-06-01T12:00:00.000Z",
+    overallPassed: false,
+    results: [
+      {
+        setting: "Disk Encryption (LUKS)",
+        expected: true,
+        actual: true,
+        passed: true,
+        message: "Disk encryption is enabled - LUKS encryption is active",
+      },
+      {
+        setting: "Auto-lock Timeout",
+        expected: "≤ 7 minutes",
+        actual: "15 minutes",
+        passed: false,
+        message: "Screen locks after 15 minutes (exceeds 7 minute limit)",
+      },
+      {
+        setting: "Automatic Installation",
+        expected: true,
+        actual: undefined,
+        passed: false,
+        message: "Updates require manual installation",
+      },
+      {
+        setting: "Package Verification",
+        expected: true,
+        actual: null,
+        passed: false,
+        message: "Package Verification could not be determined",
+        status: "unknown",
+        reason: "No supported package manager configuration could be read",
+        commandsTried: ["dnf config-manager --dump", "apt-config dump"],
+      },
+    ],
+  };
+
+  describe("buildReport", () => {
+    it("should build a versioned report from the audit result", () => {
+      const report = JsonReportUtils.buildReport(securityReport, {
+        platform: "linux",
+        distribution: "fedora",
+        platformVersion: "40",
+        hostname: "workstation-1",
+        userId: "jdoe",
+        profile: "strict",
+      });
+
+      expect(report.schemaVersion).toBe(JSON_REPORT_SCHEMA_VERSION);
+      expect(report.generator.name).toBe("eai-security-check");
+      expect(report.timestamp).toBe(securityReport.timestamp);
+      expect(report.host).toEqual({
+        hostname: "workstation-1",
+        platform: "linux",
+        platformVersion: "40",
+        distribution: "fedora",
+        userId: "jdoe",
+      });
+      expect(report.profile).toBe("strict");
+      expect(report.overallPassed).toBe(false);
+      expect(report.overallStatus).toBe("fail");
+      expect(report.summary).toEqual({
+        total: 4,
+        passed: 1,
+        failed: 2,
+        unknown: 1,
+        errors: 0,
+        waived: 0,
+        failedBySeverity: { critical: 0, high: 0, medium: 2, low: 0, info: 0 },
+      });
+    });
+
+    it("should keep unrecognised context as metadata", () => {
+      const report = JsonReportUtils.buildReport(securityReport, {
+        platform: "linux",
+        timestamp: "ignored",
+        overallPassed: true,
+        scheduled: true,
+      });
+
+      expect(report.metadata).toEqual({ scheduled: true });
+    });
+
+    it("should carry the compliance coverage of the audit", () => {
+      const compliance = [
+        {
+          framework: "soc2",
+          name: "SOC 2 Trust Services Criteria",
+          summary: { total: 1, assessed: 0, passed: 0, failed: 0, unknown: 0 },
+          controls: [
+            {
+              id: "CC6.1",
+              title: "Logical access security",
+              status: "not-assessed" as const,
+              checkIds: [],
+            },
+          ],
+        },
+      ];
+
+      expect(JsonReportUtils.buildReport(securityReport).compliance).toEqual(
+        [],
+      );
+      expect(
+        JsonReportUtils.buildReport({ ...securityReport, compliance })
+          .compliance,
+      ).toEqual(compliance);
+    });
+
+    it("should carry the check durations of the audit", () => {
+      expect(JsonReportUtils.buildReport(securityReport).durations).toEqual({});
+      expect(
+        JsonReportUtils.buildReport({
+          ...securityReport,
+          durations: { firewall: 412 },
+        }).durations,
+      ).toEqual({ firewall: 412 });
+    });
+
+    it("should normalize missing values to null", () => {
+      const report = JsonReportUtils.buildReport(securityReport);
+
+      expect(report.results[2].actual).toBeNull();
+      expect(JSON.parse(JSON.stringify(report)).results[2]).toHaveProperty(
+        "actual",
+        null,
+      );
+    });
+
+    it("should include every property required by the schema", () => {
+      const report = JsonReportUtils.buildReport(securityReport, {
+        platform: "linux",
+      });
+      const schema = JSON_REPORT_SCHEMA as {
+        required: string[];
+        definitions: { checkResult: { required: string[] } };
+      };
+
+      for (const key of schema.required) {
+        expect(report).toHaveProperty(key);
+      }
+      for (const result of report.results) {
+        for (const key of schema.definitions.checkResult.required) {
+          expect(result).toHaveProperty(key);
+        }
+      }
+    });
+  });
+
+  it("should give every result a status", () => {
+    const report = JsonReportUtils.buildReport(securityReport);
+
+    expect(report.results.map((result) => result.status)).toEqual([
+      "pass",
+      "fail",
+      "fail",
+      "unknown",
+    ]);
+    expect(report.results[3].commandsTried).toHaveLength(2);
+  });
+
+  describe("isJsonReport", () => {
+    it("should accept reports of the current major version", () => {
+      expect(
+        JsonReportUtils.isJsonReport(
+          JsonReportUtils.buildReport(securityReport),
+        ),
+      ).toBe(true);
+    });
+
+    it("should reject legacy and foreign documents", () => {
+      expect(JsonReportUtils.isJsonReport(securityReport)).toBe(false);
+      expect(
+        JsonReportUtils.isJsonReport({ schemaVersion: "2.0", results: [] }),
+      ).toBe(false);
+      expect(JsonReportUtils.isJsonReport(null)).toBe(false);
+    });
+  });
+
+  describe("loadReport", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "eai-report-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should read back a report as the check command writes it", () => {
+      const reportPath = path.join(tempDir, "eai-security-report.json");
+      const written = JsonReportUtils.buildReport(securityReport, {
+        hostname: "fedora-laptop",
+        platform: "linux",
+        profile: "default",
+      });
+      fs.writeFileSync(reportPath, JSON.stringify(written, null, 2));
+
+      const report = JsonReportUtils.loadReport(reportPath);
+
+      expect(report).toEqual(written);
+      expect(report.host.platform).toBe("linux");
+      expect(report.summary).toMatchObject({
+        total: 4,
+        passed: 1,
+        failed: 2,
+        unknown: 1,
+      });
+    });
+
+    it("should reject legacy reports and missing fields", () => {
+      const legacyPath = path.join(tempDir, "legacy.json");
+      fs.writeFileSync(
+        legacyPath,
+        JSON.stringify({
+          ...securityReport,
+          platform: "linux",
+          summary: { totalChecks: 4, passed: 1, failed: 3 },
+        }),
+      );
+      expect(() => JsonReportUtils.loadReport(legacyPath)).toThrow(
+        "Not a security report of schema version 1.x",
+      );
+
+      const incompletePath = path.join(tempDir, "incomplete.json");
+      const incomplete: Partial<JsonSecurityReport> =
+        JsonReportUtils.buildReport(securityReport);
+      delete incomplete.host;
+      fs.writeFileSync(
+        incompletePath,
+        JSON.stringify({ ...incomplete, summary: { total: 4 } }),
+      );
+      expect(() => JsonReportUtils.loadReport(incompletePath)).toThrow(
+        "Required field missing: host, summary.passed, summary.failed",
+      );
+    });
+
+    it("should report missing files", () => {
+      expect(() =>
+        JsonReportUtils.loadReport(path.join(tempDir, "missing.json")),
+      ).toThrow("Report file not found");
+    });
+  });
+});
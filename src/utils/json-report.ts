@@ -0,0 +1,204 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  JsonSecurityReport,
+  SecurityCheckResult,
+  SecurityReport,
+} from "../types";
+import { VersionUtils } from "./version-utils";
+import { SeverityUtils } from "./severity-utils";
+import { ResultStatusUtils } from "./result-status";
+import reportSchema from "../schemas/security-report.schema.json";
+
+/**
+ * Current report schema version. Bump the minor version for additive
+ * changes and the major version for breaking ones.
+ */
+export const JSON_REPORT_SCHEMA_VERSION = "1.5";
+
+/**
+ * Published JSON Schema describing JsonSecurityReport
+ */
+export const JSON_REPORT_SCHEMA = reportSchema;
+
+/**
+ * Where and how the audit was run. Unrecognised keys are kept as report metadata.
+ */
+export interface JsonReportContext {
+  platform?: string;
+  platformVersion?: string;
+  distribution?: string;
+  hostname?: string;
+  userId?: string;
+  profile?: string;
+  configSource?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Builds the versioned JSON report directly from SecurityReport
+ */
+export class JsonReportUtils {
+  /**
+   * Build a JSON report from an audit result
+   */
+  static buildReport(
+    report: SecurityReport,
+    context: JsonReportContext = {},
+  ): JsonSecurityReport {
+    const {
+      platform,
+      platformVersion,
+      distribution,
+      hostname,
+      userId,
+      profile,
+      configSource,
+      ...extra
+    } = context;
+
+    // timestamp and overallPassed are already part of the report itself
+    const metadata = Object.fromEntries(
+      Object.entries(extra).filter(
+        ([key]) => key !== "timestamp" && key !== "overallPassed",
+      ),
+    );
+
+    const jsonReport: JsonSecurityReport = {
+      schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+      generator: {
+        name: "eai-security-check",
+        version: VersionUtils.getCurrentVersion(),
+      },
+      timestamp: report.timestamp,
+      host: {
+        hostname: hostname ?? os.hostname(),
+        platform: platform ?? os.platform(),
+        ...(platformVersion && { platformVersion }),
+        ...(distribution && { distribution }),
+        ...(userId && { userId }),
+      },
+      ...(profile && { profile }),
+      ...(configSource && { configSource }),
+      overallPassed: report.overallPassed,
+      overallStatus: ResultStatusUtils.getOverallStatus(report.results),
+      summary: this.summarize(report.results),
+      waivers: {
+        active: report.waivers?.active ?? [],
+        expired: report.waivers?.expired ?? [],
+      },
+      compliance: report.compliance ?? [],
+      durations: report.durations ?? {},
+      results: report.results.map((result) => this.normalizeResult(result)),
+      metadata,
+    };
+
+    return jsonReport;
+  }
+
+  /**
+   * Build a JSON report and serialize it
+   */
+  static stringify(
+    report: SecurityReport,
+    context: JsonReportContext = {},
+  ): string {
+    return JSON.stringify(this.buildReport(report, context), null, 2);
+  }
+
+  /**
+   * Count results per status, with failures broken down by severity
+   */
+  static summarize(
+    results: SecurityCheckResult[],
+  ): JsonSecurityReport["summary"] {
+    const counts = ResultStatusUtils.countByStatus(results);
+    return {
+      total: results.length,
+      passed: counts.pass,
+      failed: counts.fail,
+      unknown: counts.unknown,
+      errors: counts.error,
+      waived: counts.waived,
+      failedBySeverity: SeverityUtils.countFailuresBySeverity(results),
+    };
+  }
+
+  /**
+   * Check whether parsed JSON looks like a report of a supported schema version
+   */
+  static isJsonReport(value: unknown): value is JsonSecurityReport {
+    if (typeof value !== "object" || value === null) {
+      return false;
+    }
+
+    const candidate = value as Partial<JsonSecurityReport>;
+    return (
+      typeof candidate.schemaVersion === "string" &&
+      candidate.schemaVersion.split(".")[0] ===
+        JSON_REPORT_SCHEMA_VERSION.split(".")[0] &&
+      Array.isArray(candidate.results)
+    );
+  }
+
+  /**
+   * Read a report written by `check`, rejecting legacy reports, other schema
+   * versions and reports missing a property the schema requires
+   */
+  static loadReport(filePath: string): JsonSecurityReport {
+    const resolvedPath = path.resolve(filePath);
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Report file not found: ${resolvedPath}`);
+    }
+
+    let report: unknown;
+    try {
+      report = JSON.parse(fs.readFileSync(resolvedPath, "utf-8"));
+    } catch (error) {
+      throw new Error(`Failed to read report ${resolvedPath}: ${error}`);
+    }
+
+    if (!this.isJsonReport(report)) {
+      throw new Error(
+        `Not a security report of schema version ${JSON_REPORT_SCHEMA_VERSION.split(".")[0]}.x: ${resolvedPath}`,
+      );
+    }
+    const summary: Record<string, unknown> = { ...report.summary };
+    const missing = [
+      ...JSON_REPORT_SCHEMA.required.filter((key) => !(key in report)),
+      ...JSON_REPORT_SCHEMA.properties.summary.required
+        .filter((key) => typeof summary[key] !== "number")
+        .map((key) => `summary.${key}`),
+    ];
+    if (missing.length > 0) {
+      throw new Error(`Required field missing: ${missing.join(", ")}`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Ensure expected/actual are JSON primitives so the report matches the schema
+   */
+  private static normalizeResult(
+    result: SecurityCheckResult,
+  ): SecurityCheckResult {
+    return {
+      ...result,
+      status: ResultStatusUtils.getStatus(result),
+      expected: this.normalizeValue(result.expected),
+      actual: this.normalizeValue(result.actual),
+    };
+  }
+
+  private static normalizeValue(value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (["string", "number", "boolean"].includes(typeof value)) {
+      return value;
+    }
+    return JSON.stringify(value);
+  }
+}
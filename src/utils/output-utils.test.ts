@@ -73,21 +73,58 @@ describe("OutputUtils", () => {
       expect(formatted.content).toContain("**Generated:**");
     });
 
-    it("should format report as JSON", () => {
+    it("should format report as JSON from the structured report", () => {
       const formatted = OutputUtils.formatReport(
         sampleReport,
         OutputFormat.JSON,
+        { platform: "macos", profile: "default" },
+        {
+          timestamp: "2025-01-01T00:00:00.000Z",
+          overallPassed: false,
+          results: [
+            {
+              setting: "FileVault",
+              expected: true,
+              actual: true,
+              passed: true,
+              message: "FileVault is enabled",
+            },
+            {
+              setting: "Firewall",
+              expected: true,
+              actual: false,
+              passed: false,
+              message: "Firewall is disabled",
+              severity: "high",
+            },
+          ],
+        },
       );
 
       expect(formatted.format).toBe(OutputFormat.JSON);
       expect(formatted.filename).toBe("security-report.json");
 
       const jsonData = JSON.parse(formatted.content);
-      expect(jsonData).toHaveProperty("timestamp");
-      expect(jsonData).toHaveProperty("results");
-      expect(jsonData.results).toHaveLength(3);
-      expect(jsonData.passedChecks).toBe(2);
-      expect(jsonData.failedChecks).toBe(1);
+      expect(jsonData.schemaVersion).toBe("1.5");
+      expect(jsonData.timestamp).toBe("2025-01-01T00:00:00.000Z");
+      expect(jsonData.host.platform).toBe("macos");
+      expect(jsonData.profile).toBe("default");
+      expect(jsonData.results).toHaveLength(2);
+      expect(jsonData.summary).toEqual({
+        total: 2,
+        passed: 1,
+        failed: 1,
+        unknown: 0,
+        errors: 0,
+        waived: 0,
+        failedBySeverity: { critical: 0, high: 1, medium: 0, low: 0, info: 0 },
+      });
+    });
+
+    it("should require the structured report for JSON output", () => {
+      expect(() =>
+        OutputUtils.formatReport(sampleReport, OutputFormat.JSON),
+      ).toThrow("JSON output requires the structured security report");
     });
 
     it("should format report for email", () => {
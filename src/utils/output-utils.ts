@@ -1,6 +1,8 @@
 import { exec } from "child_process";
 import { promisify } from "util";
 import * as os from "os";
+import { SecurityReport } from "../types";
+import { JsonReportUtils } from "./json-report";
 
 const execAsync = promisify(exec);
 
@@ -20,12 +22,14 @@ export interface FormattedOutput {
 
 export class OutputUtils {
   /**
-   * Format report content for different output types
+   * Format report content for different output types.
+   * JSON output is built from the structured SecurityReport, not the text.
    */
   static formatReport(
     report: string,
     format: OutputFormat,
     metadata?: Record<string, unknown>,
+    securityReport?: SecurityReport,
   ): FormattedOutput {
     switch (format) {
       case OutputFormat.PLAIN:
@@ -43,8 +47,13 @@ export class OutputUtils {
         };
 
       case OutputFormat.JSON:
+        if (!securityReport) {
+          throw new Error(
+            "JSON output requires the structured security report",
+          );
+        }
         return {
-          content: this.convertToJson(report, metadata),
+          content: JsonReportUtils.stringify(securityReport, metadata),
           format,
           filename: "security-report.json",
         };
@@ -147,7 +156,8 @@ export class OutputUtils {
       } else if (
         line.trim().startsWith("✅") ||
         line.trim().startsWith("❌") ||
-        line.trim().startsWith("⚠️")
+        line.trim().startsWith("⚠️") ||
+        line.trim().startsWith("➖")
       ) {
         // Security check results
         markdown += `- ${line.trim()}\n`;
@@ -166,60 +176,6 @@ export class OutputUtils {
     return markdown;
   }
 
-  /**
-   * Convert report to JSON format
-   */
-  private static convertToJson(
-    report: string,
-    metadata?: Record<string, unknown>,
-  ): string {
-    const cleanReport = this.stripAnsiCodes(report);
-    const lines = cleanReport.split("\n");
-
-    const results: Record<string, unknown>[] = [];
-    let summary = "";
-    let overallPassed = false;
-
-    for (const line of lines) {
-      if (line.trim().startsWith("✅")) {
-        results.push({
-          status: "passed",
-          message: line.trim().substring(2).trim(),
-          icon: "✅",
-        });
-      } else if (line.trim().startsWith("❌")) {
-        results.push({
-          status: "failed",
-          message: line.trim().substring(2).trim(),
-          icon: "❌",
-        });
-      } else if (line.trim().startsWith("⚠️")) {
-        results.push({
-          status: "warning",
-          message: line.trim().substring(2).trim(),
-          icon: "⚠️",
-        });
-      } else if (line.includes("passed") && line.includes("failed")) {
-        summary = line.trim();
-        overallPassed = line.includes("0 failed");
-      }
-    }
-
-    const jsonReport = {
-      timestamp: new Date().toISOString(),
-      summary,
-      overallPassed,
-      totalChecks: results.length,
-      passedChecks: results.filter((r) => r.status === "passed").length,
-      failedChecks: results.filter((r) => r.status === "failed").length,
-      warningChecks: results.filter((r) => r.status === "warning").length,
-      results,
-      metadata: metadata || {},
-    };
-
-    return JSON.stringify(jsonReport, null, 2);
-  }
-
   /**
    * Format report for email
    */
@@ -1,11 +1,10 @@
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
+import { CommandRunner, defaultCommandRunner } from "./command-runner";
 
 export interface PasswordValidationResult {
   isValid: boolean;
   message: string;
+  undetermined?: boolean; // The value could not be checked; isValid is false
+  commandsTried?: string[];
 }
 
 export interface PasswordRequirements {
@@ -20,18 +19,26 @@ export interface PasswordRequirements {
 /**
  * Checks if the current user's password is older than the specified number of days
  * Enhanced with multiple fallback methods for better reliability across macOS versions
+ * and chage on Linux. Reports undetermined rather than compliant when no method works.
  */
 export async function checkPasswordExpiration(
   maxAgeDays: number = 180,
+  runner: CommandRunner = defaultCommandRunner,
 ): Promise<PasswordValidationResult> {
+  const commandsTried: string[] = [];
+
   try {
-    const currentUser = process.env.USER || process.env.USERNAME || "unknown";
+    const currentUser =
+      runner.getEnv("USER") || runner.getEnv("USERNAME") || "unknown";
     let passwordLastSetTime: Date | null = null;
     let method = "";
 
     // Method 1: Try dscl passwordLastSetTime (direct approach)
     try {
-      const { stdout } = await execAsync(
+      commandsTried.push(
+        `dscl . -read /Users/${currentUser} passwordLastSetTime`,
+      );
+      const { stdout } = await runner.run(
         `dscl . -read /Users/${currentUser} passwordLastSetTime 2>/dev/null`,
       );
       const match = stdout.match(/passwordLastSetTime:\s*(.+)/);
@@ -46,7 +53,10 @@ export async function checkPasswordExpiration(
     // Method 2: Try dscl accountPolicyData (account creation time from policy data)
     if (!passwordLastSetTime) {
       try {
-        const { stdout } = await execAsync(
+        commandsTried.push(
+          `dscl . -read /Users/${currentUser} accountPolicyData`,
+        );
+        const { stdout } = await runner.run(
           `dscl . -read /Users/${currentUser} accountPolicyData 2>/dev/null`,
         );
         // Parse the XML/plist data to extract passwordLastSetTime
@@ -66,7 +76,8 @@ export async function checkPasswordExpiration(
     // Method 3: Try pwpolicy (password policies with multiple date patterns)
     if (!passwordLastSetTime) {
       try {
-        const { stdout } = await execAsync(
+        commandsTried.push(`pwpolicy -u ${currentUser} -getaccountpolicies`);
+        const { stdout } = await runner.run(
           `pwpolicy -u ${currentUser} -getaccountpolicies 2>/dev/null`,
         );
 
@@ -91,10 +102,29 @@ export async function checkPasswordExpiration(
       }
     }
 
-    // Method 4: Home directory creation time (filesystem-based approximation as final fallback)
+    // Method 4: chage last password change (Linux shadow database)
     if (!passwordLastSetTime) {
       try {
-        const { stdout } = await execAsync(
+        commandsTried.push(`chage -l ${currentUser}`);
+        const { stdout } = await runner.run(
+          `LC_ALL=C chage -l ${currentUser} 2>/dev/null`,
+        );
+        const match = stdout.match(/Last password change\s*:\s*(.+)/);
+        const lastChange = match ? new Date(match[1].trim()) : null;
+        if (lastChange && !isNaN(lastChange.getTime())) {
+          passwordLastSetTime = lastChange;
+          method = "chage";
+        }
+      } catch {
+        // Continue to next method
+      }
+    }
+
+    // Method 5: Home directory creation time (filesystem-based approximation as final fallback)
+    if (!passwordLastSetTime) {
+      try {
+        commandsTried.push(`stat -f "%SB" /Users/${currentUser}`);
+        const { stdout } = await runner.run(
           `stat -f "%SB" -t "%Y-%m-%d %H:%M:%S" /Users/${currentUser} 2>/dev/null`,
         );
         if (stdout.trim()) {
@@ -107,11 +137,13 @@ export async function checkPasswordExpiration(
     }
 
     // If we couldn't determine the password age, return detailed message
-    if (!passwordLastSetTime) {
+    if (!passwordLastSetTime || isNaN(passwordLastSetTime.getTime())) {
       return {
-        isValid: true,
+        isValid: false,
+        undetermined: true,
         message:
-          "Password age could not be determined using any method (dscl, pwpolicy, or filesystem) - assuming compliant",
+          "Password age could not be determined using any method (dscl, pwpolicy, chage, or filesystem)",
+        commandsTried,
       };
     }
 
@@ -135,8 +167,10 @@ export async function checkPasswordExpiration(
   } catch (error) {
     // If there's any error checking password expiration, provide clear message
     return {
-      isValid: true,
-      message: `Password expiration check failed: ${error instanceof Error ? error.message : "Unknown error"} - assuming compliant`,
+      isValid: false,
+      undetermined: true,
+      message: `Password expiration check failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      commandsTried,
     };
   }
 }
@@ -182,11 +216,14 @@ export async function validatePasswordConfiguration(
     requireSpecialChar: boolean;
     maxAgeDays: number;
   },
+  runner: CommandRunner = defaultCommandRunner,
 ): Promise<{
   requirementsValid: boolean;
   expirationValid: boolean;
   requirementsMessage: string;
   expirationMessage: string;
+  expirationUndetermined: boolean;
+  expirationCommandsTried: string[];
   overallValid: boolean;
 }> {
   // Check if password is required
@@ -196,6 +233,8 @@ export async function validatePasswordConfiguration(
       expirationValid: true,
       requirementsMessage: "Password validation is disabled",
       expirationMessage: "Password expiration checking is disabled",
+      expirationUndetermined: false,
+      expirationCommandsTried: [],
       overallValid: true,
     };
   }
@@ -216,6 +255,7 @@ export async function validatePasswordConfiguration(
   // Check password expiration
   const expirationCheck = await checkPasswordExpiration(
     passwordConfig.maxAgeDays,
+    runner,
   );
 
   return {
@@ -223,6 +263,8 @@ export async function validatePasswordConfiguration(
     expirationValid: expirationCheck.isValid,
     requirementsMessage,
     expirationMessage: expirationCheck.message,
+    expirationUndetermined: expirationCheck.undetermined ?? false,
+    expirationCommandsTried: expirationCheck.commandsTried ?? [],
     overallValid: requirementsValid && expirationCheck.isValid,
   };
 }
@@ -1,8 +1,5 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import * as os from "os";
-
-const execAsync = promisify(exec);
+import { CommandRunner, defaultCommandRunner } from "./command-runner";
 
 export enum Platform {
   MACOS = "macos",
@@ -22,17 +19,20 @@ export interface PlatformInfo {
 
 export class PlatformDetector {
   /**
-   * Detect the current platform and return detailed information
+   * Detect the platform the runner's commands run on and return detailed
+   * information
    */
-  static async detectPlatform(): Promise<PlatformInfo> {
-    const platform = os.platform();
+  static async detectPlatform(
+    runner: CommandRunner = defaultCommandRunner,
+  ): Promise<PlatformInfo> {
+    const platform = runner.platform;
 
     if (platform === "darwin") {
-      return await this.detectMacOS();
+      return await this.detectMacOS(runner);
     } else if (platform === "linux") {
-      return await this.detectLinux();
+      return await this.detectLinux(runner);
     } else if (platform === "win32") {
-      return await this.detectWindows();
+      return await this.detectWindows(runner);
     } else {
       return {
         platform: Platform.UNSUPPORTED,
@@ -46,9 +46,11 @@ export class PlatformDetector {
   /**
    * Detect macOS version information
    */
-  private static async detectMacOS(): Promise<PlatformInfo> {
+  private static async detectMacOS(
+    runner: CommandRunner,
+  ): Promise<PlatformInfo> {
     try {
-      const { stdout } = await execAsync("sw_vers -productVersion");
+      const { stdout } = await runner.run("sw_vers -productVersion");
       const version = stdout.trim();
 
       // Check if version is supported (15.0+)
@@ -83,14 +85,16 @@ export class PlatformDetector {
   /**
    * Detect Linux distribution and version
    */
-  private static async detectLinux(): Promise<PlatformInfo> {
+  private static async detectLinux(
+    runner: CommandRunner,
+  ): Promise<PlatformInfo> {
     try {
       // Try to detect distribution from /etc/os-release
       let distribution = "unknown";
       let version = "unknown";
 
       try {
-        const { stdout } = await execAsync("cat /etc/os-release");
+        const { stdout } = await runner.run("cat /etc/os-release");
         const lines = stdout.split("\n");
 
         for (const line of lines) {
@@ -103,13 +107,13 @@ export class PlatformDetector {
       } catch {
         // Fallback to lsb_release if available
         try {
-          const { stdout: distStdout } = await execAsync("lsb_release -is");
+          const { stdout: distStdout } = await runner.run("lsb_release -is");
           distribution = distStdout.trim().toLowerCase();
-          const { stdout: versionStdout } = await execAsync("lsb_release -rs");
+          const { stdout: versionStdout } = await runner.run("lsb_release -rs");
           version = versionStdout.trim();
         } catch {
           // Use uname as final fallback
-          const { stdout: unameStdout } = await execAsync("uname -r");
+          const { stdout: unameStdout } = await runner.run("uname -r");
           version = unameStdout.trim();
         }
       }
@@ -158,10 +162,12 @@ export class PlatformDetector {
   /**
    * Detect Windows version information
    */
-  private static async detectWindows(): Promise<PlatformInfo> {
+  private static async detectWindows(
+    runner: CommandRunner,
+  ): Promise<PlatformInfo> {
     try {
       // Get Windows version using wmic
-      const { stdout } = await execAsync("wmic os get Version /format:list");
+      const { stdout } = await runner.run("wmic os get Version /format:list");
       const versionLine = stdout
         .split("\n")
         .find((line) => line.startsWith("Version="));
@@ -174,14 +180,14 @@ export class PlatformDetector {
       // Try alternative method using PowerShell if wmic fails
       if (version === "unknown") {
         try {
-          const { stdout: psStdout } = await execAsync(
+          const { stdout: psStdout } = await runner.run(
             'powershell -Command "[System.Environment]::OSVersion.Version.ToString()"',
           );
           version = psStdout.trim();
         } catch {
           // Final fallback to registry query
           try {
-            const { stdout: regStdout } = await execAsync(
+            const { stdout: regStdout } = await runner.run(
               'reg query "HKLM\\SOFTWARE\\Microsoft\\Windows NT\\CurrentVersion" /v ReleaseId',
             );
             const releaseMatch = regStdout.match(/ReleaseId\s+REG_SZ\s+(.+)/);
@@ -0,0 +1,103 @@
+import { EXIT_CODES, ResultStatusUtils } from "./result-status";
+import { SecurityCheckResult } from "../types";
+
+function result(overrides: Partial<SecurityCheckResult>): SecurityCheckResult {
+  return {
+    setting: "Setting",
+    expected: true,
+    actual: true,
+    passed: true,
+    message: "",
+    ...overrides,
+  };
+}
+
+describe("ResultStatusUtils", () => {
+  describe("getStatus", () => {
+    it("should derive the status from passed when none is set", () => {
+      expect(ResultStatusUtils.getStatus(result({ passed: true }))).toBe(
+        "pass",
+      );
+      expect(ResultStatusUtils.getStatus(result({ passed: false }))).toBe(
+        "fail",
+      );
+      expect(
+        ResultStatusUtils.getStatus(
+          result({ passed: false, status: "unknown" }),
+        ),
+      ).toBe("unknown");
+    });
+  });
+
+  describe("countByStatus", () => {
+    it("should count every state", () => {
+      expect(
+        ResultStatusUtils.countByStatus([
+          result({ passed: true }),
+          result({ passed: false }),
+          result({ passed: false, status: "unknown" }),
+          result({ passed: false, status: "error" }),
+          result({ passed: false, status: "unknown" }),
+          result({ passed: false, status: "waived" }),
+        ]),
+      ).toEqual({ pass: 1, fail: 1, unknown: 2, error: 1, waived: 1 });
+    });
+  });
+
+  describe("getOverallStatus", () => {
+    it("should prefer fail over unknown", () => {
+      expect(
+        ResultStatusUtils.getOverallStatus([
+          result({ passed: false }),
+          result({ passed: false, status: "error" }),
+        ]),
+      ).toBe("fail");
+    });
+
+    it("should never report undetermined results as passed", () => {
+      expect(
+        ResultStatusUtils.getOverallStatus([
+          result({ passed: true }),
+          result({ passed: false, status: "unknown" }),
+        ]),
+      ).toBe("unknown");
+    });
+
+    it("should not fail on waived results", () => {
+      expect(
+        ResultStatusUtils.getOverallStatus([
+          result({ passed: true }),
+          result({ passed: false, status: "waived" }),
+        ]),
+      ).toBe("pass");
+    });
+
+    it("should ignore results below the threshold", () => {
+      expect(
+        ResultStatusUtils.getOverallStatus(
+          [
+            result({ passed: false, severity: "low" }),
+            result({ passed: false, status: "unknown", severity: "high" }),
+          ],
+          "high",
+        ),
+      ).toBe("unknown");
+    });
+  });
+
+  describe("getExitCode", () => {
+    it("should map the overall status to an exit code", () => {
+      expect(ResultStatusUtils.getExitCode([result({ passed: true })])).toBe(
+        EXIT_CODES.PASSED,
+      );
+      expect(ResultStatusUtils.getExitCode([result({ passed: false })])).toBe(
+        EXIT_CODES.FAILED,
+      );
+      expect(
+        ResultStatusUtils.getExitCode([
+          result({ passed: false, status: "error" }),
+        ]),
+      ).toBe(EXIT_CODES.UNDETERMINED);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  CheckStatus,
+  OverallStatus,
+  SecurityCheckResult,
+  Severity,
+} from "../types";
+import { DEFAULT_SEVERITY, SeverityUtils } from "./severity-utils";
+
+/**
+ * Process exit codes for the check command
+ */
+export const EXIT_CODES = {
+  PASSED: 0,
+  FAILED: 1,
+  UNDETERMINED: 2,
+} as const;
+
+/**
+ * Helpers for pass/fail/unknown/error result states
+ */
+export class ResultStatusUtils {
+  /**
+   * Status of a result, falling back to `passed` for results without one
+   */
+  static getStatus(result: SecurityCheckResult): CheckStatus {
+    return result.status ?? (result.passed ? "pass" : "fail");
+  }
+
+  /**
+   * Whether the result could not be determined ("unknown" or "error")
+   */
+  static isUndetermined(result: SecurityCheckResult): boolean {
+    const status = this.getStatus(result);
+    return status === "unknown" || status === "error";
+  }
+
+  /**
+   * Count results per status
+   */
+  static countByStatus(
+    results: SecurityCheckResult[],
+  ): Record<CheckStatus, number> {
+    const counts: Record<CheckStatus, number> = {
+      pass: 0,
+      fail: 0,
+      unknown: 0,
+      error: 0,
+      waived: 0,
+    };
+
+    for (const result of results) {
+      counts[this.getStatus(result)]++;
+    }
+
+    return counts;
+  }
+
+  /**
+   * "fail" if anything failed, "unknown" if anything could not be determined,
+   * otherwise "pass". Waived failures and results below the threshold are ignored.
+   */
+  static getOverallStatus(
+    results: SecurityCheckResult[],
+    threshold: Severity = "info",
+  ): OverallStatus {
+    const relevant = results.filter((result) =>
+      SeverityUtils.meetsThreshold(
+        result.severity ?? DEFAULT_SEVERITY,
+        threshold,
+      ),
+    );
+
+    if (relevant.some((result) => this.getStatus(result) === "fail")) {
+      return "fail";
+    }
+    if (relevant.some((result) => this.isUndetermined(result))) {
+      return "unknown";
+    }
+    return "pass";
+  }
+
+  /**
+   * Exit code for the results, only counting results at or above the threshold
+   */
+  static getExitCode(
+    results: SecurityCheckResult[],
+    threshold: Severity = "info",
+  ): number {
+    switch (this.getOverallStatus(results, threshold)) {
+      case "fail":
+        return EXIT_CODES.FAILED;
+      case "unknown":
+        return EXIT_CODES.UNDETERMINED;
+      default:
+        return EXIT_CODES.PASSED;
+    }
+  }
+
+  /**
+   * Upper-case label used in text reports and email subjects
+   */
+  static getStatusLabel(status: OverallStatus): string {
+    return status === "pass"
+      ? "PASSED"
+      : status === "fail"
+        ? "FAILED"
+        : "UNDETERMINED";
+  }
+}
@@ -0,0 +1,115 @@
+import { SeverityUtils } from "./severity-utils";
+import { SecurityCheckResult } from "../types";
+
+describe("SeverityUtils", () => {
+  const results: SecurityCheckResult[] = [
+    {
+      setting: "Disk Encryption",
+      expected: true,
+      actual: false,
+      passed: false,
+      message: "Disk encryption is disabled",
+      severity: "critical",
+    },
+    {
+      setting: "Stealth Mode",
+      expected: true,
+      actual: false,
+      passed: false,
+      message: "Stealth mode is disabled",
+      severity: "low",
+    },
+    {
+      setting: "Firewall",
+      expected: true,
+      actual: true,
+      passed: true,
+      message: "Firewall is enabled",
+      severity: "high",
+    },
+    {
+      setting: "Package Verification",
+      expected: true,
+      actual: null,
+      passed: false,
+      message: "Package verification could not be determined",
+      severity: "critical",
+      status: "unknown",
+    },
+    {
+      setting: "Legacy Check",
+      expected: true,
+      actual: false,
+      passed: false,
+      message: "Result without a severity",
+    },
+  ];
+
+  describe("parseSeverity", () => {
+    it("should accept severities regardless of case", () => {
+      expect(SeverityUtils.parseSeverity("HIGH")).toBe("high");
+      expect(SeverityUtils.parseSeverity(" info ")).toBe("info");
+    });
+
+    it("should reject unknown severities", () => {
+      expect(() => SeverityUtils.parseSeverity("urgent")).toThrow(
+        "Invalid severity: urgent",
+      );
+    });
+  });
+
+  describe("meetsThreshold", () => {
+    it("should compare severities by rank", () => {
+      expect(SeverityUtils.meetsThreshold("critical", "high")).toBe(true);
+      expect(SeverityUtils.meetsThreshold("high", "high")).toBe(true);
+      expect(SeverityUtils.meetsThreshold("low", "medium")).toBe(false);
+    });
+  });
+
+  describe("getFailuresAtOrAbove", () => {
+    it("should only return failed results at or above the threshold", () => {
+      expect(
+        SeverityUtils.getFailuresAtOrAbove(results, "high").map(
+          (result) => result.setting,
+        ),
+      ).toEqual(["Disk Encryption"]);
+    });
+
+    it("should not count undetermined results as failures", () => {
+      expect(
+        SeverityUtils.getFailuresAtOrAbove(results, "critical").map(
+          (result) => result.setting,
+        ),
+      ).toEqual(["Disk Encryption"]);
+    });
+
+    it("should treat results without a severity as medium", () => {
+      expect(
+        SeverityUtils.getFailuresAtOrAbove(results, "medium").map(
+          (result) => result.setting,
+        ),
+      ).toEqual(["Disk Encryption", "Legacy Check"]);
+    });
+  });
+
+  describe("hasFailuresAtOrAbove", () => {
+    it("should ignore failures below the threshold", () => {
+      expect(SeverityUtils.hasFailuresAtOrAbove(results.slice(1), "high")).toBe(
+        false,
+      );
+      expect(SeverityUtils.hasFailuresAtOrAbove(results, "info")).toBe(true);
+    });
+  });
+
+  describe("countFailuresBySeverity", () => {
+    it("should count failed results per severity", () => {
+      expect(SeverityUtils.countFailuresBySeverity(results)).toEqual({
+        critical: 1,
+        high: 0,
+        medium: 1,
+        low: 1,
+        info: 0,
+      });
+    });
+  });
+});
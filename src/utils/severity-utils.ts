@@ -0,0 +1,99 @@
+import { SecurityCheckResult, Severity } from "../types";
+
+/**
+ * Severity levels ordered from most to least severe
+ */
+export const SEVERITY_LEVELS: Severity[] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+  "info",
+];
+
+/**
+ * Severity assumed for results that do not carry one
+ */
+export const DEFAULT_SEVERITY: Severity = "medium";
+
+/**
+ * Helpers for severity thresholds used by the CLI exit code and daemon alerts
+ */
+export class SeverityUtils {
+  static isValidSeverity(value: unknown): value is Severity {
+    return SEVERITY_LEVELS.includes(value as Severity);
+  }
+
+  /**
+   * Parse a user-supplied severity, throwing on unknown values
+   */
+  static parseSeverity(value: string): Severity {
+    const normalized = value.trim().toLowerCase();
+    if (!this.isValidSeverity(normalized)) {
+      throw new Error(
+        `Invalid severity: ${value}. Valid severities: ${SEVERITY_LEVELS.join(", ")}`,
+      );
+    }
+    return normalized;
+  }
+
+  /**
+   * Whether `severity` is at least as severe as `threshold`
+   */
+  static meetsThreshold(severity: Severity, threshold: Severity): boolean {
+    return (
+      SEVERITY_LEVELS.indexOf(severity) <= SEVERITY_LEVELS.indexOf(threshold)
+    );
+  }
+
+  /**
+   * Failed results at or above the threshold. Results with status "unknown"
+   * or "error" are not counted.
+   */
+  static getFailuresAtOrAbove(
+    results: SecurityCheckResult[],
+    threshold: Severity,
+  ): SecurityCheckResult[] {
+    return results.filter(
+      (result) =>
+        this.isFailure(result) &&
+        this.meetsThreshold(result.severity ?? DEFAULT_SEVERITY, threshold),
+    );
+  }
+
+  /**
+   * Whether any failure is at or above the threshold
+   */
+  static hasFailuresAtOrAbove(
+    results: SecurityCheckResult[],
+    threshold: Severity,
+  ): boolean {
+    return this.getFailuresAtOrAbove(results, threshold).length > 0;
+  }
+
+  /**
+   * Count failed results per severity
+   */
+  static countFailuresBySeverity(
+    results: SecurityCheckResult[],
+  ): Record<Severity, number> {
+    const counts = Object.fromEntries(
+      SEVERITY_LEVELS.map((level) => [level, 0]),
+    ) as Record<Severity, number>;
+
+    for (const result of results) {
+      if (this.isFailure(result)) {
+        counts[result.severity ?? DEFAULT_SEVERITY]++;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Results that could not be determined are not failures
+   */
+  private static isFailure(result: SecurityCheckResult): boolean {
+    return result.status ? result.status === "fail" : !result.passed;
+  }
+}
@@ -0,0 +1,192 @@
+import { EventEmitter } from "events";
+
+jest.mock("child_process", () => ({
+  spawn: jest.fn(),
+}));
+
+import { spawn } from "child_process";
+import {
+  PRIVILEGED_COMMANDS,
+  PrivilegedCommandError,
+  SudoSession,
+  SudoSessionEndedError,
+} from "./sudo-session";
+
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+interface SpawnCall {
+  args: string[];
+  input?: string;
+}
+
+/**
+ * Make spawn answer each `sudo` invocation with the exit code and output
+ * returned by `respond`, recording the arguments and stdin of every call
+ */
+function fakeSudo(
+  respond: (args: string[]) => {
+    code: number;
+    stdout?: string;
+    stderr?: string;
+  },
+): SpawnCall[] {
+  const calls: SpawnCall[] = [];
+  mockSpawn.mockImplementation(((file: string, args: string[]) => {
+    const call: SpawnCall = { args };
+    calls.push(call);
+    const child = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+      stdin: {
+        end: (input?: string) => {
+          call.input = input;
+          const { code, stdout, stderr } = respond(args);
+          setImmediate(() => {
+            if (stdout) child.stdout.emit("data", stdout);
+            if (stderr) child.stderr.emit("data", stderr);
+            child.emit("close", code);
+          });
+        },
+      },
+    });
+    expect(file).toBe("sudo");
+    return child;
+  }) as unknown as typeof spawn);
+  return calls;
+}
+
+describe("SudoSession", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should only allow the listed privileged commands", async () => {
+    expect(SudoSession.isAllowed(["iptables-save"])).toBe(true);
+    expect(SudoSession.isAllowed(["iptables", "-F"])).toBe(false);
+    expect(SudoSession.isAllowed(["iptables-save", ";", "id"])).toBe(false);
+    for (const command of PRIVILEGED_COMMANDS) {
+      expect(SudoSession.isAllowed([...command])).toBe(true);
+    }
+
+    await expect(
+      new SudoSession().run(["sh", "-c", "id"], "secret"),
+    ).rejects.toBeInstanceOf(PrivilegedCommandError);
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it("should pass the password on stdin once per session", async () => {
+    const calls = fakeSudo((args) => ({
+      code: 0,
+      stdout: args.includes("iptables-save") ? "*filter\n" : "",
+    }));
+    const session = new SudoSession();
+    const password = `pa$$"word'; rm -rf /`;
+
+    await expect(session.run(["iptables-save"], password)).resolves.toEqual({
+      stdout: "*filter\n",
+      stderr: "",
+    });
+    await session.run(["iptables-save"], password);
+    await session.end();
+
+    expect(calls).toEqual([
+      { args: ["-S", "-v", "-p", ""], input: `${password}\n` },
+      { args: ["-n", "--", "iptables-save"], input: undefined },
+      { args: ["-n", "--", "iptables-save"], input: undefined },
+      { args: ["-k"], input: undefined },
+    ]);
+  });
+
+  it("should not retry a wrong password within the session", async () => {
+    const calls = fakeSudo(() => ({
+      code: 1,
+      stderr: "sudo: 1 incorrect password attempt\n",
+    }));
+    const session = new SudoSession();
+
+    await expect(session.run(["iptables-save"], "wrong")).rejects.toThrow(
+      "Command failed: sudo -S -v -p ",
+    );
+    await expect(session.run(["sharing", "-l"], "wrong")).rejects.toMatchObject(
+      { code: 1 },
+    );
+    await session.end();
+
+    expect(calls.map((call) => call.args)).toEqual([["-S", "-v", "-p", ""]]);
+  });
+
+  it("should send the password with the command when sudo does not cache it", async () => {
+    const calls = fakeSudo((args) =>
+      args[0] === "-n"
+        ? { code: 1, stderr: "sudo: a password is required\n" }
+        : { code: 0, stdout: args.includes("-v") ? "" : "Remote Login: On\n" },
+    );
+
+    await expect(
+      new SudoSession().run(["systemsetup", "-getremotelogin"], "secret"),
+    ).resolves.toEqual({ stdout: "Remote Login: On\n", stderr: "" });
+    expect(calls[2]).toEqual({
+      args: ["-S", "-p", "", "--", "systemsetup", "-getremotelogin"],
+      input: "secret\n",
+    });
+  });
+
+  it("should never prompt without a password", async () => {
+    const calls = fakeSudo(() => ({
+      code: 1,
+      stderr: "sudo: a password is required\n",
+    }));
+    const session = new SudoSession();
+
+    await expect(session.run(["iptables-save"])).rejects.toMatchObject({
+      code: 1,
+      stderr: "sudo: a password is required\n",
+    });
+    await session.end();
+
+    expect(calls.map((call) => call.args)).toEqual([
+      ["-n", "--", "iptables-save"],
+    ]);
+  });
+
+  it("should refuse to run after end()", async () => {
+    const calls = fakeSudo(() => ({ code: 0 }));
+    const session = new SudoSession();
+
+    await session.run(["iptables-save"], "secret");
+    await session.end();
+    await expect(
+      session.run(["iptables-save"], "secret"),
+    ).rejects.toBeInstanceOf(SudoSessionEndedError);
+
+    expect(calls.map((call) => call.args)).toEqual([
+      ["-S", "-v", "-p", ""],
+      ["-n", "--", "iptables-save"],
+      ["-k"],
+    ]);
+  });
+
+  it("should not start commands once the signal aborted", async () => {
+    const calls = fakeSudo(() => ({ code: 0 }));
+    const abort = new AbortController();
+    abort.abort();
+
+    await expect(
+      new SudoSession().run(["iptables-save"], "secret", abort.signal),
+    ).rejects.toBeInstanceOf(SudoSessionEndedError);
+    expect(calls).toEqual([]);
+  });
+
+  it("should pass the signal on to sudo", async () => {
+    fakeSudo(() => ({ code: 0 }));
+    const abort = new AbortController();
+
+    await new SudoSession().run(["iptables-save"], undefined, abort.signal);
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      "sudo",
+      ["-n", "--", "iptables-save"],
+      expect.objectContaining({ signal: abort.signal }),
+    );
+  });
+});
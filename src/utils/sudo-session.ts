@@ -0,0 +1,287 @@
+import { spawn } from "child_process";
+import type { CommandError, CommandOutput } from "./command-runner";
+
+/**
+ * Linux accounts whose shadow password field is empty, by name only
+ */
+export const EMPTY_PASSWORD_LISTING: readonly string[] = [
+  "awk",
+  "-F:",
+  '$2==""{print $1}',
+  "/etc/shadow",
+];
+
+/**
+ * Linux sudoers rules, each line prefixed with its file
+ */
+export const SUDOERS_LISTING: readonly string[] = [
+  "grep",
+  "-rsH",
+  "^",
+  "/etc/sudoers",
+  "/etc/sudoers.d",
+];
+
+/**
+ * Linux GRUB superuser and password lines with the password hashes replaced
+ * by REDACTED; ${GRUB2_PASSWORD} references and empty passwords are kept for
+ * findGrubPasswordUsers to resolve. `-exec ... ;` keeps find's exit status at
+ * 0 when sed prints nothing.
+ */
+export const GRUB_PASSWORD_LISTING: readonly string[] = [
+  "find",
+  "/boot",
+  "-maxdepth",
+  "2",
+  "(",
+  "-name",
+  "grub.cfg",
+  "-o",
+  "-name",
+  "user.cfg",
+  ")",
+  "-exec",
+  "sed",
+  "-nE",
+  "-e",
+  "/^[[:space:]]*set[[:space:]]+superusers=/p",
+  "-e",
+  "/^[[:space:]]*password(_pbkdf2)?[[:space:]]+[^[:space:]]+[[:space:]]+(\\$\\{?[A-Za-z0-9_]+\\}?|\"\"|'')([[:space:]]|$)/p",
+  "-e",
+  "/^[[:space:]]*password(_pbkdf2)?[[:space:]]+[^[:space:]]+[[:space:]]+(\\$\\{?[A-Za-z0-9_]+\\}?|\"\"|'')([[:space:]]|$)/!s/^([[:space:]]*password(_pbkdf2)?[[:space:]]+[^[:space:]]+[[:space:]]+)[^[:space:]].*$/\\1REDACTED/p",
+  "-e",
+  "s/^[[:space:]]*GRUB2_PASSWORD=(\"[^\"]|'[^']|[^\"'[:space:]]).*$/GRUB2_PASSWORD=REDACTED/p",
+  "{}",
+  ";",
+];
+
+/**
+ * Linux modes and owners of /boot and the GRUB configs
+ */
+export const BOOT_FILE_LISTING: readonly string[] = [
+  "find",
+  "/boot",
+  "-maxdepth",
+  "2",
+  "(",
+  "-path",
+  "/boot",
+  "-o",
+  "-name",
+  "grub.cfg",
+  "-o",
+  "-name",
+  "user.cfg",
+  ")",
+  "-printf",
+  "%m %u %p\\n",
+];
+
+/**
+ * The only commands checkers may run through sudo, as exact argument lists
+ */
+export const PRIVILEGED_COMMANDS: readonly (readonly string[])[] = [
+  ["nft", "-j", "list", "ruleset"], // Linux nftables firewall rules
+  ["iptables-save"], // Linux legacy firewall rules
+  ["ip6tables-save"],
+  ["sharing", "-l"], // macOS file share points
+  ["launchctl", "print", "system/com.apple.smbd"], // macOS SMB daemon
+  ["launchctl", "print", "system/com.apple.screensharing"], // macOS screen sharing daemon
+  ["systemsetup", "-getremotelogin"], // macOS SSH setting
+  ["sshd", "-T"], // Linux effective SSH server configuration
+  ["ss", "-tulpn"], // Linux listening sockets with their processes
+  ["dmsetup", "table", "--target", "crypt"], // Linux dm-crypt ciphers (keys are masked)
+  EMPTY_PASSWORD_LISTING,
+  SUDOERS_LISTING,
+  ["usbguard", "get-parameter", "ImplicitPolicyTarget"], // Linux USBGuard default for unmatched devices
+  ["usbguard", "list-rules"],
+  ["auditctl", "-l"], // Linux loaded audit rules
+  GRUB_PASSWORD_LISTING,
+  BOOT_FILE_LISTING,
+];
+
+/**
+ * Privileged commands whose output is left out of recorded fixture bundles
+ */
+export const UNRECORDED_COMMANDS: readonly (readonly string[])[] = [
+  SUDOERS_LISTING, // Who may act as root
+];
+
+/**
+ * Thrown for sudo commands that are not in PRIVILEGED_COMMANDS
+ */
+export class PrivilegedCommandError extends Error {
+  constructor(public readonly args: string[]) {
+    super(`Command is not allowed to run with sudo: ${args.join(" ")}`);
+    this.name = "PrivilegedCommandError";
+  }
+}
+
+/**
+ * Thrown for sudo commands run after the session ended or after their
+ * check was aborted
+ */
+export class SudoSessionEndedError extends Error {
+  constructor(public readonly args: string[]) {
+    super(`Sudo session has ended, not running: ${args.join(" ")}`);
+    this.name = "SudoSessionEndedError";
+  }
+}
+
+/**
+ * Runs allowlisted commands through sudo without a shell. The password is
+ * written to sudo's stdin once to validate the credentials; later commands
+ * reuse sudo's cached credentials until end() drops them. An ended session
+ * runs nothing, so a check that outlives its audit cannot cache credentials
+ * again.
+ */
+export class SudoSession {
+  private authentication?: Promise<void>;
+  private ended = false;
+
+  /**
+   * Whether a command may run with sudo
+   */
+  static isAllowed(args: string[]): boolean {
+    return includesCommand(PRIVILEGED_COMMANDS, args);
+  }
+
+  /**
+   * Whether the output of a sudo command may be written to a fixture bundle
+   */
+  static isRecordable(args: string[]): boolean {
+    return !includesCommand(UNRECORDED_COMMANDS, args);
+  }
+
+  /**
+   * Run an allowlisted command with sudo. Without a password, only cached or
+   * passwordless (NOPASSWD) credentials are used; sudo never prompts.
+   */
+  async run(
+    args: string[],
+    password?: string,
+    signal?: AbortSignal,
+  ): Promise<CommandOutput> {
+    if (!SudoSession.isAllowed(args)) {
+      throw new PrivilegedCommandError(args);
+    }
+    if (this.ended || signal?.aborted) {
+      throw new SudoSessionEndedError(args);
+    }
+
+    if (!password) {
+      return spawnCommand("sudo", ["-n", "--", ...args], undefined, signal);
+    }
+
+    await this.authenticate(password);
+    if (this.ended || signal?.aborted) {
+      throw new SudoSessionEndedError(args);
+    }
+    try {
+      return await spawnCommand(
+        "sudo",
+        ["-n", "--", ...args],
+        undefined,
+        signal,
+      );
+    } catch (error) {
+      // sudoers may not cache credentials (timestamp_timeout=0)
+      if (!/password is required/.test((error as CommandError).stderr ?? "")) {
+        throw error;
+      }
+      return spawnCommand(
+        "sudo",
+        ["-S", "-p", "", "--", ...args],
+        `${password}\n`,
+        signal,
+      );
+    }
+  }
+
+  /**
+   * Drop the credentials cached by this session
+   */
+  async end(): Promise<void> {
+    this.ended = true;
+    const authentication = this.authentication;
+    this.authentication = undefined;
+    if (!authentication) {
+      return;
+    }
+
+    try {
+      await authentication;
+      await spawnCommand("sudo", ["-k"]);
+    } catch {
+      // Nothing was cached, or it expires on its own
+    }
+  }
+
+  /**
+   * Validate the password once per session. A wrong password is not retried,
+   * so one audit cannot lock the account.
+   */
+  private authenticate(password: string): Promise<void> {
+    if (!this.authentication) {
+      this.authentication = spawnCommand(
+        "sudo",
+        ["-S", "-v", "-p", ""],
+        `${password}\n`,
+      ).then(() => undefined);
+    }
+    return this.authentication;
+  }
+}
+
+/**
+ * Whether `args` is exactly one of `commands`
+ */
+function includesCommand(
+  commands: readonly (readonly string[])[],
+  args: string[],
+): boolean {
+  return commands.some(
+    (command) =>
+      command.length === args.length &&
+      command.every((arg, index) => arg === args[index]),
+  );
+}
+
+/**
+ * Run a program with an argument array, optionally writing to its stdin.
+ * The program is killed when `signal` aborts.
+ */
+function spawnCommand(
+  file: string,
+  args: string[],
+  input?: string,
+  signal?: AbortSignal,
+): Promise<CommandOutput> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, {
+      stdio: ["pipe", "pipe", "pipe"],
+      ...(signal && { signal }),
+    });
+    let stdout = "";
+    let stderr = "";
+
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", (error: Error) =>
+      reject(Object.assign(error, { stdout, stderr })),
+    );
+    child.on("close", (code: number | null) => {
+      if (code === 0) {
+        resolve({ stdout, stderr });
+        return;
+      }
+      const error: CommandError = Object.assign(
+        new Error(`Command failed: ${[file, ...args].join(" ")}\n${stderr}`),
+        { code: code ?? 1, stdout, stderr },
+      );
+      reject(error);
+    });
+
+    child.stdin.end(input);
+  });
+}
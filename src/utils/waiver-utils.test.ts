@@ -0,0 +1,183 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { WAIVERS_FILENAME, WaiverUtils } from "./waiver-utils";
+import { SecurityReport, Waiver } from "../types";
+
+describe("WaiverUtils", () => {
+  const now = new Date("2025-06-01T12:00:00.000Z");
+
+  const sshWaiver: Waiver = {
+    checkId: "remote-login",
+    hostname: "dev-box",
+    justification: "Remote development over SSH",
+    approver: "security@example.com",
+    expires: "2025-12-31",
+  };
+
+  const report: SecurityReport = {
+    timestamp: now.toISOString(),
+    overallPassed: false,
+    results: [
+      {
+        setting: "Remote Login",
+        expected: false,
+        actual: true,
+        passed: false,
+        message: "SSH server is running",
+        checkId: "remote-login",
+        status: "fail",
+      },
+      {
+        setting: "Firewall",
+        expected: true,
+        actual: true,
+        passed: true,
+        message: "Firewall is enabled",
+        checkId: "firewall",
+        status: "pass",
+      },
+    ],
+  };
+
+  describe("applyWaivers", () => {
+    it("should waive failures covered by an active waiver", () => {
+      const waived = WaiverUtils.applyWaivers(
+        report,
+        [sshWaiver],
+        { hostname: "DEV-BOX" },
+        now,
+      );
+
+      expect(waived.results[0]).toMatchObject({
+        status: "waived",
+        passed: false,
+        waiver: sshWaiver,
+      });
+      expect(waived.results[1]).toBe(report.results[1]);
+      expect(waived.overallPassed).toBe(true);
+      expect(waived.waivers).toEqual({ active: [sshWaiver], expired: [] });
+    });
+
+    it("should fail again once the waiver has expired", () => {
+      const waived = WaiverUtils.applyWaivers(
+        report,
+        [sshWaiver],
+        { hostname: "dev-box" },
+        new Date("2026-01-01T00:00:00.000Z"),
+      );
+
+      expect(waived.results[0].status).toBe("fail");
+      expect(waived.results[0].message).toContain(
+        "waiver expired on 2025-12-31",
+      );
+      expect(waived.overallPassed).toBe(false);
+      expect(waived.waivers).toEqual({ active: [], expired: [sshWaiver] });
+    });
+
+    it("should keep date-only waivers valid through their last day", () => {
+      expect(
+        WaiverUtils.isExpired(sshWaiver, new Date("2025-12-31T23:00:00Z")),
+      ).toBe(false);
+    });
+
+    it("should ignore waivers for other machines and users", () => {
+      const otherUser: Waiver = {
+        ...sshWaiver,
+        hostname: undefined,
+        userId: "alice",
+      };
+      const waived = WaiverUtils.applyWaivers(
+        report,
+        [sshWaiver, otherUser],
+        { hostname: "build-server", userId: "bob" },
+        now,
+      );
+
+      expect(waived.results[0].status).toBe("fail");
+      expect(waived.waivers).toEqual({ active: [], expired: [] });
+    });
+
+    it("should cover sub-results of the waived check", () => {
+      expect(
+        WaiverUtils.coversResult(
+          { ...sshWaiver, checkId: "firewall" },
+          { ...report.results[1], checkId: "firewall.stealth-mode" },
+        ),
+      ).toBe(true);
+      expect(
+        WaiverUtils.coversResult(
+          { ...sshWaiver, checkId: "fire" },
+          { ...report.results[1], checkId: "firewall" },
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("loadWaivers", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "eai-waivers-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should look for waivers next to the security config", () => {
+      expect(
+        WaiverUtils.getWaiversPath(path.join(tempDir, "security-config.json")),
+      ).toBe(path.join(tempDir, WAIVERS_FILENAME));
+    });
+
+    it("should return no waivers when the file does not exist", () => {
+      expect(
+        WaiverUtils.loadWaivers(path.join(tempDir, WAIVERS_FILENAME)),
+      ).toEqual([]);
+    });
+
+    it("should load valid waivers", () => {
+      const filePath = path.join(tempDir, WAIVERS_FILENAME);
+      fs.writeFileSync(filePath, JSON.stringify({ waivers: [sshWaiver] }));
+
+      expect(WaiverUtils.loadWaivers(filePath)).toEqual([sshWaiver]);
+    });
+
+    it("should reject waivers without a justification", () => {
+      const filePath = path.join(tempDir, WAIVERS_FILENAME);
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({ waivers: [{ ...sshWaiver, justification: "" }] }),
+      );
+
+      expect(() => WaiverUtils.loadWaivers(filePath)).toThrow(
+        'Waiver #1 is missing "justification"',
+      );
+    });
+
+    it("should reject waivers that match every machine", () => {
+      const filePath = path.join(tempDir, WAIVERS_FILENAME);
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({ waivers: [{ ...sshWaiver, hostname: undefined }] }),
+      );
+
+      expect(() => WaiverUtils.loadWaivers(filePath)).toThrow(
+        "must match a hostname or userId",
+      );
+    });
+
+    it("should reject invalid expiry dates", () => {
+      const filePath = path.join(tempDir, WAIVERS_FILENAME);
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({ waivers: [{ ...sshWaiver, expires: "someday" }] }),
+      );
+
+      expect(() => WaiverUtils.loadWaivers(filePath)).toThrow(
+        "invalid expiry date: someday",
+      );
+    });
+  });
+});
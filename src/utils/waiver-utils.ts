@@ -0,0 +1,190 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SecurityCheckResult, SecurityReport, Waiver } from "../types";
+import { ConfigManager } from "../config/config-manager";
+import { ResultStatusUtils } from "./result-status";
+
+/**
+ * File name of the waivers file, kept next to the security configuration
+ */
+export const WAIVERS_FILENAME = "waivers.json";
+
+/**
+ * Machine and user a waiver has to match
+ */
+export interface WaiverIdentity {
+  hostname?: string;
+  userId?: string;
+}
+
+/**
+ * Loads waivers and applies them to audit results
+ */
+export class WaiverUtils {
+  /**
+   * Waivers file next to the given security config, or in the config directory
+   */
+  static getWaiversPath(configPath?: string): string {
+    const directory = configPath
+      ? path.dirname(path.resolve(configPath))
+      : ConfigManager.getCentralizedConfigDirectory();
+    return path.join(directory, WAIVERS_FILENAME);
+  }
+
+  /**
+   * Load and validate waivers. A missing file means no waivers.
+   */
+  static loadWaivers(filePath: string): Waiver[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error) {
+      throw new Error(`Failed to load waivers from ${filePath}: ${error}`);
+    }
+
+    const waivers = (parsed as { waivers?: unknown })?.waivers;
+    if (!Array.isArray(waivers)) {
+      throw new Error(
+        `Waivers file ${filePath} must contain a "waivers" array`,
+      );
+    }
+
+    waivers.forEach((waiver, index) => this.assertValidWaiver(waiver, index));
+    return waivers as Waiver[];
+  }
+
+  /**
+   * Whether the waiver has passed its expiry date
+   */
+  static isExpired(waiver: Waiver, now: Date = new Date()): boolean {
+    return now.getTime() > this.getExpiryTime(waiver.expires);
+  }
+
+  /**
+   * Whether the waiver applies to this machine and user
+   */
+  static appliesTo(waiver: Waiver, identity: WaiverIdentity): boolean {
+    if (
+      waiver.hostname &&
+      waiver.hostname.toLowerCase() !== identity.hostname?.toLowerCase()
+    ) {
+      return false;
+    }
+    if (waiver.userId && waiver.userId !== identity.userId) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Whether the waiver covers the result's check id or one of its sub-results
+   */
+  static coversResult(waiver: Waiver, result: SecurityCheckResult): boolean {
+    return (
+      result.checkId !== undefined &&
+      (result.checkId === waiver.checkId ||
+        result.checkId.startsWith(`${waiver.checkId}.`))
+    );
+  }
+
+  /**
+   * Mark failures covered by an active waiver as "waived" and list the
+   * active and expired waivers for this machine in the report.
+   * Failures covered only by expired waivers stay failed.
+   */
+  static applyWaivers(
+    report: SecurityReport,
+    waivers: Waiver[],
+    identity: WaiverIdentity = {},
+    now: Date = new Date(),
+  ): SecurityReport {
+    const resolvedIdentity = {
+      hostname: identity.hostname ?? os.hostname(),
+      userId: identity.userId,
+    };
+    const applicable = waivers.filter((waiver) =>
+      this.appliesTo(waiver, resolvedIdentity),
+    );
+    const active = applicable.filter((waiver) => !this.isExpired(waiver, now));
+    const expired = applicable.filter((waiver) => this.isExpired(waiver, now));
+
+    const results = report.results.map((result) => {
+      if (ResultStatusUtils.getStatus(result) !== "fail") {
+        return result;
+      }
+
+      const waiver = active.find((candidate) =>
+        this.coversResult(candidate, result),
+      );
+      if (waiver) {
+        return {
+          ...result,
+          passed: false,
+          status: "waived" as const,
+          message: `${result.message} (waived until ${waiver.expires}: ${waiver.justification})`,
+          waiver,
+        };
+      }
+
+      const expiredWaiver = expired.find((candidate) =>
+        this.coversResult(candidate, result),
+      );
+      return expiredWaiver
+        ? {
+            ...result,
+            message: `${result.message} (waiver expired on ${expiredWaiver.expires})`,
+          }
+        : result;
+    });
+
+    return {
+      ...report,
+      overallPassed: ResultStatusUtils.getOverallStatus(results) === "pass",
+      results,
+      waivers: { active, expired },
+    };
+  }
+
+  /**
+   * Date-only expiry values are valid through the end of that day (UTC)
+   */
+  private static getExpiryTime(expires: string): number {
+    return /^\d{4}-\d{2}-\d{2}$/.test(expires)
+      ? Date.parse(`${expires}T23:59:59.999Z`)
+      : Date.parse(expires);
+  }
+
+  private static assertValidWaiver(waiver: unknown, index: number): void {
+    const label = `Waiver #${index + 1}`;
+    if (typeof waiver !== "object" || waiver === null) {
+      throw new Error(`${label} must be an object`);
+    }
+
+    const candidate = waiver as Partial<Waiver>;
+    for (const field of [
+      "checkId",
+      "justification",
+      "approver",
+      "expires",
+    ] as const) {
+      if (typeof candidate[field] !== "string" || !candidate[field]) {
+        throw new Error(`${label} is missing "${field}"`);
+      }
+    }
+    if (!candidate.hostname && !candidate.userId) {
+      throw new Error(
+        `${label} (${candidate.checkId}) must match a hostname or userId`,
+      );
+    }
+    if (isNaN(this.getExpiryTime(candidate.expires as string))) {
+      throw new Error(
+        `${label} (${candidate.checkId}) has an invalid expiry date: ${candidate.expires}`,
+      );
+    }
+  }
+}